@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createCollisionRecorder, replayCollisionRecording, type CollisionRecording } from './collision-recorder'
+import {
+  createStickyCollision,
+  weightedVerticalCollision,
+  scoreCollisionCandidates,
+  type Rect,
+  type SnapshotRectsRef,
+} from './collision'
+
+function makeRect(top: number, left: number, width: number, height: number): Rect {
+  return { top, left, width, height, right: left + width, bottom: top + height }
+}
+
+const candidates = [
+  { id: 'before-1', rect: makeRect(0, 0, 100, 4) },
+  { id: 'before-2', rect: makeRect(40, 0, 100, 4) },
+  { id: 'end-c', rect: makeRect(80, 0, 100, 4) },
+]
+
+describe('createCollisionRecorder', () => {
+  it('records calls only while recording', () => {
+    const recorder = createCollisionRecorder()
+    const detector = recorder.wrap(weightedVerticalCollision)
+
+    detector(candidates, makeRect(0, 10, 1, 1))
+    expect(recorder.getFrames()).toHaveLength(0)
+
+    recorder.start()
+    const results = detector(candidates, makeRect(42, 10, 1, 1))
+    recorder.stop()
+    detector(candidates, makeRect(80, 10, 1, 1))
+
+    expect(results[0].id).toBe('before-2')
+    expect(recorder.getFrames()).toHaveLength(1)
+    expect(recorder.getFrames()[0]).toMatchObject({
+      pointer: makeRect(42, 10, 1, 1),
+      candidates,
+      results: [{ id: 'before-2' }],
+    })
+  })
+
+  it('records snapshotted rects instead of live ones, with every score', () => {
+    const snapshotRef: SnapshotRectsRef = { current: new Map([['end-c', makeRect(200, 0, 100, 4)]]) }
+    const recorder = createCollisionRecorder()
+    const detector = recorder.wrap(createStickyCollision(15, snapshotRef), { snapshotRef, score: scoreCollisionCandidates })
+
+    recorder.start()
+    detector(candidates, makeRect(0, 10, 1, 1))
+
+    const [frame] = recorder.getFrames()
+    expect(frame.candidates.find(c => c.id === 'end-c')!.rect).toEqual(makeRect(200, 0, 100, 4))
+    expect(frame.scores!.map(s => s.id)).toEqual(['before-1', 'before-2', 'end-c'])
+  })
+
+  it('drops the oldest frames past maxFrames and emits events', () => {
+    const recorder = createCollisionRecorder({ maxFrames: 2 })
+    const onFrame = vi.fn()
+    const onChange = vi.fn()
+    recorder.on('frame', onFrame)
+    recorder.on('change', onChange)
+    const detector = recorder.wrap(weightedVerticalCollision)
+
+    recorder.start()
+    for (const top of [0, 40, 80]) detector(candidates, makeRect(top, 10, 1, 1))
+
+    expect(recorder.getFrames().map(f => f.results[0].id)).toEqual(['before-2', 'end-c'])
+    expect(onFrame).toHaveBeenCalledTimes(3)
+    expect(onChange).toHaveBeenCalledTimes(1)
+
+    recorder.clear()
+    expect(recorder.getFrames()).toEqual([])
+    expect(recorder.isRecording()).toBe(true)
+  })
+})
+
+describe('replayCollisionRecording', () => {
+  it('replays an exported drag against another detector', () => {
+    const recorder = createCollisionRecorder()
+    const detector = recorder.wrap(createStickyCollision(15))
+    recorder.start()
+    for (const top of [0, 20, 45, 70, 82]) detector(candidates, makeRect(top, 10, 1, 1))
+    recorder.stop()
+
+    const recording: CollisionRecording = JSON.parse(JSON.stringify(recorder.toJSON()))
+    const recorded = recording.frames.map(frame => frame.results[0].id)
+
+    expect(replayCollisionRecording(recording, createStickyCollision(15))).toEqual(recorded)
+    // Without hysteresis the nearest zone wins at once
+    expect(replayCollisionRecording(recording, weightedVerticalCollision)).toEqual([
+      'before-1', 'before-1', 'before-2', 'end-c', 'end-c',
+    ])
+  })
+
+  it('rejects recordings of an unknown version', () => {
+    const recording = { version: 2, frames: [] } as unknown as CollisionRecording
+    expect(() => replayCollisionRecording(recording, weightedVerticalCollision)).toThrow(/version/)
+  })
+})
@@ -0,0 +1,159 @@
+import type { CollisionCandidate, CollisionResult, CoreCollisionDetection, Rect, SnapshotRectsRef } from './collision'
+import { EventEmitter } from './event-emitter'
+
+/** One call to a collision detector */
+export interface CollisionFrame {
+  /** Time since recording started, in ms */
+  time: number
+  /** Pointer rect the detector was called with */
+  pointer: Rect
+  /** Candidates with the rects the detector scored, snapshotted ones included */
+  candidates: CollisionCandidate[]
+  /** What the detector returned. The first result is the zone it picked */
+  results: CollisionResult[]
+  /** Every candidate's score, best first, when the detector was wrapped with `score` */
+  scores?: CollisionResult[]
+}
+
+/** Recorded frames in a form that survives `JSON.stringify` */
+export interface CollisionRecording {
+  version: 1
+  frames: CollisionFrame[]
+}
+
+export interface CollisionRecorderOptions {
+  /** Most frames kept; the oldest are dropped first (default: 5000) */
+  maxFrames?: number
+}
+
+export interface CollisionRecorderWrapOptions {
+  /** The detector's snapshotted rects, so frames hold the rects it actually scored */
+  snapshotRef?: SnapshotRectsRef
+  /**
+   * Scores all candidates for the frame's `scores`, e.g.
+   * `scoreCollisionCandidates`. Detectors only return the zones they pick
+   */
+  score?: (candidates: CollisionCandidate[], pointerRect: Rect) => CollisionResult[]
+}
+
+export interface CollisionRecorderEvents {
+  /** A detector call was recorded */
+  frame: (frame: CollisionFrame) => void
+  /** Recording started or stopped, or the frames were cleared */
+  change: () => void
+}
+
+export interface CollisionRecorder {
+  /** Detector that runs `detector` and records each call while recording */
+  wrap(detector: CoreCollisionDetection, options?: CollisionRecorderWrapOptions): CoreCollisionDetection
+  /** Clear the frames and start recording */
+  start(): void
+  stop(): void
+  isRecording(): boolean
+  getFrames(): readonly CollisionFrame[]
+  clear(): void
+  /** The frames as a recording, ready for `JSON.stringify` and `replayCollisionRecording` */
+  toJSON(): CollisionRecording
+  on: EventEmitter<CollisionRecorderEvents>['on']
+  off: EventEmitter<CollisionRecorderEvents>['off']
+}
+
+const copyRect = ({ top, left, width, height, right, bottom }: Rect): Rect =>
+  ({ top, left, width, height, right, bottom })
+
+/**
+ * Record the pointer path and candidate sets a collision detector sees, so a
+ * drag that picks the wrong zone can be inspected frame by frame, exported
+ * as JSON and replayed in a unit test.
+ *
+ * @example
+ * ```ts
+ * const recorder = createCollisionRecorder()
+ * const collision = recorder.wrap(createStickyCollision(20, snapshotRef), { snapshotRef, score: scoreCollisionCandidates })
+ * recorder.start()
+ * // ...drag...
+ * recorder.stop()
+ * const json = JSON.stringify(recorder.toJSON())
+ * ```
+ */
+export function createCollisionRecorder(options: CollisionRecorderOptions = {}): CollisionRecorder {
+  const { maxFrames = 5000 } = options
+
+  const emitter = new EventEmitter<CollisionRecorderEvents>()
+  let frames: CollisionFrame[] = []
+  let recording = false
+  let startedAt = 0
+
+  function record(frame: CollisionFrame) {
+    frames.push(frame)
+    if (frames.length > maxFrames) frames.splice(0, frames.length - maxFrames)
+    emitter.emit('frame', frame)
+  }
+
+  return {
+    wrap: (detector, { snapshotRef, score } = {}) => (candidates, pointerRect) => {
+      const results = detector(candidates, pointerRect)
+      if (recording) {
+        const snapshot = snapshotRef?.current
+        const scored = candidates.map(({ id, rect }) => ({ id, rect: copyRect(snapshot?.get(id) ?? rect) }))
+        const pointer = copyRect(pointerRect)
+        const frame: CollisionFrame = {
+          time: Date.now() - startedAt,
+          pointer,
+          candidates: scored,
+          results: results.map(result => ({ ...result })),
+        }
+        if (score) frame.scores = score(scored, pointer)
+        record(frame)
+      }
+      return results
+    },
+
+    start: () => {
+      frames = []
+      recording = true
+      startedAt = Date.now()
+      emitter.emit('change')
+    },
+
+    stop: () => {
+      if (!recording) return
+      recording = false
+      emitter.emit('change')
+    },
+
+    isRecording: () => recording,
+    getFrames: () => frames,
+
+    clear: () => {
+      frames = []
+      emitter.emit('change')
+    },
+
+    toJSON: () => ({ version: 1, frames: frames.map(frame => ({ ...frame })) }),
+    on: emitter.on.bind(emitter),
+    off: emitter.off.bind(emitter),
+  }
+}
+
+/**
+ * Run a detector over every frame of a recording, in order, and return the
+ * zone it picks for each (null when it picks none). Stateful detectors such as
+ * `createStickyCollision` see the frames as one drag, so pass a fresh one.
+ *
+ * @example
+ * ```ts
+ * const recording: CollisionRecording = JSON.parse(readFileSync('drag.json', 'utf8'))
+ * const picked = replayCollisionRecording(recording, createStickyCollision(20))
+ * expect(picked.at(-1)).toBe('after-2')
+ * ```
+ */
+export function replayCollisionRecording(
+  recording: CollisionRecording,
+  detector: CoreCollisionDetection
+): (string | null)[] {
+  if (recording.version !== 1) {
+    throw new Error(`Unsupported collision recording version: ${String(recording.version)}`)
+  }
+  return recording.frames.map(frame => detector(frame.candidates, frame.pointer)[0]?.id ?? null)
+}
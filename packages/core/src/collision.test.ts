@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest'
-import { weightedVerticalCollision, closestCenterCollision, createStickyCollision } from './collision'
+import {
+  weightedVerticalCollision,
+  horizontalCollision,
+  gridCollision,
+  closestCenterCollision,
+  createStickyCollision,
+  createOffsetDepthCollision,
+  scoreCollisionCandidates,
+} from './collision'
 import type { CollisionCandidate, Rect, SnapshotRectsRef } from './collision'
 
 function createCandidate(
@@ -178,6 +186,52 @@ describe('closestCenterCollision', () => {
   })
 })
 
+describe('scoreCollisionCandidates', () => {
+  it('scores every candidate, best first, with the winner weightedVerticalCollision picks', () => {
+    const candidates = [
+      createCandidate('far', makeRect(100, 0, 100, 4)),
+      createCandidate('near', makeRect(40, 0, 100, 4)),
+      createCandidate('mid', makeRect(70, 0, 100, 4)),
+    ]
+    const pointer = makeRect(45, 0, 0, 0)
+    const scores = scoreCollisionCandidates(candidates, pointer)
+
+    expect(scores.map(s => s.id)).toEqual(['near', 'mid', 'far'])
+    expect(scores[0]).toEqual(weightedVerticalCollision(candidates, pointer)[0])
+  })
+})
+
+describe('horizontalCollision', () => {
+  it('returns the zone with the nearest left or right edge', () => {
+    // Full-height bars between kanban columns
+    const candidates = [
+      createCandidate('before-c1', makeRect(0, 0, 4, 300)),
+      createCandidate('before-c2', makeRect(0, 110, 4, 300)),
+      createCandidate('end-board', makeRect(0, 230, 4, 300)),
+    ]
+
+    expect(horizontalCollision(candidates, makeRect(150, 100, 1, 1))[0].id).toBe('before-c2')
+    expect(horizontalCollision(candidates, makeRect(150, 200, 1, 1))[0].id).toBe('end-board')
+  })
+})
+
+describe('gridCollision', () => {
+  it('prefers zones in the pointer row over nearer zones in other rows', () => {
+    const candidates = [
+      createCandidate('before-a', makeRect(0, 0, 4, 50)),
+      createCandidate('before-b', makeRect(0, 60, 4, 50)),
+      createCandidate('before-c', makeRect(0, 120, 4, 50)),
+      createCandidate('before-d', makeRect(60, 0, 4, 50)),
+      createCandidate('end-grid', makeRect(60, 60, 4, 50)),
+    ]
+    // Right of the last card in the second row, just below `before-c`
+    const pointer = makeRect(66, 118, 0, 0)
+
+    expect(gridCollision(candidates, pointer)[0].id).toBe('end-grid')
+    expect(horizontalCollision(candidates, pointer)[0].id).toBe('before-c')
+  })
+})
+
 describe('createStickyCollision', () => {
   it('returns the closest container on first call', () => {
     const sticky = createStickyCollision(15)
@@ -479,3 +533,83 @@ describe('createStickyCollision with snapshotted rects', () => {
     expect(result2[0].id).toBe('end-container')
   })
 })
+
+describe('createStickyCollision with layouts', () => {
+  // A card zone inside the first kanban column and the bar before the second column
+  const candidates = [
+    createCandidate('after-card', makeRect(100, 10, 80, 4)),
+    createCandidate('before-c2', makeRect(0, 110, 4, 300)),
+  ]
+  const getLayout = (zoneId: string) => zoneId === 'before-c2' ? 'horizontal' as const : 'vertical' as const
+
+  it('scores each zone along the axis of its list', () => {
+    const sticky = createStickyCollision(15, undefined, getLayout)
+    expect(sticky(candidates, makeRect(105, 112, 0, 0))[0].id).toBe('before-c2')
+
+    sticky.reset()
+    expect(sticky(candidates, makeRect(105, 50, 0, 0))[0].id).toBe('after-card')
+  })
+
+  it('treats every zone as vertical without a layout', () => {
+    const sticky = createStickyCollision(15)
+    expect(sticky(candidates, makeRect(105, 112, 0, 0))[0].id).toBe('after-card')
+  })
+})
+
+describe('createOffsetDepthCollision', () => {
+  // Slot below a nested item: end zones of two containers and the root after-zone
+  const candidates = [
+    createCandidate('after-1', makeRect(0, 48, 252, 4)),
+    createCandidate('end-inner', makeRect(40, 82, 218, 4)),
+    createCandidate('end-outer', makeRect(46, 41, 259, 4)),
+    createCandidate('after-outer', makeRect(52, 0, 300, 4)),
+    createCandidate('root-end', makeRect(100, 0, 300, 4)),
+  ]
+  const depths: Record<string, number> = { 'after-1': 3, 'end-inner': 3, 'end-outer': 2, 'after-outer': 1, 'root-end': 1 }
+  const getZoneDepth = (id: string) => depths[id]
+  const pointerAt = (x: number, y: number) => makeRect(y - 5, x - 5, 10, 10)
+
+  it('picks the slot vertically and the level from the horizontal offset', () => {
+    const detector = createOffsetDepthCollision({ indentation: 24 })
+    detector.setOrigin({ x: 100, depth: 3, getZoneDepth })
+
+    expect(detector(candidates, pointerAt(100, 44))[0].id).toBe('end-inner')
+    expect(detector(candidates, pointerAt(76, 44))[0].id).toBe('end-outer')
+    expect(detector(candidates, pointerAt(40, 44))[0].id).toBe('after-outer')
+    // Dragging further left than the slot allows stays at its shallowest level
+    expect(detector(candidates, pointerAt(-100, 44))[0].id).toBe('after-outer')
+    expect(detector(candidates, pointerAt(100, 4))[0].id).toBe('after-1')
+  })
+
+  it('takes the origin x from the first detection when it is not given', () => {
+    const detector = createOffsetDepthCollision({ indentation: 24 })
+    detector.setOrigin({ depth: 3, getZoneDepth })
+
+    expect(detector(candidates, pointerAt(300, 4))[0].id).toBe('after-1')
+    expect(detector(candidates, pointerAt(276, 44))[0].id).toBe('end-outer')
+  })
+
+  it('skips levels deeper than the origin allows', () => {
+    const detector = createOffsetDepthCollision({ indentation: 24 })
+    detector.setOrigin({ x: 100, depth: 3, maxDepth: 2, getZoneDepth })
+
+    expect(detector(candidates, pointerAt(100, 44))[0].id).toBe('end-outer')
+  })
+
+  it('picks the zone nearest the pointer without an origin', () => {
+    const detector = createOffsetDepthCollision()
+    detector.setOrigin({ x: 100, depth: 3, getZoneDepth })
+    detector.reset()
+
+    expect(detector(candidates, pointerAt(2, 44))[0].id).toBe('after-outer')
+    expect(detector(candidates, pointerAt(80, 44))[0].id).toBe('end-inner')
+  })
+
+  it('reads snapshotted rects', () => {
+    const snapshotRef: SnapshotRectsRef = { current: new Map([['root-end', makeRect(300, 0, 300, 4)]]) }
+    const detector = createOffsetDepthCollision({}, snapshotRef)
+
+    expect(detector(candidates, pointerAt(0, 110)).map(r => r.id)).toEqual(['after-outer'])
+    expect(detector(candidates, pointerAt(0, 302))[0]).toEqual({ id: 'root-end', value: 0, left: 0 })
+  })
+})
@@ -3,6 +3,8 @@
  * Replaces direct dependency on @dnd-kit/core collision types.
  */
 
+import type { BlockLayout } from './utils/layout'
+
 export interface Rect {
   top: number
   left: number
@@ -27,9 +29,59 @@ export type CoreCollisionDetection = (candidates: CollisionCandidate[], pointerR
 
 export type SnapshotRectsRef = { current: Map<string, Rect> | null }
 
+/** Layout of the list each zone sits in, e.g. `id => getZoneLayout(index, layouts, id)` */
+export type GetZoneLayout = (zoneId: string) => BlockLayout
+
+/** Distance from the pointer to the nearer of two edges along one axis */
+const edgeDistance = (pointer: number, start: number, end: number) =>
+  Math.min(Math.abs(pointer - start), Math.abs(pointer - end))
+
+/**
+ * Cross-axis score: prefer zones whose start edge matches the pointer when the
+ * pointer is within the zone, and penalize zones it is outside of.
+ */
+function crossScore(pointer: number, start: number, end: number, alignFactor: number, outsideFactor = 2): number {
+  if (pointer >= start && pointer <= end) return Math.abs(pointer - start) * alignFactor
+  return (pointer < start ? start - pointer : pointer - end) * outsideFactor
+}
+
+/**
+ * Score one zone of a vertical list: distance to its nearest top/bottom edge,
+ * with a bias for zones below the pointer and horizontal scoring that
+ * prefers zones whose indentation matches the pointer.
+ */
+function scoreVerticalZone(rect: Rect, pointerX: number, pointerY: number): number {
+  // Apply small bias to prefer bottom drop zones
+  const bias = pointerY > rect.top + rect.height / 2 ? -5 : 0
+  return edgeDistance(pointerY, rect.top, rect.bottom) + bias + crossScore(pointerX, rect.left, rect.right, 0.3)
+}
+
+/** `scoreVerticalZone` with the axes swapped, for zones between side-by-side children */
+function scoreHorizontalZone(rect: Rect, pointerX: number, pointerY: number): number {
+  const bias = pointerX > rect.left + rect.width / 2 ? -5 : 0
+  return edgeDistance(pointerX, rect.left, rect.right) + bias + crossScore(pointerY, rect.top, rect.bottom, 0.3)
+}
+
+/**
+ * Score one zone of a wrapping grid: zones in the pointer's row have no
+ * cross-axis cost and zones in other rows a steep one, so the row comes
+ * first and the nearest side edge within it second.
+ */
+function scoreGridZone(rect: Rect, pointerX: number, pointerY: number): number {
+  const bias = pointerX > rect.left + rect.width / 2 ? -5 : 0
+  return edgeDistance(pointerX, rect.left, rect.right) + bias + crossScore(pointerY, rect.top, rect.bottom, 0, 4)
+}
+
+const zoneScorers: Record<BlockLayout, (rect: Rect, pointerX: number, pointerY: number) => number> = {
+  vertical: scoreVerticalZone,
+  horizontal: scoreHorizontalZone,
+  grid: scoreGridZone,
+}
+
 /**
  * Compute collision scores for drop zones.
- * Considers both vertical distance and horizontal containment.
+ * Each zone is scored for the layout of the list it sits in (vertical when
+ * `getLayout` is not given).
  *
  * When snapshotRects is provided, uses snapshotted rects instead of candidate rects.
  * This prevents feedback loops caused by in-flow ghost previews shifting zone positions.
@@ -37,7 +89,8 @@ export type SnapshotRectsRef = { current: Map<string, Rect> | null }
 function computeCollisionScores(
   candidates: CollisionCandidate[],
   pointerRect: Rect,
-  snapshotRects?: Map<string, Rect> | null
+  snapshotRects?: Map<string, Rect> | null,
+  getLayout?: GetZoneLayout
 ): CollisionResult[] {
   const pointerX = pointerRect.left + pointerRect.width / 2
   const pointerY = pointerRect.top + pointerRect.height / 2
@@ -45,33 +98,11 @@ function computeCollisionScores(
   const results: CollisionResult[] = candidates
     .map((candidate) => {
       const rect = snapshotRects?.get(candidate.id) ?? candidate.rect
-
-      const distanceToTop = Math.abs(pointerY - rect.top)
-      const distanceToBottom = Math.abs(pointerY - rect.bottom)
-
-      // Use nearest edge distance
-      const edgeDistance = Math.min(distanceToTop, distanceToBottom)
-
-      // Apply small bias to prefer bottom drop zones
-      const isBelowCenter = pointerY > rect.top + rect.height / 2
-      const bias = isBelowCenter ? -5 : 0
-
-      // Horizontal scoring: prefer zones whose indentation matches the pointer.
-      const isWithinX = pointerX >= rect.left && pointerX <= rect.right
-
-      let horizontalScore = 0
-      if (isWithinX) {
-        horizontalScore = Math.abs(pointerX - rect.left) * 0.3
-      } else {
-        const distanceToZone = pointerX < rect.left
-          ? rect.left - pointerX
-          : pointerX - rect.right
-        horizontalScore = distanceToZone * 2
-      }
+      const score = zoneScorers[getLayout?.(candidate.id) ?? 'vertical']
 
       return {
         id: candidate.id,
-        value: edgeDistance + bias + horizontalScore,
+        value: score(rect, pointerX, pointerY),
         left: rect.left,
       }
     })
@@ -82,6 +113,19 @@ function computeCollisionScores(
   return results
 }
 
+/**
+ * Every candidate's score as `weightedVerticalCollision` and
+ * `createStickyCollision` compute it, lowest (best) first. Shows why a zone
+ * won, e.g. in a collision inspector.
+ */
+export function scoreCollisionCandidates(
+  candidates: CollisionCandidate[],
+  pointerRect: Rect,
+  getLayout?: GetZoneLayout
+): CollisionResult[] {
+  return computeCollisionScores(candidates, pointerRect, null, getLayout)
+}
+
 /**
  * Custom collision detection that scores drop zones by distance to nearest edge.
  * Uses edge-distance scoring with a bottom bias for more natural drag behavior.
@@ -96,6 +140,25 @@ export const weightedVerticalCollision: CoreCollisionDetection = (candidates, po
   return results.slice(0, 1)
 }
 
+/**
+ * `weightedVerticalCollision` for a horizontal list, e.g. kanban columns:
+ * scores zones by distance to their nearest left/right edge, with a bias for
+ * zones right of the pointer.
+ */
+export const horizontalCollision: CoreCollisionDetection = (candidates, pointerRect) => {
+  const results = computeCollisionScores(candidates, pointerRect, null, () => 'horizontal')
+  return results.slice(0, 1)
+}
+
+/**
+ * Collision detection for a wrapping grid: zones in the pointer's row win
+ * over zones in other rows, then the nearest left/right edge wins.
+ */
+export const gridCollision: CoreCollisionDetection = (candidates, pointerRect) => {
+  const results = computeCollisionScores(candidates, pointerRect, null, () => 'grid')
+  return results.slice(0, 1)
+}
+
 /**
  * Create a collision detection with hysteresis to prevent flickering
  * between adjacent drop zones.
@@ -104,15 +167,19 @@ export const weightedVerticalCollision: CoreCollisionDetection = (candidates, po
  * @param snapshotRef - Optional ref to snapshotted zone rects. When populated,
  *   collision detection uses these frozen rects instead of live DOM measurements,
  *   preventing layout-shift feedback loops from in-flow ghost previews.
+ * @param getLayout - Optional layout of the list each zone sits in, so trees
+ *   that mix vertical lists with horizontal lists or grids score every zone
+ *   along the right axis. All zones are vertical without it.
  */
 export function createStickyCollision(
   threshold = 15,
-  snapshotRef?: SnapshotRectsRef
+  snapshotRef?: SnapshotRectsRef,
+  getLayout?: GetZoneLayout
 ): CoreCollisionDetection & { reset: () => void } {
   let currentZoneId: string | null = null
 
   const detector: CoreCollisionDetection = (candidates, pointerRect) => {
-    const results = computeCollisionScores(candidates, pointerRect, snapshotRef?.current)
+    const results = computeCollisionScores(candidates, pointerRect, snapshotRef?.current, getLayout)
     if (results.length === 0) return []
 
     const bestCandidate = results[0]
@@ -153,6 +220,120 @@ export function createStickyCollision(
   return detector as CoreCollisionDetection & { reset: () => void }
 }
 
+/** Where a drag started, for `createOffsetDepthCollision` */
+export interface OffsetDepthOrigin {
+  /**
+   * Horizontal center of the pointer rect when the drag started. Defaults to
+   * the first pointer rect the detector sees after `setOrigin`
+   */
+  x?: number
+  /** Depth of the dragged block (1 = root) */
+  depth: number
+  /**
+   * Deepest depth the dragged block may land at, e.g.
+   * `maxDepth - getSubtreeDepth(index, id) + 1`
+   */
+  maxDepth?: number
+  /** Depth a block dropped at a zone would have, e.g. `id => getZoneDepth(index, id)` */
+  getZoneDepth: (zoneId: string) => number
+}
+
+export interface OffsetDepthOptions {
+  /** Horizontal distance that selects one nesting level, in px (default: 24) */
+  indentation?: number
+  /** Zones whose rects are at most this far apart vertically share a slot, in px (default: 8) */
+  slotGap?: number
+}
+
+export type OffsetDepthCollision = CoreCollisionDetection & {
+  /** Set at drag start. Without an origin, the zone whose left edge is nearest the pointer wins */
+  setOrigin: (origin: OffsetDepthOrigin | null) => void
+  reset: () => void
+}
+
+/**
+ * Collision detection where the vertical position picks a slot between two
+ * rows and the horizontal offset from the drag origin picks the nesting
+ * level, like Notion or Linear. Zones whose rects touch vertically form a
+ * slot (e.g. `end-parent` and `after-parent` below a parent's last child);
+ * each `indentation` px dragged right or left asks for one level deeper or
+ * shallower, and the slot's zone nearest that depth wins, never past the
+ * origin's `maxDepth`.
+ *
+ * @param snapshotRef - Optional ref to snapshotted zone rects, used instead of
+ *   live measurements (see `createStickyCollision`)
+ */
+export function createOffsetDepthCollision(
+  options: OffsetDepthOptions = {},
+  snapshotRef?: SnapshotRectsRef
+): OffsetDepthCollision {
+  const { indentation = 24, slotGap = 8 } = options
+  let origin: OffsetDepthOrigin | null = null
+
+  const detector: CoreCollisionDetection = (candidates, pointerRect) => {
+    if (candidates.length === 0) return []
+    const pointerX = pointerRect.left + pointerRect.width / 2
+    const pointerY = pointerRect.top + pointerRect.height / 2
+    // The first detection after setOrigin marks where the pointer started
+    if (origin && origin.x === undefined) origin = { ...origin, x: pointerX }
+
+    const zones = candidates
+      .map(candidate => ({ id: candidate.id, rect: snapshotRef?.current?.get(candidate.id) ?? candidate.rect }))
+      .sort((a, b) => a.rect.top - b.rect.top)
+
+    // Group vertically touching zones into slots
+    const slots: { zones: typeof zones; top: number; bottom: number }[] = []
+    for (const zone of zones) {
+      const last = slots[slots.length - 1]
+      if (last && zone.rect.top - last.bottom <= slotGap) {
+        last.zones.push(zone)
+        last.bottom = Math.max(last.bottom, zone.rect.bottom)
+      } else {
+        slots.push({ zones: [zone], top: zone.rect.top, bottom: zone.rect.bottom })
+      }
+    }
+
+    const slotDistance = (slot: (typeof slots)[number]) =>
+      pointerY < slot.top ? slot.top - pointerY : pointerY > slot.bottom ? pointerY - slot.bottom : 0
+    let slot = slots[0]
+    for (const next of slots) {
+      if (slotDistance(next) < slotDistance(slot)) slot = next
+    }
+
+    // Distance of each zone from the level the pointer asks for; ties go to the shallower zone
+    let ranked: { zone: (typeof zones)[number]; away: number; depth: number }[]
+    if (origin) {
+      const { depth, maxDepth, getZoneDepth } = origin
+      const wanted = depth + Math.round((pointerX - origin.x!) / indentation)
+      ranked = slot.zones.map(zone => {
+        const zoneDepth = getZoneDepth(zone.id)
+        return { zone, away: Math.abs(zoneDepth - wanted), depth: zoneDepth }
+      })
+      if (maxDepth != null && ranked.some(r => r.depth <= maxDepth)) {
+        ranked = ranked.filter(r => r.depth <= maxDepth)
+      }
+    } else {
+      ranked = slot.zones.map(zone => ({ zone, away: Math.abs(zone.rect.left - pointerX), depth: zone.rect.left }))
+    }
+
+    let best = ranked[0]
+    for (const r of ranked) {
+      if (r.away < best.away || (r.away === best.away && r.depth < best.depth)) best = r
+    }
+
+    return [{ id: best.zone.id, value: slotDistance(slot), left: best.zone.rect.left }]
+  }
+
+  return Object.assign(detector, {
+    setOrigin: (next: OffsetDepthOrigin | null) => {
+      origin = next
+    },
+    reset: () => {
+      origin = null
+    },
+  })
+}
+
 /**
  * Simple closest center collision (fallback)
  */
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createCommandHistory, createBlockArrayHistory, describeBlockOperations } from './command-history'
+import { applyBlockOperations } from './utils/operations'
+import { computeNormalizedIndex } from './utils/blocks'
+import type { BaseBlock, BlockIndex } from './types'
+
+interface TestBlock extends BaseBlock {
+  type: 'list' | 'task'
+  title: string
+}
+
+const block = (id: string, parentId: string | null, order: number | string, title = id): TestBlock =>
+  ({ id, type: parentId === null ? 'list' : 'task', parentId, order, title })
+
+const blocks = [
+  block('a', null, 0),
+  block('a1', 'a', 0),
+  block('a2', 'a', 1),
+  block('b', null, 1),
+  block('b1', 'b', 0),
+  block('c', null, 2),
+]
+
+/** Parent and sibling lists, which is all the operations must reproduce */
+const shape = (index: BlockIndex<TestBlock>) => ({
+  byParent: Object.fromEntries([...index.byParent].filter(([, ids]) => ids.length > 0)),
+  titles: Object.fromEntries([...index.byId].map(([id, b]) => [id, [b.parentId, b.title]])),
+})
+
+function expectRoundTrip(before: TestBlock[], after: TestBlock[], orderingStrategy: 'integer' | 'fractional' = 'integer') {
+  const history = createCommandHistory<TestBlock>({ orderingStrategy })
+  const from = computeNormalizedIndex(before, orderingStrategy)
+  const to = computeNormalizedIndex(after, orderingStrategy)
+  const step = history.record(from, to)!
+  expect(shape(applyBlockOperations(from, step.operations, orderingStrategy))).toEqual(shape(to))
+  expect(shape(applyBlockOperations(to, step.inverse, orderingStrategy))).toEqual(shape(from))
+  return step
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createCommandHistory', () => {
+  it('records operations and their inverse', () => {
+    const step = expectRoundTrip(blocks, [
+      block('c', null, 0),
+      block('a', null, 1),
+      block('a2', 'a', 0),
+      block('b', null, 2, 'Renamed'),
+      block('b1', 'b', 0),
+      block('x', 'b', 1),
+    ])
+    expect(step.operations.map(op => op.type)).toEqual(['move', 'move', 'insert', 'delete', 'update'])
+    expect(step.label).toBe('Change 5 blocks')
+  })
+
+  it('round-trips moves out of deleted parents', () => {
+    expectRoundTrip(blocks, [block('a1', null, 0), block('c', null, 1), block('b1', 'c', 0)])
+  })
+
+  it('round-trips several moves within one list', () => {
+    const flat = ['1', '2', '3', '4', '5'].map((id, i) => block(id, null, i))
+    expectRoundTrip(flat, [flat[3], flat[1], flat[4], flat[0], flat[2]])
+  })
+
+  it('round-trips fractional keys', () => {
+    const keyed = [block('a', null, 'a0'), block('b', null, 'a1'), block('c', null, 'a2'), block('c1', 'c', 'a0')]
+    expectRoundTrip(keyed, [
+      block('b', null, 'a1'),
+      block('c', null, 'a2'),
+      block('a', null, 'a3'),
+      block('c1', 'b', 'a0'),
+    ], 'fractional')
+  })
+
+  it('labels steps by what they did', () => {
+    const added = expectRoundTrip([], [block('a', null, 0), block('a1', 'a', 0)])
+    expect(added.label).toBe('Add block')
+    expect(expectRoundTrip(blocks, [blocks[3], blocks[4], blocks[0], blocks[1], blocks[2], blocks[5]]).label).toBe('Move block')
+    expect(describeBlockOperations([{ type: 'reset', blocks: [] }])).toBe('Replace blocks')
+  })
+
+  it('undoes and redoes steps with their labels', () => {
+    const history = createCommandHistory<TestBlock>()
+    const onChange = vi.fn()
+    history.on('change', onChange)
+    const from = computeNormalizedIndex(blocks)
+
+    expect(history.record(from, from)).toBeNull()
+    history.record(from, computeNormalizedIndex(blocks.slice(0, 3)), { label: 'Archive' })
+    expect(history.getUndoLabel()).toBe('Archive')
+
+    const step = history.undo()!
+    expect(step.label).toBe('Archive')
+    expect(history.canUndo()).toBe(false)
+    expect(history.getRedoLabel()).toBe('Archive')
+    expect(history.redo()).toBe(step)
+    expect(history.redo()).toBeNull()
+    expect(onChange).toHaveBeenCalledTimes(3)
+  })
+
+  it('coalesces edits of the same block within the window', () => {
+    vi.useFakeTimers()
+    const history = createCommandHistory<TestBlock>({ coalesceWindow: 500 })
+    let index = computeNormalizedIndex(blocks)
+    const rename = (title: string) => {
+      const next = computeNormalizedIndex(blocks.map(b => b.id === 'c' ? { ...b, title } : b))
+      history.record(index, next)
+      index = next
+    }
+
+    rename('C')
+    vi.advanceTimersByTime(300)
+    rename('Ca')
+    vi.advanceTimersByTime(300)
+    rename('Cat')
+    vi.advanceTimersByTime(600)
+    rename('Cats')
+
+    expect(history.getPast()).toHaveLength(2)
+    const [first] = history.getPast()
+    expect(shape(applyBlockOperations(computeNormalizedIndex(blocks), first.operations)).titles.c).toEqual([null, 'Cat'])
+    expect(shape(applyBlockOperations(index, [...history.getPast()[1].inverse, ...first.inverse])).titles.c).toEqual([null, 'c'])
+  })
+
+  it('groups records into one named step', () => {
+    const history = createCommandHistory<TestBlock>()
+    const states = [blocks, blocks.slice(0, 5), blocks.slice(0, 3)].map(b => computeNormalizedIndex(b))
+
+    const result = history.group('Clean up', () => {
+      history.record(states[0], states[1])
+      history.record(states[1], states[2])
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(history.getPast()).toHaveLength(1)
+    const step = history.undo()!
+    expect(step.label).toBe('Clean up')
+    expect(shape(applyBlockOperations(states[2], step.inverse))).toEqual(shape(states[0]))
+  })
+
+  it('records nothing from a group that throws', () => {
+    const history = createCommandHistory<TestBlock>()
+    const states = [blocks, blocks.slice(0, 5), blocks.slice(0, 3)].map(b => computeNormalizedIndex(b))
+
+    expect(() => history.group('Fail', () => {
+      history.record(states[0], states[1])
+      throw new Error('boom')
+    })).toThrow('boom')
+    expect(history.getPast()).toEqual([])
+
+    history.group('Outer', () => {
+      history.record(states[0], states[1])
+      try {
+        history.group('Inner', () => {
+          history.record(states[1], states[2])
+          throw new Error('boom')
+        })
+      } catch {
+        // The outer group goes on without the inner records
+      }
+    })
+    expect(history.getPast()).toHaveLength(1)
+    expect(shape(applyBlockOperations(states[0], history.getPast()[0].operations))).toEqual(shape(states[1]))
+  })
+
+  it('keeps at most maxSteps and clears the future on record', () => {
+    const history = createCommandHistory<TestBlock>({ maxSteps: 2 })
+    const states = [0, 1, 2, 3].map(n => computeNormalizedIndex(blocks.slice(0, 6 - n)))
+    history.record(states[0], states[1])
+    history.record(states[1], states[2])
+    history.record(states[2], states[3])
+    expect(history.getPast()).toHaveLength(2)
+
+    history.undo()
+    history.record(states[2], states[0])
+    expect(history.canRedo()).toBe(false)
+  })
+})
+
+describe('createBlockArrayHistory', () => {
+  it('rebuilds the blocks from the recorded operations', () => {
+    const history = createBlockArrayHistory(blocks)
+    const next = [blocks[3], blocks[4], blocks[0], blocks[2], { ...blocks[1], parentId: 'b', order: 1 }]
+
+    history.set(next)
+    expect(history.getBlocks()).toBe(next)
+    expect(history.undo()).toEqual(blocks)
+    expect(history.redo()!.map(b => [b.id, b.parentId, b.order])).toEqual([
+      ['b', null, 0], ['b1', 'b', 0], ['a1', 'b', 1], ['a', null, 1], ['a2', 'a', 0],
+    ])
+  })
+
+  it('keeps unchanged blocks when undoing', () => {
+    const history = createBlockArrayHistory(blocks)
+    history.set(blocks.map(b => b.id === 'b1' ? { ...b, title: 'Renamed' } : b))
+    const restored = history.undo()!
+    expect(restored[0]).toBe(blocks[0])
+    expect(restored[4]).toEqual(blocks[4])
+  })
+
+  it('restores fractional keys of blocks ordered by position', () => {
+    const keyed = [block('a', null, 'a0'), block('b', null, 'a1')]
+    const history = createBlockArrayHistory(keyed)
+    history.set([{ ...keyed[1], order: 'Zz' }, keyed[0]])
+    expect(history.undo()).toEqual(keyed)
+    expect(history.redo()!.map(b => b.order)).toEqual(['Zz', 'a0'])
+  })
+
+  it('resets without recording', () => {
+    const history = createBlockArrayHistory(blocks)
+    history.set(blocks.slice(1))
+    const fresh = [block('x', null, 0)]
+    history.reset(fresh)
+    expect(history.getBlocks()).toBe(fresh)
+    expect(history.history.canUndo()).toBe(false)
+  })
+})
@@ -0,0 +1,305 @@
+import type { BaseBlock, BlockIndex, BlockOperation, OrderingStrategy } from './types'
+import { applyBlockOperations, diffBlockIndexes, type OperationDiff } from './utils/operations'
+import { computeNormalizedIndex, flattenBlockIndex } from './utils/blocks'
+import { EventEmitter } from './event-emitter'
+
+/** One undoable step */
+export interface HistoryStep<T extends BaseBlock = BaseBlock> {
+  /** What the step did, e.g. "Move 3 blocks" */
+  label: string
+  /** Operations that redo the step, in order */
+  operations: BlockOperation<T>[]
+  /** Operations that undo the step, in order */
+  inverse: BlockOperation<T>[]
+  /** When the step was last recorded into, in ms since the epoch */
+  time: number
+  /** Steps with the same key recorded within `coalesceWindow` merge into one */
+  coalesceKey?: string
+}
+
+export interface CommandHistoryOptions<T extends BaseBlock = BaseBlock> {
+  /** Most steps kept; the oldest are dropped first (default: 50) */
+  maxSteps?: number
+  /** How long after a step another one with the same coalesce key merges into it, in ms (default: 500) */
+  coalesceWindow?: number
+  /** Ordering of the recorded states (default: 'integer') */
+  orderingStrategy?: OrderingStrategy
+  /** Label of steps recorded without one (default: "Move 3 blocks", "Edit block", ...) */
+  describe?: (operations: BlockOperation<T>[]) => string
+}
+
+export interface HistoryRecordOptions {
+  /** Name of the step, e.g. "Move 3 blocks into Sprint 12" */
+  label?: string
+  /**
+   * Merge with the previous step when it has the same key and was recorded
+   * within `coalesceWindow`. Field edits of the same blocks coalesce by
+   * default; `false` always starts a new step.
+   */
+  coalesce?: string | false
+}
+
+export interface CommandHistoryEvents {
+  /** A step was recorded, undone or redone, or the history was cleared */
+  change: () => void
+}
+
+export interface CommandHistory<T extends BaseBlock = BaseBlock> {
+  /**
+   * Record the change from `before` to `after` as a step and clear the redo
+   * stack. Returns the step it was recorded into, or null when nothing changed.
+   */
+  record(before: BlockIndex<T>, after: BlockIndex<T>, options?: HistoryRecordOptions): HistoryStep<T> | null
+  /** Record every change made while `fn` runs as one step. Nothing is recorded when `fn` throws */
+  group<R>(label: string, fn: () => R): R
+  /** Move the last step to the redo stack. Apply its `inverse` to undo it */
+  undo(): HistoryStep<T> | null
+  /** Move the next step back to the undo stack. Apply its `operations` to redo it */
+  redo(): HistoryStep<T> | null
+  canUndo(): boolean
+  canRedo(): boolean
+  getUndoLabel(): string | null
+  getRedoLabel(): string | null
+  /** Undoable steps, oldest first */
+  getPast(): readonly HistoryStep<T>[]
+  /** Redoable steps, next first */
+  getFuture(): readonly HistoryStep<T>[]
+  clear(): void
+  on: EventEmitter<CommandHistoryEvents>['on']
+  off: EventEmitter<CommandHistoryEvents>['off']
+}
+
+const plural = (count: number) => count === 1 ? 'block' : `${count} blocks`
+
+const verbs: Record<BlockOperation['type'], string> = {
+  insert: 'Add',
+  move: 'Move',
+  delete: 'Delete',
+  update: 'Edit',
+  reset: 'Replace',
+}
+
+/**
+ * Default label of a step: "Move block", "Add 3 blocks", "Delete block",
+ * "Edit 2 blocks", or "Change 4 blocks" when the step mixes kinds.
+ */
+export function describeBlockOperations<T extends BaseBlock>(operations: BlockOperation<T>[]): string {
+  const inserted = new Set(operations.flatMap(op => op.type === 'insert' ? [op.id] : []))
+  // A subtree is added as its root and its children; count the roots
+  const counted = operations.filter(op =>
+    op.type !== 'insert' || op.to.parentId === null || !inserted.has(op.to.parentId)
+  )
+  const kinds = new Set(counted.map(op => op.type))
+  const ids = new Set(counted.map(op => op.type === 'reset' ? '' : op.id))
+
+  if (kinds.has('reset')) return 'Replace blocks'
+  if (kinds.size !== 1) return `Change ${plural(ids.size)}`
+  return `${verbs[counted[0].type]} ${plural(ids.size)}`
+}
+
+/** Field edits of the same blocks coalesce unless the step says otherwise */
+function getCoalesceKey<T extends BaseBlock>(
+  operations: BlockOperation<T>[],
+  coalesce: string | false | undefined
+): string | undefined {
+  if (coalesce !== undefined) return coalesce === false ? undefined : coalesce
+  const ids: string[] = []
+  for (const op of operations) {
+    if (op.type !== 'update') return undefined
+    ids.push(op.id)
+  }
+  return `update:${ids.sort().join(',')}`
+}
+
+/**
+ * Undo/redo history that records the operations each change made and their
+ * inverse, instead of a snapshot of every state. Steps can be named, grouped
+ * and coalesced. `createBlockArrayHistory` keeps the blocks alongside it.
+ *
+ * @example
+ * ```ts
+ * const history = createCommandHistory<Task>()
+ * history.record(tree.getBlockIndex(), nextIndex, { label: 'Move 3 blocks into Sprint 12' })
+ * const step = history.undo()
+ * if (step) tree.applyOperations(step.inverse)
+ * ```
+ */
+export function createCommandHistory<T extends BaseBlock = BaseBlock>(
+  options: CommandHistoryOptions<T> = {}
+): CommandHistory<T> {
+  const {
+    maxSteps = 50,
+    coalesceWindow = 500,
+    orderingStrategy = 'integer',
+    describe = describeBlockOperations,
+  } = options
+
+  const emitter = new EventEmitter<CommandHistoryEvents>()
+  let past: HistoryStep<T>[] = []
+  let future: HistoryStep<T>[] = []
+  let grouping = 0
+  let pending: HistoryStep<T> | null = null
+
+  const merge = (step: HistoryStep<T>, diff: OperationDiff<T>, time: number): HistoryStep<T> => ({
+    ...step,
+    operations: [...step.operations, ...diff.operations],
+    inverse: [...diff.inverse, ...step.inverse],
+    time,
+  })
+
+  function push(step: HistoryStep<T>) {
+    past = [...past, step].slice(-maxSteps)
+    future = []
+    emitter.emit('change')
+  }
+
+  return {
+    record: (before, after, { label, coalesce } = {}) => {
+      const diff = diffBlockIndexes(before, after, orderingStrategy)
+      if (diff.operations.length === 0) return null
+      const time = Date.now()
+
+      if (grouping > 0) {
+        pending = pending ? merge(pending, diff, time) : { label: '', ...diff, time }
+        return pending
+      }
+
+      const coalesceKey = getCoalesceKey(diff.operations, coalesce)
+      const last = past[past.length - 1]
+      if (
+        coalesceKey !== undefined && last && future.length === 0
+        && last.coalesceKey === coalesceKey && time - last.time <= coalesceWindow
+      ) {
+        const merged = merge(last, diff, time)
+        if (label) merged.label = label
+        past = [...past.slice(0, -1), merged]
+        emitter.emit('change')
+        return merged
+      }
+
+      const step: HistoryStep<T> = { label: label ?? describe(diff.operations), ...diff, time }
+      if (coalesceKey !== undefined) step.coalesceKey = coalesceKey
+      push(step)
+      return step
+    },
+
+    group: (label, fn) => {
+      const before = pending
+      grouping++
+      try {
+        const result = fn()
+        if (grouping === 1 && pending) {
+          const step = { ...pending, label }
+          pending = null
+          push(step)
+        }
+        return result
+      } catch (error) {
+        // Drop what the failed group recorded; an enclosing group keeps its own records
+        pending = before
+        throw error
+      } finally {
+        grouping--
+      }
+    },
+
+    undo: () => {
+      const step = past[past.length - 1]
+      if (!step) return null
+      past = past.slice(0, -1)
+      future = [step, ...future]
+      emitter.emit('change')
+      return step
+    },
+
+    redo: () => {
+      const step = future[0]
+      if (!step) return null
+      future = future.slice(1)
+      past = [...past, step]
+      emitter.emit('change')
+      return step
+    },
+
+    canUndo: () => past.length > 0,
+    canRedo: () => future.length > 0,
+    getUndoLabel: () => past[past.length - 1]?.label ?? null,
+    getRedoLabel: () => future[0]?.label ?? null,
+    getPast: () => past,
+    getFuture: () => future,
+
+    clear: () => {
+      past = []
+      future = []
+      emitter.emit('change')
+    },
+
+    on: emitter.on.bind(emitter),
+    off: emitter.off.bind(emitter),
+  }
+}
+
+/** A command history that keeps the current blocks as a flat array */
+export interface BlockArrayHistory<T extends BaseBlock = BaseBlock> {
+  getBlocks(): T[]
+  /** Replace the blocks, recording the change as a step */
+  set(blocks: T[], options?: HistoryRecordOptions): void
+  /** Undo the last step. Returns the restored blocks, or null when there is nothing to undo */
+  undo(): T[] | null
+  /** Redo the next step. Returns the restored blocks, or null when there is nothing to redo */
+  redo(): T[] | null
+  /** Replace the blocks without recording a step and clear the history */
+  reset(blocks: T[]): void
+  readonly history: CommandHistory<T>
+}
+
+/**
+ * Command history over a flat block array, the state `useBlockHistory` and
+ * the vanilla and Svelte `createBlockHistory` keep.
+ *
+ * @example
+ * ```ts
+ * const history = createBlockArrayHistory(initialBlocks)
+ * history.set(nextBlocks, { label: 'Move 3 blocks into Sprint 12' })
+ * history.undo() // initialBlocks, rebuilt from the recorded operations
+ * ```
+ */
+export function createBlockArrayHistory<T extends BaseBlock = BaseBlock>(
+  initialBlocks: T[],
+  options: CommandHistoryOptions<T> = {}
+): BlockArrayHistory<T> {
+  const { orderingStrategy = 'integer' } = options
+  const history = createCommandHistory<T>(options)
+  let blocks = initialBlocks
+  let index = computeNormalizedIndex(initialBlocks, orderingStrategy)
+
+  function replay(operations: BlockOperation<T>[] | undefined): T[] | null {
+    if (!operations) return null
+    index = applyBlockOperations(index, operations, orderingStrategy)
+    blocks = flattenBlockIndex(index)
+    return blocks
+  }
+
+  return {
+    getBlocks: () => blocks,
+
+    set: (next, recordOptions) => {
+      const nextIndex = computeNormalizedIndex(next, orderingStrategy)
+      const before = index
+      blocks = next
+      index = nextIndex
+      history.record(before, nextIndex, recordOptions)
+    },
+
+    undo: () => replay(history.undo()?.inverse),
+    redo: () => replay(history.redo()?.operations),
+
+    reset: (next) => {
+      blocks = next
+      index = computeNormalizedIndex(next, orderingStrategy)
+      history.clear()
+    },
+
+    history,
+  }
+}
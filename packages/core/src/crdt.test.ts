@@ -0,0 +1,288 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createTreeDocument, bindTreeDocument, type TreeDocument, type TreeDocumentUpdate } from './crdt'
+import { createBlockTree, type BlockTreeInstance } from './tree'
+import type { BaseBlock, BlockOperation } from './types'
+
+interface TestBlock extends BaseBlock {
+  type: 'container' | 'item'
+  title?: string
+}
+
+const block = (id: string, parentId: string | null, order: string, type: TestBlock['type'] = 'item'): TestBlock =>
+  ({ id, type, parentId, order })
+
+const insert = (b: TestBlock): BlockOperation<TestBlock> =>
+  ({ type: 'insert', id: b.id, block: b, to: { parentId: b.parentId, index: 0 } })
+
+const move = (id: string, parentId: string | null, order: string): BlockOperation<TestBlock> =>
+  ({ type: 'move', id, from: { parentId: null, index: 0 }, to: { parentId, index: 0 }, fromOrder: '', toOrder: order })
+
+/** Collect every update a document emits for its own changes */
+function outbox(doc: TreeDocument<TestBlock>): TreeDocumentUpdate[] {
+  const updates: TreeDocumentUpdate[] = []
+  doc.on('update', (update, origin) => {
+    if (origin !== 'remote') updates.push(update)
+  })
+  return updates
+}
+
+const ids = (doc: TreeDocument<TestBlock>) => doc.getBlocks().map(b => `${b.parentId ?? 'root'}/${b.id}`)
+
+describe('createTreeDocument', () => {
+  const initialBlocks = [block('p', null, 'a', 'container'), block('q', null, 'b', 'container'), block('x', 'p', 'a')]
+
+  it('applies local operations', () => {
+    const doc = createTreeDocument<TestBlock>({ peerId: 'a1', initialBlocks })
+    doc.applyOperations([
+      insert(block('y', 'p', 'b')),
+      move('x', 'q', 'a'),
+      { type: 'update', id: 'y', before: {}, after: { title: 'Y' } },
+      { type: 'delete', id: 'p', from: { parentId: null, index: 0 }, deletedIds: ['p', 'y'], blocks: [] },
+    ])
+
+    expect(doc.getBlocks()).toEqual([block('q', null, 'b', 'container'), block('x', 'q', 'a')])
+  })
+
+  it('converges whatever order updates arrive in', () => {
+    const a = createTreeDocument<TestBlock>({ peerId: 'a1', initialBlocks })
+    const b = createTreeDocument<TestBlock>({ peerId: 'b1', initialBlocks })
+    const fromA = outbox(a)
+    const fromB = outbox(b)
+
+    a.applyOperations([insert(block('y', 'p', 'b'))])
+    a.applyOperations([move('y', 'q', 'a')])
+    a.applyOperations([{ type: 'update', id: 'y', before: {}, after: { title: 'A' } }])
+    b.applyOperations([{ type: 'update', id: 'x', before: {}, after: { title: 'B' } }])
+
+    for (const update of [...fromA].reverse()) b.applyUpdate(update, 'remote')
+    for (const update of fromB) a.applyUpdate(update, 'remote')
+
+    expect(a.getBlocks()).toEqual(b.getBlocks())
+    expect(ids(a)).toEqual(['root/p', 'p/x', 'root/q', 'q/y'])
+  })
+
+  it('keeps the latest write to a field', () => {
+    const a = createTreeDocument<TestBlock>({ peerId: 'a1', initialBlocks })
+    const b = createTreeDocument<TestBlock>({ peerId: 'b1', initialBlocks })
+    const fromA = outbox(a)
+    const fromB = outbox(b)
+
+    a.applyOperations([{ type: 'update', id: 'x', before: {}, after: { title: 'first' } }])
+    a.applyOperations([{ type: 'update', id: 'x', before: {}, after: { title: 'second' } }])
+    b.applyOperations([{ type: 'update', id: 'x', before: {}, after: { title: 'concurrent' } }])
+    fromB.forEach(u => a.applyUpdate(u, 'remote'))
+    fromA.forEach(u => b.applyUpdate(u, 'remote'))
+
+    expect(a.getBlocks()).toEqual(b.getBlocks())
+    expect(a.getBlocks().find(x => x.id === 'x')!.title).toBe('second')
+  })
+
+  it('lets deletes win over concurrent edits but not over moves out of the subtree', () => {
+    const a = createTreeDocument<TestBlock>({ peerId: 'a1', initialBlocks: [...initialBlocks, block('z', 'p', 'b')] })
+    const b = createTreeDocument<TestBlock>({ peerId: 'b1', initialBlocks: [...initialBlocks, block('z', 'p', 'b')] })
+    const fromA = outbox(a)
+    const fromB = outbox(b)
+
+    a.applyOperations([{ type: 'delete', id: 'p', from: { parentId: null, index: 0 }, deletedIds: ['p', 'x', 'z'], blocks: [] }])
+    b.applyOperations([
+      { type: 'update', id: 'p', before: {}, after: { title: 'edited' } },
+      move('z', 'q', 'a'),
+    ])
+    fromB.forEach(u => a.applyUpdate(u, 'remote'))
+    fromA.forEach(u => b.applyUpdate(u, 'remote'))
+
+    expect(ids(a)).toEqual(['root/q', 'q/z'])
+    expect(b.getBlocks()).toEqual(a.getBlocks())
+  })
+
+  it('resolves concurrent moves that would form a cycle', () => {
+    const a = createTreeDocument<TestBlock>({ peerId: 'a1', initialBlocks })
+    const b = createTreeDocument<TestBlock>({ peerId: 'b1', initialBlocks })
+    const fromA = outbox(a)
+    const fromB = outbox(b)
+
+    a.applyOperations([move('p', 'q', 'a')])
+    b.applyOperations([move('q', 'p', 'b')])
+    fromB.forEach(u => a.applyUpdate(u, 'remote'))
+    fromA.forEach(u => b.applyUpdate(u, 'remote'))
+
+    expect(a.getBlocks()).toEqual(b.getBlocks())
+    // a1 < b1 breaks the clock tie, so b's later move is the one skipped
+    expect(ids(a)).toEqual(['root/q', 'q/p', 'p/x'])
+  })
+
+  it('waits for a block whose insert has not arrived yet', () => {
+    const a = createTreeDocument<TestBlock>({ peerId: 'a1' })
+    const b = createTreeDocument<TestBlock>({ peerId: 'b1' })
+    const fromA = outbox(a)
+
+    a.applyOperations([insert(block('p', null, 'a', 'container'))])
+    a.applyOperations([insert(block('x', 'p', 'a'))])
+    b.applyUpdate(fromA[1], 'remote')
+    expect(b.getBlocks()).toEqual([])
+
+    b.applyUpdate(fromA[0], 'remote')
+    expect(b.getBlocks()).toEqual(a.getBlocks())
+  })
+
+  it('encodes its whole state and ignores updates it already has', () => {
+    const a = createTreeDocument<TestBlock>({ peerId: 'a1', initialBlocks })
+    a.applyOperations([insert(block('y', null, 'c'))])
+    const b = createTreeDocument<TestBlock>({ peerId: 'b1' })
+    const state = JSON.parse(JSON.stringify(a.encodeState()))
+
+    expect(b.applyUpdate(state)).toBe(true)
+    expect(b.applyUpdate(state)).toBe(false)
+    expect(b.getBlocks()).toEqual(a.getBlocks())
+  })
+
+  it('diffs a reset against the current blocks', () => {
+    const doc = createTreeDocument<TestBlock>({ peerId: 'a1', initialBlocks })
+    const updates = outbox(doc)
+
+    doc.applyOperations([{ type: 'reset', blocks: [block('q', null, 'b', 'container'), { ...block('x', 'q', 'a'), title: 'X' }] }])
+
+    expect(Object.keys(updates[0].blocks).sort()).toEqual(['p', 'x'])
+    expect(ids(doc)).toEqual(['root/q', 'q/x'])
+  })
+
+  it('emits blocks:change only when the visible blocks change', () => {
+    const doc = createTreeDocument<TestBlock>({ peerId: 'a1', initialBlocks })
+    const handler = vi.fn()
+    doc.getBlocks()
+    doc.on('blocks:change', handler)
+
+    doc.applyOperations([{ type: 'delete', id: 'p', from: { parentId: null, index: 0 }, deletedIds: ['p', 'x'], blocks: [] }])
+    doc.applyOperations([{ type: 'update', id: 'x', before: {}, after: { title: 'hidden' } }])
+
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects integer order keys', () => {
+    const doc = createTreeDocument<TestBlock>()
+    expect(() => doc.applyOperations([insert({ id: 'n', type: 'item', parentId: null, order: 0 })]))
+      .toThrow('Tree documents need fractional order keys')
+  })
+})
+
+describe('bindTreeDocument', () => {
+  function createPeer(peerId: string, initialBlocks: TestBlock[] = []) {
+    const doc = createTreeDocument<TestBlock>({ peerId })
+    let n = 0
+    const tree = createBlockTree<TestBlock>({
+      initialBlocks,
+      containerTypes: ['container'],
+      orderingStrategy: 'fractional',
+      fractionalKeys: { suffix: peerId },
+      idGenerator: () => `${peerId}-${++n}`,
+    })
+    const unbind = bindTreeDocument(doc, tree)
+    return { doc, tree, unbind, updates: outbox(doc) }
+  }
+
+  it('seeds an empty document from the tree and syncs local changes', () => {
+    const a = createPeer('a1', [block('p', null, 'a', 'container')])
+    const b = createPeer('b1')
+    b.doc.applyUpdate(a.doc.encodeState(), 'remote')
+    expect(b.tree.getBlocks()).toEqual(a.tree.getBlocks())
+
+    a.updates.length = 0
+    a.tree.addBlock('item', 'p')
+    a.updates.forEach(u => b.doc.applyUpdate(u, 'remote'))
+
+    expect(b.tree.getBlocks()).toEqual(a.tree.getBlocks())
+  })
+
+  it('does not echo remote changes back as local updates', () => {
+    const a = createPeer('a1', [block('p', null, 'a', 'container')])
+    const b = createPeer('b1')
+    b.doc.applyUpdate(a.doc.encodeState(), 'remote')
+
+    expect(b.updates).toEqual([])
+  })
+
+  it('stops syncing once unbound', () => {
+    const a = createPeer('a1', [block('p', null, 'a', 'container')])
+    a.unbind()
+    a.updates.length = 0
+    a.tree.addBlock('item')
+
+    expect(a.updates).toEqual([])
+  })
+})
+
+describe('convergence fuzzing', () => {
+  // Deterministic PRNG so failures can be replayed
+  function mulberry32(seed: number) {
+    return () => {
+      seed = (seed + 0x6d2b79f5) | 0
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+  }
+
+  function runSession(seed: number) {
+    const random = mulberry32(seed)
+    const pick = <V>(items: V[]): V => items[Math.floor(random() * items.length)]
+    const peers = ['a1', 'b1', 'c1'].map(peerId => {
+      const doc = createTreeDocument<TestBlock>({ peerId })
+      let n = 0
+      const tree: BlockTreeInstance<TestBlock> = createBlockTree<TestBlock>({
+        containerTypes: ['container'],
+        orderingStrategy: 'fractional',
+        fractionalKeys: { suffix: peerId },
+        idGenerator: () => `${peerId}-${++n}`,
+      })
+      bindTreeDocument(doc, tree)
+      return { doc, tree }
+    })
+
+    // Each message is queued for every other peer and delivered in random order, sometimes twice
+    const inbox = peers.map(() => [] as TreeDocumentUpdate[])
+    peers.forEach(({ doc }, from) => {
+      doc.on('update', (update, origin) => {
+        if (origin === 'remote') return
+        const copy = JSON.parse(JSON.stringify(update))
+        inbox.forEach((queue, to) => { if (to !== from) queue.push(copy) })
+      })
+    })
+    const deliver = (to: number) => {
+      const queue = inbox[to]
+      if (queue.length === 0) return
+      const [update] = queue.splice(Math.floor(random() * queue.length), 1)
+      peers[to].doc.applyUpdate(update, 'remote')
+      if (random() < 0.1) peers[to].doc.applyUpdate(update, 'remote')
+    }
+
+    for (let step = 0; step < 150; step++) {
+      const { tree } = pick(peers)
+      const blocks = tree.getBlocks()
+      const action = random()
+      if (blocks.length < 3 || action < 0.3) {
+        const containers = blocks.filter(b => b.type === 'container')
+        tree.addBlock(random() < 0.4 ? 'container' : 'item', containers.length > 0 && random() < 0.6 ? pick(containers).id : null)
+      } else if (action < 0.6) {
+        const zones = blocks.flatMap(b => (b.type === 'container' ? [`after-${b.id}`, `into-${b.id}`] : [`after-${b.id}`]))
+        tree.moveBlock(pick(blocks).id, pick(zones))
+      } else if (action < 0.75) {
+        tree.deleteBlock(pick(blocks).id)
+      } else {
+        tree.updateBlock(pick(blocks).id, { title: `t${step}` })
+      }
+      if (random() < 0.5) deliver(Math.floor(random() * peers.length))
+    }
+
+    inbox.forEach((_, to) => { while (inbox[to].length > 0) deliver(to) })
+    return peers
+  }
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])('converges with seed %i', (seed) => {
+    const [first, ...rest] = runSession(seed)
+    for (const peer of rest) {
+      expect(peer.doc.getBlocks()).toEqual(first.doc.getBlocks())
+      expect(peer.tree.getBlocks()).toEqual(first.tree.getBlocks())
+    }
+    expect(first.tree.getBlocks()).toEqual(first.doc.getBlocks())
+  })
+})
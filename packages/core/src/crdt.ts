@@ -0,0 +1,471 @@
+import type { BaseBlock, BlockOperation } from './types'
+import type { BlockTreeInstance } from './tree'
+import { EventEmitter } from './event-emitter'
+import { compareFractionalKeys } from './utils/fractional'
+
+/**
+ * Lamport timestamp. `clock` orders operations; `peer` breaks ties between
+ * peers that used the same clock value.
+ */
+export interface CrdtStamp {
+  clock: number
+  peer: string
+}
+
+/** Last-writer-wins register for one block field */
+export interface CrdtRegister {
+  value: unknown
+  stamp: CrdtStamp
+}
+
+/** One placement of a block. Inserts are the first move of a block. */
+export interface CrdtMove {
+  parentId: string | null
+  order: string
+  stamp: CrdtStamp
+}
+
+/**
+ * Replicated state of one block. Every part is optional so an update can
+ * carry only what changed.
+ */
+export interface CrdtBlockState {
+  /** Registers for every field except `id`, `parentId` and `order` */
+  fields?: Record<string, CrdtRegister>
+  /** Every move applied to the block; the latest one that does not form a cycle wins */
+  moves?: CrdtMove[]
+  /** Set once the block is deleted. Deletes are final and hide the subtree. */
+  deleted?: CrdtStamp
+}
+
+/**
+ * A JSON-serializable document update. Local changes produce small updates;
+ * `encodeState()` produces one holding the whole document. Updates can be
+ * applied in any order and more than once.
+ */
+export interface TreeDocumentUpdate {
+  blocks: Record<string, CrdtBlockState>
+}
+
+export interface TreeDocumentOptions<T extends BaseBlock> {
+  /**
+   * Id of this replica, used to break ties between concurrent writes. Must be
+   * unique per replica. Defaults to a random id that is also a valid
+   * fractional key suffix (see `FractionalKeyOptions`).
+   */
+  peerId?: string
+  /**
+   * Blocks to start from, e.g. the copy loaded from a server. They are
+   * stamped identically on every replica, so peers that start from the same
+   * blocks agree on them without exchanging updates.
+   */
+  initialBlocks?: T[]
+}
+
+export interface TreeDocumentEvents<T extends BaseBlock> {
+  /** A local change or a remote update added new state. Forward `update` to other replicas. */
+  'update': (update: TreeDocumentUpdate, origin: unknown) => void
+  /** The visible blocks changed */
+  'blocks:change': (blocks: T[], origin: unknown) => void
+}
+
+export interface TreeDocument<T extends BaseBlock> {
+  readonly peerId: string
+  /** Visible blocks in tree order. Deleted blocks, their descendants and orphans are left out. */
+  getBlocks(): T[]
+  /**
+   * Record local operations, e.g. from a tree's `blocks:patch` event. Keys
+   * must be fractional. A `reset` is diffed against the current blocks.
+   */
+  applyOperations(operations: BlockOperation<T>[], origin?: unknown): void
+  /** Merge an update from another replica. Returns whether it added anything. */
+  applyUpdate(update: TreeDocumentUpdate, origin?: unknown): boolean
+  /** The whole document as a single update, for a replica that starts empty */
+  encodeState(): TreeDocumentUpdate
+  on: EventEmitter<TreeDocumentEvents<T>>['on']
+  off: EventEmitter<TreeDocumentEvents<T>>['off']
+  destroy(): void
+}
+
+interface BlockRecord {
+  fields: Map<string, CrdtRegister>
+  moves: CrdtMove[]
+  moveKeys: Set<string>
+  deleted: CrdtStamp | null
+}
+
+const STRUCTURAL_FIELDS = new Set(['id', 'parentId', 'order'])
+// Initial blocks share this stamp on every replica, so any edit overrides them
+const ORIGIN_STAMP: CrdtStamp = { clock: 0, peer: '' }
+
+function compareStamps(a: CrdtStamp, b: CrdtStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock
+  return a.peer < b.peer ? -1 : a.peer > b.peer ? 1 : 0
+}
+
+function stampKey(stamp: CrdtStamp): string {
+  return `${stamp.clock}@${stamp.peer}`
+}
+
+/**
+ * Random replica id that is also a valid fractional key suffix, so the same
+ * id can be passed as `peerId` and as `fractionalKeys.suffix`.
+ */
+export function generatePeerId(): string {
+  const id = Math.random().toString(36).slice(2, 9).padEnd(7, '1')
+  // A trailing '0' is not allowed in a fractional key suffix
+  return id + (1 + Math.floor(Math.random() * 35)).toString(36)
+}
+
+function orderKey(order: number | string): string {
+  if (typeof order !== 'string') {
+    throw new Error(`Tree documents need fractional order keys, got ${order}`)
+  }
+  return order
+}
+
+/**
+ * Create a replicated tree document. Each block's fields are last-writer-wins
+ * registers, its position is the latest of its moves that does not create a
+ * cycle, and deletes are kept as tombstones. Replicas that have applied the
+ * same updates, in any order, produce the same blocks.
+ *
+ * Everything runs in-process; how updates travel between replicas is up to
+ * the caller (see `bindTreeDocument` to keep a `createBlockTree` in sync).
+ */
+export function createTreeDocument<T extends BaseBlock>(
+  options: TreeDocumentOptions<T> = {}
+): TreeDocument<T> {
+  const { peerId = generatePeerId(), initialBlocks = [] } = options
+
+  const emitter = new EventEmitter<TreeDocumentEvents<T>>()
+  const records = new Map<string, BlockRecord>()
+  let clock = 0
+  let cachedBlocks: T[] | null = null
+
+  function tick(): CrdtStamp {
+    clock += 1
+    return { clock, peer: peerId }
+  }
+
+  function getRecord(id: string): BlockRecord {
+    let record = records.get(id)
+    if (!record) {
+      record = { fields: new Map(), moves: [], moveKeys: new Set(), deleted: null }
+      records.set(id, record)
+    }
+    return record
+  }
+
+  /** Merge `update` into the records. Returns the part that was new. */
+  function merge(update: TreeDocumentUpdate): TreeDocumentUpdate | null {
+    const added: TreeDocumentUpdate = { blocks: {} }
+    let changed = false
+
+    for (const [id, incoming] of Object.entries(update.blocks)) {
+      const record = getRecord(id)
+      const delta: CrdtBlockState = {}
+
+      for (const [field, register] of Object.entries(incoming.fields ?? {})) {
+        clock = Math.max(clock, register.stamp.clock)
+        const current = record.fields.get(field)
+        if (current && compareStamps(register.stamp, current.stamp) <= 0) continue
+        record.fields.set(field, register)
+        delta.fields ??= {}
+        delta.fields[field] = register
+      }
+
+      for (const move of incoming.moves ?? []) {
+        clock = Math.max(clock, move.stamp.clock)
+        const key = stampKey(move.stamp)
+        if (record.moveKeys.has(key)) continue
+        record.moveKeys.add(key)
+        record.moves.push(move)
+        delta.moves ??= []
+        delta.moves.push(move)
+      }
+
+      if (incoming.deleted) {
+        clock = Math.max(clock, incoming.deleted.clock)
+        // Keep the earliest tombstone so every replica stores the same one
+        if (!record.deleted || compareStamps(incoming.deleted, record.deleted) < 0) {
+          record.deleted = incoming.deleted
+          delta.deleted = incoming.deleted
+        }
+      }
+
+      if (delta.fields || delta.moves || delta.deleted) {
+        added.blocks[id] = delta
+        changed = true
+      }
+    }
+
+    return changed ? added : null
+  }
+
+  /**
+   * Resolve each block's parent by replaying every move in stamp order and
+   * skipping moves that would put a block inside its own subtree, so
+   * concurrent moves that form a cycle resolve the same way everywhere.
+   */
+  function resolvePositions(): Map<string, CrdtMove> {
+    const all: { id: string; move: CrdtMove }[] = []
+    for (const [id, record] of records) {
+      for (const move of record.moves) all.push({ id, move })
+    }
+    all.sort((a, b) => compareStamps(a.move.stamp, b.move.stamp))
+
+    const positions = new Map<string, CrdtMove>()
+    const isInSubtree = (rootId: string, id: string | null): boolean => {
+      while (id !== null) {
+        if (id === rootId) return true
+        const position = positions.get(id)
+        if (!position) return false
+        id = position.parentId
+      }
+      return false
+    }
+    for (const { id, move } of all) {
+      if (isInSubtree(id, move.parentId)) continue
+      positions.set(id, move)
+    }
+    return positions
+  }
+
+  function materialize(): T[] {
+    const positions = resolvePositions()
+
+    const visible = new Map<string, boolean>()
+    const isVisible = (id: string): boolean => {
+      const known = visible.get(id)
+      if (known !== undefined) return known
+      const record = records.get(id)
+      const position = positions.get(id)
+      const result = !!record && !!position && !record.deleted && record.fields.has('type') &&
+        (position.parentId === null || isVisible(position.parentId))
+      visible.set(id, result)
+      return result
+    }
+
+    const byParent = new Map<string | null, T[]>()
+    for (const [id, record] of records) {
+      if (!isVisible(id)) continue
+      const position = positions.get(id)!
+      const block: Record<string, unknown> = {}
+      for (const [field, register] of record.fields) {
+        if (register.value !== undefined) block[field] = register.value
+      }
+      block.id = id
+      block.parentId = position.parentId
+      block.order = position.order
+      const siblings = byParent.get(position.parentId) ?? []
+      siblings.push(block as T)
+      byParent.set(position.parentId, siblings)
+    }
+
+    const result: T[] = []
+    const walk = (parentId: string | null) => {
+      const children = byParent.get(parentId) ?? []
+      // Equal keys (concurrent inserts without a key suffix) fall back to id order
+      children.sort((a, b) =>
+        compareFractionalKeys(String(a.order), String(b.order)) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+      )
+      for (const block of children) {
+        result.push(block)
+        walk(block.id)
+      }
+    }
+    walk(null)
+    return result
+  }
+
+  function commit(update: TreeDocumentUpdate | null, origin: unknown): boolean {
+    if (!update) return false
+    const previous = cachedBlocks
+    cachedBlocks = null
+    emitter.emit('update', update, origin)
+    const blocks = instance.getBlocks()
+    if (!previous || !sameBlocks(previous, blocks)) emitter.emit('blocks:change', blocks, origin)
+    return true
+  }
+
+  function fieldsOf(block: T, stamp: CrdtStamp): Record<string, CrdtRegister> {
+    const fields: Record<string, CrdtRegister> = {}
+    for (const [field, value] of Object.entries(block)) {
+      if (!STRUCTURAL_FIELDS.has(field)) fields[field] = { value, stamp }
+    }
+    return fields
+  }
+
+  /** Local changes that turn the current blocks into `blocks` */
+  function diffBlocks(blocks: T[]): TreeDocumentUpdate {
+    const update: TreeDocumentUpdate = { blocks: {} }
+    const current = new Map(instance.getBlocks().map(b => [b.id, b]))
+    const next = new Set(blocks.map(b => b.id))
+
+    for (const block of current.values()) {
+      if (!next.has(block.id)) update.blocks[block.id] = { deleted: tick() }
+    }
+    for (const block of blocks) {
+      const record = records.get(block.id)
+      if (record?.deleted) continue
+      const existing = current.get(block.id)
+      if (!existing) {
+        const stamp = tick()
+        update.blocks[block.id] = {
+          fields: fieldsOf(block, stamp),
+          moves: [{ parentId: block.parentId ?? null, order: orderKey(block.order), stamp }],
+        }
+        continue
+      }
+      const delta: CrdtBlockState = {}
+      if (existing.parentId !== (block.parentId ?? null) || existing.order !== block.order) {
+        delta.moves = [{ parentId: block.parentId ?? null, order: orderKey(block.order), stamp: tick() }]
+      }
+      const keys = new Set([...Object.keys(existing), ...Object.keys(block)])
+      for (const field of keys) {
+        const value = (block as Record<string, unknown>)[field]
+        if (STRUCTURAL_FIELDS.has(field) || (existing as Record<string, unknown>)[field] === value) continue
+        delta.fields ??= {}
+        delta.fields[field] = { value, stamp: tick() }
+      }
+      if (delta.moves || delta.fields) update.blocks[block.id] = delta
+    }
+    return update
+  }
+
+  const instance: TreeDocument<T> = {
+    peerId,
+
+    getBlocks: () => {
+      cachedBlocks ??= materialize()
+      return cachedBlocks
+    },
+
+    applyOperations: (operations, origin = null) => {
+      const update: TreeDocumentUpdate = { blocks: {} }
+      const add = (id: string, state: CrdtBlockState) => {
+        const target = (update.blocks[id] ??= {})
+        if (state.fields) target.fields = { ...target.fields, ...state.fields }
+        if (state.moves) target.moves = [...(target.moves ?? []), ...state.moves]
+        if (state.deleted) target.deleted ??= state.deleted
+      }
+
+      for (const op of operations) {
+        switch (op.type) {
+          case 'insert': {
+            const stamp = tick()
+            add(op.id, {
+              fields: fieldsOf(op.block, stamp),
+              moves: [{ parentId: op.to.parentId, order: orderKey(op.block.order), stamp }],
+            })
+            break
+          }
+          case 'move':
+            add(op.id, { moves: [{ parentId: op.to.parentId, order: orderKey(op.toOrder), stamp: tick() }] })
+            break
+          case 'delete':
+            // Descendants stay hidden under the tombstone unless moved out concurrently
+            add(op.id, { deleted: tick() })
+            break
+          case 'update': {
+            const stamp = tick()
+            const fields: Record<string, CrdtRegister> = {}
+            for (const [field, value] of Object.entries(op.after)) {
+              if (!STRUCTURAL_FIELDS.has(field)) fields[field] = { value, stamp }
+            }
+            add(op.id, { fields })
+            break
+          }
+          case 'reset': {
+            // Apply what is queued first so the diff sees it
+            commit(merge(update), origin)
+            update.blocks = {}
+            const diff = diffBlocks(op.blocks)
+            for (const [id, state] of Object.entries(diff.blocks)) add(id, state)
+            break
+          }
+        }
+      }
+
+      commit(merge(update), origin)
+    },
+
+    applyUpdate: (update, origin = null) => commit(merge(update), origin),
+
+    encodeState: () => {
+      const state: TreeDocumentUpdate = { blocks: {} }
+      for (const [id, record] of records) {
+        const block: CrdtBlockState = {}
+        if (record.fields.size > 0) block.fields = Object.fromEntries(record.fields)
+        if (record.moves.length > 0) block.moves = [...record.moves]
+        if (record.deleted) block.deleted = record.deleted
+        state.blocks[id] = block
+      }
+      return state
+    },
+
+    on: emitter.on.bind(emitter),
+    off: emitter.off.bind(emitter),
+
+    destroy: () => {
+      emitter.removeAllListeners()
+    },
+  }
+
+  if (initialBlocks.length > 0) {
+    const seed: TreeDocumentUpdate = { blocks: {} }
+    for (const block of initialBlocks) {
+      seed.blocks[block.id] = {
+        fields: fieldsOf(block, ORIGIN_STAMP),
+        moves: [{ parentId: block.parentId ?? null, order: orderKey(block.order), stamp: ORIGIN_STAMP }],
+      }
+    }
+    merge(seed)
+  }
+
+  return instance
+}
+
+function sameBlocks<T extends BaseBlock>(a: T[], b: T[]): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] as Record<string, unknown>
+    const y = b[i] as Record<string, unknown>
+    const keys = Object.keys(x)
+    if (keys.length !== Object.keys(y).length) return false
+    if (keys.some(key => x[key] !== y[key])) return false
+  }
+  return true
+}
+
+/**
+ * Keep a `createBlockTree` instance and a tree document in sync. Local tree
+ * mutations are recorded in the document (and emitted as its `update`
+ * event); remote updates applied to the document replace the tree's blocks
+ * without echoing back. Use fractional ordering with `fractionalKeys: {
+ * suffix: doc.peerId }` so concurrent inserts never share a key.
+ *
+ * The tree adopts the document's blocks if it has any; otherwise the
+ * document is seeded from the tree. Returns a function that unbinds them.
+ */
+export function bindTreeDocument<T extends BaseBlock>(
+  doc: TreeDocument<T>,
+  tree: BlockTreeInstance<T>
+): () => void {
+  if (doc.getBlocks().length > 0) {
+    tree.applyOperations([{ type: 'reset', blocks: doc.getBlocks() }])
+  } else if (tree.getBlocks().length > 0) {
+    doc.applyOperations([{ type: 'reset', blocks: tree.getBlocks() }], tree)
+  }
+
+  const offPatch = tree.on('blocks:patch', (operations) => doc.applyOperations(operations, tree))
+  const offChange = doc.on('blocks:change', (blocks, origin) => {
+    if (origin !== tree) tree.applyOperations([{ type: 'reset', blocks }])
+  })
+
+  return () => {
+    offPatch()
+    offChange()
+  }
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createDragGroup, canReceiveBlocks, type DragGroupMember } from './drag-group'
+import { createBlockTree, type BlockTreeInstance } from './tree'
+import { computeNormalizedIndex } from './utils/blocks'
+import type { BaseBlock } from './types'
+import type { Rect } from './collision'
+
+interface TestBlock extends BaseBlock {
+  type: 'list' | 'task' | 'note'
+}
+
+const block = (id: string, parentId: string | null, order: number, type: TestBlock['type'] = 'task'): TestBlock =>
+  ({ id, type, parentId, order })
+
+const rect = (top: number, left: number, width: number, height: number): Rect =>
+  ({ top, left, width, height, right: left + width, bottom: top + height })
+
+const createTree = (blocks: TestBlock[]) =>
+  createBlockTree<TestBlock>({ initialBlocks: blocks, containerTypes: ['list', 'task'] })
+
+function member(
+  id: string,
+  tree: BlockTreeInstance<TestBlock>,
+  bounds: Rect,
+  zones: Record<string, Rect> = {},
+  extra: Partial<DragGroupMember<TestBlock>> = {}
+): DragGroupMember<TestBlock> {
+  return {
+    id,
+    getBlockIndex: () => tree.getBlockIndex(),
+    getRect: () => bounds,
+    getZoneRects: () => new Map(Object.entries(zones)),
+    receive: (payload, { targetZone }) => tree.insertSubtrees(payload, targetZone),
+    release: ({ blockIds }) => tree.transaction(() => blockIds.forEach(blockId => tree.deleteBlock(blockId))),
+    ...extra,
+  }
+}
+
+function setup(options: Parameters<typeof createDragGroup<TestBlock>>[0] = {}) {
+  const backlog = createTree([block('1', null, 0), block('1a', '1', 0), block('2', null, 1)])
+  const sprint = createTree([block('3', null, 0)])
+  const group = createDragGroup<TestBlock>(options)
+  group.register(member('backlog', backlog, rect(0, 0, 200, 400)))
+  group.register(member('sprint', sprint, rect(0, 300, 200, 400), {
+    'before-3': rect(0, 300, 200, 4),
+    'after-3': rect(40, 300, 200, 4),
+  }))
+  return { backlog, sprint, group }
+}
+
+describe('createDragGroup', () => {
+  it('moves blocks with their descendants between trees, keeping ids', () => {
+    const { backlog, sprint, group } = setup()
+    const onDelete = vi.fn()
+    const onAdd = vi.fn()
+    const onTransfer = vi.fn()
+    backlog.on('block:delete', onDelete)
+    sprint.on('block:add', onAdd)
+    group.on('transfer', onTransfer)
+
+    const inserted = group.transfer('backlog', 'sprint', ['1'], 'after-3')
+
+    expect(inserted.map(b => b.id)).toEqual(['1'])
+    expect(backlog.getBlocks().map(b => b.id)).toEqual(['2'])
+    expect(sprint.getBlocks().map(b => [b.id, b.parentId])).toEqual([['3', null], ['1', null], ['1a', '1']])
+    expect(onDelete).toHaveBeenCalledWith(expect.objectContaining({ deletedIds: ['1', '1a'] }))
+    expect(onAdd).toHaveBeenCalledWith(expect.objectContaining({ parentId: null, index: 1 }))
+    expect(onTransfer.mock.calls[0][0].transfer).toMatchObject({
+      sourceId: 'backlog',
+      targetId: 'sprint',
+      targetZone: 'after-3',
+      blockIds: ['1'],
+    })
+  })
+
+  it('runs onBeforeTransfer and transforms each block', () => {
+    const onBeforeTransfer = vi.fn()
+      .mockReturnValueOnce(false)
+      .mockImplementation(transfer => ({ ...transfer, targetZone: 'before-3' }))
+    const { backlog, sprint, group } = setup({
+      onBeforeTransfer,
+      transform: (b) => ({ ...b, id: `s-${b.id}`, type: b.type === 'task' ? 'list' : b.type }),
+    })
+
+    expect(group.transfer('backlog', 'sprint', ['1'], 'after-3')).toEqual([])
+    expect(backlog.getBlocks()).toHaveLength(3)
+
+    group.transfer('backlog', 'sprint', ['1'], 'after-3')
+    expect(sprint.getBlocks().map(b => [b.id, b.parentId, b.type])).toEqual([
+      ['s-1', null, 'list'],
+      ['s-1a', 's-1', 'list'],
+      ['3', null, 'task'],
+    ])
+  })
+
+  it('keeps the blocks in the source when the target refuses them', () => {
+    const { backlog, sprint, group } = setup()
+    sprint.lockBlock('3', { kind: 'readonly', subtree: true })
+
+    expect(group.transfer('backlog', 'sprint', ['2'], 'into-3')).toEqual([])
+    expect(backlog.getBlock('2')).toBeDefined()
+  })
+
+  it('keeps the blocks in the source when it cannot release them', () => {
+    const backlog = createTree([block('1', null, 0)])
+    const sprint = createTree([])
+    const group = createDragGroup<TestBlock>()
+    backlog.lockBlock('1', { kind: 'readonly' })
+    group.register(member('backlog', backlog, rect(0, 0, 200, 400), {}, {
+      canRelease: (ids) => ids.every(id => backlog.getPermissions(id).canDelete),
+    }))
+    group.register(member('sprint', sprint, rect(0, 300, 200, 400)))
+
+    expect(group.transfer('backlog', 'sprint', ['1'], 'root-end')).toEqual([])
+    expect(sprint.getBlocks()).toEqual([])
+  })
+
+  it('follows the pointer across trees and transfers on drop', () => {
+    const { backlog, sprint, group } = setup()
+    const onChange = vi.fn()
+    group.on('change', onChange)
+
+    group.startDrag('backlog', ['2'])
+    expect(group.moveDrag(100, 100)).toMatchObject({ targetId: null, targetZone: null })
+    expect(group.moveDrag(350, 36)).toMatchObject({ targetId: 'sprint', targetZone: 'after-3' })
+    group.moveDrag(351, 37)
+    expect(onChange).toHaveBeenCalledTimes(2)
+
+    expect(group.endDrag()!.map(b => b.id)).toEqual(['2'])
+    expect(group.getDrag()).toBeNull()
+    expect(onChange).toHaveBeenLastCalledWith(null)
+    expect(backlog.getBlock('2')).toBeUndefined()
+    expect(sprint.getChildren(null).map(b => b.id)).toEqual(['3', '2'])
+  })
+
+  it('leaves drops over the source tree to it', () => {
+    const { group } = setup()
+    group.startDrag('backlog', ['2'])
+    group.moveDrag(350, 36)
+    group.moveDrag(100, 100)
+    expect(group.endDrag()).toBeNull()
+  })
+
+  it('only offers zones the target can receive', () => {
+    const backlog = createTree([block('n', null, 0, 'note')])
+    const lists = createTree([block('l', null, 0, 'list')])
+    const group = createDragGroup<TestBlock>()
+    const schema = { list: { allowedChildren: ['task'] } }
+    group.register(member('backlog', backlog, rect(0, 0, 200, 400)))
+    group.register(member('lists', lists, rect(0, 300, 200, 400), {
+      'into-l': rect(20, 320, 180, 4),
+      'root-end': rect(60, 300, 200, 4),
+    }, {
+      canReceive: (zoneId, blocks) => canReceiveBlocks(lists.getBlockIndex(), zoneId, blocks, { schema }),
+    }))
+
+    group.startDrag('backlog', ['n'])
+    expect(group.moveDrag(350, 22)!.targetZone).toBe('root-end')
+  })
+
+  it('rejects duplicate member ids and forgets unregistered trees', () => {
+    const { backlog, group } = setup()
+    expect(() => group.register(member('sprint', backlog, rect(0, 0, 1, 1)))).toThrow(/sprint/)
+
+    const unregister = group.register(member('extra', createTree([]), rect(500, 0, 100, 100)))
+    group.startDrag('extra', [])
+    unregister()
+    expect(group.getDrag()).toBeNull()
+    expect(group.getMembers().map(m => m.id)).toEqual(['backlog', 'sprint'])
+  })
+})
+
+describe('canReceiveBlocks', () => {
+  it('checks locks and the schema at the zone', () => {
+    const index = computeNormalizedIndex([block('l', null, 0, 'list'), block('t', 'l', 0)])
+    const note = block('n', null, 0, 'note')
+    const schema = { list: { allowedChildren: ['task'] } }
+
+    expect(canReceiveBlocks(index, 'after-t', [note], { schema })).toBe(false)
+    expect(canReceiveBlocks(index, 'root-end', [note], { schema })).toBe(true)
+    expect(canReceiveBlocks(index, 'into-l', [block('x', null, 0)], { locks: { l: { kind: 'readonly', subtree: true } } })).toBe(false)
+  })
+})
@@ -0,0 +1,266 @@
+import type { BaseBlock, BlockIndex } from './types'
+import { scoreCollisionCandidates, type GetZoneLayout, type Rect } from './collision'
+import { EventEmitter } from './event-emitter'
+import { copyBlockSubtrees, type BlockClipboardPayload } from './utils/clipboard'
+import { isZoneUnlocked, type BlockLocks } from './utils/locks'
+import { checkBlockPlacement, getZoneParentId, type BlockSchema } from './utils/schema'
+import { flatToNested, nestedToFlat } from './utils/serialization'
+
+/** Blocks moving from one tree of a drag group to another */
+export interface BlockTransfer<T extends BaseBlock = BaseBlock> {
+  sourceId: string
+  targetId: string
+  /** Drop zone in the target tree */
+  targetZone: string
+  /** Ids of the moved top-level blocks, in tree order */
+  blockIds: string[]
+  /** The moved blocks with their descendants, in tree order, as they are in the source tree */
+  blocks: T[]
+}
+
+/** Blocks that moved between trees */
+export interface BlockTransferEvent<T extends BaseBlock = BaseBlock> {
+  transfer: BlockTransfer<T>
+  /** The top-level blocks as the target tree inserted them */
+  inserted: T[]
+}
+
+/** One tree in a drag group, registered by its adapter */
+export interface DragGroupMember<T extends BaseBlock = BaseBlock> {
+  /** Unique within the group */
+  id: string
+  getBlockIndex(): BlockIndex<T>
+  /** Bounds of the tree's root element in viewport coordinates, or null when it is not mounted */
+  getRect(): Rect | null
+  /** Viewport rects of the tree's drop zones */
+  getZoneRects(): Map<string, Rect>
+  /** Layout of a zone's list, so zones between horizontal and grid children are measured sideways */
+  getLayout?: GetZoneLayout
+  /** Whether blocks from another tree may be dropped at a zone (default: every zone) */
+  canReceive?(zoneId: string, blocks: T[]): boolean
+  /** Whether the blocks may leave the tree, e.g. when locks forbid deleting them (default: always) */
+  canRelease?(blockIds: string[]): boolean
+  /** Insert the moved subtrees at the transfer's zone. Returns the inserted top-level blocks, empty to refuse them */
+  receive(payload: BlockClipboardPayload<T>, transfer: BlockTransfer<T>): T[]
+  /** Delete the moved blocks with their descendants, once the target took them */
+  release(transfer: BlockTransfer<T>): void
+}
+
+/** A drag that may leave its tree */
+export interface DragGroupDrag {
+  sourceId: string
+  /** Ids of the dragged top-level blocks */
+  blockIds: string[]
+  /** Tree under the pointer when it is not the source tree */
+  targetId: string | null
+  /** Zone of `targetId` the blocks would be dropped at */
+  targetZone: string | null
+}
+
+export interface DragGroupOptions<T extends BaseBlock = BaseBlock> {
+  /**
+   * Called before blocks move to another tree. Return a modified transfer to
+   * change the target zone or the blocks, `false` to cancel, or nothing to
+   * allow it as-is.
+   */
+  onBeforeTransfer?: (transfer: BlockTransfer<T>) => BlockTransfer<T> | false | void
+  /**
+   * Rewrite each moved block before the target inserts it, e.g. to change its
+   * type. Changing an id moves its children along.
+   */
+  transform?: (block: T, transfer: BlockTransfer<T>) => T
+}
+
+export interface DragGroupEvents<T extends BaseBlock = BaseBlock> {
+  /** A drag started or ended, or the pointer moved to another tree or zone */
+  change: (drag: DragGroupDrag | null) => void
+  /** Blocks moved between trees */
+  transfer: (event: BlockTransferEvent<T>) => void
+}
+
+export interface DragGroup<T extends BaseBlock = BaseBlock> {
+  /** Add a tree to the group. Returns a function that removes it */
+  register(member: DragGroupMember<T>): () => void
+  getMembers(): readonly DragGroupMember<T>[]
+  getDrag(): DragGroupDrag | null
+  /** Called by the source tree's adapter when a drag starts */
+  startDrag(sourceId: string, blockIds: string[]): void
+  /** Find the tree and zone under the pointer, in viewport coordinates */
+  moveDrag(x: number, y: number): DragGroupDrag | null
+  /**
+   * Finish the drag. Returns null when the pointer is back over the source
+   * tree, which drops the blocks itself, or else the blocks another tree
+   * inserted (empty when none took them).
+   */
+  endDrag(): T[] | null
+  cancelDrag(): void
+  /** Move blocks between two registered trees. Returns the inserted top-level blocks; empty if refused */
+  transfer(sourceId: string, targetId: string, blockIds: string[], targetZone: string): T[]
+  on: EventEmitter<DragGroupEvents<T>>['on']
+  off: EventEmitter<DragGroupEvents<T>>['off']
+}
+
+const contains = (rect: Rect, x: number, y: number) =>
+  x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom
+
+/**
+ * Let blocks be dragged between trees. Register each tree's adapter with the
+ * same group (the `dragGroup` option of React and Svelte `BlockTree` and the
+ * vanilla controller); dropping on another tree deletes the blocks from the
+ * source and inserts them, ids kept, in the target.
+ *
+ * @example
+ * ```ts
+ * const group = createDragGroup<Task>({
+ *   transform: (block, { targetId }) => ({ ...block, status: targetId }),
+ * })
+ * ```
+ */
+export function createDragGroup<T extends BaseBlock = BaseBlock>(options: DragGroupOptions<T> = {}): DragGroup<T> {
+  const { onBeforeTransfer, transform } = options
+  const emitter = new EventEmitter<DragGroupEvents<T>>()
+  let members: DragGroupMember<T>[] = []
+  let drag: DragGroupDrag | null = null
+
+  const getMember = (id: string) => members.find(member => member.id === id)
+
+  function setDrag(next: DragGroupDrag | null) {
+    const same = next && drag
+      && next.sourceId === drag.sourceId
+      && next.targetId === drag.targetId
+      && next.targetZone === drag.targetZone
+    drag = next
+    if (!same) emitter.emit('change', drag)
+  }
+
+  /** Top-level blocks of a drag as they are in the source tree */
+  function getRoots(sourceId: string, blockIds: string[]): T[] {
+    const index = getMember(sourceId)?.getBlockIndex()
+    return index ? blockIds.flatMap(id => index.byId.get(id) ?? []) : []
+  }
+
+  function findZone(member: DragGroupMember<T>, roots: T[], x: number, y: number): string | null {
+    const candidates = [...member.getZoneRects()]
+      .filter(([id]) => !member.canReceive || member.canReceive(id, roots))
+      .map(([id, rect]) => ({ id, rect }))
+    const pointer = { top: y, left: x, width: 1, height: 1, right: x + 1, bottom: y + 1 }
+    return scoreCollisionCandidates(candidates, pointer, member.getLayout)[0]?.id ?? null
+  }
+
+  /** Rebuild the moved subtrees after `transform`, with the top-level blocks as roots */
+  function toPayload(transfer: BlockTransfer<T>): BlockClipboardPayload<T> {
+    const rootIds = new Set(transfer.blockIds)
+    const ids = new Map<string, string>()
+    const blocks = transfer.blocks.map(block => {
+      const next = transform ? transform(block, transfer) : block
+      ids.set(block.id, next.id)
+      return next
+    })
+    const flat = blocks.map((block, i) => {
+      const source = transfer.blocks[i]
+      return rootIds.has(source.id)
+        ? { ...block, parentId: null, order: transfer.blockIds.indexOf(source.id) }
+        : { ...block, parentId: ids.get(source.parentId!) ?? source.parentId }
+    })
+    return { format: 'dnd-block-tree', version: 1, blocks: flatToNested(flat) }
+  }
+
+  function transfer(sourceId: string, targetId: string, blockIds: string[], targetZone: string): T[] {
+    const source = getMember(sourceId)
+    const target = getMember(targetId)
+    if (!source || !target || source === target) return []
+
+    if (source.canRelease && !source.canRelease(blockIds)) return []
+    const index = source.getBlockIndex()
+    const copied = copyBlockSubtrees(index, blockIds)
+    if (copied.blocks.length === 0) return []
+    let pending: BlockTransfer<T> = {
+      sourceId,
+      targetId,
+      targetZone,
+      blockIds: copied.blocks.map(block => block.id),
+      blocks: nestedToFlat(copied.blocks).map(block => index.byId.get(block.id)!),
+    }
+
+    if (onBeforeTransfer) {
+      const result = onBeforeTransfer(pending)
+      if (result === false) return []
+      if (result) pending = result
+    }
+    const roots = pending.blocks.filter(block => pending.blockIds.includes(block.id))
+    if (target.canReceive && !target.canReceive(pending.targetZone, roots)) return []
+
+    const inserted = target.receive(toPayload(pending), pending)
+    if (inserted.length === 0) return []
+    source.release(pending)
+    emitter.emit('transfer', { transfer: pending, inserted })
+    return inserted
+  }
+
+  return {
+    register: (member) => {
+      if (getMember(member.id)) throw new Error(`A tree with id ${member.id} is already in this drag group`)
+      members = [...members, member]
+      return () => {
+        members = members.filter(m => m !== member)
+        if (drag && (drag.sourceId === member.id || drag.targetId === member.id)) setDrag(null)
+      }
+    },
+
+    getMembers: () => members,
+    getDrag: () => drag,
+
+    startDrag: (sourceId, blockIds) => {
+      setDrag({ sourceId, blockIds: [...blockIds], targetId: null, targetZone: null })
+    },
+
+    moveDrag: (x, y) => {
+      if (!drag) return null
+      const sourceRect = getMember(drag.sourceId)?.getRect()
+      // The source tree wins where trees overlap, e.g. when one is nested in the other
+      const target = sourceRect && contains(sourceRect, x, y)
+        ? undefined
+        : members.find(member => {
+          if (member.id === drag!.sourceId) return false
+          const rect = member.getRect()
+          return rect !== null && contains(rect, x, y)
+        })
+      const targetZone = target ? findZone(target, getRoots(drag.sourceId, drag.blockIds), x, y) : null
+      setDrag({ ...drag, targetId: target?.id ?? null, targetZone })
+      return drag
+    },
+
+    endDrag: () => {
+      const ended = drag
+      if (!ended) return null
+      setDrag(null)
+      if (ended.targetId === null) return null
+      if (ended.targetZone === null) return []
+      return transfer(ended.sourceId, ended.targetId, ended.blockIds, ended.targetZone)
+    },
+
+    cancelDrag: () => {
+      if (drag) setDrag(null)
+    },
+
+    transfer,
+    on: emitter.on.bind(emitter),
+    off: emitter.off.bind(emitter),
+  }
+}
+
+/**
+ * Whether a tree's schema and locks let blocks from another tree be dropped
+ * at a zone. Adapters use it for their drag group member's `canReceive`.
+ */
+export function canReceiveBlocks<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  zoneId: string,
+  blocks: T[],
+  options: { schema?: BlockSchema; locks?: BlockLocks; userId?: string } = {}
+): boolean {
+  const { schema, locks, userId } = options
+  if (locks && !isZoneUnlocked(index, locks, zoneId, userId)) return false
+  if (!schema) return true
+  return !checkBlockPlacement(index, blocks, getZoneParentId(index, zoneId), schema)
+}
@@ -8,6 +8,7 @@ export type {
   BlockRenderers,
   InternalRenderers,
   BlockAction,
+  BlockPatch,
   DragOverlayProps,
   BlockTreeConfig,
   BlockStateContextValue,
@@ -20,9 +21,18 @@ export type {
   BlockMoveEvent,
   BlockAddEvent,
   BlockDeleteEvent,
+  BlockUpdateEvent,
   MoveOperation,
   ExpandChangeEvent,
   HoverChangeEvent,
+  OrderOverflowEvent,
+  // Operation types
+  BlockOperation,
+  InsertBlockOperation,
+  MoveBlockOperation,
+  DeleteBlockOperation,
+  UpdateBlockOperation,
+  ResetBlocksOperation,
   // Callback types
   BlockTreeCallbacks,
   // Customization types
@@ -42,8 +52,12 @@ export { getDropZoneType, extractBlockId } from './types'
 // Collision detection
 export {
   weightedVerticalCollision,
+  horizontalCollision,
+  gridCollision,
   closestCenterCollision,
   createStickyCollision,
+  createOffsetDepthCollision,
+  scoreCollisionCandidates,
 } from './collision'
 export type {
   Rect,
@@ -51,7 +65,20 @@ export type {
   CollisionResult,
   CoreCollisionDetection,
   SnapshotRectsRef,
+  GetZoneLayout,
+  OffsetDepthOrigin,
+  OffsetDepthOptions,
+  OffsetDepthCollision,
 } from './collision'
+export { createCollisionRecorder, replayCollisionRecording } from './collision-recorder'
+export type {
+  CollisionFrame,
+  CollisionRecording,
+  CollisionRecorderOptions,
+  CollisionRecorderWrapOptions,
+  CollisionRecorderEvents,
+  CollisionRecorder,
+} from './collision-recorder'
 
 // Event emitter
 export { EventEmitter } from './event-emitter'
@@ -60,9 +87,115 @@ export { EventEmitter } from './event-emitter'
 export { blockReducer, expandReducer, historyReducer } from './reducers'
 export type { ExpandAction, HistoryState, HistoryAction } from './reducers'
 
+// Command history
+export { createCommandHistory, createBlockArrayHistory, describeBlockOperations } from './command-history'
+export type {
+  HistoryStep,
+  CommandHistory,
+  CommandHistoryOptions,
+  CommandHistoryEvents,
+  HistoryRecordOptions,
+  BlockArrayHistory,
+} from './command-history'
+
+// Timeline
+export { createBlockTimeline } from './timeline'
+export type {
+  TimelineStep,
+  BlockTimelineSession,
+  BlockTimelineOptions,
+  BlockTimelineEvents,
+  BlockTimeline,
+} from './timeline'
+
+// View state persistence
+export {
+  createViewStatePersistence,
+  createWebStorageAdapter,
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createIndexedDBAdapter,
+  createMemoryStorageAdapter,
+} from './view-state'
+export type {
+  TreeViewState,
+  TreeScrollPosition,
+  ViewStateStorage,
+  ViewStatePersistence,
+  ViewStatePersistenceOptions,
+  StorageLike,
+  WebStorageAdapterOptions,
+  IndexedDBAdapterOptions,
+  IDBFactoryLike,
+} from './view-state'
+
 // Tree factory
 export { createBlockTree } from './tree'
-export type { BlockTreeOptions, BlockTreeEvents, BlockTreeInstance } from './tree'
+export type { BlockTreeOptions, BlockTreeEvents, BlockTreeInstance, BlockTreeBatch } from './tree'
+
+// Replicated tree document
+export { createTreeDocument, bindTreeDocument, generatePeerId } from './crdt'
+export type {
+  TreeDocument,
+  TreeDocumentOptions,
+  TreeDocumentEvents,
+  TreeDocumentUpdate,
+  CrdtBlockState,
+  CrdtMove,
+  CrdtRegister,
+  CrdtStamp,
+} from './crdt'
+
+// Sync transport
+export {
+  connectTreeDocument,
+  syncBlockTree,
+  createLoopbackNetwork,
+  createBroadcastChannelTransport,
+  createPostMessageTransport,
+  createWebSocketTransport,
+} from './sync'
+export type {
+  SyncTransport,
+  SyncMessage,
+  TreeSync,
+  TreeSyncOptions,
+  TreeSyncEvents,
+  SyncBlockTreeOptions,
+  LoopbackNetwork,
+  LoopbackNetworkOptions,
+  MessageTarget,
+  PostMessageTransportOptions,
+  WebSocketLike,
+} from './sync'
+
+// Presence
+export { createPresence, getPresenceOverlay, getZonePosition } from './presence'
+export type {
+  Presence,
+  PresenceOptions,
+  PresenceEvents,
+  PresenceMessage,
+  PresenceUser,
+  PresenceDragState,
+  PresencePointer,
+  PeerPresence,
+  PresenceOverlay,
+  RemoteDragPreview,
+  RemoteCursor,
+} from './presence'
+
+// Drag groups
+export { createDragGroup, canReceiveBlocks } from './drag-group'
+export type {
+  DragGroup,
+  DragGroupOptions,
+  DragGroupEvents,
+  DragGroupMember,
+  DragGroupDrag,
+  BlockTransfer,
+  BlockTransferEvent,
+} from './drag-group'
 
 // Utils
 export {
@@ -74,18 +207,122 @@ export {
   getDescendantIds,
   deleteBlockAndDescendants,
   getBlockDepth,
+  getZoneDepth,
   getSubtreeDepth,
   reparentMultipleBlocks,
   validateBlockTree,
+  applyBlockPatch,
+  getBlockChanges,
 } from './utils/blocks'
 export type { TreeValidationResult } from './utils/blocks'
 
 export { extractUUID, debounce, generateId } from './utils/helper'
 
+// Operations
+export { applyBlockOperations } from './utils/operations'
+
+// Tree diffing
+export { diffBlockTrees, applyBlockDiff } from './utils/diff'
+export type {
+  BlockTreeDiff,
+  BlockDiffAdd,
+  BlockDiffDelete,
+  BlockDiffMove,
+  BlockDiffChange,
+  DiffBlockTreesOptions,
+} from './utils/diff'
+
+// Filtering
+export {
+  filterBlockTree,
+  getFilteredIndex,
+  getFilteredExpandedMap,
+  mapFilteredZone,
+  findMatchRanges,
+  getHighlightSegments,
+} from './utils/filter'
+export type {
+  BlockFilterQuery,
+  BlockFilterOptions,
+  BlockFilterResult,
+  TextMatchRange,
+  HighlightSegment,
+} from './utils/filter'
+
+// Keyboard moves
+export { isValidDropZone, getKeyboardMoveZone, getKeyboardDropZones } from './utils/keyboard'
+export type { KeyboardMoveDirection, KeyboardMoveOptions } from './utils/keyboard'
+
+// Schema
+export {
+  getSchemaContainerTypes,
+  getZoneParentId,
+  checkBlockPlacement,
+  isZoneAllowed,
+  getSchemaViolations,
+} from './utils/schema'
+export type { BlockTypeRules, BlockSchema } from './utils/schema'
+
+// Locks
+export {
+  isLockedFor,
+  getBlockLocks,
+  getBlockPermissions,
+  isZoneUnlocked,
+  getBlockLockState,
+} from './utils/locks'
+export type { BlockLockKind, BlockLock, BlockLocks, BlockPermissions, BlockLockState } from './utils/locks'
+
+// Layouts
+export { getZoneLayout } from './utils/layout'
+export type { BlockLayout, BlockLayouts } from './utils/layout'
+
+// Screen reader announcements
+export { defaultAnnouncements, resolveAnnouncements, getAnnouncement } from './utils/announcements'
+export type { Announcements, AnnouncementContext, AnnouncementEvent } from './utils/announcements'
+
+// Virtualization
+export {
+  createHeightCache,
+  getVirtualWindow,
+  getScrollAnchor,
+  resolveScrollAnchor,
+  getVirtualZoneRects,
+  getAutoScrollDelta,
+} from './utils/virtual'
+export type {
+  HeightCache,
+  VirtualLayout,
+  VirtualWindow,
+  ScrollAnchor,
+  VirtualContentOrigin,
+  VirtualZoneRectOptions,
+  AutoScrollOptions,
+} from './utils/virtual'
+
 // Serialization
 export { flatToNested, nestedToFlat } from './utils/serialization'
 export type { NestedBlock } from './utils/serialization'
 
+// Clipboard
+export {
+  BLOCK_CLIPBOARD_MIME,
+  copyBlockSubtrees,
+  pasteBlockSubtrees,
+  insertBlockSubtrees,
+  serializeBlockClipboard,
+  parseBlockClipboard,
+  writeSystemClipboard,
+  readSystemClipboard,
+} from './utils/clipboard'
+export type {
+  BlockClipboardPayload,
+  PastePosition,
+  InsertBlocksOptions,
+  PasteBlocksOptions,
+  PasteBlocksResult,
+} from './utils/clipboard'
+
 // Fractional indexing
 export {
   generateKeyBetween,
@@ -93,8 +330,20 @@ export {
   generateInitialKeys,
   initFractionalOrder,
   compareFractionalKeys,
+  getFractionalKeyStats,
+  rebalanceFractionalOrder,
 } from './utils/fractional'
+export type { FractionalKeyOptions, FractionalKeyStats, FractionalRebalanceResult } from './utils/fractional'
 
 // Merge
-export { mergeBlockVersions } from './utils/merge'
-export type { MergeBlockVersionsOptions } from './utils/merge'
+export { mergeBlockVersions, mergeBlockTrees } from './utils/merge'
+export type {
+  MergeBlockVersionsOptions,
+  ThreeWayMergeOptions,
+  ThreeWayMergeResult,
+  BlockMergeConflict,
+  BlockFieldConflict,
+  BlockMoveConflict,
+  BlockDeleteConflict,
+  BlockPlacement,
+} from './utils/merge'
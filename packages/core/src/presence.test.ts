@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createPresence, getPresenceOverlay, getZonePosition, type PresenceMessage, type PeerPresence } from './presence'
+import { createLoopbackNetwork } from './sync'
+import { computeNormalizedIndex } from './utils/blocks'
+import type { BaseBlock } from './types'
+
+interface TestBlock extends BaseBlock {
+  type: 'container' | 'item'
+}
+
+const block = (id: string, parentId: string | null, order: number, type: TestBlock['type'] = 'item'): TestBlock =>
+  ({ id, type, parentId, order })
+
+const index = computeNormalizedIndex<TestBlock>([
+  block('c', null, 0, 'container'),
+  block('1', 'c', 0),
+  block('2', 'c', 1),
+  block('3', null, 1),
+])
+
+const drag = (activeId: string | null, hoverZone: string | null, pointer: { x: number; y: number } | null = null) =>
+  ({ activeId, hoverZone, pointer })
+
+const peer = (peerId: string, state: PeerPresence['drag']): PeerPresence =>
+  ({ peerId, user: { name: peerId, color: 'red' }, drag: state })
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createPresence', () => {
+  it('exchanges state with peers that join later', () => {
+    const network = createLoopbackNetwork<PresenceMessage>()
+    const a = createPresence(network.connect(), { peerId: 'a', user: { name: 'A', color: 'blue' } })
+    a.setDragState(drag('1', 'before-3'))
+    const b = createPresence(network.connect(), { peerId: 'b', user: { name: 'B', color: 'green' } })
+
+    expect(b.getPeers()).toEqual([{ peerId: 'a', user: { name: 'A', color: 'blue' }, drag: drag('1', 'before-3') }])
+    expect(a.getPeers()).toEqual([{ peerId: 'b', user: { name: 'B', color: 'green' }, drag: null }])
+  })
+
+  it('emits change on updates and removes peers that leave', () => {
+    const network = createLoopbackNetwork<PresenceMessage>()
+    const a = createPresence(network.connect(), { peerId: 'a', user: { name: 'A', color: 'blue' } })
+    const b = createPresence(network.connect(), { peerId: 'b', user: { name: 'B', color: 'green' } })
+    const onChange = vi.fn()
+    a.on('change', onChange)
+
+    b.setDragState(drag('2', 'into-c'))
+    expect(onChange).toHaveBeenLastCalledWith([expect.objectContaining({ peerId: 'b', drag: drag('2', 'into-c') })])
+
+    b.destroy()
+    expect(onChange).toHaveBeenLastCalledWith([])
+    expect(a.getPeers()).toEqual([])
+  })
+
+  it('drops peers that go silent and keeps those that send heartbeats', () => {
+    vi.useFakeTimers()
+    const network = createLoopbackNetwork<PresenceMessage>()
+    const options = { heartbeat: 1000, peerTimeout: 3000 }
+    const a = createPresence(network.connect(), { peerId: 'a', user: { name: 'A', color: 'blue' }, ...options })
+    createPresence(network.connect(), { peerId: 'b', user: { name: 'B', color: 'green' }, ...options })
+    // A peer that crashed: it said hello, then never sent anything again
+    network.connect().send({ type: 'presence', from: 'c', user: { name: 'C', color: 'red' }, drag: drag('1', 'into-c') })
+    const onChange = vi.fn()
+    a.on('change', onChange)
+    expect(a.getPeers().map(p => p.peerId)).toEqual(['b', 'c'])
+
+    vi.advanceTimersByTime(2000)
+    expect(onChange).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1000)
+    expect(a.getPeers().map(p => p.peerId)).toEqual(['b'])
+    expect(onChange).toHaveBeenCalledTimes(1)
+    expect(getPresenceOverlay(index, a.getPeers()).locked.size).toBe(0)
+  })
+
+  it('throttles pointer-only updates and sends the last one', () => {
+    vi.useFakeTimers()
+    const network = createLoopbackNetwork<PresenceMessage>()
+    const transport = network.connect()
+    const received: PresenceMessage[] = []
+    transport.subscribe(m => received.push(m))
+    const a = createPresence(network.connect(), { peerId: 'a', user: { name: 'A', color: 'blue' }, throttle: 50 })
+    received.length = 0
+
+    a.setDragState(drag('1', null, { x: 0, y: 0 }))
+    a.setDragState(drag('1', null, { x: 5, y: 5 }))
+    a.setDragState(drag('1', null, { x: 10, y: 10 }))
+    expect(received).toHaveLength(1)
+
+    // Target changes are not held back
+    a.setDragState(drag('1', 'before-3', { x: 10, y: 12 }))
+    a.setDragState(drag('1', 'before-3', { x: 10, y: 20 }))
+    expect(received).toHaveLength(2)
+
+    vi.advanceTimersByTime(50)
+    expect(received).toHaveLength(3)
+    expect(received[2]).toMatchObject({ drag: drag('1', 'before-3', { x: 10, y: 20 }) })
+  })
+})
+
+describe('getZonePosition', () => {
+  it('maps each zone type to a parent and index', () => {
+    expect(getZonePosition(index, 'root-start')).toEqual({ parentId: null, index: 0 })
+    expect(getZonePosition(index, 'root-end')).toEqual({ parentId: null, index: 2 })
+    expect(getZonePosition(index, 'into-c')).toEqual({ parentId: 'c', index: 0 })
+    expect(getZonePosition(index, 'end-c')).toEqual({ parentId: 'c', index: 2 })
+    expect(getZonePosition(index, 'before-2')).toEqual({ parentId: 'c', index: 1 })
+    expect(getZonePosition(index, 'after-2')).toEqual({ parentId: 'c', index: 2 })
+    expect(getZonePosition(index, 'before-missing')).toBeNull()
+  })
+})
+
+describe('getPresenceOverlay', () => {
+  it('locks dragged blocks, groups hovered zones and places previews', () => {
+    const overlay = getPresenceOverlay(index, [
+      peer('a', drag('1', 'before-3', { x: 4, y: 8 })),
+      peer('b', drag('3', 'before-3')),
+      peer('c', null),
+    ])
+
+    expect([...overlay.locked.keys()]).toEqual(['1', '3'])
+    expect(overlay.zones.get('before-3')!.map(p => p.peerId)).toEqual(['a', 'b'])
+    expect(overlay.previews.map(p => [p.peer.peerId, p.block.id, p.parentId, p.index])).toEqual([
+      ['a', '1', null, 1],
+      ['b', '3', null, 1],
+    ])
+    expect(overlay.cursors).toEqual([{ peer: expect.objectContaining({ peerId: 'a' }), pointer: { x: 4, y: 8 } }])
+  })
+
+  it('ignores drags of blocks that do not exist locally', () => {
+    const overlay = getPresenceOverlay(index, [peer('a', drag('gone', 'before-3'))])
+    expect(overlay.locked.size).toBe(0)
+    expect(overlay.zones.size).toBe(0)
+    expect(overlay.previews).toEqual([])
+  })
+})
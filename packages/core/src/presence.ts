@@ -0,0 +1,288 @@
+import type { BaseBlock, BlockIndex } from './types'
+import type { SyncTransport } from './sync'
+import { generatePeerId } from './crdt'
+import { EventEmitter } from './event-emitter'
+import { extractUUID } from './utils/helper'
+import { getZoneParentId } from './utils/schema'
+
+/**
+ * Pointer position in the tree's content, relative to the top-left corner
+ * of its root element (scroll offset included)
+ */
+export interface PresencePointer {
+  x: number
+  y: number
+}
+
+/** The part of a drag that is shared with other peers */
+export interface PresenceDragState {
+  activeId: string | null
+  hoverZone: string | null
+  pointer: PresencePointer | null
+}
+
+/** How a peer is shown to the others */
+export interface PresenceUser {
+  name: string
+  /** Any CSS color */
+  color: string
+}
+
+export interface PeerPresence {
+  peerId: string
+  user: PresenceUser
+  /** Null when the peer is not dragging */
+  drag: PresenceDragState | null
+}
+
+/** Messages exchanged by `createPresence` */
+export type PresenceMessage =
+  /** A peer's current state. `join` asks every peer that hears it to reply with theirs. */
+  | { type: 'presence'; from: string; user: PresenceUser; drag: PresenceDragState | null; join?: boolean }
+  /** A peer disconnected */
+  | { type: 'presence:leave'; from: string }
+
+export interface PresenceOptions {
+  /** Replica id (default: a random id from `generatePeerId`) */
+  peerId?: string
+  user: PresenceUser
+  /**
+   * Minimum time between updates that only move the pointer, in ms.
+   * Changes to the dragged block or hovered zone are sent at once (default: 50)
+   */
+  throttle?: number
+  /** Time between resends of the local state, which tell peers this one is still there, in ms (default: 5000) */
+  heartbeat?: number
+  /**
+   * Time after which a peer that sent nothing is dropped, e.g. one that
+   * crashed without saying goodbye, in ms (default: three heartbeats)
+   */
+  peerTimeout?: number
+}
+
+export interface PresenceEvents {
+  /** A remote peer joined, left or changed its drag state */
+  change: (peers: PeerPresence[]) => void
+}
+
+export interface Presence {
+  readonly peerId: string
+  readonly user: PresenceUser
+  /** Share the local drag state with the other peers. Pass null when the drag ends. */
+  setDragState(drag: PresenceDragState | null): void
+  /** Remote peers, in the order they were first heard from */
+  getPeers(): PeerPresence[]
+  on: EventEmitter<PresenceEvents>['on']
+  off: EventEmitter<PresenceEvents>['off']
+  /** Say goodbye to peers and stop listening. Does not close the transport. */
+  destroy(): void
+}
+
+const sameDragTarget = (a: PresenceDragState | null, b: PresenceDragState | null): boolean =>
+  a?.activeId === b?.activeId && a?.hoverZone === b?.hoverZone
+
+const sameDragState = (a: PresenceDragState | null, b: PresenceDragState | null): boolean =>
+  sameDragTarget(a, b) && a?.pointer?.x === b?.pointer?.x && a?.pointer?.y === b?.pointer?.y
+
+/** Whether a message only repeats what is known of the peer, as heartbeats usually do */
+const samePresence = (peer: PeerPresence | undefined, user: PresenceUser, drag: PresenceDragState | null): boolean =>
+  !!peer && peer.user.name === user.name && peer.user.color === user.color && sameDragState(peer.drag, drag)
+
+/**
+ * Share drag state with the other peers on a transport, so each tree can
+ * show where everyone else is dragging. Presence is ephemeral: nothing is
+ * acknowledged, and a peer that joins asks the others for their current
+ * state. Each peer resends its state every `heartbeat`, and peers not heard
+ * from for `peerTimeout` are dropped, so a crashed peer does not keep its
+ * blocks locked. Use a transport of its own (e.g. a second
+ * `BroadcastChannel`), not the one a `TreeSync` uses.
+ *
+ * @example
+ * ```ts
+ * const presence = createPresence(createBroadcastChannelTransport('my-doc:presence'), {
+ *   user: { name: 'Ada', color: '#e11d48' },
+ * })
+ * presence.on('change', peers => render(getPresenceOverlay(tree.getBlockIndex(), peers)))
+ * ```
+ */
+export function createPresence(
+  transport: SyncTransport<PresenceMessage>,
+  options: PresenceOptions
+): Presence {
+  const { peerId = generatePeerId(), user, throttle = 50, heartbeat = 5000, peerTimeout = heartbeat * 3 } = options
+
+  const emitter = new EventEmitter<PresenceEvents>()
+  const peers = new Map<string, PeerPresence>()
+  const lastSeen = new Map<string, number>()
+  let drag: PresenceDragState | null = null
+  let lastSent = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let destroyed = false
+
+  function send(join?: boolean) {
+    if (timer !== null) {
+      clearTimeout(timer)
+      timer = null
+    }
+    lastSent = Date.now()
+    transport.send(join
+      ? { type: 'presence', from: peerId, user, drag, join }
+      : { type: 'presence', from: peerId, user, drag })
+  }
+
+  function emitChange() {
+    emitter.emit('change', [...peers.values()])
+  }
+
+  function removePeer(id: string): boolean {
+    lastSeen.delete(id)
+    return peers.delete(id)
+  }
+
+  function tick() {
+    send()
+    const now = Date.now()
+    let expired = false
+    for (const [id, time] of lastSeen) {
+      if (now - time >= peerTimeout && removePeer(id)) expired = true
+    }
+    if (expired) emitChange()
+  }
+
+  function handleMessage(message: PresenceMessage) {
+    if (destroyed || message.from === peerId) return
+
+    switch (message.type) {
+      case 'presence': {
+        lastSeen.set(message.from, Date.now())
+        const known = samePresence(peers.get(message.from), message.user, message.drag)
+        if (!known) peers.set(message.from, { peerId: message.from, user: message.user, drag: message.drag })
+        if (message.join) send()
+        if (!known) emitChange()
+        break
+      }
+      case 'presence:leave':
+        if (removePeer(message.from)) emitChange()
+        break
+    }
+  }
+
+  const offMessage = transport.subscribe(handleMessage)
+  send(true)
+  const heartbeatTimer = setInterval(tick, heartbeat)
+
+  return {
+    peerId,
+    user,
+    getPeers: () => [...peers.values()],
+    on: emitter.on.bind(emitter),
+    off: emitter.off.bind(emitter),
+
+    setDragState: (next) => {
+      if (destroyed) return
+      const targetChanged = !sameDragTarget(drag, next)
+      drag = next
+      const wait = lastSent + throttle - Date.now()
+      if (targetChanged || wait <= 0) {
+        send()
+      } else if (timer === null) {
+        // Trailing update, so the last pointer position is always sent
+        timer = setTimeout(() => send(), wait)
+      }
+    },
+
+    destroy: () => {
+      if (destroyed) return
+      destroyed = true
+      if (timer !== null) clearTimeout(timer)
+      clearInterval(heartbeatTimer)
+      offMessage()
+      transport.send({ type: 'presence:leave', from: peerId })
+      peers.clear()
+      lastSeen.clear()
+      emitter.removeAllListeners()
+    },
+  }
+}
+
+/** Where a remote drag would drop its block */
+export interface RemoteDragPreview<T extends BaseBlock> {
+  peer: PeerPresence
+  block: T
+  parentId: string | null
+  /** Position among the block's new siblings, counting blocks that are being dragged */
+  index: number
+}
+
+export interface RemoteCursor {
+  peer: PeerPresence
+  pointer: PresencePointer
+}
+
+/** What a renderer draws for remote peers */
+export interface PresenceOverlay<T extends BaseBlock> {
+  /** Blocks remote peers are dragging, with the peer dragging each. They cannot be dragged locally. */
+  locked: Map<string, PeerPresence>
+  /** Drop zones remote peers hover, with the peers hovering each */
+  zones: Map<string, PeerPresence[]>
+  previews: RemoteDragPreview<T>[]
+  cursors: RemoteCursor[]
+}
+
+/**
+ * Position a drop zone inserts at, as a parent and an index among that
+ * parent's current children. Returns null if the zone targets a block that
+ * is not in the index.
+ */
+export function getZonePosition<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  zoneId: string
+): { parentId: string | null; index: number } | null {
+  const parentId = getZoneParentId(index, zoneId)
+  const siblings = index.byParent.get(parentId) ?? []
+
+  if (zoneId === 'root-start') return { parentId, index: 0 }
+  if (zoneId === 'root-end') return { parentId, index: siblings.length }
+
+  const targetId = extractUUID(zoneId)
+  if (!index.byId.has(targetId)) return null
+  if (zoneId.startsWith('into-')) return { parentId, index: 0 }
+  if (zoneId.startsWith('end-')) return { parentId, index: siblings.length }
+
+  const position = siblings.indexOf(targetId)
+  if (position === -1) return null
+  return { parentId, index: zoneId.startsWith('after-') ? position + 1 : position }
+}
+
+/**
+ * Resolve remote peers' drag states against the local blocks: which blocks
+ * are locked, which drop zones to highlight, where to draw ghost previews
+ * and where each remote pointer is. Peers dragging blocks that do not exist
+ * locally are ignored.
+ */
+export function getPresenceOverlay<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  peers: readonly PeerPresence[]
+): PresenceOverlay<T> {
+  const overlay: PresenceOverlay<T> = { locked: new Map(), zones: new Map(), previews: [], cursors: [] }
+
+  for (const peer of peers) {
+    const { drag } = peer
+    if (!drag) continue
+    if (drag.pointer) overlay.cursors.push({ peer, pointer: drag.pointer })
+
+    const block = drag.activeId !== null ? index.byId.get(drag.activeId) : undefined
+    if (!block) continue
+    overlay.locked.set(block.id, peer)
+
+    if (drag.hoverZone === null) continue
+    const hovering = overlay.zones.get(drag.hoverZone)
+    if (hovering) hovering.push(peer)
+    else overlay.zones.set(drag.hoverZone, [peer])
+
+    const position = getZonePosition(index, drag.hoverZone)
+    if (position) overlay.previews.push({ peer, block, ...position })
+  }
+
+  return overlay
+}
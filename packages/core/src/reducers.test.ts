@@ -75,6 +75,15 @@ describe('blockReducer', () => {
 
       expect(state.byId.has('2')).toBe(false)
     })
+
+    it('ignores blocks the schema does not allow', () => {
+      const state = makeIndex([createBlock('p', 'container', null, 0)])
+      const schema = { container: { allowedChildren: ['container'] } }
+
+      const result = blockReducer(state, { type: 'ADD_ITEM', payload: createBlock('1', 'item', 'p', 0) }, ['container'], 'integer', undefined, schema)
+
+      expect(result).toBe(state)
+    })
   })
 
   describe('DELETE_ITEM', () => {
@@ -217,6 +226,57 @@ describe('blockReducer', () => {
 
       expect(result.byParent.get('p')).toEqual(['b', 'a'])
     })
+
+    it('ignores blocks that would exceed maxChildren', () => {
+      const state = makeIndex([
+        createBlock('p', 'container', null, 0),
+        createBlock('a', 'item', 'p', 0),
+      ])
+      const schema = { container: { allowedChildren: ['item'], maxChildren: 1 } }
+
+      const result = blockReducer(state, {
+        type: 'INSERT_ITEM',
+        payload: { item: createBlock('b', 'item', 'p', 0), parentId: 'p', index: 0 },
+      }, ['container'], 'integer', undefined, schema)
+
+      expect(result).toBe(state)
+    })
+  })
+
+  describe('UPDATE_ITEM', () => {
+    it('merges the patch into the block', () => {
+      const state = makeIndex([createBlock('1', 'item', null, 0)])
+
+      const result = blockReducer(state, { type: 'UPDATE_ITEM', payload: { id: '1', patch: { title: 'Renamed' } } })
+
+      expect(result.byId.get('1')?.title).toBe('Renamed')
+      expect(result.byParent).toBe(state.byParent)
+    })
+
+    it('ignores structural fields in the patch', () => {
+      const state = makeIndex([createBlock('1', 'item', null, 0)])
+      const patch = { title: 'Renamed', parentId: 'other', order: 5 } as unknown as { title: string }
+
+      const result = blockReducer(state, { type: 'UPDATE_ITEM', payload: { id: '1', patch } })
+
+      expect(result.byId.get('1')).toEqual({ ...createBlock('1', 'item', null, 0), title: 'Renamed' })
+    })
+
+    it('returns the same state when nothing changed', () => {
+      const state = makeIndex([createBlock('1', 'item', null, 0)])
+
+      const result = blockReducer(state, { type: 'UPDATE_ITEM', payload: { id: '1', patch: { title: 'Block 1' } } })
+
+      expect(result).toBe(state)
+    })
+
+    it('returns the same state for a missing block', () => {
+      const state = makeIndex([createBlock('1', 'item', null, 0)])
+
+      const result = blockReducer(state, { type: 'UPDATE_ITEM', payload: { id: 'missing', patch: { title: 'x' } } })
+
+      expect(result).toBe(state)
+    })
   })
 
   describe('unknown action', () => {
@@ -5,7 +5,10 @@ import {
   computeNormalizedIndex,
   reparentBlockIndex,
   deleteBlockAndDescendants,
+  applyBlockPatch,
 } from './utils/blocks'
+import { checkBlockPlacement, type BlockSchema } from './utils/schema'
+import type { FractionalKeyOptions } from './utils/fractional'
 
 // ============================================================================
 // Block Reducer
@@ -20,13 +23,19 @@ export function blockReducer<T extends BaseBlock>(
   action: BlockAction<T>,
   containerTypes: readonly string[] = [],
   orderingStrategy: OrderingStrategy = 'integer',
-  maxDepth?: number
+  maxDepth?: number,
+  schema?: BlockSchema,
+  keyOptions?: FractionalKeyOptions
 ): BlockIndex<T> {
   switch (action.type) {
     case 'ADD_ITEM': {
+      const item = action.payload
+      if (schema && checkBlockPlacement(state, [item], item.parentId ?? null, schema) !== null) {
+        return state
+      }
+
       const byId = cloneMap(state.byId)
       const byParent = cloneParentMap(state.byParent)
-      const item = action.payload
 
       byId.set(item.id, item)
 
@@ -47,6 +56,10 @@ export function blockReducer<T extends BaseBlock>(
 
     case 'INSERT_ITEM': {
       const { item, parentId, index } = action.payload
+      if (schema && checkBlockPlacement(state, [item], parentId, schema) !== null) {
+        return state
+      }
+
       const updated = new Map(state.byParent)
       const siblings = [...(updated.get(parentId) ?? [])]
       siblings.splice(index, 0, item.id)
@@ -62,6 +75,17 @@ export function blockReducer<T extends BaseBlock>(
       return deleteBlockAndDescendants(state, action.payload.id)
     }
 
+    case 'UPDATE_ITEM': {
+      const block = state.byId.get(action.payload.id)
+      if (!block) return state
+      const updated = applyBlockPatch(block, action.payload.patch)
+      if (updated === block) return state
+      return {
+        byId: new Map(state.byId).set(block.id, updated),
+        byParent: state.byParent,
+      }
+    }
+
     case 'SET_ALL': {
       return computeNormalizedIndex(action.payload)
     }
@@ -73,7 +97,9 @@ export function blockReducer<T extends BaseBlock>(
         action.payload.targetZone,
         containerTypes,
         orderingStrategy,
-        maxDepth
+        maxDepth,
+        schema,
+        keyOptions
       )
     }
 
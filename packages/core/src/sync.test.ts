@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  connectTreeDocument,
+  syncBlockTree,
+  createLoopbackNetwork,
+  createPostMessageTransport,
+  createWebSocketTransport,
+  type SyncMessage,
+  type LoopbackNetwork,
+  type MessageTarget,
+  type WebSocketLike,
+} from './sync'
+import { createTreeDocument } from './crdt'
+import { createBlockTree } from './tree'
+import type { BaseBlock } from './types'
+
+interface TestBlock extends BaseBlock {
+  type: 'container' | 'item'
+  title?: string
+}
+
+const block = (id: string, parentId: string | null, order: string, type: TestBlock['type'] = 'item'): TestBlock =>
+  ({ id, type, parentId, order })
+
+function createPeer(network: LoopbackNetwork<SyncMessage>, peerId: string, initialBlocks: TestBlock[] = []) {
+  let n = 0
+  const tree = createBlockTree<TestBlock>({
+    initialBlocks,
+    containerTypes: ['container'],
+    orderingStrategy: 'fractional',
+    fractionalKeys: { suffix: peerId },
+    idGenerator: () => `${peerId}-${++n}`,
+  })
+  const sync = syncBlockTree(tree, network.connect(), { peerId })
+  return { tree, sync }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createLoopbackNetwork', () => {
+  it('delivers to every other transport in send order', () => {
+    const network = createLoopbackNetwork<string>()
+    const a = network.connect()
+    const b = network.connect()
+    const c = network.connect()
+    const received: string[] = []
+    a.subscribe(m => received.push(`a:${m}`))
+    b.subscribe((m) => {
+      received.push(`b:${m}`)
+      // Sent while delivering, so it waits for the current message to reach everyone
+      if (m === 'one') b.send('two')
+    })
+    c.subscribe(m => received.push(`c:${m}`))
+
+    a.send('one')
+    expect(received).toEqual(['b:one', 'c:one', 'a:two', 'c:two'])
+
+    c.close()
+    a.send('three')
+    expect(received.slice(4)).toEqual(['b:three'])
+  })
+})
+
+describe('connectTreeDocument', () => {
+  it('exchanges state when peers join', () => {
+    const network = createLoopbackNetwork()
+    const a = createPeer(network, 'a1', [block('p', null, 'a', 'container')])
+    a.tree.addBlock('item', 'p')
+    const b = createPeer(network, 'b1')
+
+    expect(b.tree.getBlocks()).toEqual(a.tree.getBlocks())
+    expect(a.sync.getPeers()).toEqual(['b1'])
+    expect(b.sync.getPeers()).toEqual(['a1'])
+  })
+
+  it('syncs local changes between trees', () => {
+    const network = createLoopbackNetwork()
+    const a = createPeer(network, 'a1', [block('p', null, 'a', 'container')])
+    const b = createPeer(network, 'b1')
+    const c = createPeer(network, 'c1')
+
+    b.tree.addBlock('item', 'p')
+    c.tree.updateBlock('p', { title: 'Shared' })
+    a.tree.addBlock('item', 'p')
+
+    expect(b.tree.getBlocks()).toEqual(a.tree.getBlocks())
+    expect(c.tree.getBlocks()).toEqual(a.tree.getBlocks())
+    expect(a.tree.getBlocks().map(x => x.id)).toEqual(['p', 'b1-1', 'a1-1'])
+    expect(a.tree.getBlocks()[0].title).toBe('Shared')
+    expect(a.sync.getPendingCount()).toBe(0)
+  })
+
+  it('resends updates until they are acknowledged', () => {
+    vi.useFakeTimers()
+    let dropUpdates = true
+    const network = createLoopbackNetwork<SyncMessage>({
+      drop: message => dropUpdates && message.type === 'update' && message.to === undefined,
+    })
+    const a = createPeer(network, 'a1', [block('p', null, 'a', 'container')])
+    const b = createPeer(network, 'b1')
+
+    a.tree.addBlock('item', 'p')
+    expect(b.tree.getBlocks()).toHaveLength(1)
+    expect(a.sync.getPendingCount()).toBe(1)
+
+    dropUpdates = false
+    vi.advanceTimersByTime(1000)
+    expect(b.tree.getBlocks()).toEqual(a.tree.getBlocks())
+    expect(a.sync.getPendingCount()).toBe(0)
+  })
+
+  it('applies each update once however often it arrives', () => {
+    const network = createLoopbackNetwork()
+    const doc = createTreeDocument<TestBlock>({ peerId: 'b1' })
+    connectTreeDocument(doc, network.connect())
+    const raw = network.connect()
+    const acks: SyncMessage[] = []
+    raw.subscribe(m => m.type === 'ack' && acks.push(m))
+    const onUpdate = vi.fn()
+    doc.on('update', onUpdate)
+
+    const update = { blocks: { x: { fields: { type: { value: 'item', stamp: { clock: 1, peer: 'a1' } } } } } }
+    raw.send({ type: 'update', from: 'a1', seq: 2, update })
+    raw.send({ type: 'update', from: 'a1', seq: 2, update })
+
+    expect(onUpdate).toHaveBeenCalledTimes(1)
+    expect(acks).toEqual([
+      { type: 'ack', from: 'b1', to: 'a1', seq: 2 },
+      { type: 'ack', from: 'b1', to: 'a1', seq: 2 },
+    ])
+  })
+
+  it('drops peers that leave or stop acknowledging', () => {
+    vi.useFakeTimers()
+    const network = createLoopbackNetwork<SyncMessage>({
+      drop: (message, to) => to === 2 && message.type === 'update',
+    })
+    const a = createPeer(network, 'a1', [block('p', null, 'a', 'container')])
+    const b = createPeer(network, 'b1')
+    createPeer(network, 'c1')
+    const onLeave = vi.fn()
+    a.sync.on('peer:leave', onLeave)
+
+    b.sync.destroy()
+    expect(onLeave).toHaveBeenCalledWith('b1')
+
+    a.tree.addBlock('item', 'p')
+    vi.advanceTimersByTime(11_000)
+    expect(onLeave).toHaveBeenCalledWith('c1')
+    expect(a.sync.getPeers()).toEqual([])
+    expect(a.sync.getPendingCount()).toBe(0)
+  })
+
+  it('stops syncing once destroyed', () => {
+    const network = createLoopbackNetwork()
+    const a = createPeer(network, 'a1', [block('p', null, 'a', 'container')])
+    const b = createPeer(network, 'b1')
+
+    b.sync.destroy()
+    a.tree.addBlock('item', 'p')
+    b.tree.addBlock('item', 'p')
+
+    expect(a.tree.getBlocks().map(x => x.id)).toEqual(['p', 'a1-1'])
+    expect(b.tree.getBlocks().map(x => x.id)).toEqual(['p', 'b1-1'])
+  })
+})
+
+describe('transports', () => {
+  interface FakePort extends MessageTarget {
+    peer?: FakePort
+    emit(data: unknown): void
+  }
+
+  function createPort(): FakePort {
+    const listeners = new Set<(event: { data: unknown }) => void>()
+    const port: FakePort = {
+      postMessage: (message: unknown) => port.peer?.emit(structuredClone(message)),
+      addEventListener: (_type: 'message', listener: (event: { data: unknown }) => void) => listeners.add(listener),
+      removeEventListener: (_type: 'message', listener: (event: { data: unknown }) => void) => listeners.delete(listener),
+      emit: (data: unknown) => listeners.forEach(listener => listener({ data })),
+    }
+    return port
+  }
+
+  it('tags postMessage traffic and ignores other messages', () => {
+    const left = createPort()
+    const right = createPort()
+    left.peer = right
+    right.peer = left
+    const a = createPostMessageTransport<string>(left)
+    const b = createPostMessageTransport<string>(right)
+    const received = vi.fn()
+    b.subscribe(received)
+
+    a.send('hi')
+    right.emit({ something: 'else' })
+    expect(received.mock.calls).toEqual([['hi']])
+
+    b.close()
+    a.send('again')
+    expect(received).toHaveBeenCalledTimes(1)
+  })
+
+  it('queues WebSocket messages until the socket opens', () => {
+    const listeners: Record<string, Set<(event: { data?: unknown }) => void>> = { open: new Set(), message: new Set() }
+    const socket: WebSocketLike & { readyState: number } = {
+      readyState: 0,
+      send: vi.fn(),
+      close: vi.fn(),
+      addEventListener: (type, listener) => listeners[type].add(listener),
+      removeEventListener: (type, listener) => listeners[type].delete(listener),
+    }
+    const transport = createWebSocketTransport<{ n: number }>(socket)
+    const received = vi.fn()
+    transport.subscribe(received)
+
+    transport.send({ n: 1 })
+    expect(socket.send).not.toHaveBeenCalled()
+    socket.readyState = 1
+    listeners.open.forEach(listener => listener({}))
+    expect(socket.send).toHaveBeenCalledWith('{"n":1}')
+
+    listeners.message.forEach(listener => listener({ data: '{"n":2}' }))
+    listeners.message.forEach(listener => listener({ data: 'not json' }))
+    expect(received.mock.calls).toEqual([[{ n: 2 }]])
+
+    transport.close()
+    expect(listeners.message.size).toBe(0)
+    expect(socket.close).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,518 @@
+import type { BaseBlock } from './types'
+import type { BlockTreeInstance } from './tree'
+import type { TreeDocument, TreeDocumentUpdate } from './crdt'
+import { createTreeDocument, bindTreeDocument } from './crdt'
+import { EventEmitter } from './event-emitter'
+
+/**
+ * Carries messages between replicas. Messages must be delivered to every
+ * other replica on the transport but never back to the sender. Delivery may
+ * be delayed, reordered, duplicated or lost; the sync protocol recovers.
+ */
+export interface SyncTransport<M = SyncMessage> {
+  send(message: M): void
+  /** Listen for messages from other replicas. Returns an unsubscribe function. */
+  subscribe(handler: (message: M) => void): () => void
+  /** Stop listening and release the underlying channel if the transport created it */
+  close(): void
+}
+
+/** Messages exchanged by `connectTreeDocument` */
+export type SyncMessage =
+  /** A replica joined. Every peer that hears it replies with its whole state. */
+  | { type: 'hello'; from: string }
+  /** Document changes, numbered per sender. `to` addresses a single peer. */
+  | { type: 'update'; from: string; to?: string; seq: number; update: TreeDocumentUpdate }
+  /** Confirms that `from` has applied update `seq` sent by `to` */
+  | { type: 'ack'; from: string; to: string; seq: number }
+  /** A replica disconnected */
+  | { type: 'bye'; from: string }
+
+/**
+ * The subset of `BroadcastChannel`, `MessagePort`, `Worker` and `Window`
+ * that the message-based transports use.
+ */
+export interface MessageTarget {
+  postMessage(message: unknown): void
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+  removeEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+}
+
+/** The subset of `WebSocket` that `createWebSocketTransport` uses */
+export interface WebSocketLike {
+  readonly readyState: number
+  send(data: string): void
+  close(): void
+  addEventListener(type: 'message' | 'open', listener: (event: { data?: unknown }) => void): void
+  removeEventListener(type: 'message' | 'open', listener: (event: { data?: unknown }) => void): void
+}
+
+type ClosableTarget = MessageTarget & { close(): void }
+
+function createMessageTransport<M>(
+  post: (data: unknown) => void,
+  source: MessageTarget,
+  wrap: (message: M) => unknown,
+  unwrap: (data: unknown) => M | undefined,
+  onClose?: () => void
+): SyncTransport<M> {
+  const listeners = new Set<(event: { data: unknown }) => void>()
+
+  return {
+    send: (message) => post(wrap(message)),
+
+    subscribe: (handler) => {
+      const listener = (event: { data: unknown }) => {
+        const message = unwrap(event.data)
+        if (message !== undefined) handler(message)
+      }
+      listeners.add(listener)
+      source.addEventListener('message', listener)
+      return () => {
+        listeners.delete(listener)
+        source.removeEventListener('message', listener)
+      }
+    },
+
+    close: () => {
+      for (const listener of listeners) source.removeEventListener('message', listener)
+      listeners.clear()
+      onClose?.()
+    },
+  }
+}
+
+/**
+ * Transport over a `BroadcastChannel`, e.g. to sync tabs of the same origin.
+ * Pass a channel name to have the transport open (and later close) the
+ * channel, or pass an existing channel.
+ */
+export function createBroadcastChannelTransport<M = SyncMessage>(
+  channel: string | ClosableTarget
+): SyncTransport<M> {
+  let target: ClosableTarget
+  if (typeof channel === 'string') {
+    const BroadcastChannelCtor = (globalThis as unknown as { BroadcastChannel?: new (name: string) => ClosableTarget }).BroadcastChannel
+    if (!BroadcastChannelCtor) {
+      throw new Error('BroadcastChannel is not available in this environment')
+    }
+    target = new BroadcastChannelCtor(channel)
+  } else {
+    target = channel
+  }
+
+  return createMessageTransport<M>(
+    data => target.postMessage(data),
+    target,
+    message => message,
+    data => data as M,
+    typeof channel === 'string' ? () => target.close() : undefined
+  )
+}
+
+export interface PostMessageTransportOptions {
+  /** Where incoming messages arrive (default: `target`). Use `window` when `target` is an iframe's window. */
+  source?: MessageTarget
+  /** Origin passed to `Window.postMessage` */
+  targetOrigin?: string
+  /** Tag that keeps sync messages apart from other messages on the same target (default: 'dnd-block-tree') */
+  channel?: string
+}
+
+/**
+ * Transport over `postMessage`, e.g. between a page and a worker, an iframe
+ * or the two ends of a `MessageChannel`. Messages are tagged with `channel`
+ * and untagged messages on the target are ignored.
+ */
+export function createPostMessageTransport<M = SyncMessage>(
+  target: MessageTarget,
+  options: PostMessageTransportOptions = {}
+): SyncTransport<M> {
+  const { source = target, targetOrigin, channel = 'dnd-block-tree' } = options
+  const post = targetOrigin === undefined
+    ? (data: unknown) => target.postMessage(data)
+    : (data: unknown) => (target as { postMessage(message: unknown, targetOrigin: string): void }).postMessage(data, targetOrigin)
+
+  return createMessageTransport<M>(
+    post,
+    source,
+    message => ({ channel, message }),
+    (data) => {
+      const tagged = data as { channel?: unknown; message?: M } | null
+      return tagged && typeof tagged === 'object' && tagged.channel === channel ? tagged.message : undefined
+    }
+  )
+}
+
+const WEB_SOCKET_CONNECTING = 0
+const WEB_SOCKET_OPEN = 1
+
+/**
+ * Transport over a WebSocket. Messages are sent as JSON and queued until the
+ * socket opens. The server must relay each message to every other client in
+ * the same room. Pass a URL to have the transport open (and later close) the
+ * socket, or pass an existing socket.
+ */
+export function createWebSocketTransport<M = SyncMessage>(
+  socket: string | WebSocketLike
+): SyncTransport<M> {
+  let ws: WebSocketLike
+  if (typeof socket === 'string') {
+    const WebSocketCtor = (globalThis as unknown as { WebSocket?: new (url: string) => WebSocketLike }).WebSocket
+    if (!WebSocketCtor) {
+      throw new Error('WebSocket is not available in this environment')
+    }
+    ws = new WebSocketCtor(socket)
+  } else {
+    ws = socket
+  }
+
+  const pending: string[] = []
+  const listeners = new Set<(event: { data?: unknown }) => void>()
+
+  const onOpen = () => {
+    for (const data of pending.splice(0)) ws.send(data)
+  }
+  ws.addEventListener('open', onOpen)
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message)
+      if (ws.readyState === WEB_SOCKET_OPEN) ws.send(data)
+      else if (ws.readyState === WEB_SOCKET_CONNECTING) pending.push(data)
+    },
+
+    subscribe: (handler) => {
+      const listener = (event: { data?: unknown }) => {
+        if (typeof event.data !== 'string') return
+        let message: M
+        try {
+          message = JSON.parse(event.data) as M
+        } catch {
+          return
+        }
+        handler(message)
+      }
+      listeners.add(listener)
+      ws.addEventListener('message', listener)
+      return () => {
+        listeners.delete(listener)
+        ws.removeEventListener('message', listener)
+      }
+    },
+
+    close: () => {
+      ws.removeEventListener('open', onOpen)
+      for (const listener of listeners) ws.removeEventListener('message', listener)
+      listeners.clear()
+      pending.length = 0
+      if (typeof socket === 'string') ws.close()
+    },
+  }
+}
+
+export interface LoopbackNetworkOptions<M> {
+  /** Return true to lose a message on its way to `to` (the index of the receiving transport) */
+  drop?: (message: M, to: number) => boolean
+}
+
+export interface LoopbackNetwork<M> {
+  /** Create a transport that reaches every other transport on the network */
+  connect(): SyncTransport<M>
+}
+
+/**
+ * In-memory network for tests, demos and replicas in the same page.
+ * Messages are copied as JSON and delivered synchronously in the order they
+ * were sent; messages sent while delivering are queued behind the current one.
+ */
+export function createLoopbackNetwork<M = SyncMessage>(
+  options: LoopbackNetworkOptions<M> = {}
+): LoopbackNetwork<M> {
+  const handlers: (Set<(message: M) => void> | null)[] = []
+  const queue: { from: number; data: string }[] = []
+  let delivering = false
+
+  function flush() {
+    if (delivering) return
+    delivering = true
+    try {
+      while (queue.length > 0) {
+        const { from, data } = queue.shift()!
+        handlers.forEach((set, to) => {
+          if (!set || to === from) return
+          const message = JSON.parse(data) as M
+          if (options.drop?.(message, to)) return
+          for (const handler of [...set]) handler(message)
+        })
+      }
+    } finally {
+      delivering = false
+    }
+  }
+
+  return {
+    connect: () => {
+      const index = handlers.length
+      const set = new Set<(message: M) => void>()
+      handlers.push(set)
+
+      return {
+        send: (message) => {
+          if (!handlers[index]) return
+          queue.push({ from: index, data: JSON.stringify(message) })
+          flush()
+        },
+        subscribe: (handler) => {
+          set.add(handler)
+          return () => set.delete(handler)
+        },
+        close: () => {
+          set.clear()
+          handlers[index] = null
+        },
+      }
+    },
+  }
+}
+
+export interface TreeSyncOptions {
+  /** How often unacknowledged updates are sent again, in ms (default: 1000) */
+  resendInterval?: number
+  /** Resends before a peer that never acknowledges is dropped (default: 10) */
+  maxResends?: number
+}
+
+export interface TreeSyncEvents {
+  /** A peer was heard from for the first time and sent our state */
+  'peer:join': (peerId: string) => void
+  /** A peer said goodbye or stopped acknowledging updates */
+  'peer:leave': (peerId: string) => void
+}
+
+export interface TreeSync<T extends BaseBlock> {
+  readonly peerId: string
+  readonly doc: TreeDocument<T>
+  /** Peers currently known to be connected */
+  getPeers(): string[]
+  /** Updates sent but not yet acknowledged by every peer */
+  getPendingCount(): number
+  on: EventEmitter<TreeSyncEvents>['on']
+  off: EventEmitter<TreeSyncEvents>['off']
+  /** Say goodbye to peers and stop syncing. Does not close the transport. */
+  destroy(): void
+}
+
+interface OutgoingUpdate {
+  message: SyncMessage & { type: 'update' }
+  waiting: Set<string>
+  resends: number
+}
+
+interface IncomingSequence {
+  /** Every seq up to this one has been applied */
+  contiguous: number
+  /** Applied seqs above `contiguous` */
+  ahead: Set<number>
+}
+
+/**
+ * Sync a tree document with its peers over a transport. Local updates are
+ * numbered and broadcast; each peer acknowledges what it applies, and
+ * updates still missing an acknowledgement are sent again every
+ * `resendInterval`. Peers that join exchange their whole state, so a replica
+ * can connect at any time. Document updates are idempotent, so duplicate or
+ * out-of-order delivery is harmless.
+ */
+export function connectTreeDocument<T extends BaseBlock>(
+  doc: TreeDocument<T>,
+  transport: SyncTransport<SyncMessage>,
+  options: TreeSyncOptions = {}
+): TreeSync<T> {
+  const { resendInterval = 1000, maxResends = 10 } = options
+  const { peerId } = doc
+
+  const emitter = new EventEmitter<TreeSyncEvents>()
+  const peers = new Set<string>()
+  const incoming = new Map<string, IncomingSequence>()
+  const outbox = new Map<number, OutgoingUpdate>()
+  let seq = 0
+  let timer: ReturnType<typeof setInterval> | null = null
+  let destroyed = false
+
+  function sendUpdate(update: TreeDocumentUpdate, to?: string) {
+    seq += 1
+    const message: SyncMessage = to === undefined
+      ? { type: 'update', from: peerId, seq, update }
+      : { type: 'update', from: peerId, to, seq, update }
+    const waiting = new Set(to === undefined ? peers : [to])
+    // Registered before sending, since a synchronous transport may ack immediately
+    if (waiting.size > 0) {
+      outbox.set(seq, { message, waiting, resends: 0 })
+      startTimer()
+    }
+    transport.send(message)
+  }
+
+  function startTimer() {
+    if (timer !== null) return
+    timer = setInterval(resend, resendInterval)
+  }
+
+  function stopTimer() {
+    if (timer === null) return
+    clearInterval(timer)
+    timer = null
+  }
+
+  function resend() {
+    for (const [key, entry] of outbox) {
+      if (entry.resends >= maxResends) {
+        outbox.delete(key)
+        for (const id of entry.waiting) removePeer(id)
+        continue
+      }
+      entry.resends += 1
+      transport.send(entry.message)
+    }
+    if (outbox.size === 0) stopTimer()
+  }
+
+  function addPeer(id: string) {
+    if (peers.has(id)) return
+    peers.add(id)
+    emitter.emit('peer:join', id)
+    sendUpdate(doc.encodeState(), id)
+  }
+
+  function removePeer(id: string) {
+    if (!peers.delete(id)) return
+    incoming.delete(id)
+    for (const [key, entry] of outbox) {
+      entry.waiting.delete(id)
+      if (entry.waiting.size === 0) outbox.delete(key)
+    }
+    if (outbox.size === 0) stopTimer()
+    emitter.emit('peer:leave', id)
+  }
+
+  /** Record `n` from `from`. Returns false if it was already applied. */
+  function markReceived(from: string, n: number): boolean {
+    let sequence = incoming.get(from)
+    if (!sequence) {
+      sequence = { contiguous: 0, ahead: new Set() }
+      incoming.set(from, sequence)
+    }
+    if (n <= sequence.contiguous || sequence.ahead.has(n)) return false
+    sequence.ahead.add(n)
+    while (sequence.ahead.delete(sequence.contiguous + 1)) sequence.contiguous += 1
+    return true
+  }
+
+  function handleMessage(message: SyncMessage) {
+    if (destroyed || message.from === peerId) return
+
+    switch (message.type) {
+      case 'hello':
+        // A peer that reconnects under the same id starts its sequence over
+        incoming.delete(message.from)
+        if (peers.has(message.from)) sendUpdate(doc.encodeState(), message.from)
+        else addPeer(message.from)
+        break
+      case 'update':
+        if (message.to !== undefined && message.to !== peerId) return
+        addPeer(message.from)
+        if (markReceived(message.from, message.seq)) doc.applyUpdate(message.update, transport)
+        // Ack duplicates too, in case the first ack was lost
+        transport.send({ type: 'ack', from: peerId, to: message.from, seq: message.seq })
+        break
+      case 'ack': {
+        if (message.to !== peerId) return
+        addPeer(message.from)
+        const entry = outbox.get(message.seq)
+        if (!entry) return
+        entry.waiting.delete(message.from)
+        if (entry.waiting.size === 0) outbox.delete(message.seq)
+        if (outbox.size === 0) stopTimer()
+        break
+      }
+      case 'bye':
+        removePeer(message.from)
+        break
+    }
+  }
+
+  const offMessage = transport.subscribe(handleMessage)
+  const offUpdate = doc.on('update', (update, origin) => {
+    // Remote updates reach every peer from their author
+    if (origin !== transport) sendUpdate(update)
+  })
+  transport.send({ type: 'hello', from: peerId })
+
+  return {
+    peerId,
+    doc,
+    getPeers: () => [...peers],
+    getPendingCount: () => outbox.size,
+    on: emitter.on.bind(emitter),
+    off: emitter.off.bind(emitter),
+
+    destroy: () => {
+      if (destroyed) return
+      destroyed = true
+      stopTimer()
+      offMessage()
+      offUpdate()
+      outbox.clear()
+      transport.send({ type: 'bye', from: peerId })
+      emitter.removeAllListeners()
+    },
+  }
+}
+
+export interface SyncBlockTreeOptions extends TreeSyncOptions {
+  /**
+   * Replica id. Pass the same id as the tree's `fractionalKeys.suffix` so
+   * concurrent inserts never share a key (see `generatePeerId`).
+   */
+  peerId?: string
+}
+
+/**
+ * Keep a `createBlockTree` instance in sync with every other tree on the
+ * transport, e.g. across browser tabs. Creates a tree document for the tree,
+ * binds it (see `bindTreeDocument`) and connects it (see
+ * `connectTreeDocument`). The tree must use fractional ordering.
+ *
+ * `destroy()` also unbinds the tree and destroys the document.
+ *
+ * @example
+ * ```ts
+ * const peerId = generatePeerId()
+ * const tree = createBlockTree({
+ *   initialBlocks,
+ *   orderingStrategy: 'fractional',
+ *   fractionalKeys: { suffix: peerId },
+ * })
+ * const sync = syncBlockTree(tree, createBroadcastChannelTransport('my-doc'), { peerId })
+ * ```
+ */
+export function syncBlockTree<T extends BaseBlock>(
+  tree: BlockTreeInstance<T>,
+  transport: SyncTransport<SyncMessage>,
+  options: SyncBlockTreeOptions = {}
+): TreeSync<T> {
+  const { peerId, ...syncOptions } = options
+  const doc = createTreeDocument<T>({ peerId })
+  const unbind = bindTreeDocument(doc, tree)
+  const sync = connectTreeDocument(doc, transport, syncOptions)
+
+  return {
+    ...sync,
+    destroy: () => {
+      sync.destroy()
+      unbind()
+      doc.destroy()
+    },
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createBlockTimeline, type BlockTimelineSession } from './timeline'
+import type { BaseBlock } from './types'
+
+interface TestBlock extends BaseBlock {
+  type: 'list' | 'task'
+  title: string
+}
+
+const block = (id: string, parentId: string | null, order: number, title = id): TestBlock =>
+  ({ id, type: parentId === null ? 'list' : 'task', parentId, order, title })
+
+const states = [
+  [block('a', null, 0), block('b', null, 1)],
+  [block('b', null, 0), block('a', null, 1)],
+  [block('b', null, 0), block('a', null, 1), block('a1', 'a', 0)],
+  [block('b', null, 0, 'Renamed'), block('a', null, 1), block('a1', 'a', 0)],
+]
+
+function recorded() {
+  const timeline = createBlockTimeline(states[0])
+  timeline.record(states[1])
+  timeline.record(states[2], 'Add subtask')
+  timeline.record(states[3])
+  return timeline
+}
+
+describe('createBlockTimeline', () => {
+  it('records a labelled step per change', () => {
+    const timeline = recorded()
+    expect(timeline.getSteps().map(step => step.label)).toEqual(['Move block', 'Add subtask', 'Edit block'])
+    expect(timeline.getCursor()).toBe(3)
+    expect(timeline.record(states[3])).toBeNull()
+  })
+
+  it('rebuilds the blocks at any step and seeks to it', () => {
+    const timeline = recorded()
+    const onChange = vi.fn()
+    timeline.on('change', onChange)
+
+    expect(timeline.getBlocksAt(0)).toEqual(states[0])
+    expect(timeline.getBlocksAt(2)).toEqual(states[2])
+    expect(timeline.getCursor()).toBe(3)
+
+    expect(timeline.seek(1)).toEqual(states[1])
+    expect(timeline.getBlocksAt(3)).toEqual(states[3])
+    expect(timeline.seek(99)).toEqual(states[3])
+    expect(onChange).toHaveBeenCalledTimes(2)
+  })
+
+  it('drops later steps when recording after a seek', () => {
+    const timeline = recorded()
+    timeline.seek(1)
+    timeline.record(states[0])
+    expect(timeline.getSteps()).toHaveLength(2)
+    expect(timeline.getCursor()).toBe(2)
+  })
+
+  it('folds the oldest steps into the initial blocks', () => {
+    const timeline = createBlockTimeline(states[0], { maxSteps: 2 })
+    timeline.record(states[1])
+    timeline.record(states[2])
+    timeline.record(states[3])
+    expect(timeline.getSteps()).toHaveLength(2)
+    expect(timeline.getBlocksAt(0)).toEqual(states[1])
+  })
+
+  it('saves and loads a session through JSON', () => {
+    const timeline = recorded()
+    timeline.seek(2)
+    const json = JSON.stringify(timeline.toJSON())
+
+    const restored = createBlockTimeline<TestBlock>([])
+    expect(restored.load(JSON.parse(json))).toEqual(states[2])
+    expect(restored.getCursor()).toBe(2)
+    expect(restored.getBlocksAt(3)).toEqual(states[3])
+    expect(restored.getSteps()[1].label).toBe('Add subtask')
+  })
+
+  it('rejects unknown session formats', () => {
+    const timeline = createBlockTimeline<TestBlock>([])
+    const session = { format: 'other', version: 1 } as unknown as BlockTimelineSession<TestBlock>
+    expect(() => timeline.load(session)).toThrow(/Unsupported timeline session/)
+  })
+})
@@ -0,0 +1,182 @@
+import type { BaseBlock, BlockIndex, BlockOperation, OrderingStrategy } from './types'
+import { applyBlockOperations, diffBlockIndexes } from './utils/operations'
+import { computeNormalizedIndex, flattenBlockIndex } from './utils/blocks'
+import { describeBlockOperations } from './command-history'
+import { EventEmitter } from './event-emitter'
+
+/** One recorded change of a timeline */
+export interface TimelineStep<T extends BaseBlock = BaseBlock> {
+  /** What changed, e.g. "Move 3 blocks" */
+  label: string
+  /** When the change was recorded, in ms since the epoch */
+  time: number
+  /** Operations from the previous state to this one */
+  operations: BlockOperation<T>[]
+  /** Operations from this state back to the previous one */
+  inverse: BlockOperation<T>[]
+}
+
+/** A recorded timeline in a form that survives `JSON.stringify` */
+export interface BlockTimelineSession<T extends BaseBlock = BaseBlock> {
+  format: 'dnd-block-tree-timeline'
+  version: 1
+  /** Blocks before the first step */
+  initialBlocks: T[]
+  steps: TimelineStep<T>[]
+  /** Number of steps applied to reach the state the session was saved at */
+  cursor: number
+}
+
+export interface BlockTimelineOptions<T extends BaseBlock = BaseBlock> {
+  /** Most steps kept; the oldest are folded into the initial blocks (default: 500) */
+  maxSteps?: number
+  /** Ordering of the recorded blocks (default: 'integer') */
+  orderingStrategy?: OrderingStrategy
+  /** Label of steps recorded without one (default: "Move 3 blocks", "Edit block", ...) */
+  describe?: (operations: BlockOperation<T>[]) => string
+}
+
+export interface BlockTimelineEvents {
+  /** A step was recorded, the cursor moved, or a session was loaded or cleared */
+  change: () => void
+}
+
+export interface BlockTimeline<T extends BaseBlock = BaseBlock> {
+  /**
+   * Record the blocks as the state after the cursor. Steps after the cursor
+   * are dropped, as when editing after an undo. Returns the new step, or null
+   * when nothing changed.
+   */
+  record(blocks: T[], label?: string): TimelineStep<T> | null
+  getSteps(): readonly TimelineStep<T>[]
+  /** Number of steps applied to reach the current state; 0 is the initial blocks */
+  getCursor(): number
+  /** Blocks after `position` steps, without moving the cursor */
+  getBlocksAt(position: number): T[]
+  /** Move the cursor and return the blocks there */
+  seek(position: number): T[]
+  /** Drop every step and start over from `blocks` */
+  clear(blocks: T[]): void
+  /** The timeline as a session, ready for `JSON.stringify` and `load` */
+  toJSON(): BlockTimelineSession<T>
+  /** Replace the timeline with a saved session. Returns the blocks at its cursor */
+  load(session: BlockTimelineSession<T>): T[]
+  on: EventEmitter<BlockTimelineEvents>['on']
+  off: EventEmitter<BlockTimelineEvents>['off']
+}
+
+/**
+ * Record every state a tree goes through as the operations between them, so
+ * a session can be scrubbed, compared step by step, saved as JSON and loaded
+ * again to reproduce a bug report. `BlockTreeDevTools` shows it as its
+ * history timeline.
+ *
+ * @example
+ * ```ts
+ * const timeline = createBlockTimeline(initialBlocks)
+ * tree.on('blocks:change', blocks => timeline.record(blocks))
+ * tree.setBlocks(timeline.seek(3))
+ * localStorage.setItem('session', JSON.stringify(timeline.toJSON()))
+ * ```
+ */
+export function createBlockTimeline<T extends BaseBlock = BaseBlock>(
+  initialBlocks: T[],
+  options: BlockTimelineOptions<T> = {}
+): BlockTimeline<T> {
+  const { maxSteps = 500, orderingStrategy = 'integer', describe = describeBlockOperations } = options
+
+  const emitter = new EventEmitter<BlockTimelineEvents>()
+  let base = computeNormalizedIndex(initialBlocks, orderingStrategy)
+  let steps: TimelineStep<T>[] = []
+  let cursor = 0
+  let current = { index: base, blocks: initialBlocks }
+
+  const clamp = (position: number) => Math.max(0, Math.min(Math.floor(position), steps.length))
+
+  /** Index after `position` steps, walked from the cursor */
+  function indexAt(position: number): BlockIndex<T> {
+    let index = current.index
+    for (let i = cursor; i < position; i++) {
+      index = applyBlockOperations(index, steps[i].operations, orderingStrategy)
+    }
+    for (let i = cursor; i > position; i--) {
+      index = applyBlockOperations(index, steps[i - 1].inverse, orderingStrategy)
+    }
+    return index
+  }
+
+  function blocksAt(position: number): T[] {
+    return position === cursor ? current.blocks : flattenBlockIndex(indexAt(position))
+  }
+
+  return {
+    record: (blocks, label) => {
+      const index = computeNormalizedIndex(blocks, orderingStrategy)
+      const diff = diffBlockIndexes(current.index, index, orderingStrategy)
+      current = { index, blocks }
+      if (diff.operations.length === 0) return null
+
+      const step: TimelineStep<T> = { label: label ?? describe(diff.operations), time: Date.now(), ...diff }
+      steps = [...steps.slice(0, cursor), step]
+      if (steps.length > maxSteps) {
+        const dropped = steps.splice(0, steps.length - maxSteps)
+        for (const old of dropped) base = applyBlockOperations(base, old.operations, orderingStrategy)
+      }
+      cursor = steps.length
+      emitter.emit('change')
+      return step
+    },
+
+    getSteps: () => steps,
+    getCursor: () => cursor,
+    getBlocksAt: (position) => blocksAt(clamp(position)),
+
+    seek: (position) => {
+      const target = clamp(position)
+      if (target !== cursor) {
+        const index = indexAt(target)
+        current = { index, blocks: flattenBlockIndex(index) }
+        cursor = target
+        emitter.emit('change')
+      }
+      return current.blocks
+    },
+
+    clear: (blocks) => {
+      base = computeNormalizedIndex(blocks, orderingStrategy)
+      steps = []
+      cursor = 0
+      current = { index: base, blocks }
+      emitter.emit('change')
+    },
+
+    toJSON: () => ({
+      format: 'dnd-block-tree-timeline',
+      version: 1,
+      initialBlocks: flattenBlockIndex(base),
+      steps: [...steps],
+      cursor,
+    }),
+
+    load: (session) => {
+      if (session.format !== 'dnd-block-tree-timeline' || session.version !== 1) {
+        throw new Error(`Unsupported timeline session: ${String(session.format)} v${String(session.version)}`)
+      }
+      base = computeNormalizedIndex(session.initialBlocks, orderingStrategy)
+      steps = [...session.steps]
+      current = { index: base, blocks: flattenBlockIndex(base) }
+      cursor = 0
+      const target = clamp(session.cursor)
+      if (target > 0) {
+        const index = indexAt(target)
+        current = { index, blocks: flattenBlockIndex(index) }
+        cursor = target
+      }
+      emitter.emit('change')
+      return current.blocks
+    },
+
+    on: emitter.on.bind(emitter),
+    off: emitter.off.bind(emitter),
+  }
+}
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { createBlockTree } from './tree'
+import { createViewStatePersistence, createMemoryStorageAdapter } from './view-state'
 import type { BlockTreeInstance } from './tree'
-import type { BaseBlock } from './types'
+import type { BaseBlock, InsertBlockOperation } from './types'
 
 interface TestBlock extends BaseBlock {
   type: 'container' | 'item'
@@ -283,6 +284,71 @@ describe('createBlockTree', () => {
     })
   })
 
+  describe('updateBlock', () => {
+    interface TitledBlock extends BaseBlock {
+      type: 'item'
+      title: string
+      done?: boolean
+    }
+
+    const titled = (id: string, title: string): TitledBlock => ({ id, type: 'item', parentId: null, order: 0, title })
+
+    it('updates fields and returns the updated block', () => {
+      const tree = createBlockTree<TitledBlock>({ initialBlocks: [titled('1', 'Old')] })
+
+      const updated = tree.updateBlock('1', { title: 'New', done: true })
+
+      expect(updated).toEqual({ ...titled('1', 'New'), done: true })
+      expect(tree.getBlock('1')?.title).toBe('New')
+    })
+
+    it('emits block:update with previous block and changed fields', () => {
+      const tree = createBlockTree<TitledBlock>({ initialBlocks: [titled('1', 'Old')] })
+      const handler = vi.fn()
+      tree.on('block:update', handler)
+
+      tree.updateBlock('1', { title: 'New' })
+
+      expect(handler).toHaveBeenCalledWith({
+        block: titled('1', 'New'),
+        previous: titled('1', 'Old'),
+        changes: { title: 'New' },
+      })
+    })
+
+    it('emits an update operation and blocks:change', () => {
+      const tree = createBlockTree<TitledBlock>({ initialBlocks: [titled('1', 'Old')] })
+      const patchHandler = vi.fn()
+      const changeHandler = vi.fn()
+      tree.on('blocks:patch', patchHandler)
+      tree.on('blocks:change', changeHandler)
+
+      tree.updateBlock('1', { title: 'New' })
+
+      expect(patchHandler).toHaveBeenCalledWith([
+        { type: 'update', id: '1', before: { title: 'Old' }, after: { title: 'New' } },
+      ])
+      expect(changeHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not emit when the patch changes nothing', () => {
+      const tree = createBlockTree<TitledBlock>({ initialBlocks: [titled('1', 'Same')] })
+      const handler = vi.fn()
+      tree.on('block:update', handler)
+      tree.on('blocks:change', handler)
+
+      tree.updateBlock('1', { title: 'Same' })
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('returns undefined for a missing block', () => {
+      const tree = createBlockTree<TitledBlock>()
+
+      expect(tree.updateBlock('missing', { title: 'x' })).toBeUndefined()
+    })
+  })
+
   describe('setBlocks', () => {
     it('replaces all blocks', () => {
       const tree = createTree([makeBlock('1', 'item', null, 0)])
@@ -309,6 +375,532 @@ describe('createBlockTree', () => {
     })
   })
 
+  describe('transaction', () => {
+    it('applies all mutations and emits a single blocks:change', () => {
+      const tree = createTree([makeBlock('p', 'container', null, 0)])
+      const changeHandler = vi.fn()
+      tree.on('blocks:change', changeHandler)
+
+      tree.transaction((t) => {
+        t.addBlock('item', 'p')
+        t.addBlock('item', 'p')
+        t.addBlock('item')
+      })
+
+      expect(changeHandler).toHaveBeenCalledTimes(1)
+      expect(changeHandler.mock.calls[0][0]).toHaveLength(4)
+      expect(tree.getChildren('p')).toHaveLength(2)
+    })
+
+    it('defers granular events until commit', () => {
+      const tree = createTree([makeBlock('1', 'item', null, 0)])
+      const addHandler = vi.fn()
+      const deleteHandler = vi.fn()
+      tree.on('block:add', addHandler)
+      tree.on('block:delete', deleteHandler)
+
+      tree.transaction((t) => {
+        t.insertBlock('item', '1', 'after')
+        t.deleteBlock('1')
+        expect(addHandler).not.toHaveBeenCalled()
+        expect(deleteHandler).not.toHaveBeenCalled()
+      })
+
+      expect(addHandler).toHaveBeenCalledTimes(1)
+      expect(deleteHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('returns the callback result', () => {
+      const tree = createTree()
+
+      const added = tree.transaction((t) => t.addBlock('item'))
+
+      expect(added.id).toBe('gen-1')
+    })
+
+    it('rolls back every mutation and emits nothing when the callback throws', () => {
+      const blocks = [
+        makeBlock('1', 'item', null, 0),
+        makeBlock('2', 'item', null, 1),
+      ]
+      const tree = createTree(blocks)
+      const handler = vi.fn()
+      tree.on('blocks:change', handler)
+      tree.on('block:add', handler)
+
+      expect(() =>
+        tree.transaction((t) => {
+          t.addBlock('item')
+          t.moveBlock('1', 'after-2')
+          throw new Error('boom')
+        })
+      ).toThrow('boom')
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['1', '2'])
+      expect(tree.isBatching()).toBe(false)
+    })
+
+    it('rolls back and rethrows when the callback throws inside a nested batch', () => {
+      const tree = createTree([makeBlock('1', 'item', null, 0), makeBlock('2', 'item', null, 1)])
+      const handler = vi.fn()
+      tree.on('blocks:change', handler)
+
+      expect(() =>
+        tree.transaction((t) => {
+          t.batch()
+          t.deleteBlock('1')
+          throw new Error('boom')
+        })
+      ).toThrow('boom')
+
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['1', '2'])
+      expect(tree.isBatching()).toBe(false)
+      expect(handler).not.toHaveBeenCalled()
+
+      tree.deleteBlock('2')
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('nested transactions flush only when the outermost commits', () => {
+      const tree = createTree()
+      const handler = vi.fn()
+      tree.on('blocks:change', handler)
+
+      tree.transaction((t) => {
+        t.addBlock('item')
+        t.transaction((inner) => {
+          inner.addBlock('item')
+        })
+        expect(handler).not.toHaveBeenCalled()
+      })
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(tree.getBlocks()).toHaveLength(2)
+    })
+
+    it('a failed nested transaction rolls back only its own changes', () => {
+      const tree = createTree()
+      const addHandler = vi.fn()
+      tree.on('block:add', addHandler)
+
+      tree.transaction((t) => {
+        t.addBlock('item')
+        try {
+          t.transaction((inner) => {
+            inner.addBlock('item')
+            throw new Error('inner')
+          })
+        } catch {
+          // swallow
+        }
+      })
+
+      expect(tree.getBlocks()).toHaveLength(1)
+      expect(addHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not emit blocks:change when nothing was mutated', () => {
+      const tree = createTree()
+      const handler = vi.fn()
+      tree.on('blocks:change', handler)
+
+      tree.transaction(() => {})
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('batch', () => {
+    it('holds events until commit', () => {
+      const tree = createTree()
+      const handler = vi.fn()
+      tree.on('blocks:change', handler)
+
+      const batch = tree.batch()
+      tree.addBlock('item')
+      tree.addBlock('item')
+      expect(tree.isBatching()).toBe(true)
+      expect(handler).not.toHaveBeenCalled()
+
+      batch.commit()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(tree.isBatching()).toBe(false)
+    })
+
+    it('defers the events of a drop until commit', () => {
+      const tree = createTree([makeBlock('1', 'item', null, 0), makeBlock('2', 'item', null, 1)])
+      const moveHandler = vi.fn()
+      const changeHandler = vi.fn()
+      tree.on('block:move', moveHandler)
+      tree.on('blocks:change', changeHandler)
+
+      const batch = tree.batch()
+      tree.startDrag('1')
+      tree.updateDrag('after-2')
+      tree.endDrag()
+      expect(moveHandler).not.toHaveBeenCalled()
+      expect(changeHandler).not.toHaveBeenCalled()
+
+      batch.commit()
+
+      expect(moveHandler).toHaveBeenCalledTimes(1)
+      expect(changeHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('rollback restores blocks and expand state', () => {
+      const tree = createTree([makeBlock('c', 'container', null, 0)])
+
+      const batch = tree.batch()
+      tree.addBlock('item', 'c')
+      tree.toggleExpand('c')
+      batch.rollback()
+
+      expect(tree.getChildren('c')).toHaveLength(0)
+      expect(tree.isExpanded('c')).toBe(true)
+    })
+
+    it('settling twice is a no-op', () => {
+      const tree = createTree()
+      const handler = vi.fn()
+      tree.on('blocks:change', handler)
+
+      const batch = tree.batch()
+      tree.addBlock('item')
+      batch.commit()
+      batch.commit()
+      batch.rollback()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(tree.getBlocks()).toHaveLength(1)
+    })
+
+    it('throws when a parent batch is settled before its child', () => {
+      const tree = createTree()
+
+      const outer = tree.batch()
+      const inner = tree.batch()
+
+      expect(() => outer.commit()).toThrow()
+      inner.commit()
+      outer.commit()
+      expect(tree.isBatching()).toBe(false)
+    })
+  })
+
+  describe('blocks:patch', () => {
+    it('emits an insert operation for addBlock', () => {
+      const tree = createTree([makeBlock('p', 'container', null, 0)])
+      const handler = vi.fn()
+      tree.on('blocks:patch', handler)
+
+      const added = tree.addBlock('item', 'p')
+
+      expect(handler).toHaveBeenCalledWith([
+        { type: 'insert', id: added.id, block: added, to: { parentId: 'p', index: 0 } },
+      ])
+    })
+
+    it('emits before blocks:change', () => {
+      const tree = createTree()
+      const calls: string[] = []
+      tree.on('blocks:patch', () => calls.push('patch'))
+      tree.on('blocks:change', () => calls.push('change'))
+
+      tree.addBlock('item')
+
+      expect(calls).toEqual(['patch', 'change'])
+    })
+
+    it('emits a move operation with positions and order keys', () => {
+      const tree = createTree([
+        makeBlock('1', 'item', null, 0),
+        makeBlock('2', 'item', null, 1),
+        makeBlock('3', 'item', null, 2),
+      ])
+      const handler = vi.fn()
+      tree.on('blocks:patch', handler)
+
+      tree.moveBlock('1', 'after-3')
+
+      expect(handler).toHaveBeenCalledWith([{
+        type: 'move',
+        id: '1',
+        from: { parentId: null, index: 0 },
+        to: { parentId: null, index: 2 },
+        fromOrder: 0,
+        toOrder: 2,
+      }])
+    })
+
+    it('does not emit for a no-op move', () => {
+      const tree = createTree([
+        makeBlock('1', 'item', null, 0),
+        makeBlock('2', 'item', null, 1),
+      ])
+      const handler = vi.fn()
+      tree.on('blocks:patch', handler)
+
+      tree.moveBlock('1', 'before-2')
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('emits a delete operation carrying the removed subtree', () => {
+      const tree = createTree([
+        makeBlock('p', 'container', null, 0),
+        makeBlock('a', 'item', 'p', 0),
+      ])
+      const handler = vi.fn()
+      tree.on('blocks:patch', handler)
+
+      tree.deleteBlock('p')
+
+      const [op] = handler.mock.calls[0][0]
+      expect(op).toMatchObject({ type: 'delete', id: 'p', from: { parentId: null, index: 0 } })
+      expect(op.deletedIds.sort()).toEqual(['a', 'p'])
+      expect(op.blocks.map((b: TestBlock) => b.id)).toEqual(['p', 'a'])
+    })
+
+    it('emits a reset operation for setBlocks', () => {
+      const tree = createTree()
+      const handler = vi.fn()
+      tree.on('blocks:patch', handler)
+      const blocks = [makeBlock('1', 'item', null, 0)]
+
+      tree.setBlocks(blocks)
+
+      expect(handler).toHaveBeenCalledWith([{ type: 'reset', blocks }])
+    })
+
+    it('emits move operations for a multi-block drop on endDrag', () => {
+      const tree = createTree([
+        makeBlock('1', 'item', null, 0),
+        makeBlock('2', 'item', null, 1),
+        makeBlock('3', 'item', null, 2),
+      ])
+      const handler = vi.fn()
+      tree.on('blocks:patch', handler)
+
+      tree.startDrag('1', ['1', '2'])
+      tree.updateDrag('after-3')
+      tree.endDrag()
+
+      expect(handler).toHaveBeenCalledWith([{
+        type: 'move',
+        id: '3',
+        from: { parentId: null, index: 2 },
+        to: { parentId: null, index: 0 },
+        fromOrder: 2,
+        toOrder: 0,
+      }])
+    })
+
+    it('emits all operations of a transaction in one patch', () => {
+      const tree = createTree()
+      const handler = vi.fn()
+      tree.on('blocks:patch', handler)
+
+      tree.transaction((t) => {
+        t.addBlock('item')
+        t.addBlock('item')
+      })
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler.mock.calls[0][0]).toHaveLength(2)
+    })
+
+    it('drops operations from a rolled back transaction', () => {
+      const tree = createTree()
+      const handler = vi.fn()
+      tree.on('blocks:patch', handler)
+
+      const outer = tree.batch()
+      tree.addBlock('item')
+      const inner = tree.batch()
+      tree.addBlock('item')
+      inner.rollback()
+      outer.commit()
+
+      expect(handler.mock.calls[0][0]).toHaveLength(1)
+    })
+  })
+
+  describe('applyOperations', () => {
+    it('replays operations from another instance so both converge', () => {
+      const initial = [
+        makeBlock('p', 'container', null, 0),
+        makeBlock('1', 'item', null, 1),
+        makeBlock('2', 'item', null, 2),
+      ]
+      const source = createTree(initial)
+      const replica = createTree(initial)
+      source.on('blocks:patch', (ops) => replica.applyOperations(ops))
+
+      source.moveBlock('1', 'into-p')
+      source.addBlock('item', 'p')
+      source.deleteBlock('2')
+
+      expect(replica.getBlocks()).toEqual(source.getBlocks())
+    })
+
+    it('replays a multi-block drag so both converge', () => {
+      const initial = [
+        makeBlock('p', 'container', null, 0),
+        makeBlock('1', 'item', null, 1),
+        makeBlock('2', 'item', null, 2),
+        makeBlock('3', 'item', null, 3),
+        makeBlock('4', 'item', 'p', 0),
+        makeBlock('5', 'item', 'p', 1),
+        makeBlock('6', 'item', 'p', 2),
+      ]
+      const source = createTree(initial)
+      const replica = createTree(initial)
+      source.on('blocks:patch', (ops) => replica.applyOperations(ops))
+
+      source.startDrag('1', ['1', '2', '4'])
+      source.updateDrag('after-5')
+      source.endDrag()
+
+      expect(source.getChildren('p').map(b => b.id)).toEqual(['5', '1', '2', '4', '6'])
+      expect(replica.getBlocks()).toEqual(source.getBlocks())
+    })
+
+    it('emits blocks:change but not blocks:patch', () => {
+      const tree = createTree([makeBlock('1', 'item', null, 0)])
+      const changeHandler = vi.fn()
+      const patchHandler = vi.fn()
+      tree.on('blocks:change', changeHandler)
+      tree.on('blocks:patch', patchHandler)
+
+      tree.applyOperations([
+        { type: 'insert', id: 'x', block: makeBlock('x', 'item', null, 1), to: { parentId: null, index: 1 } },
+      ])
+
+      expect(changeHandler).toHaveBeenCalledTimes(1)
+      expect(patchHandler).not.toHaveBeenCalled()
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['1', 'x'])
+    })
+
+    it('does nothing for an empty list', () => {
+      const tree = createTree()
+      const handler = vi.fn()
+      tree.on('blocks:change', handler)
+
+      tree.applyOperations([])
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('clipboard', () => {
+    const blocks = () => [
+      makeBlock('p', 'container', null, 0),
+      makeBlock('a', 'item', 'p', 0),
+      makeBlock('c', 'item', null, 1),
+    ]
+
+    it('copyBlocks stores the subtree and pasteBlocks inserts it with new ids', () => {
+      const tree = createTree(blocks())
+      tree.copyBlocks('p')
+      const pasted = tree.pasteBlocks('c', 'after')
+
+      expect(pasted.map(b => b.id)).toEqual(['gen-1'])
+      expect(tree.getChildren('gen-1').map(b => b.id)).toEqual(['gen-2'])
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['p', 'a', 'c', 'gen-1', 'gen-2'])
+    })
+
+    it('pasteBlocks emits block:add for top-level blocks and insert ops for every block', () => {
+      const tree = createTree(blocks())
+      const addHandler = vi.fn()
+      const patchHandler = vi.fn()
+      const changeHandler = vi.fn()
+      tree.on('block:add', addHandler)
+      tree.on('blocks:patch', patchHandler)
+      tree.on('blocks:change', changeHandler)
+
+      tree.copyBlocks('p')
+      tree.pasteBlocks('p', 'before')
+
+      expect(addHandler).toHaveBeenCalledTimes(1)
+      expect(addHandler.mock.calls[0][0]).toMatchObject({ parentId: null, index: 0 })
+      expect(patchHandler.mock.calls[0][0].map((op: InsertBlockOperation<TestBlock>) => [op.type, op.id])).toEqual([
+        ['insert', 'gen-1'],
+        ['insert', 'gen-2'],
+      ])
+      expect(changeHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('pasteBlocks returns an empty array with nothing to paste', () => {
+      const tree = createTree(blocks())
+      expect(tree.pasteBlocks('c')).toEqual([])
+    })
+
+    it('pasteBlocks accepts an explicit payload', () => {
+      const source = createTree(blocks())
+      const target = createTree([makeBlock('x', 'container', null, 0)])
+      const payload = source.copyBlocks('p')!
+
+      target.pasteBlocks('x', 'into', payload)
+
+      expect(target.getChildren('x')).toHaveLength(1)
+      expect(target.getChildren('x')[0].type).toBe('container')
+    })
+
+    it('cutBlocks copies and deletes in one change', () => {
+      const tree = createTree(blocks())
+      const changeHandler = vi.fn()
+      tree.on('blocks:change', changeHandler)
+
+      tree.cutBlocks('p')
+
+      expect(changeHandler).toHaveBeenCalledTimes(1)
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['c'])
+      expect(tree.getClipboard()?.blocks[0].id).toBe('p')
+
+      tree.pasteBlocks('c', 'before')
+      expect(tree.getBlocks().map(b => b.type)).toEqual(['container', 'item', 'item'])
+    })
+
+    it('duplicateBlocks inserts copies right after each block without touching the clipboard', () => {
+      const tree = createTree(blocks())
+      const changeHandler = vi.fn()
+      tree.on('blocks:change', changeHandler)
+
+      const copies = tree.duplicateBlocks(['a', 'c'])
+
+      expect(copies.map(b => b.parentId)).toEqual(['p', null])
+      expect(tree.getChildren('p').map(b => b.id)).toEqual(['a', 'gen-1'])
+      expect(tree.getChildren(null).map(b => b.id)).toEqual(['p', 'c', 'gen-2'])
+      expect(tree.getClipboard()).toBeNull()
+      expect(changeHandler).toHaveBeenCalledTimes(1)
+    })
+
+    it('insertSubtrees inserts at a zone keeping ids', () => {
+      const source = createTree(blocks())
+      const target = createTree([makeBlock('x', 'container', null, 0), makeBlock('y', 'item', 'x', 0)])
+      const addHandler = vi.fn()
+      target.on('block:add', addHandler)
+
+      const inserted = target.insertSubtrees(source.copyBlocks('p')!, 'into-x')
+
+      expect(inserted.map(b => b.id)).toEqual(['p'])
+      expect(target.getChildren('x').map(b => b.id)).toEqual(['p', 'y'])
+      expect(target.getChildren('p').map(b => b.id)).toEqual(['a'])
+      expect(addHandler).toHaveBeenCalledWith(expect.objectContaining({ parentId: 'x', index: 0 }))
+      // The ids are taken now
+      expect(target.insertSubtrees(source.copyBlocks('p')!, 'root-end')).toEqual([])
+      expect(target.insertSubtrees(source.copyBlocks('c')!, 'before-missing')).toEqual([])
+    })
+
+    it('copyBlocks returns null for missing blocks', () => {
+      const tree = createTree(blocks())
+      expect(tree.copyBlocks('missing')).toBeNull()
+      expect(tree.getClipboard()).toBeNull()
+    })
+  })
+
   describe('expand/collapse', () => {
     it('isExpanded defaults to true for containers', () => {
       const blocks = [makeBlock('c', 'container', null, 0)]
@@ -404,6 +996,102 @@ describe('createBlockTree', () => {
     })
   })
 
+  describe('persistence', () => {
+    const blocks = [
+      makeBlock('c1', 'container', null, 0),
+      makeBlock('c2', 'container', null, 1),
+      makeBlock('i1', 'item', 'c1', 0),
+    ]
+
+    it('restores saved expansion over initialExpanded', () => {
+      const storage = createMemoryStorageAdapter()
+      storage.set('tree', { expanded: { c1: false }, selected: [], scroll: null })
+      const persistence = createViewStatePersistence({ treeId: 'tree', storage })
+      const tree = createTree(blocks, { persistence })
+
+      expect(tree.isExpanded('c1')).toBe(false)
+      expect(tree.isExpanded('c2')).toBe(true)
+    })
+
+    it('saves expansion changes and prunes deleted blocks', () => {
+      const storage = createMemoryStorageAdapter()
+      const persistence = createViewStatePersistence({ treeId: 'tree', storage })
+      const tree = createTree(blocks, { persistence })
+
+      tree.toggleExpand('c2')
+      tree.deleteBlock('c1')
+      tree.destroy()
+
+      expect(storage.get('tree')).toEqual({ expanded: { c2: false }, selected: [], scroll: null })
+    })
+
+    it('announces expansion restored from an asynchronous storage', async () => {
+      let resolve!: (state: { expanded: Record<string, boolean>; selected: string[]; scroll: null }) => void
+      const persistence = createViewStatePersistence({
+        treeId: 'tree',
+        storage: { get: () => new Promise(r => { resolve = r }), set: () => {}, remove: () => {} },
+      })
+      const tree = createTree(blocks, { persistence })
+      const handler = vi.fn()
+      tree.on('expand:change', handler)
+
+      resolve({ expanded: { c1: false, c2: true }, selected: [], scroll: null })
+      await vi.waitFor(() => expect(tree.isExpanded('c1')).toBe(false))
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ blockId: 'c1', expanded: false }))
+    })
+  })
+
+  describe('filtering', () => {
+    // Blocks whose ids start with 'i' match; h2 is hidden
+    const blocks = [
+      makeBlock('c1', 'container', null, 0),
+      makeBlock('i1', 'item', 'c1', 0),
+      makeBlock('h2', 'item', 'c1', 1),
+      makeBlock('i3', 'item', 'c1', 2),
+      makeBlock('c2', 'container', null, 1),
+    ]
+    const matchItems = (block: TestBlock) => block.id.startsWith('i')
+
+    it('shows matches with their ancestors expanded and keeps the expansion underneath', () => {
+      const tree = createTree(blocks, { initialExpanded: 'none' })
+      const handler = vi.fn()
+      tree.on('filter:change', handler)
+
+      tree.setFilter(matchItems)
+      expect(tree.getVisibleBlocks().map(b => b.id)).toEqual(['c1', 'i1', 'i3'])
+      expect(tree.isExpanded('c1')).toBe(true)
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ ancestorIds: new Set(['c1']) }))
+
+      tree.toggleExpand('c1')
+      expect(tree.getExpandedMap().c1).toBe(false)
+      tree.toggleExpand('c1')
+
+      tree.setFilter(null)
+      expect(handler).toHaveBeenLastCalledWith(null)
+      expect(tree.getVisibleBlocks()).toHaveLength(5)
+      expect(tree.getExpandedMap()).toEqual({ c1: false, c2: false })
+    })
+
+    it('follows changes to the blocks', () => {
+      const tree = createTree(blocks)
+      tree.setFilter(matchItems)
+      tree.deleteBlock('i1')
+      expect(tree.getFilter()?.matchedIds).toEqual(new Set(['i3']))
+    })
+
+    it('drops at the end of the visible children before hidden siblings', () => {
+      const tree = createTree([...blocks, makeBlock('h4', 'item', 'c1', 3), makeBlock('i5', 'item', null, 2)])
+      tree.setFilter(matchItems)
+
+      tree.startDrag('i5')
+      tree.updateDrag('end-c1')
+      vi.advanceTimersByTime(200)
+      expect(tree.endDrag()?.targetZone).toBe('after-i3')
+      expect(tree.getChildren('c1').map(b => b.id)).toEqual(['i1', 'h2', 'i3', 'i5', 'h4'])
+    })
+  })
+
   describe('drag lifecycle', () => {
     it('startDrag sets active id and emits drag:start', () => {
       const blocks = [makeBlock('1', 'item', null, 0)]
@@ -460,6 +1148,28 @@ describe('createBlockTree', () => {
       )
     })
 
+
+    it('updateDrag with null clears the hover zone and preview', () => {
+      const blocks = [
+        makeBlock('1', 'item', null, 0),
+        makeBlock('2', 'item', null, 1),
+      ]
+      const tree = createTree(blocks)
+      const hoverHandler = vi.fn()
+      tree.on('hover:change', hoverHandler)
+
+      tree.startDrag('1')
+      tree.updateDrag('after-2')
+      vi.runAllTimers()
+      expect(tree.getEffectiveBlocks().map(b => b.id)).toEqual(['2', '1'])
+
+      tree.updateDrag(null)
+
+      expect(tree.getHoverZone()).toBeNull()
+      expect(hoverHandler).toHaveBeenLastCalledWith({ zoneId: null, zoneType: null, targetBlock: null })
+      expect(tree.getEffectiveBlocks().map(b => b.id)).toEqual(['1', '2'])
+      expect(tree.endDrag()).toBeNull()
+    })
     it('updateDrag does nothing when no active drag', () => {
       const blocks = [makeBlock('1', 'item', null, 0)]
       const tree = createTree(blocks)
@@ -584,6 +1294,181 @@ describe('createBlockTree', () => {
     })
   })
 
+  describe('block:move', () => {
+    const blocks = () => [
+      makeBlock('p', 'container', null, 0),
+      makeBlock('1', 'item', null, 1),
+      makeBlock('2', 'item', null, 2),
+    ]
+
+    it('moveBlock emits block:move with from/to positions', () => {
+      const tree = createTree(blocks())
+      const handler = vi.fn()
+      tree.on('block:move', handler)
+
+      tree.moveBlock('2', 'into-p')
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      const event = handler.mock.calls[0][0]
+      expect(event.block.id).toBe('2')
+      expect(event.from).toEqual({ parentId: null, index: 2 })
+      expect(event.to).toEqual({ parentId: 'p', index: 0 })
+      expect(event.movedIds).toEqual(['2'])
+      expect(event.blocks.map((b: TestBlock) => b.id)).toEqual(['p', '2', '1'])
+    })
+
+    it('moveBlock does not emit drag:end', () => {
+      const tree = createTree(blocks())
+      const handler = vi.fn()
+      tree.on('drag:end', handler)
+
+      tree.moveBlock('2', 'into-p')
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('moveBlock emits nothing for a no-op move', () => {
+      const tree = createTree(blocks())
+      const handler = vi.fn()
+      tree.on('block:move', handler)
+      tree.on('blocks:change', handler)
+
+      tree.moveBlock('1', 'after-p')
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('endDrag emits block:move with the drag-start position', () => {
+      const tree = createTree(blocks())
+      const handler = vi.fn()
+      tree.on('block:move', handler)
+
+      tree.startDrag('1')
+      tree.updateDrag('after-2')
+      tree.endDrag()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler.mock.calls[0][0]).toMatchObject({
+        from: { parentId: null, index: 1 },
+        to: { parentId: null, index: 2 },
+        movedIds: ['1'],
+      })
+    })
+
+    it('endDrag reports all dragged ids in movedIds', () => {
+      const tree = createTree(blocks())
+      const handler = vi.fn()
+      tree.on('block:move', handler)
+
+      tree.startDrag('1', ['1', '2'])
+      tree.updateDrag('into-p')
+      tree.endDrag()
+
+      expect(handler.mock.calls[0][0].movedIds).toEqual(['1', '2'])
+    })
+  })
+
+  describe('onBeforeMove', () => {
+    it('receives the pending operation for moveBlock', () => {
+      const onBeforeMove = vi.fn()
+      const tree = createTree([
+        makeBlock('1', 'item', null, 0),
+        makeBlock('2', 'item', null, 1),
+      ], { onBeforeMove })
+
+      tree.moveBlock('1', 'after-2')
+
+      expect(onBeforeMove).toHaveBeenCalledWith({
+        block: expect.objectContaining({ id: '1' }),
+        from: { parentId: null, index: 0 },
+        targetZone: 'after-2',
+      })
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['2', '1'])
+    })
+
+    it('cancels moveBlock when it returns false', () => {
+      const tree = createTree([
+        makeBlock('1', 'item', null, 0),
+        makeBlock('2', 'item', null, 1),
+      ], { onBeforeMove: () => false })
+      const handler = vi.fn()
+      tree.on('blocks:change', handler)
+
+      tree.moveBlock('1', 'after-2')
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['1', '2'])
+    })
+
+    it('retargets moveBlock when it returns a modified operation', () => {
+      const tree = createTree([
+        makeBlock('p', 'container', null, 0),
+        makeBlock('1', 'item', null, 1),
+      ], { onBeforeMove: (op) => ({ ...op, targetZone: 'into-p' }) })
+
+      tree.moveBlock('1', 'before-p')
+
+      expect(tree.getBlock('1')?.parentId).toBe('p')
+    })
+
+    it('cancels a drag when it returns false', () => {
+      const tree = createTree([
+        makeBlock('1', 'item', null, 0),
+        makeBlock('2', 'item', null, 1),
+      ], { onBeforeMove: () => false })
+      const endHandler = vi.fn()
+      const moveHandler = vi.fn()
+      tree.on('drag:end', endHandler)
+      tree.on('block:move', moveHandler)
+
+      tree.startDrag('1')
+      tree.updateDrag('after-2')
+      const result = tree.endDrag()
+
+      expect(result).toBeNull()
+      expect(endHandler).toHaveBeenCalledWith(expect.objectContaining({ cancelled: true }))
+      expect(moveHandler).not.toHaveBeenCalled()
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['1', '2'])
+      expect(tree.getActiveId()).toBeNull()
+    })
+
+    it('retargets a drag when it returns a modified operation', () => {
+      const tree = createTree([
+        makeBlock('p', 'container', null, 0),
+        makeBlock('1', 'item', null, 1),
+        makeBlock('2', 'item', null, 2),
+      ], { onBeforeMove: (op) => ({ ...op, targetZone: 'into-p' }) })
+
+      tree.startDrag('2')
+      tree.updateDrag('before-1')
+      const result = tree.endDrag()
+
+      expect(result?.targetZone).toBe('into-p')
+      expect(tree.getBlock('2')?.parentId).toBe('p')
+    })
+
+    it('cancels a drag it retargets to a zone that is not allowed', () => {
+      const tree = createTree([
+        makeBlock('p', 'container', null, 0),
+        makeBlock('1', 'item', null, 1),
+        makeBlock('2', 'item', null, 2),
+      ], {
+        locks: { p: { kind: 'readonly', subtree: true } },
+        onBeforeMove: (op) => ({ ...op, targetZone: 'into-p' }),
+      })
+      const endHandler = vi.fn()
+      tree.on('drag:end', endHandler)
+
+      tree.startDrag('2')
+      tree.updateDrag('before-1')
+      const result = tree.endDrag()
+
+      expect(result).toBeNull()
+      expect(endHandler).toHaveBeenCalledWith(expect.objectContaining({ cancelled: true }))
+      expect(tree.getBlocks().map(b => b.id)).toEqual(['p', '1', '2'])
+    })
+  })
+
   describe('events: on/off', () => {
     it('on registers handler and returns unsubscribe', () => {
       const tree = createTree()
@@ -625,6 +1510,238 @@ describe('createBlockTree', () => {
     })
   })
 
+  describe('schema', () => {
+    const schema = {
+      container: { allowedChildren: ['item'], maxChildren: 2 },
+      item: { allowRoot: false },
+    }
+    const blocks = () => [
+      makeBlock('p', 'container', null, 0),
+      makeBlock('a', 'item', 'p', 0),
+      makeBlock('q', 'container', null, 1),
+    ]
+
+    it('derives container types from the schema', () => {
+      const tree = createBlockTree<TestBlock>({ initialBlocks: blocks(), schema })
+      tree.setExpandAll(false)
+
+      expect(tree.getExpandedMap()).toEqual({ p: false, q: false })
+    })
+
+    it('addBlock and insertBlock throw when the schema rejects the block', () => {
+      const tree = createTree(blocks(), { schema })
+
+      expect(() => tree.addBlock('item')).toThrow('"item" blocks cannot be at the root')
+      expect(() => tree.insertBlock('container', 'a', 'after')).toThrow('"container" blocks do not accept "container" children')
+      expect(tree.addBlock('item', 'p').parentId).toBe('p')
+      expect(() => tree.addBlock('item', 'p')).toThrow('at most 2 children')
+    })
+
+    it('moveBlock ignores moves the schema does not allow', () => {
+      const tree = createTree(blocks(), { schema })
+
+      tree.moveBlock('a', 'root-end')
+      expect(tree.getBlock('a')!.parentId).toBe('p')
+
+      tree.moveBlock('a', 'into-q')
+      expect(tree.getBlock('a')!.parentId).toBe('q')
+    })
+
+    it('updateDrag skips zones the schema does not allow', () => {
+      const tree = createTree(blocks(), { schema })
+      const hoverHandler = vi.fn()
+      tree.on('hover:change', hoverHandler)
+
+      expect(tree.isZoneAllowed('before-p')).toBe(true)
+      tree.startDrag('a')
+      expect(tree.isZoneAllowed('before-p')).toBe(false)
+      tree.updateDrag('before-p')
+      expect(hoverHandler).not.toHaveBeenCalled()
+
+      tree.updateDrag('into-q')
+      expect(tree.getHoverZone()).toBe('into-q')
+    })
+
+    it('cancels a drop that onBeforeMove retargets to a zone the schema does not allow', () => {
+      const tree = createTree(blocks(), {
+        schema,
+        onBeforeMove: (op) => ({ ...op, targetZone: 'root-end' }),
+      })
+      const moveHandler = vi.fn()
+      tree.on('block:move', moveHandler)
+
+      tree.startDrag('a')
+      tree.updateDrag('into-q')
+      expect(tree.endDrag()).toBeNull()
+      expect(moveHandler).not.toHaveBeenCalled()
+      expect(tree.getBlock('a')!.parentId).toBe('p')
+    })
+
+    it('pasteBlocks returns nothing when the schema rejects the paste', () => {
+      const tree = createTree(blocks(), { schema })
+      tree.copyBlocks('a')
+
+      expect(tree.pasteBlocks('p', 'after')).toEqual([])
+      expect(tree.pasteBlocks('q', 'into')).toHaveLength(1)
+    })
+  })
+
+  describe('locks', () => {
+    // p (container): a, b
+    // q (container)
+    const blocks = () => [
+      makeBlock('p', 'container', null, 0),
+      makeBlock('a', 'item', 'p', 0),
+      makeBlock('b', 'item', 'p', 1),
+      makeBlock('q', 'container', null, 1),
+    ]
+
+    it('refuses to drag, move, update or delete locked blocks', () => {
+      const tree = createTree(blocks(), { userId: 'me', locks: { a: { kind: 'locked', userId: 'ada' } } })
+
+      expect(tree.startDrag('a')).toBe(false)
+      tree.moveBlock('a', 'into-q')
+      expect(tree.getBlock('a')!.parentId).toBe('p')
+      expect(tree.updateBlock('a', { type: 'item' })).toBeUndefined()
+      tree.deleteBlock('p')
+      expect(tree.getBlock('p')).toBeDefined()
+      expect(tree.cutBlocks('a')).toBeNull()
+      expect(tree.getBlock('a')).toBeDefined()
+    })
+
+    it('does not restrict the user holding the lock', () => {
+      const tree = createTree(blocks(), { userId: 'ada', locks: { a: { kind: 'locked', userId: 'ada' } } })
+
+      tree.moveBlock('a', 'into-q')
+      expect(tree.getBlock('a')!.parentId).toBe('q')
+      expect(tree.getPermissions('a')).toEqual({ canMove: true, canEdit: true, canDelete: true, canAddChildren: true })
+      expect(tree.getLockState('a')).toEqual({ isLocked: false, lockedBy: 'ada' })
+    })
+
+    it('lets pinned blocks be edited and deleted but not moved', () => {
+      const tree = createTree(blocks(), { locks: { a: { kind: 'pinned' } } })
+
+      expect(tree.startDrag('a')).toBe(false)
+      tree.moveBlock('b', 'before-a')
+      expect(tree.getChildren('p').map(b => b.id)).toEqual(['b', 'a'])
+      tree.deleteBlock('a')
+      expect(tree.getBlock('a')).toBeUndefined()
+    })
+
+    it('keeps blocks out of read-only subtrees', () => {
+      const tree = createTree(blocks(), { locks: { p: { kind: 'readonly', subtree: true } } })
+      const hoverHandler = vi.fn()
+      tree.on('hover:change', hoverHandler)
+
+      expect(tree.startDrag('a')).toBe(false)
+      expect(() => tree.addBlock('item', 'p')).toThrow('block p is locked')
+      tree.copyBlocks('q')
+      expect(tree.pasteBlocks('p', 'into')).toEqual([])
+
+      expect(tree.startDrag('q')).toBe(true)
+      expect(tree.isZoneAllowed('into-p')).toBe(false)
+      expect(tree.isZoneAllowed('after-a')).toBe(false)
+      expect(tree.isZoneAllowed('before-p')).toBe(true)
+      tree.updateDrag('after-a')
+      expect(hoverHandler).not.toHaveBeenCalled()
+    })
+
+    it('cancels a drop that onBeforeMove retargets into a read-only subtree', () => {
+      const tree = createTree(blocks(), {
+        locks: { p: { kind: 'readonly', subtree: true } },
+        onBeforeMove: (op) => ({ ...op, targetZone: 'after-a' }),
+      })
+
+      tree.startDrag('q')
+      tree.updateDrag('before-p')
+      expect(tree.endDrag()).toBeNull()
+      expect(tree.getBlock('q')!.parentId).toBeNull()
+      expect(tree.getChildren('p').map(b => b.id)).toEqual(['a', 'b'])
+    })
+
+    it('emits locks:change and rolls locks back with a batch', () => {
+      const tree = createTree(blocks())
+      const handler = vi.fn()
+      tree.on('locks:change', handler)
+
+      tree.lockBlock('a', { kind: 'readonly' })
+      expect(handler).toHaveBeenLastCalledWith({ a: { kind: 'readonly' } })
+      expect(tree.getPermissions('a').canEdit).toBe(false)
+
+      const batch = tree.batch()
+      tree.unlockBlock('a')
+      expect(tree.getLocks()).toEqual({})
+      batch.rollback()
+      expect(tree.getLocks()).toEqual({ a: { kind: 'readonly' } })
+
+      tree.setLocks({})
+      expect(tree.getPermissions('a').canEdit).toBe(true)
+    })
+  })
+
+  describe('fractional keys', () => {
+    const fractionalBlocks = () => [
+      { ...makeBlock('a', 'item', null, 0), order: 'a' },
+      { ...makeBlock('b', 'item', null, 0), order: 'b' },
+    ]
+
+    it('appends the peer suffix to generated keys', () => {
+      const tree = createTree(fractionalBlocks(), { orderingStrategy: 'fractional', fractionalKeys: { suffix: 'p1' } })
+
+      expect(tree.insertBlock('item', 'a', 'after').order).toMatch(/p1$/)
+      expect(tree.addBlock('item').order).toMatch(/p1$/)
+    })
+
+    it('emits order:overflow when a key grows past maxKeyLength', () => {
+      const tree = createTree(fractionalBlocks(), { orderingStrategy: 'fractional', maxKeyLength: 3 })
+      const handler = vi.fn()
+      tree.on('order:overflow', handler)
+
+      let ref = 'b'
+      while (handler.mock.calls.length === 0) ref = tree.insertBlock('item', ref, 'before').id
+
+      expect(handler).toHaveBeenCalledWith({ parentId: null, ids: [ref], longest: 4 })
+    })
+
+    it('emits order:overflow when a drop gets a key past maxKeyLength', () => {
+      const tree = createTree(
+        [...fractionalBlocks(), { ...makeBlock('c', 'item', null, 0), order: 'c' }],
+        { orderingStrategy: 'fractional', maxKeyLength: 1 }
+      )
+      const handler = vi.fn()
+      tree.on('order:overflow', handler)
+
+      tree.startDrag('c')
+      tree.updateDrag('after-a')
+      tree.endDrag()
+
+      expect(tree.getChildren(null).map(b => b.id)).toEqual(['a', 'c', 'b'])
+      expect(handler).toHaveBeenCalledWith({ parentId: null, ids: ['c'], longest: 2 })
+    })
+
+    it('rebalanceOrder shortens long keys and syncs them as moves', () => {
+      const tree = createTree(fractionalBlocks(), { orderingStrategy: 'fractional', maxKeyLength: 3 })
+      let ref = 'b'
+      for (let i = 0; i < 10; i++) ref = tree.insertBlock('item', ref, 'before').id
+      const replica = createTree(tree.getBlocks(), { orderingStrategy: 'fractional' })
+      tree.on('blocks:patch', (ops) => replica.applyOperations(ops))
+      const before = tree.getChildren(null).map(b => b.id)
+
+      const changed = tree.rebalanceOrder()
+
+      expect(changed.length).toBeGreaterThan(0)
+      expect(tree.getChildren(null).map(b => b.id)).toEqual(before)
+      expect(tree.getChildren(null).every(b => String(b.order).length <= 3)).toBe(true)
+      expect(replica.getBlocks()).toEqual(tree.getBlocks())
+      expect(tree.rebalanceOrder()).toEqual([])
+    })
+
+    it('rebalanceOrder does nothing with integer ordering', () => {
+      const tree = createTree([makeBlock('a', 'item', null, 0)])
+      expect(tree.rebalanceOrder()).toEqual([])
+    })
+  })
+
   describe('getCollisionDetection', () => {
     it('returns undefined when no collision detection provided', () => {
       const tree = createTree()
@@ -7,14 +7,20 @@ import type {
   DragMoveEvent,
   DragEndEvent,
   BlockMoveEvent,
+  MoveOperation,
   ExpandChangeEvent,
   HoverChangeEvent,
+  OrderOverflowEvent,
   BlockAddEvent,
   BlockDeleteEvent,
+  BlockUpdateEvent,
+  BlockPatch,
   CanDragFn,
   CanDropFn,
   IdGeneratorFn,
   DropZoneType,
+  BlockOperation,
+  MoveBlockOperation,
 } from './types'
 import { getDropZoneType, extractBlockId } from './types'
 import type { CoreCollisionDetection } from './collision'
@@ -26,21 +32,81 @@ import {
   reparentBlockIndex,
   reparentMultipleBlocks,
   getDescendantIds,
+  getBlockChanges,
 } from './utils/blocks'
 import { debounce, generateId } from './utils/helper'
-import { generateKeyBetween } from './utils/fractional'
+import {
+  generateKeyBetween,
+  getFractionalKeyStats,
+  rebalanceFractionalOrder,
+  type FractionalKeyOptions,
+} from './utils/fractional'
+import { applyBlockOperations, diffBlockIndexes } from './utils/operations'
+import { getZonePosition } from './presence'
+import type { ViewStatePersistence } from './view-state'
+import {
+  filterBlockTree,
+  getFilteredExpandedMap,
+  mapFilteredZone,
+  type BlockFilterOptions,
+  type BlockFilterQuery,
+  type BlockFilterResult,
+} from './utils/filter'
+import {
+  copyBlockSubtrees,
+  insertBlockSubtrees,
+  pasteBlockSubtrees,
+  type BlockClipboardPayload,
+  type PastePosition,
+  type PasteBlocksResult,
+} from './utils/clipboard'
+import { checkBlockPlacement, getSchemaContainerTypes, isZoneAllowed, type BlockSchema } from './utils/schema'
+import {
+  getBlockPermissions,
+  getBlockLockState,
+  isZoneUnlocked,
+  type BlockLock,
+  type BlockLocks,
+  type BlockPermissions,
+  type BlockLockState,
+} from './utils/locks'
 
 export interface BlockTreeOptions<T extends BaseBlock> {
   initialBlocks?: T[]
+  /** Types that can have children. Defaults to the types with `allowedChildren` in `schema` */
   containerTypes?: readonly string[]
+  /** Nesting rules per block type, enforced on every add, insert, move and paste */
+  schema?: BlockSchema
   orderingStrategy?: OrderingStrategy
+  /** Jitter and peer suffix for generated fractional keys, so concurrent inserts by different peers never collide */
+  fractionalKeys?: FractionalKeyOptions
+  /**
+   * Fractional key length that triggers `order:overflow` when a mutation
+   * produces a longer key. Also the default limit for `rebalanceOrder`.
+   */
+  maxKeyLength?: number
   maxDepth?: number
   collisionDetection?: CoreCollisionDetection
   initialExpanded?: string[] | 'all' | 'none'
+  /**
+   * Restore the expansion saved for this tree over `initialExpanded`, save
+   * every change to it, and prune ids of deleted blocks (see `createViewStatePersistence`)
+   */
+  persistence?: ViewStatePersistence
   previewDebounce?: number
   canDrag?: CanDragFn<T>
   canDrop?: CanDropFn<T>
   idGenerator?: IdGeneratorFn
+  /** Initial locks by block id, enforced on every drag, move, update and delete */
+  locks?: BlockLocks
+  /** The local user. `'locked'` locks held by this user do not restrict it */
+  userId?: string
+  /**
+   * Called before a move is committed, both for `moveBlock` and at the end of a
+   * drag. Return a modified MoveOperation to change the target zone, `false` to
+   * cancel, or nothing to allow the move as-is.
+   */
+  onBeforeMove?: (operation: MoveOperation<T>) => MoveOperation<T> | false | void
 }
 
 export interface BlockTreeEvents<T extends BaseBlock> {
@@ -53,6 +119,31 @@ export interface BlockTreeEvents<T extends BaseBlock> {
   'hover:change': (event: HoverChangeEvent<T>) => void
   'block:add': (event: BlockAddEvent<T>) => void
   'block:delete': (event: BlockDeleteEvent<T>) => void
+  'block:update': (event: BlockUpdateEvent<T>) => void
+  'block:move': (event: BlockMoveEvent<T>) => void
+  /** Structured operations for the change, emitted just before `blocks:change` */
+  'blocks:patch': (operations: BlockOperation<T>[]) => void
+  /** A mutation produced fractional keys longer than `maxKeyLength` */
+  'order:overflow': (event: OrderOverflowEvent) => void
+  /** A block was locked or unlocked */
+  'locks:change': (locks: BlockLocks) => void
+  /** A filter was set or cleared with `setFilter` */
+  'filter:change': (filter: BlockFilterResult | null) => void
+}
+
+/**
+ * Handle for an open batch. Mutations made while a batch is open are applied
+ * to the tree immediately but their events are held back until the outermost
+ * batch commits, at which point a single `blocks:change` is emitted.
+ */
+export interface BlockTreeBatch {
+  /** Keep the batched changes. Flushes queued events if this is the outermost batch. */
+  commit(): void
+  /**
+   * Restore the tree to its state when the batch was opened and drop queued
+   * events. Batches opened inside this one and not yet settled are dropped too.
+   */
+  rollback(): void
 }
 
 export interface BlockTreeInstance<T extends BaseBlock> {
@@ -62,6 +153,7 @@ export interface BlockTreeInstance<T extends BaseBlock> {
   getBlock(id: string): T | undefined
   getChildren(parentId: string | null): T[]
   getAncestors(id: string): T[]
+  /** Expansion as rendered: while a filter is on, that of the filtered view (see `setFilter`) */
   getExpandedMap(): Record<string, boolean>
   getActiveId(): string | null
   getHoverZone(): string | null
@@ -70,24 +162,112 @@ export interface BlockTreeInstance<T extends BaseBlock> {
   // Block mutations
   addBlock(type: T['type'], parentId?: string | null): T
   insertBlock(type: T['type'], referenceId: string, position: 'before' | 'after'): T
+  /** Delete a block and its descendants. Does nothing if a lock keeps the local user from deleting it. */
   deleteBlock(id: string): void
+  /** Update non-structural fields of a block. Returns the updated block, or undefined if it does not exist or is locked. */
+  updateBlock(id: string, patch: BlockPatch<T>): T | undefined
+  /**
+   * Move a block to a drop zone. Runs `onBeforeMove` and emits `block:move` if
+   * the block moved. Does nothing if the block or the target is locked.
+   */
   moveBlock(activeId: string, targetZone: string): void
   setBlocks(blocks: T[]): void
+  /**
+   * Replay operations (e.g. from a `blocks:patch` listener on another instance
+   * or a server log). Emits `blocks:change` but not `blocks:patch`, so
+   * replaying remote operations does not echo them back.
+   */
+  applyOperations(operations: BlockOperation<T>[]): void
+  /**
+   * Shorten the fractional keys of `parentId`'s children that are longer than
+   * `maxLength` (defaults to the `maxKeyLength` option), keeping their order.
+   * Emits a `move` operation per re-keyed block and returns their ids.
+   */
+  rebalanceOrder(parentId?: string | null, maxLength?: number): string[]
+
+  // Clipboard
+  /** Copy blocks with their descendants to the tree's clipboard. Returns the payload, or null if no block exists. */
+  copyBlocks(ids: string | string[]): BlockClipboardPayload<T> | null
+  /** Copy blocks to the clipboard, then delete them in a single transaction */
+  cutBlocks(ids: string | string[]): BlockClipboardPayload<T> | null
+  /**
+   * Paste a payload (defaults to the tree's clipboard) relative to `targetId`,
+   * or at the end of the root when `targetId` is null. Ids are regenerated with
+   * `idGenerator`. Returns the pasted top-level blocks; empty if nothing was pasted.
+   */
+  pasteBlocks(targetId: string | null, position?: PastePosition, payload?: BlockClipboardPayload<T>): T[]
+  /** Insert a copy of each block (with descendants) right after it. Does not touch the clipboard. */
+  duplicateBlocks(ids: string | string[]): T[]
+  getClipboard(): BlockClipboardPayload<T> | null
+  /**
+   * Insert a payload's subtrees at a drop zone, keeping their ids, e.g. blocks
+   * dragged in from another tree. Emits `block:add` for each top-level block
+   * and returns them; empty if the zone is locked or missing, an id already
+   * exists, or the blocks break `maxDepth` or the schema.
+   */
+  insertSubtrees(payload: BlockClipboardPayload<T>, targetZone: string): T[]
+
+  // Transactions
+  /**
+   * Run `fn` as a single atomic change. Events are emitted once `fn` returns;
+   * if it throws, every mutation made inside is rolled back and the error rethrown.
+   * `fn` must be synchronous -- use `batch()` to span async work.
+   */
+  transaction<R>(fn: (tree: BlockTreeInstance<T>) => R): R
+  /** Open a batch that must be explicitly committed or rolled back. Batches nest. */
+  batch(): BlockTreeBatch
+  /** Whether a batch or transaction is currently open */
+  isBatching(): boolean
 
   // Expand/collapse
   toggleExpand(id: string): void
   setExpandAll(expanded: boolean): void
   isExpanded(id: string): boolean
 
+  // Filtering
+  /**
+   * Show only the blocks `query` matches, with their ancestors expanded to
+   * reach them (see `filterBlockTree`). Pass null or a blank text to clear it.
+   * The filter follows later changes to the blocks. While it is on, expanding
+   * and collapsing change the filtered view only, so clearing it brings back
+   * the expansion from before, and drop zones of a drag are mapped to real
+   * sibling positions (see `mapFilteredZone`).
+   */
+  setFilter(query: BlockFilterQuery<T> | null, options?: BlockFilterOptions): void
+  /** The active filter's matches, or null when none is set */
+  getFilter(): BlockFilterResult | null
+  /** Blocks in tree order without those the filter hides */
+  getVisibleBlocks(): T[]
+
+  // Locks
+  getLocks(): BlockLocks
+  /** Lock a block, replacing its previous lock */
+  lockBlock(id: string, lock: BlockLock): void
+  unlockBlock(id: string): void
+  setLocks(locks: BlockLocks): void
+  /** What the local user may do with a block under the current locks */
+  getPermissions(id: string): BlockPermissions
+  /** Lock state of a block as renderers show it to the local user */
+  getLockState(id: string): BlockLockState
+
   // Drag lifecycle (called by framework adapters)
   startDrag(id: string, draggedIds?: string[]): boolean
-  updateDrag(targetZone: string): void
+  /** Hover a drop zone, or none (e.g. while the pointer is over another tree), which clears the preview */
+  updateDrag(targetZone: string | null): void
   endDrag(): { blocks: T[]; targetZone: string } | null
   cancelDrag(): void
 
   // Collision
   getCollisionDetection(): CoreCollisionDetection | undefined
 
+  // Schema
+  getSchema(): BlockSchema | undefined
+  /**
+   * Whether the blocks being dragged may be dropped at a zone under the schema
+   * and locks. Always true when no drag is in progress.
+   */
+  isZoneAllowed(zoneId: string): boolean
+
   // Events
   on: EventEmitter<BlockTreeEvents<T>>['on']
   off: EventEmitter<BlockTreeEvents<T>>['off']
@@ -110,6 +290,81 @@ function getBlockPosition<T extends BaseBlock>(
   return { parentId: block.parentId, index }
 }
 
+/**
+ * Get block position directly from the normalized index (no array rebuild)
+ */
+function getIndexPosition<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  blockId: string
+): BlockPosition {
+  const block = index.byId.get(blockId)
+  if (!block) return { parentId: null, index: 0 }
+  const siblings = index.byParent.get(block.parentId ?? null) ?? []
+  return { parentId: block.parentId, index: siblings.indexOf(blockId) }
+}
+
+/**
+ * Build a move operation for a block between two index states.
+ * Returns null if the block did not change position.
+ */
+function getMoveOperation<T extends BaseBlock>(
+  before: BlockIndex<T>,
+  after: BlockIndex<T>,
+  blockId: string,
+  orderingStrategy: OrderingStrategy
+): MoveBlockOperation | null {
+  const prev = before.byId.get(blockId)
+  const next = after.byId.get(blockId)
+  if (!prev || !next) return null
+  const from = getIndexPosition(before, blockId)
+  const to = getIndexPosition(after, blockId)
+  if (from.parentId === to.parentId && from.index === to.index) return null
+  const fractional = orderingStrategy === 'fractional'
+  return {
+    type: 'move',
+    id: blockId,
+    from,
+    to,
+    fromOrder: fractional ? prev.order : from.index,
+    toOrder: fractional ? next.order : to.index,
+  }
+}
+
+/**
+ * Collect a block and its descendants in tree order. With integer ordering,
+ * `order` is normalized to the sibling index.
+ */
+function collectSubtree<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  blockId: string,
+  orderingStrategy: OrderingStrategy
+): T[] {
+  const result: T[] = []
+  const walk = (id: string, position: number) => {
+    const block = index.byId.get(id)
+    if (!block) return
+    result.push(orderingStrategy === 'fractional' ? block : { ...block, order: position })
+    const children = index.byParent.get(id) ?? []
+    children.forEach((childId, i) => walk(childId, i))
+  }
+  walk(blockId, getIndexPosition(index, blockId).index)
+  return result
+}
+
+type QueuedEvent<T extends BaseBlock> = {
+  [K in keyof BlockTreeEvents<T>]: { event: K; args: Parameters<BlockTreeEvents<T>[K]> }
+}[keyof BlockTreeEvents<T>]
+
+interface BatchFrame<T extends BaseBlock> {
+  index: BlockIndex<T>
+  expandedMap: Record<string, boolean>
+  locks: BlockLocks
+  queueLength: number
+  opsLength: number
+  blocksDirty: boolean
+  settled: boolean
+}
+
 /**
  * Create a stateful block tree instance with event-based notifications.
  */
@@ -118,15 +373,21 @@ export function createBlockTree<T extends BaseBlock>(
 ): BlockTreeInstance<T> {
   const {
     initialBlocks = [],
-    containerTypes = [],
+    schema,
+    containerTypes = schema ? getSchemaContainerTypes(schema) : [],
     orderingStrategy = 'integer',
+    fractionalKeys,
+    maxKeyLength,
     maxDepth,
     collisionDetection,
     initialExpanded,
+    persistence,
     previewDebounce = 150,
     canDrag,
     canDrop,
     idGenerator = generateId,
+    userId,
+    onBeforeMove,
   } = options
 
   const emitter = new EventEmitter<BlockTreeEvents<T>>()
@@ -134,6 +395,13 @@ export function createBlockTree<T extends BaseBlock>(
   // State
   let index = computeNormalizedIndex(initialBlocks, orderingStrategy)
   let expandedMap = computeInitialExpanded(initialBlocks, containerTypes, initialExpanded)
+  let locks: BlockLocks = { ...options.locks }
+
+  // Filter state: expansion changed while filtering goes to `filterExpandedMap`
+  let filterQuery: BlockFilterQuery<T> | null = null
+  let filterOptions: BlockFilterOptions = {}
+  let filter: BlockFilterResult | null = null
+  let filterExpandedMap: Record<string, boolean> = {}
 
   // Drag state
   let activeId: string | null = null
@@ -144,6 +412,14 @@ export function createBlockTree<T extends BaseBlock>(
   let hoverZone: string | null = null
   let virtualState: BlockIndex<T> | null = null
 
+  // Batch state
+  const batchStack: BatchFrame<T>[] = []
+  let eventQueue: QueuedEvent<T>[] = []
+  let pendingOps: BlockOperation<T>[] = []
+  let blocksDirty = false
+
+  let clipboard: BlockClipboardPayload<T> | null = null
+
   const debouncedSetVirtual = debounce((newBlocks: T[] | null) => {
     if (newBlocks) {
       virtualState = computeNormalizedIndex(newBlocks)
@@ -156,8 +432,169 @@ export function createBlockTree<T extends BaseBlock>(
     return buildOrderedBlocks(index, containerTypes, orderingStrategy)
   }
 
-  function emitBlocksChange() {
-    emitter.emit('blocks:change', getBlocks())
+  function getViewExpandedMap(): Record<string, boolean> {
+    return filter ? { ...getFilteredExpandedMap(expandedMap, filter), ...filterExpandedMap } : expandedMap
+  }
+
+  function isViewExpanded(id: string): boolean {
+    if (filter && id in filterExpandedMap) return filterExpandedMap[id]
+    if (filter?.ancestorIds.has(id)) return true
+    return expandedMap[id] !== false
+  }
+
+  function emit<K extends keyof BlockTreeEvents<T>>(event: K, ...args: Parameters<BlockTreeEvents<T>[K]>) {
+    if (batchStack.length > 0) {
+      eventQueue.push({ event, args } as QueuedEvent<T>)
+      return
+    }
+    emitter.emit(event, ...args)
+  }
+
+  function emitBlocksChange(operations: BlockOperation<T>[] = []) {
+    if (maxKeyLength != null && orderingStrategy === 'fractional') checkKeyLengths(operations)
+    pendingOps.push(...operations)
+    if (batchStack.length > 0) {
+      blocksDirty = true
+      return
+    }
+    flushBlocksChange(getBlocks())
+  }
+
+  /** Emit `order:overflow` for each parent that received a key over `maxKeyLength` */
+  function checkKeyLengths(operations: BlockOperation<T>[]) {
+    const parents = new Set<string | null>()
+    for (const op of operations) {
+      if (op.type !== 'insert' && op.type !== 'move') continue
+      const order = op.type === 'insert' ? op.block.order : op.toOrder
+      if (String(order).length > maxKeyLength!) parents.add(op.to.parentId)
+    }
+    for (const parentId of parents) {
+      const siblings = (index.byParent.get(parentId) ?? []).map(id => index.byId.get(id)!)
+      const { longest, overLimit } = getFractionalKeyStats(siblings, maxKeyLength)
+      if (overLimit.length > 0) emit('order:overflow', { parentId, ids: overLimit, longest })
+    }
+  }
+
+  function flushBlocksChange(blocks: T[]) {
+    const operations = pendingOps
+    pendingOps = []
+    persistence?.prune(index.byId)
+    if (filterQuery !== null) filter = filterBlockTree(index, filterQuery, filterOptions)
+    if (operations.length > 0) emitter.emit('blocks:patch', operations)
+    emitter.emit('blocks:change', blocks)
+  }
+
+  /**
+   * Run the onBeforeMove middleware. Returns the (possibly rewritten) target
+   * zone, or null if the move was cancelled.
+   */
+  function resolveTargetZone(block: T, from: BlockPosition, targetZone: string): string | null {
+    if (!onBeforeMove) return targetZone
+    const result = onBeforeMove({ block, from, targetZone })
+    if (result === false) return null
+    return result ? result.targetZone : targetZone
+  }
+
+  /** Throw if the schema or a lock does not allow a new block under `parentId` */
+  function assertPlacement(block: T, parentId: string | null) {
+    if (parentId !== null && !getPermissions(parentId).canAddChildren) {
+      throw new Error(`Cannot add block ${block.id}: block ${parentId} is locked`)
+    }
+    if (!schema) return
+    const violation = checkBlockPlacement(index, [block], parentId, schema)
+    if (violation) throw new Error(`Cannot add block ${block.id}: ${violation}`)
+  }
+
+  function getPermissions(id: string): BlockPermissions {
+    return getBlockPermissions(index, locks, id, userId)
+  }
+
+  function setLockState(next: BlockLocks) {
+    locks = next
+    emit('locks:change', locks)
+  }
+
+  /**
+   * Build a BlockMoveEvent whose `blocks` array is only built if read, so
+   * moves inside a transaction do not rebuild the ordered array each time.
+   */
+  function createMoveEvent(block: T, from: BlockPosition, movedIds: string[], blocks?: T[]): BlockMoveEvent<T> {
+    const snapshot = index
+    let ordered = blocks
+    return {
+      block,
+      from,
+      to: getIndexPosition(snapshot, block.id),
+      movedIds,
+      get blocks() {
+        ordered ??= buildOrderedBlocks(snapshot, containerTypes, orderingStrategy)
+        return ordered
+      },
+    }
+  }
+
+  /**
+   * Compute the reordered blocks for dropping the dragged block(s) at a zone,
+   * starting from the drag-start snapshot.
+   */
+  function computeReorder(targetZone: string): T[] {
+    const baseIndex = computeNormalizedIndex(snapshotBlocks, orderingStrategy)
+    const updatedIndex = draggedIds.length > 1
+      ? reparentMultipleBlocks(baseIndex, draggedIds, targetZone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+      : reparentBlockIndex(baseIndex, activeId!, targetZone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+    return buildOrderedBlocks(updatedIndex, containerTypes, orderingStrategy)
+  }
+
+  function settleBatch(frame: BatchFrame<T>, commit: boolean) {
+    if (frame.settled) return
+    const position = batchStack.indexOf(frame)
+    if (commit && position !== batchStack.length - 1) {
+      throw new Error('Nested batches must be committed or rolled back before their parent')
+    }
+    // Rolling back also drops the batches opened inside this one
+    for (const settled of batchStack.splice(position)) settled.settled = true
+
+    if (!commit) {
+      if (expandedMap !== frame.expandedMap) persistence?.save({ expanded: frame.expandedMap })
+      index = frame.index
+      expandedMap = frame.expandedMap
+      locks = frame.locks
+      eventQueue.length = frame.queueLength
+      pendingOps.length = frame.opsLength
+      blocksDirty = frame.blocksDirty
+      return
+    }
+
+    if (batchStack.length > 0) return
+
+    const queued = eventQueue
+    const dirty = blocksDirty
+    eventQueue = []
+    blocksDirty = false
+    for (const { event, args } of queued) {
+      emitter.emit(event, ...(args as Parameters<BlockTreeEvents<T>[typeof event]>))
+    }
+    if (dirty) flushBlocksChange(getBlocks())
+  }
+
+  /** Commit inserted subtrees, if the parent accepts them. Returns the top-level blocks */
+  function commitInserted(result: PasteBlocksResult<T> | null): T[] {
+    if (!result) return []
+    if (result.to.parentId !== null && !getPermissions(result.to.parentId).canAddChildren) return []
+
+    index = result.index
+    const roots = result.rootIds.map(id => index.byId.get(id)!)
+    const ops: BlockOperation<T>[] = []
+    for (const block of result.blocks) {
+      const parentId = block.parentId ?? null
+      const to = { parentId, index: (index.byParent.get(parentId) ?? []).indexOf(block.id) }
+      ops.push({ type: 'insert', id: block.id, block, to })
+    }
+    roots.forEach((block, i) => {
+      emit('block:add', { block, parentId: result.to.parentId, index: result.to.index + i })
+    })
+    emitBlocksChange(ops)
+    return roots
   }
 
   const instance: BlockTreeInstance<T> = {
@@ -179,7 +616,7 @@ export function createBlockTree<T extends BaseBlock>(
       }
       return ancestors
     },
-    getExpandedMap: () => ({ ...expandedMap }),
+    getExpandedMap: () => ({ ...getViewExpandedMap() }),
     getActiveId: () => activeId,
     getHoverZone: () => hoverZone,
     getEffectiveBlocks: () => {
@@ -193,14 +630,15 @@ export function createBlockTree<T extends BaseBlock>(
       if (orderingStrategy === 'fractional') {
         const lastId = siblings[siblings.length - 1]
         const lastOrder = lastId ? String(index.byId.get(lastId)!.order) : null
-        order = generateKeyBetween(lastOrder, null)
+        order = generateKeyBetween(lastOrder, null, fractionalKeys)
       }
 
       const newItem = { id: idGenerator(), type, parentId, order } as T
-      index = blockReducer(index, { type: 'ADD_ITEM', payload: newItem }, containerTypes, orderingStrategy, maxDepth)
+      assertPlacement(newItem, parentId)
+      index = blockReducer(index, { type: 'ADD_ITEM', payload: newItem }, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
       const addEvent: BlockAddEvent<T> = { block: newItem, parentId, index: siblings.length }
-      emitter.emit('block:add', addEvent)
-      emitBlocksChange()
+      emit('block:add', addEvent)
+      emitBlocksChange([{ type: 'insert', id: newItem.id, block: newItem, to: { parentId, index: siblings.length } }])
       return newItem
     },
 
@@ -219,66 +657,233 @@ export function createBlockTree<T extends BaseBlock>(
         const nextId = insertIdx < siblings.length ? siblings[insertIdx] : null
         const prevOrder = prevId ? String(index.byId.get(prevId)!.order) : null
         const nextOrder = nextId ? String(index.byId.get(nextId)!.order) : null
-        order = generateKeyBetween(prevOrder, nextOrder)
+        order = generateKeyBetween(prevOrder, nextOrder, fractionalKeys)
       }
 
       const newItem = { id: idGenerator(), type, parentId, order } as T
-      index = blockReducer(index, { type: 'INSERT_ITEM', payload: { item: newItem, parentId, index: insertIdx } }, containerTypes, orderingStrategy, maxDepth)
+      assertPlacement(newItem, parentId)
+      index = blockReducer(index, { type: 'INSERT_ITEM', payload: { item: newItem, parentId, index: insertIdx } }, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
       const addEvent: BlockAddEvent<T> = { block: newItem, parentId, index: insertIdx }
-      emitter.emit('block:add', addEvent)
-      emitBlocksChange()
+      emit('block:add', addEvent)
+      emitBlocksChange([{ type: 'insert', id: newItem.id, block: newItem, to: { parentId, index: insertIdx } }])
       return newItem
     },
 
     deleteBlock: (id) => {
       const block = index.byId.get(id)
-      if (!block) return
+      if (!block || !getPermissions(id).canDelete) return
       const deletedIds = [...getDescendantIds(index, id)]
-      index = blockReducer(index, { type: 'DELETE_ITEM', payload: { id } }, containerTypes, orderingStrategy, maxDepth)
-      emitter.emit('block:delete', { block, deletedIds, parentId: block.parentId })
-      emitBlocksChange()
+      const from = getIndexPosition(index, id)
+      const removed = collectSubtree(index, id, orderingStrategy)
+      index = blockReducer(index, { type: 'DELETE_ITEM', payload: { id } }, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+      emit('block:delete', { block, deletedIds, parentId: block.parentId })
+      emitBlocksChange([{ type: 'delete', id, from, deletedIds, blocks: removed }])
+    },
+
+    updateBlock: (id, patch) => {
+      const block = index.byId.get(id)
+      if (!block || !getPermissions(id).canEdit) return undefined
+      index = blockReducer(index, { type: 'UPDATE_ITEM', payload: { id, patch } }, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+      const updated = index.byId.get(id)!
+      if (updated === block) return block
+      const changes = getBlockChanges(block, updated)
+      emit('block:update', { block: updated, previous: block, changes: changes.after })
+      emitBlocksChange([{ type: 'update', id, before: changes.before, after: changes.after }])
+      return updated
     },
 
     moveBlock: (blockId, targetZone) => {
-      const blocks = getBlocks()
-      const from = getBlockPosition(blocks, blockId)
-      index = blockReducer(index, { type: 'MOVE_ITEM', payload: { activeId: blockId, targetZone } }, containerTypes, orderingStrategy, maxDepth)
-      const newBlocks = getBlocks()
-      const to = getBlockPosition(newBlocks, blockId)
       const block = index.byId.get(blockId)
-      if (block) {
-        const moveEvent: BlockMoveEvent<T> = { block, from, to, blocks: newBlocks, movedIds: [blockId] }
-        emitter.emit('drag:end', { block, blockId, targetZone, cancelled: false })
-        emitBlocksChange()
-      }
+      if (!block) return
+      if (!getPermissions(blockId).canMove) return
+      const from = getIndexPosition(index, blockId)
+      const zone = resolveTargetZone(block, from, targetZone)
+      if (zone === null || !isZoneUnlocked(index, locks, zone, userId)) return
+
+      const prevIndex = index
+      index = blockReducer(index, { type: 'MOVE_ITEM', payload: { activeId: blockId, targetZone: zone } }, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+      const moveOp = getMoveOperation(prevIndex, index, blockId, orderingStrategy)
+      if (!moveOp) return
+
+      emit('block:move', createMoveEvent(index.byId.get(blockId)!, from, [blockId]))
+      emitBlocksChange([moveOp])
     },
 
     setBlocks: (blocks) => {
       index = computeNormalizedIndex(blocks, orderingStrategy)
+      emitBlocksChange([{ type: 'reset', blocks }])
+    },
+
+    rebalanceOrder: (parentId = null, maxLength = maxKeyLength) => {
+      if (orderingStrategy !== 'fractional') return []
+      const siblings = (index.byParent.get(parentId) ?? []).map(id => index.byId.get(id)!)
+      const { blocks, changed } = rebalanceFractionalOrder(siblings, maxLength)
+      if (changed.length === 0) return []
+
+      const byId = new Map(index.byId)
+      const ops: BlockOperation<T>[] = []
+      blocks.forEach((block, i) => {
+        if (!changed.includes(block.id)) return
+        const position = { parentId, index: i }
+        ops.push({ type: 'move', id: block.id, from: position, to: position, fromOrder: index.byId.get(block.id)!.order, toOrder: block.order })
+        byId.set(block.id, block)
+      })
+      index = { byId, byParent: index.byParent }
+      emitBlocksChange(ops)
+      return changed
+    },
+
+    applyOperations: (operations) => {
+      if (operations.length === 0) return
+      index = applyBlockOperations(index, operations, orderingStrategy)
       emitBlocksChange()
     },
 
+    copyBlocks: (ids) => {
+      const payload = copyBlockSubtrees(index, typeof ids === 'string' ? [ids] : ids)
+      if (payload.blocks.length === 0) return null
+      clipboard = payload
+      return payload
+    },
+
+    cutBlocks: (ids) => {
+      const payload = instance.copyBlocks(ids)
+      if (!payload) return null
+      // A cut that could only delete some of the blocks would duplicate the rest on paste
+      if (payload.blocks.some(root => !getPermissions(root.id).canDelete)) return null
+      instance.transaction(() => {
+        for (const root of payload.blocks) instance.deleteBlock(root.id)
+      })
+      return payload
+    },
+
+    pasteBlocks: (targetId, position = 'after', payload = clipboard ?? undefined) => {
+      if (!payload) return []
+      const result = pasteBlockSubtrees(index, payload, targetId, position, {
+        idGenerator,
+        containerTypes,
+        orderingStrategy,
+        maxDepth,
+        schema,
+        keyOptions: fractionalKeys,
+      })
+      return commitInserted(result)
+    },
+
+    insertSubtrees: (payload, targetZone) => {
+      const to = getZonePosition(index, targetZone)
+      if (!to) return []
+      const result = insertBlockSubtrees(index, payload, to, {
+        containerTypes,
+        orderingStrategy,
+        maxDepth,
+        schema,
+        keyOptions: fractionalKeys,
+      })
+      return commitInserted(result)
+    },
+
+    duplicateBlocks: (ids) => {
+      const payload = copyBlockSubtrees(index, typeof ids === 'string' ? [ids] : ids)
+      if (payload.blocks.length === 0) return []
+      return instance.transaction(() => payload.blocks.flatMap(root =>
+        instance.pasteBlocks(root.id, 'after', { ...payload, blocks: [root] })
+      ))
+    },
+
+    getClipboard: () => clipboard,
+
+    transaction: (fn) => {
+      const handle = instance.batch()
+      let result: ReturnType<typeof fn>
+      try {
+        result = fn(instance)
+      } catch (err) {
+        handle.rollback()
+        throw err
+      }
+      handle.commit()
+      return result
+    },
+
+    batch: () => {
+      const frame: BatchFrame<T> = {
+        index,
+        expandedMap,
+        locks,
+        queueLength: eventQueue.length,
+        opsLength: pendingOps.length,
+        blocksDirty,
+        settled: false,
+      }
+      batchStack.push(frame)
+      return {
+        commit: () => settleBatch(frame, true),
+        rollback: () => settleBatch(frame, false),
+      }
+    },
+
+    isBatching: () => batchStack.length > 0,
+
     toggleExpand: (id) => {
-      const newExpanded = expandedMap[id] === false
-      expandedMap = expandReducer(expandedMap, { type: 'TOGGLE', id })
+      const newExpanded = !isViewExpanded(id)
+      if (filter) {
+        filterExpandedMap = { ...filterExpandedMap, [id]: newExpanded }
+      } else {
+        expandedMap = expandReducer(expandedMap, { type: 'TOGGLE', id })
+        persistence?.save({ expanded: expandedMap })
+      }
       const block = index.byId.get(id)
       if (block) {
-        emitter.emit('expand:change', { block, blockId: id, expanded: newExpanded })
+        emit('expand:change', { block, blockId: id, expanded: newExpanded })
       }
     },
 
     setExpandAll: (expanded) => {
       const blocks = getBlocks()
       const containerIds = blocks.filter(b => containerTypes.includes(b.type)).map(b => b.id)
+      if (filter) {
+        filterExpandedMap = expandReducer(filterExpandedMap, { type: 'SET_ALL', expanded, ids: containerIds })
+        return
+      }
       expandedMap = expandReducer(expandedMap, { type: 'SET_ALL', expanded, ids: containerIds })
+      persistence?.save({ expanded: expandedMap })
     },
 
-    isExpanded: (id) => expandedMap[id] !== false,
+    isExpanded: isViewExpanded,
+
+    setFilter: (query, filterOpts = {}) => {
+      filterQuery = query
+      filterOptions = filterOpts
+      filterExpandedMap = {}
+      filter = query === null ? null : filterBlockTree(index, query, filterOpts)
+      emit('filter:change', filter)
+    },
+
+    getFilter: () => filter,
+
+    getVisibleBlocks: () => {
+      const blocks = getBlocks()
+      return filter ? blocks.filter(b => filter!.visibleIds.has(b.id)) : blocks
+    },
+
+    getLocks: () => locks,
+    lockBlock: (id, lock) => setLockState({ ...locks, [id]: lock }),
+    unlockBlock: (id) => {
+      if (!(id in locks)) return
+      const next: Record<string, BlockLock> = { ...locks }
+      delete next[id]
+      setLockState(next)
+    },
+    setLocks: (next) => setLockState({ ...next }),
+    getPermissions,
+    getLockState: (id) => getBlockLockState(index, locks, id, userId),
 
     startDrag: (id, ids) => {
       const block = index.byId.get(id)
       if (!block) return false
       if (canDrag && !canDrag(block)) return false
+      if ((ids ?? [id]).some(dragId => !getPermissions(dragId).canMove)) return false
 
       const blocks = getBlocks()
       activeId = id
@@ -295,6 +900,15 @@ export function createBlockTree<T extends BaseBlock>(
     updateDrag: (targetZone) => {
       if (!activeId) return
 
+      if (targetZone === null) {
+        if (hoverZone !== null) emitter.emit('hover:change', { zoneId: null, zoneType: null, targetBlock: null })
+        hoverZone = null
+        cachedReorder = null
+        debouncedSetVirtual.cancel()
+        virtualState = null
+        return
+      }
+
       const activeBlock = index.byId.get(activeId)
       const targetBlockId = extractBlockId(targetZone)
       const targetBlock = index.byId.get(targetBlockId) ?? null
@@ -303,6 +917,9 @@ export function createBlockTree<T extends BaseBlock>(
       if (canDrop && activeBlock && !canDrop(activeBlock, targetZone, targetBlock)) {
         return
       }
+      if (!instance.isZoneAllowed(targetZone)) {
+        return
+      }
 
       // Fire hover change
       if (hoverZone !== targetZone) {
@@ -311,14 +928,13 @@ export function createBlockTree<T extends BaseBlock>(
       }
       hoverZone = targetZone
 
+      // Zones of the filtered view land next to visible siblings, past none of the hidden ones
+      const zone = filter ? mapFilteredZone(index, filter, targetZone, draggedIds) : targetZone
+
       // Compute preview from snapshot
-      const baseIndex = computeNormalizedIndex(snapshotBlocks, orderingStrategy)
-      const updatedIndex = draggedIds.length > 1
-        ? reparentMultipleBlocks(baseIndex, draggedIds, targetZone, containerTypes, orderingStrategy, maxDepth)
-        : reparentBlockIndex(baseIndex, activeId, targetZone, containerTypes, orderingStrategy, maxDepth)
-      const orderedBlocks = buildOrderedBlocks(updatedIndex, containerTypes, orderingStrategy)
+      const orderedBlocks = computeReorder(zone)
 
-      cachedReorder = { targetId: targetZone, reorderedBlocks: orderedBlocks }
+      cachedReorder = { targetId: zone, reorderedBlocks: orderedBlocks }
       debouncedSetVirtual(orderedBlocks)
     },
 
@@ -326,10 +942,23 @@ export function createBlockTree<T extends BaseBlock>(
       debouncedSetVirtual.cancel()
       virtualState = null
 
-      const cached = cachedReorder
+      let cached = cachedReorder
       const dragId = activeId
       const block = dragId ? index.byId.get(dragId) : null
 
+      // onBeforeMove middleware: cancel or retarget the drop
+      if (cached && block && fromPosition) {
+        const zone = resolveTargetZone(block, fromPosition, cached.targetId)
+        // A rewritten zone gets the lock and schema checks updateDrag gave the original
+        if (zone === null || (zone !== cached.targetId && !instance.isZoneAllowed(zone))) {
+          instance.cancelDrag()
+          return null
+        }
+        if (zone !== cached.targetId) {
+          cached = { targetId: zone, reorderedBlocks: computeReorder(zone) }
+        }
+      }
+
       // Fire drag end callback
       if (block && dragId) {
         emitter.emit('drag:end', {
@@ -342,14 +971,18 @@ export function createBlockTree<T extends BaseBlock>(
 
       // Apply the reorder
       if (cached) {
+        const prevIndex = index
         index = computeNormalizedIndex(cached.reorderedBlocks, orderingStrategy)
 
+        // Dragged blocks are placed one after another, so replaying the ops
+        // in order rebuilds the dropped tree
+        const moveOps = diffBlockIndexes(prevIndex, index, orderingStrategy).operations
+
         if (block && dragId && fromPosition) {
-          const to = getBlockPosition(cached.reorderedBlocks, dragId)
-          emitter.emit('blocks:change', cached.reorderedBlocks)
-        } else {
-          emitBlocksChange()
+          const moved = index.byId.get(dragId) ?? block
+          emit('block:move', createMoveEvent(moved, fromPosition, [...draggedIds], cached.reorderedBlocks))
         }
+        emitBlocksChange(moveOps)
       }
 
       const result = cached ? { blocks: cached.reorderedBlocks, targetZone: cached.targetId } : null
@@ -394,15 +1027,38 @@ export function createBlockTree<T extends BaseBlock>(
 
     getCollisionDetection: () => collisionDetection,
 
+    getSchema: () => schema,
+
+    isZoneAllowed: (zoneId) => {
+      if (!activeId) return true
+      if (!isZoneUnlocked(index, locks, zoneId, userId)) return false
+      return !schema || isZoneAllowed(index, draggedIds, zoneId, schema)
+    },
+
     on: (event, handler) => emitter.on(event, handler),
     off: (event, handler) => emitter.off(event, handler),
 
     destroy: () => {
       debouncedSetVirtual.cancel()
+      offRestore?.()
+      persistence?.flush()
       emitter.removeAllListeners()
     },
   }
 
+  // Saved expansion wins over `initialExpanded`. Asynchronous storages
+  // restore it later, announcing each container that changed
+  const offRestore = persistence?.whenRestored(({ expanded }) => {
+    const previous = expandedMap
+    expandedMap = { ...expandedMap, ...expanded }
+    for (const [id, isExpanded] of Object.entries(expanded)) {
+      const block = index.byId.get(id)
+      if (block && (previous[id] !== false) !== isExpanded) {
+        emit('expand:change', { block, blockId: id, expanded: isExpanded })
+      }
+    }
+  })
+
   return instance
 }
 
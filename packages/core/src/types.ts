@@ -1,4 +1,9 @@
-import type { CoreCollisionDetection } from './collision'
+import type { CoreCollisionDetection, OffsetDepthOptions } from './collision'
+import type { BlockSchema } from './utils/schema'
+import type { BlockLocks } from './utils/locks'
+import type { BlockLayouts } from './utils/layout'
+import type { FractionalKeyOptions } from './utils/fractional'
+import type { TextMatchRange } from './utils/filter'
 
 /**
  * Base block interface - extend this for your custom block types
@@ -29,6 +34,12 @@ export interface BlockRendererProps<T extends BaseBlock = BaseBlock, TNode = unk
   isDragging?: boolean
   isOver?: boolean
   depth: number
+  /** A lock keeps the local user from moving the block (see `BlockLock`) */
+  isLocked?: boolean
+  /** User holding a `'locked'` lock on the block or one of its ancestors */
+  lockedBy?: string
+  /** Where a text filter matched the block, by field (see `getHighlightSegments`) */
+  matchRanges?: Record<string, TextMatchRange[]>
 }
 
 /**
@@ -169,6 +180,18 @@ export interface BlockDeleteEvent<T extends BaseBlock = BaseBlock> {
   parentId: string | null
 }
 
+/**
+ * Event fired when a block's non-structural fields are updated
+ */
+export interface BlockUpdateEvent<T extends BaseBlock = BaseBlock> {
+  /** Block after the update */
+  block: T
+  /** Block before the update */
+  previous: T
+  /** Only the fields whose values changed */
+  changes: Partial<T>
+}
+
 /**
  * Event fired when hover zone changes
  */
@@ -179,6 +202,85 @@ export interface HoverChangeEvent<T extends BaseBlock = BaseBlock> {
   targetBlock: T | null
 }
 
+/**
+ * Event fired when a mutation leaves fractional keys longer than the limit
+ */
+export interface OrderOverflowEvent {
+  /** Parent whose children have long keys */
+  parentId: string | null
+  /** Children whose key is longer than the limit */
+  ids: string[]
+  /** Length of the longest key among the children */
+  longest: number
+}
+
+// ============================================================================
+// Operation Types
+// ============================================================================
+
+/**
+ * A block was inserted. `block` carries the full block including its order key.
+ */
+export interface InsertBlockOperation<T extends BaseBlock = BaseBlock> {
+  type: 'insert'
+  id: string
+  block: T
+  to: BlockPosition
+}
+
+/**
+ * A block changed parent and/or sibling position.
+ */
+export interface MoveBlockOperation {
+  type: 'move'
+  id: string
+  from: BlockPosition
+  to: BlockPosition
+  fromOrder: number | string
+  toOrder: number | string
+}
+
+/**
+ * A block and its descendants were removed. `blocks` holds the removed subtree
+ * in tree order so the operation can be inverted.
+ */
+export interface DeleteBlockOperation<T extends BaseBlock = BaseBlock> {
+  type: 'delete'
+  id: string
+  from: BlockPosition
+  deletedIds: string[]
+  blocks: T[]
+}
+
+/**
+ * Non-structural fields of a block changed. `before` and `after` contain only
+ * the fields that changed.
+ */
+export interface UpdateBlockOperation<T extends BaseBlock = BaseBlock> {
+  type: 'update'
+  id: string
+  before: Partial<T>
+  after: Partial<T>
+}
+
+/**
+ * The whole block array was replaced (e.g. via `setBlocks`).
+ */
+export interface ResetBlocksOperation<T extends BaseBlock = BaseBlock> {
+  type: 'reset'
+  blocks: T[]
+}
+
+/**
+ * Structured record of a single tree mutation
+ */
+export type BlockOperation<T extends BaseBlock = BaseBlock> =
+  | InsertBlockOperation<T>
+  | MoveBlockOperation
+  | DeleteBlockOperation<T>
+  | UpdateBlockOperation<T>
+  | ResetBlocksOperation<T>
+
 // ============================================================================
 // Callback Types
 // ============================================================================
@@ -211,6 +313,8 @@ export interface BlockTreeCallbacks<T extends BaseBlock = BaseBlock> {
   onBlockAdd?: (event: BlockAddEvent<T>) => void
   /** Called after a block (and its descendants) is deleted */
   onBlockDelete?: (event: BlockDeleteEvent<T>) => void
+  /** Called after a block's fields are updated */
+  onBlockUpdate?: (event: BlockUpdateEvent<T>) => void
 }
 
 // ============================================================================
@@ -306,6 +410,13 @@ export interface BlockTreeCustomization<T extends BaseBlock = BaseBlock> {
   canDrop?: CanDropFn<T>
   /** Custom collision detection algorithm */
   collisionDetection?: CoreCollisionDetection
+  /**
+   * Pick the drop slot from the pointer's vertical position and the nesting
+   * level from how far it moved sideways since the drag started, one level
+   * per `indentation` px (see `createOffsetDepthCollision`). Ignored when
+   * `collisionDetection` is set
+   */
+  offsetDepth?: boolean | OffsetDepthOptions
   /** Sensor configuration */
   sensors?: SensorConfig
   /** Drop zone configuration */
@@ -324,14 +435,41 @@ export interface BlockTreeCustomization<T extends BaseBlock = BaseBlock> {
    * Use `'fractional'` for CRDT-compatible collaborative editing.
    */
   orderingStrategy?: OrderingStrategy
+  /** Jitter and peer suffix for generated fractional keys, so concurrent inserts by different peers never collide */
+  fractionalKeys?: FractionalKeyOptions
   /** Maximum nesting depth (1 = flat list, 2 = one level of nesting, etc.) */
   maxDepth?: number
+  /**
+   * Nesting rules per block type: allowed children, child counts, depth and
+   * root placement. Drop zones that break the schema are not rendered
+   */
+  schema?: BlockSchema
+  /**
+   * Locks by block id. Locked blocks cannot be dragged, and drop zones inside
+   * locked subtrees are not rendered
+   */
+  locks?: BlockLocks
+  /** The local user. `'locked'` locks held by this user do not restrict it */
+  userId?: string
+  /**
+   * Layouts by container type, e.g. `{ board: 'horizontal' }` for kanban
+   * columns or `{ gallery: 'grid' }` for wrapping cards. Drop zones between
+   * horizontal or grid children are vertical bars, and the built-in
+   * collision detection measures them sideways
+   */
+  layouts?: BlockLayouts
 }
 
 // ============================================================================
 // Action Types
 // ============================================================================
 
+/**
+ * Fields that can be changed through an update. Structural fields (`id`,
+ * `parentId`, `order`) only change through moves.
+ */
+export type BlockPatch<T extends BaseBlock> = Partial<Omit<T, 'id' | 'parentId' | 'order'>>
+
 /**
  * Block action types for the reducer
  */
@@ -341,6 +479,7 @@ export type BlockAction<T extends BaseBlock> =
   | { type: 'SET_ALL'; payload: T[] }
   | { type: 'MOVE_ITEM'; payload: { activeId: string; targetZone: string } }
   | { type: 'INSERT_ITEM'; payload: { item: T; parentId: string | null; index: number } }
+  | { type: 'UPDATE_ITEM'; payload: { id: string; patch: BlockPatch<T> } }
 
 // ============================================================================
 // Component Props Types
@@ -375,6 +514,7 @@ export interface BlockStateContextValue<T extends BaseBlock = BaseBlock> {
   insertItem: (type: T['type'], referenceId: string, position: 'before' | 'after') => T
   deleteItem: (id: string) => void
   moveItem: (activeId: string, targetZone: string) => void
+  updateItem: (id: string, patch: BlockPatch<T>) => void
   setAll: (blocks: T[]) => void
 }
 
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { defaultAnnouncements, getAnnouncement, resolveAnnouncements } from './announcements'
+import { computeNormalizedIndex, reparentBlockIndex } from './blocks'
+import type { BaseBlock } from '../types'
+
+interface TestBlock extends BaseBlock {
+  type: 'folder' | 'item'
+  title?: string
+}
+
+const block = (
+  id: string,
+  type: TestBlock['type'],
+  parentId: string | null,
+  order: number,
+  title?: string
+): TestBlock => ({ id, type, parentId, order, title })
+
+// Folder A: a1, a2
+// b
+const index = computeNormalizedIndex<TestBlock>([
+  block('f', 'folder', null, 0, 'Folder A'),
+  block('a1', 'item', 'f', 0, 'Task 1'),
+  block('a2', 'item', 'f', 1, 'Task 2'),
+  block('b', 'item', null, 1),
+])
+const announcements = resolveAnnouncements<TestBlock>()
+
+describe('getAnnouncement', () => {
+  it('announces pick up with the current position', () => {
+    expect(getAnnouncement(announcements, 'dragStart', index, 'a2'))
+      .toBe('Picked up Task 2, position 2 of 2 in Folder A.')
+  })
+
+  it('announces the resulting position while hovering', () => {
+    const moved = reparentBlockIndex(index, 'b', 'end-f', ['folder'])
+    expect(getAnnouncement(announcements, 'dragOver', moved, 'b', { targetZone: 'end-f' }))
+      .toBe('Drop into Folder A, position 3 of 3.')
+  })
+
+  it('describes root positions', () => {
+    const moved = reparentBlockIndex(index, 'a1', 'after-b', ['folder'])
+    expect(getAnnouncement(announcements, 'drop', moved, 'a1', { targetZone: 'after-b' }))
+      .toBe('Dropped Task 1 at root, position 3 of 3.')
+  })
+
+  it('mentions the other blocks in a multi-block drag', () => {
+    expect(getAnnouncement(announcements, 'dragCancel', index, 'a1', { count: 3 }))
+      .toBe('Cancelled. Task 1 and 2 more returned to position 1 of 2 in Folder A.')
+  })
+
+  it('falls back to the block type for unlabeled blocks', () => {
+    expect(getAnnouncement(announcements, 'dragStart', index, 'b'))
+      .toBe('Picked up item, position 2 of 2 at root.')
+  })
+
+  it('returns null for missing blocks', () => {
+    expect(getAnnouncement(announcements, 'drop', index, 'missing')).toBeNull()
+  })
+})
+
+describe('resolveAnnouncements', () => {
+  it('keeps defaults for templates that are not overridden', () => {
+    const custom = resolveAnnouncements<TestBlock>({
+      getLabel: b => b.id.toUpperCase(),
+      dragOver: ctx => `${ctx.label} -> ${ctx.targetZone}`,
+    })
+    expect(custom.dragStart).toBe(defaultAnnouncements.dragStart)
+    expect(getAnnouncement(custom, 'dragOver', index, 'a1', { targetZone: 'after-a2' })).toBe('A1 -> after-a2')
+    expect(getAnnouncement(custom, 'dragStart', index, 'a1')).toBe('Picked up A1, position 1 of 2 in F.')
+  })
+})
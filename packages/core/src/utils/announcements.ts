@@ -0,0 +1,111 @@
+import type { BaseBlock, BlockIndex } from '../types'
+
+/**
+ * Drag lifecycle moments that are announced to screen readers
+ */
+export type AnnouncementEvent = 'dragStart' | 'dragOver' | 'drop' | 'dragCancel'
+
+/**
+ * Where a dragged block is (for `dragStart`/`dragCancel`) or would land
+ * (for `dragOver`/`drop`), in terms a screen reader user can follow.
+ */
+export interface AnnouncementContext<T extends BaseBlock> {
+  block: T
+  /** Spoken name of `block` */
+  label: string
+  /** Number of blocks being dragged (greater than 1 for multi-select drags) */
+  count: number
+  /** Parent container, or null at the root */
+  parent: T | null
+  parentLabel: string | null
+  /** 1-based position among the parent's children */
+  position: number
+  /** Number of children of the parent */
+  setSize: number
+  /** Drop zone being hovered or dropped on, null for start/cancel */
+  targetZone: string | null
+}
+
+/**
+ * Message templates for the live-region announcer. Override any subset via
+ * the adapters' `announcements` option.
+ */
+export interface Announcements<T extends BaseBlock = BaseBlock> {
+  /** Spoken name of a block (default: `title`, `name` or `label`, then `type`) */
+  getLabel: (block: T) => string
+  dragStart: (ctx: AnnouncementContext<T>) => string
+  dragOver: (ctx: AnnouncementContext<T>) => string
+  drop: (ctx: AnnouncementContext<T>) => string
+  dragCancel: (ctx: AnnouncementContext<T>) => string
+}
+
+function defaultGetLabel(block: BaseBlock): string {
+  const record = block as unknown as Record<string, unknown>
+  for (const key of ['title', 'name', 'label']) {
+    const value = record[key]
+    if (typeof value === 'string' && value.trim()) return value
+  }
+  return block.type
+}
+
+function describeBlocks(ctx: AnnouncementContext<BaseBlock>): string {
+  return ctx.count > 1 ? `${ctx.label} and ${ctx.count - 1} more` : ctx.label
+}
+
+function describePlace(ctx: AnnouncementContext<BaseBlock>): string {
+  const where = ctx.parentLabel === null ? 'at root' : `into ${ctx.parentLabel}`
+  return `${where}, position ${ctx.position} of ${ctx.setSize}`
+}
+
+function describeLocation(ctx: AnnouncementContext<BaseBlock>): string {
+  const where = ctx.parentLabel === null ? 'at root' : `in ${ctx.parentLabel}`
+  return `position ${ctx.position} of ${ctx.setSize} ${where}`
+}
+
+export const defaultAnnouncements: Announcements<BaseBlock> = {
+  getLabel: defaultGetLabel,
+  dragStart: ctx => `Picked up ${describeBlocks(ctx)}, ${describeLocation(ctx)}.`,
+  dragOver: ctx => `Drop ${describePlace(ctx)}.`,
+  drop: ctx => `Dropped ${describeBlocks(ctx)} ${describePlace(ctx)}.`,
+  dragCancel: ctx => `Cancelled. ${describeBlocks(ctx)} returned to ${describeLocation(ctx)}.`,
+}
+
+/**
+ * Merge partial templates over the defaults
+ */
+export function resolveAnnouncements<T extends BaseBlock>(
+  overrides?: Partial<Announcements<T>>
+): Announcements<T> {
+  return { ...(defaultAnnouncements as unknown as Announcements<T>), ...overrides }
+}
+
+/**
+ * Build the message for `event`, reading the block's placement from `index`.
+ * Pass the pre-drag index for `dragStart`/`dragCancel` and the index with the
+ * move applied for `dragOver`/`drop`. Returns null if the block is missing.
+ */
+export function getAnnouncement<T extends BaseBlock>(
+  announcements: Announcements<T>,
+  event: AnnouncementEvent,
+  index: BlockIndex<T>,
+  blockId: string,
+  options: { targetZone?: string | null; count?: number } = {}
+): string | null {
+  const block = index.byId.get(blockId)
+  if (!block) return null
+
+  const parentId = block.parentId ?? null
+  const parent = parentId === null ? null : index.byId.get(parentId) ?? null
+  const siblings = index.byParent.get(parentId) ?? []
+
+  return announcements[event]({
+    block,
+    label: announcements.getLabel(block),
+    count: options.count ?? 1,
+    parent,
+    parentLabel: parent ? announcements.getLabel(parent) : null,
+    position: siblings.indexOf(blockId) + 1,
+    setSize: siblings.length,
+    targetZone: options.targetZone ?? null,
+  })
+}
@@ -9,8 +9,11 @@ import {
   getDescendantIds,
   deleteBlockAndDescendants,
   getBlockDepth,
+  getZoneDepth,
   getSubtreeDepth,
   validateBlockTree,
+  applyBlockPatch,
+  getBlockChanges,
 } from './blocks'
 import type { BaseBlock } from '../types'
 import { generateNKeysBetween, compareFractionalKeys } from './fractional'
@@ -664,6 +667,20 @@ describe('getBlockDepth', () => {
   })
 })
 
+describe('getZoneDepth', () => {
+  it('returns the depth a block dropped at the zone would have', () => {
+    const index = computeNormalizedIndex([
+      createBlock('1', 'container', null, 0),
+      createBlock('2', 'item', '1', 0),
+    ])
+
+    expect(getZoneDepth(index, 'root-end')).toBe(1)
+    expect(getZoneDepth(index, 'after-1')).toBe(1)
+    expect(getZoneDepth(index, 'into-1')).toBe(2)
+    expect(getZoneDepth(index, 'after-2')).toBe(2)
+  })
+})
+
 describe('getSubtreeDepth', () => {
   it('leaf block returns 1', () => {
     const blocks: TestBlock[] = [
@@ -818,3 +835,32 @@ describe('validateBlockTree', () => {
     expect(result.issues.some(i => i.includes('Stale ref'))).toBe(true)
   })
 })
+
+describe('applyBlockPatch', () => {
+  it('returns a new block with patched fields', () => {
+    const block = createBlock('1', 'item', null, 0)
+
+    const result = applyBlockPatch(block, { title: 'Renamed' })
+
+    expect(result).toEqual({ ...block, title: 'Renamed' })
+    expect(result).not.toBe(block)
+  })
+
+  it('returns the original block when no value changed', () => {
+    const block = createBlock('1', 'item', null, 0)
+
+    expect(applyBlockPatch(block, { title: 'Block 1' })).toBe(block)
+  })
+})
+
+describe('getBlockChanges', () => {
+  it('collects only differing fields', () => {
+    const before = createBlock('1', 'item', null, 0)
+    const after = { ...before, title: 'Renamed' }
+
+    expect(getBlockChanges(before, after)).toEqual({
+      before: { title: 'Block 1' },
+      after: { title: 'Renamed' },
+    })
+  })
+})
@@ -1,6 +1,7 @@
-import type { BaseBlock, BlockIndex, OrderingStrategy } from '../types'
+import type { BaseBlock, BlockIndex, BlockPatch, OrderingStrategy } from '../types'
 import { extractUUID } from './helper'
-import { generateKeyBetween, compareFractionalKeys } from './fractional'
+import { generateKeyBetween, compareFractionalKeys, type FractionalKeyOptions } from './fractional'
+import { checkBlockPlacement, getSchemaViolations, getZoneParentId, type BlockSchema } from './schema'
 
 /**
  * Clone a Map
@@ -85,6 +86,26 @@ export function buildOrderedBlocks<T extends BaseBlock>(
   return result
 }
 
+/**
+ * Flat array of an index in tree order. Unlike `buildOrderedBlocks` it walks
+ * every block's children, so it needs no container types.
+ */
+export function flattenBlockIndex<T extends BaseBlock>(index: BlockIndex<T>): T[] {
+  const result: T[] = []
+  const walk = (parentId: string | null) => {
+    const children = index.byParent.get(parentId) ?? []
+    for (let i = 0; i < children.length; i++) {
+      const block = index.byId.get(children[i])
+      if (!block) continue
+      // Renumber integer orders; fractional keys stay as they are
+      result.push(typeof block.order !== 'number' || block.order === i ? block : { ...block, order: i })
+      walk(block.id)
+    }
+  }
+  walk(null)
+  return result
+}
+
 /**
  * Reparent a block based on drop zone ID.
  *
@@ -93,6 +114,9 @@ export function buildOrderedBlocks<T extends BaseBlock>(
  * @param targetZone - Drop zone ID (e.g., "after-uuid", "before-uuid", "into-uuid")
  * @param containerTypes - Block types that can have children
  * @param orderingStrategy - Whether to assign a fractional key to the moved block
+ * @param maxDepth - Maximum nesting depth of the tree
+ * @param schema - Per-type nesting rules; moves that break them are rejected
+ * @param keyOptions - Jitter and peer suffix for the moved block's fractional key
  */
 export function reparentBlockIndex<T extends BaseBlock>(
   state: BlockIndex<T>,
@@ -100,7 +124,9 @@ export function reparentBlockIndex<T extends BaseBlock>(
   targetZone: string,
   containerTypes: readonly string[] = [],
   orderingStrategy: OrderingStrategy = 'integer',
-  maxDepth?: number
+  maxDepth?: number,
+  schema?: BlockSchema,
+  keyOptions?: FractionalKeyOptions
 ): BlockIndex<T> {
   const byId = cloneMap(state.byId)
   const byParent = cloneParentMap(state.byParent)
@@ -142,6 +168,10 @@ export function reparentBlockIndex<T extends BaseBlock>(
     return state
   }
 
+  if (schema && checkBlockPlacement(state, [dragged], newParentId, schema) !== null) {
+    return state
+  }
+
   // Compute target insert index (before any mutation) for no-op detection
   const oldList = byParent.get(oldParentId) ?? []
   const currentIndexInOldParent = oldList.indexOf(dragged.id)
@@ -196,7 +226,7 @@ export function reparentBlockIndex<T extends BaseBlock>(
     const nextId = movedIdx < siblings.length - 1 ? siblings[movedIdx + 1] : null
     const prevOrder = prevId ? String(byId.get(prevId)!.order) : null
     const nextOrder = nextId ? String(byId.get(nextId)!.order) : null
-    newOrder = generateKeyBetween(prevOrder, nextOrder)
+    newOrder = generateKeyBetween(prevOrder, nextOrder, keyOptions)
   }
 
   byId.set(dragged.id, {
@@ -229,6 +259,17 @@ export function getBlockDepth<T extends BaseBlock>(
   return depth
 }
 
+/**
+ * Depth a block dropped at a zone would have (1 = root).
+ */
+export function getZoneDepth<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  zoneId: string
+): number {
+  const parentId = getZoneParentId(index, zoneId)
+  return parentId === null ? 1 : getBlockDepth(index, parentId) + 1
+}
+
 /**
  * Compute the maximum depth of a subtree rooted at blockId (inclusive).
  * A leaf block returns 1.
@@ -279,20 +320,28 @@ export function reparentMultipleBlocks<T extends BaseBlock>(
   targetZone: string,
   containerTypes: readonly string[] = [],
   orderingStrategy: OrderingStrategy = 'integer',
-  maxDepth?: number
+  maxDepth?: number,
+  schema?: BlockSchema,
+  keyOptions?: FractionalKeyOptions
 ): BlockIndex<T> {
   if (blockIds.length === 0) return state
   if (blockIds.length === 1) {
-    return reparentBlockIndex(state, blockIds[0], targetZone, containerTypes, orderingStrategy, maxDepth)
+    return reparentBlockIndex(state, blockIds[0], targetZone, containerTypes, orderingStrategy, maxDepth, schema, keyOptions)
+  }
+
+  // Check the schema for the whole group, so a partial move is never applied
+  if (schema) {
+    const blocks = blockIds.map(id => state.byId.get(id)).filter((b): b is T => b !== undefined)
+    if (checkBlockPlacement(state, blocks, getZoneParentId(state, targetZone), schema) !== null) return state
   }
 
   // Move the primary block first
-  let result = reparentBlockIndex(state, blockIds[0], targetZone, containerTypes, orderingStrategy, maxDepth)
+  let result = reparentBlockIndex(state, blockIds[0], targetZone, containerTypes, orderingStrategy, maxDepth, schema, keyOptions)
   if (result === state) return state // move was rejected
 
   // Move remaining blocks after the primary, preserving relative order
   for (let i = 1; i < blockIds.length; i++) {
-    result = reparentBlockIndex(result, blockIds[i], `after-${blockIds[i - 1]}`, containerTypes, orderingStrategy, maxDepth)
+    result = reparentBlockIndex(result, blockIds[i], `after-${blockIds[i - 1]}`, containerTypes, orderingStrategy, maxDepth, schema, keyOptions)
   }
 
   return result
@@ -307,10 +356,12 @@ export interface TreeValidationResult {
 }
 
 /**
- * Validate a block tree index for structural integrity.
+ * Validate a block tree index for structural integrity, and against the
+ * nesting rules of `schema` when one is given.
  */
 export function validateBlockTree<T extends BaseBlock>(
-  index: BlockIndex<T>
+  index: BlockIndex<T>,
+  schema?: BlockSchema
 ): TreeValidationResult {
   const issues: string[] = []
 
@@ -345,6 +396,10 @@ export function validateBlockTree<T extends BaseBlock>(
     }
   }
 
+  if (schema) {
+    issues.push(...getSchemaViolations(index, schema))
+  }
+
   if (issues.length > 0) {
     for (const issue of issues) {
       console.warn(`[dnd-block-tree] ${issue}`)
@@ -354,6 +409,47 @@ export function validateBlockTree<T extends BaseBlock>(
   return { valid: issues.length === 0, issues }
 }
 
+/**
+ * Apply a field patch to a block. Structural fields (`id`, `parentId`, `order`)
+ * in the patch are ignored. Returns the original block if no value changed.
+ */
+export function applyBlockPatch<T extends BaseBlock>(
+  block: T,
+  patch: BlockPatch<T>
+): T {
+  let changed = false
+  const next = { ...block } as Record<string, unknown>
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === 'id' || key === 'parentId' || key === 'order') continue
+    if (!Object.is(next[key], value)) {
+      next[key] = value
+      changed = true
+    }
+  }
+  return changed ? next as T : block
+}
+
+/**
+ * Collect the fields that differ between two versions of a block.
+ */
+export function getBlockChanges<T extends BaseBlock>(
+  before: T,
+  after: T
+): { before: Partial<T>; after: Partial<T> } {
+  const prev: Record<string, unknown> = {}
+  const next: Record<string, unknown> = {}
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  for (const key of keys) {
+    const a = (before as Record<string, unknown>)[key]
+    const b = (after as Record<string, unknown>)[key]
+    if (!Object.is(a, b)) {
+      prev[key] = a
+      next[key] = b
+    }
+  }
+  return { before: prev as Partial<T>, after: next as Partial<T> }
+}
+
 /**
  * Delete a block and all its descendants
  */
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  copyBlockSubtrees,
+  pasteBlockSubtrees,
+  insertBlockSubtrees,
+  serializeBlockClipboard,
+  parseBlockClipboard,
+  writeSystemClipboard,
+  readSystemClipboard,
+} from './clipboard'
+import { computeNormalizedIndex, buildOrderedBlocks } from './blocks'
+import { compareFractionalKeys } from './fractional'
+import type { BaseBlock } from '../types'
+
+interface TestBlock extends BaseBlock {
+  type: 'container' | 'item'
+  title: string
+}
+
+const block = (
+  id: string,
+  type: TestBlock['type'],
+  parentId: string | null,
+  order: number | string
+): TestBlock => ({ id, type, parentId, order, title: `Block ${id}` })
+
+const blocks = [
+  block('p', 'container', null, 0),
+  block('a', 'item', 'p', 0),
+  block('b', 'item', 'p', 1),
+  block('c', 'item', null, 1),
+]
+
+function idGen() {
+  let n = 0
+  return () => `new-${++n}`
+}
+
+describe('copyBlockSubtrees', () => {
+  it('copies a block with its descendants', () => {
+    const payload = copyBlockSubtrees(computeNormalizedIndex(blocks), ['p'])
+
+    expect(payload.format).toBe('dnd-block-tree')
+    expect(payload.blocks).toHaveLength(1)
+    expect(payload.blocks[0].id).toBe('p')
+    expect(payload.blocks[0].children.map(c => c.id)).toEqual(['a', 'b'])
+  })
+
+  it('folds ids already covered by a copied ancestor', () => {
+    const payload = copyBlockSubtrees(computeNormalizedIndex(blocks), ['a', 'p'])
+    expect(payload.blocks.map(b => b.id)).toEqual(['p'])
+  })
+
+  it('keeps top-level blocks in tree order', () => {
+    const payload = copyBlockSubtrees(computeNormalizedIndex(blocks), ['c', 'a'])
+    expect(payload.blocks.map(b => b.id)).toEqual(['a', 'c'])
+  })
+
+  it('ignores missing ids', () => {
+    const payload = copyBlockSubtrees(computeNormalizedIndex(blocks), ['missing'])
+    expect(payload.blocks).toEqual([])
+  })
+})
+
+describe('pasteBlockSubtrees', () => {
+  const options = () => ({ idGenerator: idGen(), containerTypes: ['container'] })
+
+  it('pastes after a target with regenerated ids', () => {
+    const state = computeNormalizedIndex(blocks)
+    const payload = copyBlockSubtrees(state, ['p'])
+    const result = pasteBlockSubtrees(state, payload, 'c', 'after', options())!
+
+    expect(result.rootIds).toEqual(['new-1'])
+    expect(result.blocks.map(b => [b.id, b.parentId])).toEqual([
+      ['new-1', null],
+      ['new-2', 'new-1'],
+      ['new-3', 'new-1'],
+    ])
+    expect(result.to).toEqual({ parentId: null, index: 2 })
+    expect(buildOrderedBlocks(result.index, ['container']).map(b => b.id)).toEqual([
+      'p', 'a', 'b', 'c', 'new-1', 'new-2', 'new-3',
+    ])
+  })
+
+  it('pastes before a target', () => {
+    const state = computeNormalizedIndex(blocks)
+    const payload = copyBlockSubtrees(state, ['c'])
+    const result = pasteBlockSubtrees(state, payload, 'b', 'before', options())!
+
+    expect(result.index.byParent.get('p')).toEqual(['a', 'new-1', 'b'])
+  })
+
+  it('pastes into a container at the end', () => {
+    const state = computeNormalizedIndex(blocks)
+    const payload = copyBlockSubtrees(state, ['c'])
+    const result = pasteBlockSubtrees(state, payload, 'p', 'into', options())!
+
+    expect(result.index.byParent.get('p')).toEqual(['a', 'b', 'new-1'])
+    expect(result.to).toEqual({ parentId: 'p', index: 2 })
+  })
+
+  it('appends to the root when target is null', () => {
+    const state = computeNormalizedIndex(blocks)
+    const payload = copyBlockSubtrees(state, ['a'])
+    const result = pasteBlockSubtrees(state, payload, null, 'after', options())!
+
+    expect(result.index.byParent.get(null)).toEqual(['p', 'c', 'new-1'])
+  })
+
+  it('returns null when pasting into a non-container', () => {
+    const state = computeNormalizedIndex(blocks)
+    const payload = copyBlockSubtrees(state, ['a'])
+    expect(pasteBlockSubtrees(state, payload, 'c', 'into', options())).toBeNull()
+  })
+
+  it('returns null when the pasted subtree would exceed maxDepth', () => {
+    const state = computeNormalizedIndex(blocks)
+    const payload = copyBlockSubtrees(state, ['p'])
+    expect(pasteBlockSubtrees(state, payload, 'a', 'after', { ...options(), maxDepth: 2 })).toBeNull()
+    expect(pasteBlockSubtrees(state, payload, 'c', 'after', { ...options(), maxDepth: 2 })).not.toBeNull()
+  })
+
+  it('assigns fractional keys between neighbours', () => {
+    const fractional = [
+      block('x', 'container', null, 'a0'),
+      block('x1', 'item', 'x', 'a0'),
+      block('x2', 'item', 'x', 'a1'),
+      block('y', 'item', null, 'a1'),
+    ]
+    const state = computeNormalizedIndex(fractional, 'fractional')
+    const payload = copyBlockSubtrees(state, ['x'])
+    const result = pasteBlockSubtrees(state, payload, 'x', 'after', {
+      ...options(),
+      orderingStrategy: 'fractional',
+    })!
+
+    const root = result.index.byId.get('new-1')!
+    expect(compareFractionalKeys('a0', String(root.order))).toBeLessThan(0)
+    expect(compareFractionalKeys(String(root.order), 'a1')).toBeLessThan(0)
+    const [first, second] = result.index.byParent.get('new-1')!.map(id => String(result.index.byId.get(id)!.order))
+    expect(compareFractionalKeys(first, second)).toBeLessThan(0)
+
+    // Rebuilding from the flat array keeps the pasted position
+    const rebuilt = computeNormalizedIndex(buildOrderedBlocks(result.index, ['container'], 'fractional'), 'fractional')
+    expect(rebuilt.byParent.get(null)).toEqual(['x', 'new-1', 'y'])
+  })
+})
+
+describe('insertBlockSubtrees', () => {
+  const payload = copyBlockSubtrees(computeNormalizedIndex([block('q', 'container', null, 0), block('d', 'item', 'q', 0)]), ['q'])
+
+  it('inserts at a position keeping ids', () => {
+    const result = insertBlockSubtrees(computeNormalizedIndex(blocks), payload, { parentId: 'p', index: 1 })!
+
+    expect(result.rootIds).toEqual(['q'])
+    expect(result.index.byParent.get('p')).toEqual(['a', 'q', 'b'])
+    expect(result.index.byParent.get('q')).toEqual(['d'])
+  })
+
+  it('returns null when a kept id already exists or the parent is missing', () => {
+    const state = computeNormalizedIndex(blocks)
+    const taken = copyBlockSubtrees(state, ['c'])
+    expect(insertBlockSubtrees(state, taken, { parentId: null, index: 0 })).toBeNull()
+    expect(insertBlockSubtrees(state, payload, { parentId: 'missing', index: 0 })).toBeNull()
+  })
+})
+
+describe('clipboard serialization', () => {
+  it('round-trips a payload', () => {
+    const payload = copyBlockSubtrees(computeNormalizedIndex(blocks), ['p'])
+    expect(parseBlockClipboard(serializeBlockClipboard(payload))).toEqual(payload)
+  })
+
+  it('rejects text that is not a clipboard payload', () => {
+    expect(parseBlockClipboard('hello')).toBeNull()
+    expect(parseBlockClipboard('{"blocks":[]}')).toBeNull()
+    expect(parseBlockClipboard(JSON.stringify({
+      format: 'dnd-block-tree',
+      version: 1,
+      blocks: [{ id: 1, type: 'item', children: [] }],
+    }))).toBeNull()
+  })
+})
+
+describe('system clipboard', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('writes and reads a payload as plain text', async () => {
+    let text = ''
+    vi.stubGlobal('navigator', {
+      clipboard: {
+        writeText: async (value: string) => { text = value },
+        readText: async () => text,
+      },
+    })
+    const payload = copyBlockSubtrees(computeNormalizedIndex(blocks), ['p'])
+
+    expect(await writeSystemClipboard(payload)).toBe(true)
+    expect(await readSystemClipboard()).toEqual(payload)
+  })
+
+  it('resolves to false and null without a clipboard', async () => {
+    vi.stubGlobal('navigator', undefined)
+    const payload = copyBlockSubtrees(computeNormalizedIndex(blocks), ['p'])
+
+    expect(await writeSystemClipboard(payload)).toBe(false)
+    expect(await readSystemClipboard()).toBeNull()
+  })
+})
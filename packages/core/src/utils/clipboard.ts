@@ -0,0 +1,340 @@
+import type { BaseBlock, BlockIndex, BlockPosition, IdGeneratorFn, OrderingStrategy } from '../types'
+import { cloneMap, cloneParentMap, getBlockDepth, getDescendantIds } from './blocks'
+import { generateInitialKeys, generateNKeysBetween, type FractionalKeyOptions } from './fractional'
+import { flatToNested, nestedToFlat, type NestedBlock } from './serialization'
+import { checkBlockPlacement, type BlockSchema } from './schema'
+
+/**
+ * MIME type used for clipboard payloads. Browsers only accept custom types in
+ * the async Clipboard API with a `web ` prefix (`web application/x-...`).
+ */
+export const BLOCK_CLIPBOARD_MIME = 'application/x-dnd-block-tree+json'
+
+/**
+ * A copied set of subtrees, independent of the tree it was copied from.
+ * Ids are regenerated and orders reassigned on paste.
+ */
+export interface BlockClipboardPayload<T extends BaseBlock = BaseBlock> {
+  format: 'dnd-block-tree'
+  version: 1
+  blocks: NestedBlock<T>[]
+}
+
+/**
+ * Where to paste relative to a target block
+ */
+export type PastePosition = 'before' | 'after' | 'into'
+
+export interface InsertBlocksOptions {
+  /** Give every inserted block a new id. Without it, ids are kept */
+  idGenerator?: IdGeneratorFn
+  containerTypes?: readonly string[]
+  orderingStrategy?: OrderingStrategy
+  maxDepth?: number
+  schema?: BlockSchema
+  /** Jitter and peer suffix for the pasted top-level blocks' fractional keys */
+  keyOptions?: FractionalKeyOptions
+}
+
+export interface PasteBlocksOptions extends InsertBlocksOptions {
+  idGenerator: IdGeneratorFn
+}
+
+export interface PasteBlocksResult<T extends BaseBlock> {
+  index: BlockIndex<T>
+  /** Every inserted block in tree order */
+  blocks: T[]
+  /** Ids of the inserted top-level blocks */
+  rootIds: string[]
+  /** Position of the first inserted top-level block */
+  to: BlockPosition
+}
+
+/**
+ * Copy blocks and all their descendants into a clipboard payload.
+ *
+ * Ids that are descendants of another copied id are folded into that
+ * subtree. Top-level blocks are kept in tree order.
+ */
+export function copyBlockSubtrees<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  ids: string[]
+): BlockClipboardPayload<T> {
+  const requested = new Set(ids.filter(id => index.byId.has(id)))
+  const covered = new Set<string>()
+  for (const id of requested) {
+    for (const descendantId of getDescendantIds(index, id)) {
+      if (descendantId !== id) covered.add(descendantId)
+    }
+  }
+
+  const roots: string[] = []
+  const collectRoots = (parentId: string | null) => {
+    for (const id of index.byParent.get(parentId) ?? []) {
+      if (requested.has(id) && !covered.has(id)) roots.push(id)
+      collectRoots(id)
+    }
+  }
+  collectRoots(null)
+
+  const flat: T[] = []
+  const walk = (id: string, parentId: string | null, position: number) => {
+    const block = index.byId.get(id)
+    if (!block) return
+    flat.push({ ...block, parentId, order: position })
+    const children = index.byParent.get(id) ?? []
+    children.forEach((childId, i) => walk(childId, id, i))
+  }
+  roots.forEach((id, i) => walk(id, null, i))
+
+  return { format: 'dnd-block-tree', version: 1, blocks: flatToNested(flat) }
+}
+
+/**
+ * Paste a clipboard payload relative to `targetId`, with new ids. A null
+ * target appends to the root. Returns null if the target is missing, `into`
+ * targets a non-container, or the pasted subtrees would exceed `maxDepth` or
+ * break the `schema`.
+ */
+export function pasteBlockSubtrees<T extends BaseBlock>(
+  state: BlockIndex<T>,
+  payload: BlockClipboardPayload<T>,
+  targetId: string | null,
+  position: PastePosition,
+  options: PasteBlocksOptions
+): PasteBlocksResult<T> | null {
+  const { containerTypes = [] } = options
+  if (payload.blocks.length === 0) return null
+
+  let parentId: string | null = null
+  let insertIdx = (state.byParent.get(null) ?? []).length
+  if (targetId !== null) {
+    const target = state.byId.get(targetId)
+    if (!target) return null
+    if (position === 'into') {
+      if (!containerTypes.includes(target.type)) return null
+      parentId = target.id
+      insertIdx = (state.byParent.get(target.id) ?? []).length
+    } else {
+      parentId = target.parentId ?? null
+      const refIdx = (state.byParent.get(parentId) ?? []).indexOf(target.id)
+      insertIdx = position === 'before' ? refIdx : refIdx + 1
+    }
+  }
+
+  return insertBlockSubtrees(state, payload, { parentId, index: insertIdx }, options)
+}
+
+/**
+ * Insert a payload's subtrees at a position, e.g. blocks dragged in from
+ * another tree. Ids are kept unless `idGenerator` is given. Returns null if
+ * the parent is missing, a kept id already exists, or the
+ * subtrees would exceed `maxDepth` or break the `schema`.
+ */
+export function insertBlockSubtrees<T extends BaseBlock>(
+  state: BlockIndex<T>,
+  payload: BlockClipboardPayload<T>,
+  to: BlockPosition,
+  options: InsertBlocksOptions = {}
+): PasteBlocksResult<T> | null {
+  const { idGenerator, orderingStrategy = 'integer', maxDepth, schema, keyOptions } = options
+  if (payload.blocks.length === 0) return null
+
+  const parentId = to.parentId
+  if (parentId !== null && !state.byId.has(parentId)) return null
+  const siblings = state.byParent.get(parentId) ?? []
+  const insertIdx = Math.max(0, Math.min(to.index, siblings.length))
+
+  if (maxDepth != null) {
+    const parentDepth = parentId === null ? 0 : getBlockDepth(state, parentId)
+    if (parentDepth + getNestedDepth(payload.blocks) > maxDepth) return null
+  }
+
+  const pasted = nestedToFlat(idGenerator ? regenerateIds(payload.blocks, idGenerator) : payload.blocks)
+  if (!idGenerator && pasted.some(block => state.byId.has(block.id))) return null
+  const pastedRoots = pasted.filter(b => b.parentId === null)
+  if (schema && checkBlockPlacement(state, pastedRoots, parentId, schema)) return null
+  const rootCount = payload.blocks.length
+
+  // Fresh orders: roots slot in between their new neighbours, children restart
+  let rootOrders: (number | string)[] = Array.from({ length: rootCount }, (_, i) => insertIdx + i)
+  const childKeys = new Map<string, string[]>()
+  if (orderingStrategy === 'fractional') {
+    const prevId = insertIdx > 0 ? siblings[insertIdx - 1] : null
+    const nextId = insertIdx < siblings.length ? siblings[insertIdx] : null
+    const prevOrder = prevId ? String(state.byId.get(prevId)!.order) : null
+    const nextOrder = nextId ? String(state.byId.get(nextId)!.order) : null
+    rootOrders = generateNKeysBetween(prevOrder, nextOrder, rootCount, keyOptions)
+    const childCounts = new Map<string, number>()
+    for (const block of pasted) {
+      if (block.parentId !== null) childCounts.set(block.parentId, (childCounts.get(block.parentId) ?? 0) + 1)
+    }
+    for (const [id, count] of childCounts) childKeys.set(id, generateInitialKeys(count))
+  }
+
+  const byId = cloneMap(state.byId)
+  const byParent = cloneParentMap(state.byParent)
+  const blocks: T[] = []
+  const rootIds: string[] = []
+
+  for (const block of pasted) {
+    if (block.parentId === null) {
+      const i = rootIds.length
+      const placed = { ...block, parentId, order: rootOrders[i] }
+      rootIds.push(placed.id)
+      blocks.push(placed)
+      byId.set(placed.id, placed)
+      continue
+    }
+    const keys = childKeys.get(block.parentId)
+    const placed = keys ? { ...block, order: keys[block.order as number] } : block
+    blocks.push(placed)
+    byId.set(placed.id, placed)
+    byParent.set(block.parentId, [...(byParent.get(block.parentId) ?? []), placed.id])
+  }
+
+  const nextSiblings = [...siblings]
+  nextSiblings.splice(insertIdx, 0, ...rootIds)
+  byParent.set(parentId, nextSiblings)
+  const index = { byId, byParent }
+
+  // Nesting depth needs the pasted subtrees in place
+  if (schema && rootIds.some(id => checkBlockPlacement(index, [byId.get(id)!], parentId, schema))) return null
+
+  return { index, blocks, rootIds, to: { parentId, index: insertIdx } }
+}
+
+/**
+ * Serialize a clipboard payload to JSON
+ */
+export function serializeBlockClipboard<T extends BaseBlock>(payload: BlockClipboardPayload<T>): string {
+  return JSON.stringify(payload)
+}
+
+/**
+ * Parse clipboard text. Returns null for anything that is not a payload
+ * produced by `serializeBlockClipboard`.
+ */
+export function parseBlockClipboard<T extends BaseBlock = BaseBlock>(text: string): BlockClipboardPayload<T> | null {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (!data || typeof data !== 'object') return null
+  const payload = data as Partial<BlockClipboardPayload<T>>
+  if (payload.format !== 'dnd-block-tree' || payload.version !== 1) return null
+  if (!Array.isArray(payload.blocks) || !payload.blocks.every(isNestedBlock)) return null
+  return payload as BlockClipboardPayload<T>
+}
+
+/** Async Clipboard API custom formats must be prefixed with `web ` */
+const WEB_CLIPBOARD_TYPE = `web ${BLOCK_CLIPBOARD_MIME}`
+
+/** The subset of an async clipboard item that the system clipboard helpers use */
+interface ClipboardItemLike {
+  readonly types: readonly string[]
+  getType(type: string): Promise<{ text(): Promise<string> }>
+}
+
+/** The subset of `navigator.clipboard` that the system clipboard helpers use */
+interface SystemClipboardLike {
+  write?(items: unknown[]): Promise<void>
+  writeText(text: string): Promise<void>
+  read?(): Promise<ClipboardItemLike[]>
+  readText(): Promise<string>
+}
+
+interface ClipboardGlobals {
+  navigator?: { clipboard?: SystemClipboardLike }
+  ClipboardItem?: new (items: Record<string, unknown>) => unknown
+  Blob?: new (parts: string[], options: { type: string }) => unknown
+}
+
+/**
+ * Write a clipboard payload to the system clipboard as both the block tree
+ * MIME type and plain-text JSON, so it can be pasted into a tree in another tab.
+ * Resolves to false when the Clipboard API is unavailable or permission is denied.
+ */
+export async function writeSystemClipboard<T extends BaseBlock>(payload: BlockClipboardPayload<T>): Promise<boolean> {
+  const { navigator, ClipboardItem, Blob } = globalThis as unknown as ClipboardGlobals
+  const clipboard = navigator?.clipboard
+  if (!clipboard) return false
+  const text = serializeBlockClipboard(payload)
+
+  if (ClipboardItem && Blob && typeof clipboard.write === 'function') {
+    try {
+      await clipboard.write([new ClipboardItem({
+        [WEB_CLIPBOARD_TYPE]: new Blob([text], { type: BLOCK_CLIPBOARD_MIME }),
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+      })])
+      return true
+    } catch {
+      // Custom formats are not supported everywhere -- fall back to plain text
+    }
+  }
+
+  try {
+    await clipboard.writeText(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read a clipboard payload from the system clipboard. Resolves to null when
+ * the clipboard is unavailable or holds something other than copied blocks.
+ */
+export async function readSystemClipboard<T extends BaseBlock>(): Promise<BlockClipboardPayload<T> | null> {
+  const clipboard = (globalThis as unknown as ClipboardGlobals).navigator?.clipboard
+  if (!clipboard) return null
+
+  if (typeof clipboard.read === 'function') {
+    try {
+      for (const item of await clipboard.read()) {
+        const type = item.types.includes(WEB_CLIPBOARD_TYPE) ? WEB_CLIPBOARD_TYPE
+          : item.types.includes('text/plain') ? 'text/plain'
+          : null
+        if (!type) continue
+        const payload = parseBlockClipboard<T>(await (await item.getType(type)).text())
+        if (payload) return payload
+      }
+      return null
+    } catch {
+      // Fall through to readText
+    }
+  }
+
+  try {
+    return parseBlockClipboard<T>(await clipboard.readText())
+  } catch {
+    return null
+  }
+}
+
+function isNestedBlock(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false
+  const node = value as { id?: unknown; type?: unknown; children?: unknown }
+  return typeof node.id === 'string'
+    && typeof node.type === 'string'
+    && Array.isArray(node.children)
+    && node.children.every(isNestedBlock)
+}
+
+function regenerateIds<T extends BaseBlock>(nodes: NestedBlock<T>[], idGenerator: IdGeneratorFn): NestedBlock<T>[] {
+  return nodes.map(node => ({
+    ...node,
+    id: idGenerator(),
+    children: regenerateIds(node.children, idGenerator),
+  }))
+}
+
+function getNestedDepth<T extends BaseBlock>(nodes: NestedBlock<T>[]): number {
+  let max = 0
+  for (const node of nodes) {
+    max = Math.max(max, 1 + getNestedDepth(node.children))
+  }
+  return max
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest'
+import { diffBlockTrees, applyBlockDiff } from './diff'
+import type { BaseBlock } from '../types'
+
+interface TestBlock extends BaseBlock {
+  type: 'list' | 'task'
+  title: string
+  done?: boolean
+}
+
+const block = (id: string, parentId: string | null, order: number | string, title = id): TestBlock =>
+  ({ id, type: parentId === null ? 'list' : 'task', parentId, order, title })
+
+const blocks = [
+  block('a', null, 0),
+  block('a1', 'a', 0),
+  block('a2', 'a', 1),
+  block('a3', 'a', 2),
+  block('b', null, 1),
+  block('b1', 'b', 0),
+  block('c', null, 2),
+]
+
+const ids = <E extends { id: string }>(entries: E[]) => entries.map(entry => entry.id)
+
+describe('diffBlockTrees', () => {
+  it('reports nothing for equal trees', () => {
+    expect(diffBlockTrees(blocks, blocks.map(b => ({ ...b })))).toEqual({
+      added: [], deleted: [], moved: [], reordered: [], changed: [],
+    })
+  })
+
+  it('lists added and deleted blocks with their positions', () => {
+    const diff = diffBlockTrees(blocks, [
+      block('a', null, 0),
+      block('a1', 'a', 0),
+      block('x', 'a', 1),
+      block('a2', 'a', 2),
+      block('a3', 'a', 3),
+      block('c', null, 1),
+    ])
+    expect(diff.added).toEqual([{ id: 'x', block: block('x', 'a', 1), to: { parentId: 'a', index: 1 } }])
+    expect(diff.deleted.map(d => [d.id, d.from])).toEqual([
+      ['b', { parentId: null, index: 1 }],
+      ['b1', { parentId: 'b', index: 0 }],
+    ])
+    // Siblings shifted by the insert and delete did not move
+    expect(diff.moved).toEqual([])
+    expect(diff.reordered).toEqual([])
+  })
+
+  it('separates moves between parents from reorders within one', () => {
+    const diff = diffBlockTrees(blocks, [
+      block('a', null, 0),
+      block('a3', 'a', 0),
+      block('a1', 'a', 1),
+      block('b', null, 1),
+      block('b1', 'b', 0),
+      block('a2', 'b', 1),
+      block('c', null, 2),
+    ])
+    expect(diff.moved).toEqual([{
+      id: 'a2',
+      from: { parentId: 'a', index: 1 },
+      to: { parentId: 'b', index: 1 },
+      fromOrder: 1,
+      toOrder: 1,
+    }])
+    expect(ids(diff.reordered)).toEqual(['a3'])
+    expect(diff.reordered[0].from).toEqual({ parentId: 'a', index: 2 })
+    expect(diff.reordered[0].to).toEqual({ parentId: 'a', index: 0 })
+  })
+
+  it('lists the fewest reorders that explain the new order', () => {
+    const flat = ['1', '2', '3', '4', '5'].map((id, i) => block(id, null, i))
+    const diff = diffBlockTrees(flat, [flat[4], flat[0], flat[1], flat[2], flat[3]])
+    expect(ids(diff.reordered)).toEqual(['5'])
+  })
+
+  it('reports field changes without structural fields', () => {
+    const diff = diffBlockTrees(blocks, blocks.map(b => {
+      if (b.id === 'a1') return { ...b, title: 'Renamed', done: true }
+      if (b.id === 'b1') return { ...b, order: 5 }
+      return b
+    }))
+    expect(diff.changed).toEqual([{
+      id: 'a1',
+      fields: ['title', 'done'],
+      before: { title: 'a1', done: undefined },
+      after: { title: 'Renamed', done: true },
+    }])
+  })
+
+  it('treats new fractional keys as reorders', () => {
+    const keyed = [block('a', null, 'a0'), block('b', null, 'a1'), block('c', null, 'a2')]
+    const diff = diffBlockTrees(keyed, [keyed[0], { ...keyed[1], order: 'a1V' }, keyed[2]], { orderingStrategy: 'fractional' })
+    expect(diff.reordered).toEqual([{
+      id: 'b',
+      from: { parentId: null, index: 1 },
+      to: { parentId: null, index: 1 },
+      fromOrder: 'a1',
+      toOrder: 'a1V',
+    }])
+  })
+})
+
+describe('applyBlockDiff', () => {
+  /** `after` must be in tree order, as the result is */
+  const expectApplied = (before: TestBlock[], after: TestBlock[], orderingStrategy: 'integer' | 'fractional' = 'integer') => {
+    const diff = diffBlockTrees(before, after, { orderingStrategy })
+    const applied = applyBlockDiff(before, diff, { orderingStrategy })
+    const shape = (list: TestBlock[]) => list.map(b => [b.id, b.parentId, b.title, b.done])
+    expect(shape(applied)).toEqual(shape(after))
+    return applied
+  }
+
+  it('turns before into after', () => {
+    expectApplied(blocks, [
+      block('c', null, 0),
+      block('a', null, 1),
+      block('a3', 'a', 0),
+      block('x', 'a', 1),
+      block('a1', 'a', 2, 'Renamed'),
+      block('b', null, 2),
+      block('a2', 'b', 0),
+      block('b1', 'b', 1),
+    ])
+  })
+
+  it('keeps children moved out of deleted parents', () => {
+    const applied = expectApplied(blocks, [block('b1', null, 0), block('c', null, 1), block('a2', 'c', 0)])
+    expect(applied.map(b => [b.id, b.order])).toEqual([['b1', 0], ['c', 1], ['a2', 0]])
+  })
+
+  it('round-trips heavy reorders', () => {
+    const flat = ['1', '2', '3', '4', '5', '6'].map((id, i) => block(id, null, i))
+    expectApplied(flat, [flat[3], flat[5], flat[1], flat[0], flat[4], flat[2]])
+  })
+
+  it('keeps fractional keys', () => {
+    const keyed = [block('a', null, 'a0'), block('b', null, 'a1'), block('b1', 'b', 'a0')]
+    const applied = expectApplied(keyed, [
+      { ...keyed[1], order: 'Zz' },
+      keyed[0],
+      { ...keyed[2], parentId: 'a', order: 'a0' },
+    ], 'fractional')
+    expect(applied.map(b => b.order)).toEqual(['Zz', 'a0', 'a0'])
+  })
+
+  it('removes fields the diff dropped', () => {
+    const done = blocks.map(b => b.id === 'c' ? { ...b, done: true } : b)
+    const applied = applyBlockDiff(done, diffBlockTrees(done, blocks))
+    expect('done' in applied.find(b => b.id === 'c')!).toBe(false)
+  })
+
+  it('skips entries that no longer apply', () => {
+    const diff = diffBlockTrees(blocks, [
+      block('a', null, 0, 'Renamed'),
+      block('a1', 'a', 0),
+      block('a3', 'a', 1),
+      block('b', null, 1),
+      block('b1', 'b', 0),
+      block('c', null, 2),
+      block('x', null, 3),
+    ])
+    const drifted = blocks.filter(b => b.id !== 'a' && b.parentId !== 'a')
+    expect(applyBlockDiff(drifted, diff).map(b => b.id)).toEqual(['b', 'b1', 'c', 'x'])
+  })
+})
@@ -0,0 +1,253 @@
+import type { BaseBlock, BlockIndex, BlockPosition, OrderingStrategy } from '../types'
+import {
+  cloneMap,
+  cloneParentMap,
+  computeNormalizedIndex,
+  deleteBlockAndDescendants,
+  flattenBlockIndex,
+  getBlockChanges,
+} from './blocks'
+
+/** A block only in `after` */
+export interface BlockDiffAdd<T extends BaseBlock> {
+  id: string
+  block: T
+  /** Where it sits in `after` */
+  to: BlockPosition
+}
+
+/** A block only in `before` */
+export interface BlockDiffDelete<T extends BaseBlock> {
+  id: string
+  block: T
+  /** Where it sat in `before` */
+  from: BlockPosition
+}
+
+/** A block that changed parent, or its place among its siblings */
+export interface BlockDiffMove {
+  id: string
+  /** Sibling index in `before` */
+  from: BlockPosition
+  /** Sibling index in `after` */
+  to: BlockPosition
+  fromOrder: number | string
+  toOrder: number | string
+}
+
+/** A block whose own fields changed; `id`, `parentId` and `order` are left out */
+export interface BlockDiffChange<T extends BaseBlock> {
+  id: string
+  fields: string[]
+  before: Partial<T>
+  after: Partial<T>
+}
+
+/** What changed between two versions of a tree */
+export interface BlockTreeDiff<T extends BaseBlock = BaseBlock> {
+  /** Blocks only in `after`, parents before children */
+  added: BlockDiffAdd<T>[]
+  /** Every block only in `before`, including the descendants of deleted blocks */
+  deleted: BlockDiffDelete<T>[]
+  /** Blocks that changed parent */
+  moved: BlockDiffMove[]
+  /**
+   * Blocks that changed place within the same parent. Siblings that only
+   * shifted because others were added, removed or reordered are not listed.
+   */
+  reordered: BlockDiffMove[]
+  /** Blocks whose content fields changed */
+  changed: BlockDiffChange<T>[]
+}
+
+export interface DiffBlockTreesOptions {
+  /**
+   * Ordering of both arrays (default: 'integer'). With `'fractional'`,
+   * siblings are sorted by key, and a block whose key changed is listed as
+   * reordered even when it kept its place.
+   */
+  orderingStrategy?: OrderingStrategy
+}
+
+/**
+ * Indexes in `sequence` that form its longest increasing subsequence. The
+ * blocks at these indexes kept their relative order; the rest were reordered.
+ */
+function longestIncreasingRun(sequence: number[]): Set<number> {
+  // tails[k]: index in `sequence` of the smallest tail of a run of length k + 1
+  const tails: number[] = []
+  const previous: number[] = []
+  sequence.forEach((value, i) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (sequence[tails[mid]] < value) low = mid + 1
+      else high = mid
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1
+    tails[low] = i
+  })
+
+  const result = new Set<number>()
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+    result.add(i)
+  }
+  return result
+}
+
+function positionsOf<T extends BaseBlock>(index: BlockIndex<T>): Map<string, BlockPosition> {
+  const positions = new Map<string, BlockPosition>()
+  for (const [parentId, ids] of index.byParent) {
+    ids.forEach((id, i) => positions.set(id, { parentId, index: i }))
+  }
+  return positions
+}
+
+/** Blocks of an index in tree order */
+function treeOrder<T extends BaseBlock>(index: BlockIndex<T>): T[] {
+  const result: T[] = []
+  const walk = (parentId: string | null) => {
+    for (const id of index.byParent.get(parentId) ?? []) {
+      const block = index.byId.get(id)
+      if (!block) continue
+      result.push(block)
+      walk(id)
+    }
+  }
+  walk(null)
+  return result
+}
+
+/**
+ * Compare two versions of a block array: which blocks were added, deleted,
+ * moved to another parent, reordered within their parent, or had their
+ * fields edited. Positions are sibling indexes, so the result reads the same
+ * for integer and fractional ordering.
+ *
+ * @example
+ * ```ts
+ * const diff = diffBlockTrees(savedBlocks, blocks)
+ * if (diff.changed.length > 0) showUnsavedEdits(diff.changed)
+ * await api.patch('/tree', diff)
+ * ```
+ */
+export function diffBlockTrees<T extends BaseBlock>(
+  before: T[],
+  after: T[],
+  options: DiffBlockTreesOptions = {}
+): BlockTreeDiff<T> {
+  const { orderingStrategy = 'integer' } = options
+  const beforeIndex = computeNormalizedIndex(before, orderingStrategy)
+  const afterIndex = computeNormalizedIndex(after, orderingStrategy)
+  const beforePositions = positionsOf(beforeIndex)
+  const afterPositions = positionsOf(afterIndex)
+
+  const diff: BlockTreeDiff<T> = { added: [], deleted: [], moved: [], reordered: [], changed: [] }
+
+  // Siblings that stayed in a parent but left the longest run of unchanged relative order
+  const reordered = new Set<string>()
+  for (const [parentId, ids] of afterIndex.byParent) {
+    const stayed = ids.filter(id => beforeIndex.byId.get(id)?.parentId === parentId)
+    const kept = longestIncreasingRun(stayed.map(id => beforePositions.get(id)!.index))
+    stayed.forEach((id, i) => {
+      const rekeyed = orderingStrategy === 'fractional' && beforeIndex.byId.get(id)!.order !== afterIndex.byId.get(id)!.order
+      if (!kept.has(i) || rekeyed) reordered.add(id)
+    })
+  }
+
+  for (const block of treeOrder(afterIndex)) {
+    const prev = beforeIndex.byId.get(block.id)
+    const to = afterPositions.get(block.id)!
+    if (!prev) {
+      diff.added.push({ id: block.id, block, to })
+      continue
+    }
+
+    const from = beforePositions.get(block.id)!
+    const move = { id: block.id, from, to, fromOrder: prev.order, toOrder: block.order }
+    if (from.parentId !== to.parentId) diff.moved.push(move)
+    else if (reordered.has(block.id)) diff.reordered.push(move)
+
+    if (prev === block) continue
+    const changes = getBlockChanges(prev, block)
+    for (const key of ['id', 'parentId', 'order'] as const) {
+      delete changes.before[key]
+      delete changes.after[key]
+    }
+    const fields = Object.keys(changes.after)
+    if (fields.length > 0) diff.changed.push({ id: block.id, fields, ...changes })
+  }
+
+  for (const block of treeOrder(beforeIndex)) {
+    if (afterIndex.byId.has(block.id)) continue
+    diff.deleted.push({ id: block.id, block, from: beforePositions.get(block.id)! })
+  }
+
+  return diff
+}
+
+/**
+ * Apply a diff from `diffBlockTrees` to a block array and return the result
+ * in tree order. Applied to the diff's `before` blocks, it returns `after`
+ * (with integer orders renumbered).
+ *
+ * Entries that no longer apply (adding an id that exists, moving, deleting
+ * or editing a missing block) are skipped, so a diff can be applied to a
+ * copy that has drifted since.
+ */
+export function applyBlockDiff<T extends BaseBlock>(
+  blocks: T[],
+  diff: BlockTreeDiff<T>,
+  options: DiffBlockTreesOptions = {}
+): T[] {
+  const { orderingStrategy = 'integer' } = options
+  let index = computeNormalizedIndex(blocks, orderingStrategy)
+  const byId = cloneMap(index.byId)
+  const byParent = cloneParentMap(index.byParent)
+
+  const placements: { id: string; block: T; to: BlockPosition }[] = []
+  for (const add of diff.added) {
+    if (!byId.has(add.id)) placements.push({ id: add.id, block: add.block, to: add.to })
+  }
+  // Take moved blocks out first, so deleting their old parent keeps them
+  for (const move of [...diff.moved, ...diff.reordered]) {
+    const block = byId.get(move.id)
+    if (!block) continue
+    const siblings = byParent.get(block.parentId) ?? []
+    byParent.set(block.parentId, siblings.filter(id => id !== move.id))
+    placements.push({ id: move.id, block: { ...block, order: move.toOrder }, to: move.to })
+  }
+
+  index = { byId, byParent }
+  for (const { id } of diff.deleted) {
+    if (index.byId.has(id)) index = deleteBlockAndDescendants(index, id)
+  }
+
+  // Every sibling left is in its final relative order, so inserting by
+  // ascending final index puts each block straight into its slot. Blocks
+  // placed under a parent that is gone are dropped with it.
+  const result = index
+  placements.sort((a, b) => a.to.index - b.to.index)
+  for (const { id, block, to } of placements) {
+    result.byId.set(id, { ...block, parentId: to.parentId })
+    const siblings = result.byParent.get(to.parentId) ?? []
+    siblings.splice(Math.min(to.index, siblings.length), 0, id)
+    result.byParent.set(to.parentId, siblings)
+  }
+
+  for (const change of diff.changed) {
+    const block = result.byId.get(change.id)
+    if (!block) continue
+    const next = { ...block } as Record<string, unknown>
+    for (const field of change.fields) {
+      if (field === 'id' || field === 'parentId' || field === 'order') continue
+      const value = (change.after as Record<string, unknown>)[field]
+      if (value === undefined) delete next[field]
+      else next[field] = value
+    }
+    result.byId.set(change.id, next as T)
+  }
+
+  return flattenBlockIndex(result)
+}
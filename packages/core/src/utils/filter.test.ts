@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  filterBlockTree,
+  findMatchRanges,
+  getFilteredExpandedMap,
+  getFilteredIndex,
+  getHighlightSegments,
+  mapFilteredZone,
+} from './filter'
+import { computeNormalizedIndex } from './blocks'
+import type { BaseBlock } from '../types'
+
+interface TestBlock extends BaseBlock {
+  type: 'folder' | 'file'
+  title: string
+  note?: string
+}
+
+const block = (id: string, parentId: string | null, order: number, title: string, note?: string): TestBlock =>
+  ({ id, type: parentId === null ? 'folder' : 'file', parentId, order, title, ...(note ? { note } : {}) })
+
+const index = computeNormalizedIndex([
+  block('docs', null, 0, 'Documents'),
+  block('invoice', 'docs', 0, 'Invoice March'),
+  block('letter', 'docs', 1, 'Letter', 'attach the invoice'),
+  block('photo', 'docs', 2, 'Photo'),
+  block('music', null, 1, 'Music'),
+  block('song', 'music', 0, 'Song'),
+])
+
+describe('findMatchRanges', () => {
+  it('finds every occurrence, ignoring case by default', () => {
+    expect(findMatchRanges('Banana', 'an')).toEqual([{ start: 1, end: 3 }, { start: 3, end: 5 }])
+    expect(findMatchRanges('aaaa', 'aa')).toEqual([{ start: 0, end: 2 }, { start: 2, end: 4 }])
+    expect(findMatchRanges('Banana', 'BAN', true)).toEqual([])
+    expect(findMatchRanges('Banana', '')).toEqual([])
+  })
+})
+
+describe('getHighlightSegments', () => {
+  it('splits text at match ranges', () => {
+    expect(getHighlightSegments('Banana', [{ start: 1, end: 3 }, { start: 5, end: 6 }])).toEqual([
+      { text: 'B', match: false },
+      { text: 'an', match: true },
+      { text: 'an', match: false },
+      { text: 'a', match: true },
+    ])
+  })
+})
+
+describe('filterBlockTree', () => {
+  it('returns null for a blank query', () => {
+    expect(filterBlockTree(index, '  ')).toBeNull()
+  })
+
+  it('matches text in string fields and reports the ranges', () => {
+    const filter = filterBlockTree(index, 'invoice')!
+    expect(filter.matchedIds).toEqual(new Set(['invoice', 'letter']))
+    expect(filter.ancestorIds).toEqual(new Set(['docs']))
+    expect(filter.visibleIds).toEqual(new Set(['invoice', 'letter', 'docs']))
+    expect(filter.ranges.get('invoice')).toEqual({ title: [{ start: 0, end: 7 }] })
+    expect(filter.ranges.get('letter')).toEqual({ note: [{ start: 11, end: 18 }] })
+  })
+
+  it('searches only the given fields', () => {
+    const filter = filterBlockTree(index, 'invoice', { fields: ['title'] })!
+    expect(filter.matchedIds).toEqual(new Set(['invoice']))
+  })
+
+  it('takes a predicate and can show descendants', () => {
+    const filter = filterBlockTree(index, (b: TestBlock) => b.title === 'Music', { includeDescendants: true })!
+    expect(filter.visibleIds).toEqual(new Set(['music', 'song']))
+    expect(filter.ancestorIds.size).toBe(0)
+    expect(filter.ranges.size).toBe(0)
+  })
+})
+
+describe('filtered view', () => {
+  const filter = filterBlockTree(index, 'o', { fields: ['title'] })!
+
+  it('builds an index of the visible blocks', () => {
+    const filtered = getFilteredIndex(index, filterBlockTree(index, 'invoice')!)
+    expect(filtered.byParent.get(null)).toEqual(['docs'])
+    expect(filtered.byParent.get('docs')).toEqual(['invoice', 'letter'])
+    expect(filtered.byId.has('photo')).toBe(false)
+  })
+
+  it('expands ancestors over the expanded map without changing it', () => {
+    const expandedMap = { docs: false, music: false }
+    expect(getFilteredExpandedMap(expandedMap, filter)).toEqual({ docs: true, music: true })
+    expect(expandedMap).toEqual({ docs: false, music: false })
+  })
+
+  it('maps start and end zones next to the visible siblings', () => {
+    // Visible under docs: invoice, photo; letter is hidden between them
+    expect(filter.visibleIds.has('letter')).toBe(false)
+    expect(mapFilteredZone(index, filter, 'into-docs')).toBe('before-invoice')
+    expect(mapFilteredZone(index, filter, 'end-docs')).toBe('after-photo')
+    expect(mapFilteredZone(index, filter, 'end-docs', ['photo'])).toBe('after-invoice')
+    expect(mapFilteredZone(index, filter, 'root-start')).toBe('before-docs')
+    expect(mapFilteredZone(index, filter, 'after-invoice')).toBe('after-invoice')
+    expect(mapFilteredZone(index, filter, 'into-song')).toBe('into-song')
+  })
+})
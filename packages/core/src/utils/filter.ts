@@ -0,0 +1,207 @@
+import type { BaseBlock, BlockIndex } from '../types'
+import { getDescendantIds } from './blocks'
+import { extractUUID } from './helper'
+
+/** A text to search for, or a test each block must pass */
+export type BlockFilterQuery<T extends BaseBlock> = string | ((block: T) => boolean)
+
+export interface BlockFilterOptions {
+  /**
+   * Fields a text query searches (default: every string field except `id`,
+   * `type`, `parentId` and `order`)
+   */
+  fields?: string[]
+  /** Match letter case in text queries (default: false) */
+  caseSensitive?: boolean
+  /** Show the descendants of matching blocks too (default: false) */
+  includeDescendants?: boolean
+}
+
+/** Characters `start` (inclusive) to `end` (exclusive) of a field matched a text query */
+export interface TextMatchRange {
+  start: number
+  end: number
+}
+
+/** A piece of a field's text, for rendering matches highlighted */
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/** Which blocks a filter shows */
+export interface BlockFilterResult {
+  /** Blocks the query matched */
+  matchedIds: Set<string>
+  /** Blocks to render: the matches, their ancestors and, with `includeDescendants`, their descendants */
+  visibleIds: Set<string>
+  /**
+   * Blocks with a match among their descendants. They are expanded while the
+   * filter is on; a block can be a match and an ancestor at once.
+   */
+  ancestorIds: Set<string>
+  /** Match ranges by field of each matched block. Empty for predicate queries */
+  ranges: Map<string, Record<string, TextMatchRange[]>>
+}
+
+const STRUCTURAL_FIELDS = new Set(['id', 'type', 'parentId', 'order'])
+
+/**
+ * Every occurrence of `query` in `text`, without overlaps. Returns no ranges
+ * for an empty query.
+ */
+export function findMatchRanges(text: string, query: string, caseSensitive = false): TextMatchRange[] {
+  if (!query) return []
+  const haystack = caseSensitive ? text : text.toLowerCase()
+  const needle = caseSensitive ? query : query.toLowerCase()
+  const ranges: TextMatchRange[] = []
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+    ranges.push({ start: at, end: at + needle.length })
+  }
+  return ranges
+}
+
+/**
+ * Split a field's text at its match ranges, e.g. to wrap matches in `<mark>`.
+ *
+ * @example
+ * ```tsx
+ * {getHighlightSegments(block.title, matchRanges?.title ?? []).map((segment, i) =>
+ *   segment.match ? <mark key={i}>{segment.text}</mark> : segment.text
+ * )}
+ * ```
+ */
+export function getHighlightSegments(text: string, ranges: readonly TextMatchRange[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let at = 0
+  for (const { start, end } of ranges) {
+    if (start < at || end <= start) continue
+    if (start > at) segments.push({ text: text.slice(at, start), match: false })
+    segments.push({ text: text.slice(start, end), match: true })
+    at = end
+  }
+  if (at < text.length) segments.push({ text: text.slice(at), match: false })
+  return segments
+}
+
+function matchFields<T extends BaseBlock>(
+  block: T,
+  query: string,
+  options: BlockFilterOptions
+): Record<string, TextMatchRange[]> | null {
+  const record = block as Record<string, unknown>
+  const fields = options.fields ?? Object.keys(record).filter(field => !STRUCTURAL_FIELDS.has(field))
+  let matches: Record<string, TextMatchRange[]> | null = null
+  for (const field of fields) {
+    const value = record[field]
+    if (typeof value !== 'string') continue
+    const ranges = findMatchRanges(value, query, options.caseSensitive)
+    if (ranges.length > 0) (matches ??= {})[field] = ranges
+  }
+  return matches
+}
+
+/**
+ * Find the blocks a query matches, and the ancestors that must be shown and
+ * expanded to reach them. Text queries match case-insensitively in the
+ * block's string fields and report where, for highlighting. Returns null for
+ * a blank text query, meaning nothing is filtered.
+ *
+ * @example
+ * ```ts
+ * const filter = filterBlockTree(index, 'invoice')
+ * const visible = filter ? blocks.filter(b => filter.visibleIds.has(b.id)) : blocks
+ * ```
+ */
+export function filterBlockTree<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  query: BlockFilterQuery<T>,
+  options: BlockFilterOptions = {}
+): BlockFilterResult | null {
+  const text = typeof query === 'string' ? query.trim() : null
+  if (text === '') return null
+
+  const result: BlockFilterResult = {
+    matchedIds: new Set(),
+    visibleIds: new Set(),
+    ancestorIds: new Set(),
+    ranges: new Map(),
+  }
+
+  for (const block of index.byId.values()) {
+    if (text !== null) {
+      const matches = matchFields(block, text, options)
+      if (!matches) continue
+      result.ranges.set(block.id, matches)
+    } else if (!(query as (block: T) => boolean)(block)) {
+      continue
+    }
+    result.matchedIds.add(block.id)
+  }
+
+  for (const id of result.matchedIds) {
+    result.visibleIds.add(id)
+    for (let parentId = index.byId.get(id)!.parentId; parentId !== null; parentId = index.byId.get(parentId)?.parentId ?? null) {
+      if (result.ancestorIds.has(parentId) || !index.byId.has(parentId)) break
+      result.ancestorIds.add(parentId)
+      result.visibleIds.add(parentId)
+    }
+    if (options.includeDescendants) {
+      for (const descendantId of getDescendantIds(index, id)) result.visibleIds.add(descendantId)
+    }
+  }
+
+  return result
+}
+
+/** The index with only the blocks a filter shows, for rendering the filtered view */
+export function getFilteredIndex<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  filter: BlockFilterResult
+): BlockIndex<T> {
+  const byId = new Map<string, T>()
+  const byParent = new Map<string | null, string[]>()
+  for (const [parentId, ids] of index.byParent) {
+    if (parentId !== null && !filter.visibleIds.has(parentId)) continue
+    const visible = ids.filter(id => filter.visibleIds.has(id))
+    if (visible.length === 0) continue
+    byParent.set(parentId, visible)
+    for (const id of visible) byId.set(id, index.byId.get(id)!)
+  }
+  return { byId, byParent }
+}
+
+/** `expandedMap` with the ancestors of a filter's matches expanded. The map itself is left alone */
+export function getFilteredExpandedMap(
+  expandedMap: Record<string, boolean>,
+  filter: BlockFilterResult
+): Record<string, boolean> {
+  const result = { ...expandedMap }
+  for (const id of filter.ancestorIds) result[id] = true
+  return result
+}
+
+/**
+ * Turn a drop zone of the filtered view into one of the full tree. A zone at
+ * the start or end of a parent's visible children becomes the zone next to
+ * the first or last visible child, so the dropped blocks land beside the
+ * blocks the user saw instead of past hidden siblings, which keep their
+ * order. Zones next to a block, and zones of parents with no other visible
+ * children, are returned as they are.
+ */
+export function mapFilteredZone<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  filter: BlockFilterResult,
+  zoneId: string,
+  draggedIds: readonly string[] = []
+): string {
+  const atStart = zoneId === 'root-start' || zoneId.startsWith('into-')
+  const atEnd = zoneId === 'root-end' || zoneId.startsWith('end-')
+  if (!atStart && !atEnd) return zoneId
+
+  const parentId = zoneId.startsWith('root-') ? null : extractUUID(zoneId)
+  const siblings = (index.byParent.get(parentId) ?? [])
+    .filter(id => filter.visibleIds.has(id) && !draggedIds.includes(id))
+  if (siblings.length === 0) return zoneId
+  return atStart ? `before-${siblings[0]}` : `after-${siblings[siblings.length - 1]}`
+}
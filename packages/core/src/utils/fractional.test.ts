@@ -5,6 +5,8 @@ import {
   generateInitialKeys,
   initFractionalOrder,
   compareFractionalKeys,
+  getFractionalKeyStats,
+  rebalanceFractionalOrder,
 } from './fractional'
 
 describe('generateKeyBetween', () => {
@@ -59,6 +61,16 @@ describe('generateKeyBetween', () => {
     expect(compareFractionalKeys(key, key2)).toBe(-1)
   })
 
+  it('keeps keys short when repeatedly appending', () => {
+    let key: string | null = null
+    for (let i = 0; i < 100; i++) {
+      const next = generateKeyBetween(key, null)
+      if (key !== null) expect(compareFractionalKeys(key, next)).toBe(-1)
+      key = next
+    }
+    expect(key!.length).toBeLessThanOrEqual(4)
+  })
+
   it('handles very close keys', () => {
     const lo = 'ia'
     const hi = 'ib'
@@ -68,6 +80,41 @@ describe('generateKeyBetween', () => {
   })
 })
 
+describe('generateKeyBetween with key options', () => {
+  it('gives peers with different suffixes different keys between the same neighbors', () => {
+    const a = generateKeyBetween('a', 'b', { suffix: 'p1' })
+    const b = generateKeyBetween('a', 'b', { suffix: 'p2' })
+    expect(a).not.toBe(b)
+    for (const key of [a, b]) {
+      expect(compareFractionalKeys('a', key)).toBe(-1)
+      expect(compareFractionalKeys(key, 'b')).toBe(-1)
+    }
+  })
+
+  it('appends random jitter that never ends in "0"', () => {
+    const key = generateKeyBetween(null, null, { jitter: 3, random: () => 0 })
+    expect(key).toBe('i001')
+  })
+
+  it('stays below hi when the key is a prefix of it', () => {
+    // The midpoint of "i" and "ii" is "i9", but "i" itself must not be used with a suffix
+    const key = generateKeyBetween(null, 'ii', { suffix: 'zz' })
+    expect(compareFractionalKeys(key, 'ii')).toBe(-1)
+  })
+
+  it('keeps N keys in order', () => {
+    const keys = generateNKeysBetween('a', 'b', 10, { suffix: 'x', jitter: 2 })
+    expect([...keys].sort(compareFractionalKeys)).toEqual(keys)
+    expect(compareFractionalKeys('a', keys[0])).toBe(-1)
+    expect(compareFractionalKeys(keys[9], 'b')).toBe(-1)
+  })
+
+  it('rejects invalid suffixes', () => {
+    expect(() => generateKeyBetween(null, null, { suffix: 'A' })).toThrow('Invalid fractional key character')
+    expect(() => generateKeyBetween(null, null, { suffix: 'p0' })).toThrow('must not end in "0"')
+  })
+})
+
 describe('generateNKeysBetween', () => {
   it('returns empty array for n=0', () => {
     expect(generateNKeysBetween(null, null, 0)).toEqual([])
@@ -183,3 +230,75 @@ describe('compareFractionalKeys', () => {
     expect(sorted).toEqual(['0', '9', 'a', 'm', 'z'])
   })
 })
+
+describe('getFractionalKeyStats', () => {
+  it('reports key lengths and the keys over the limit', () => {
+    const stats = getFractionalKeyStats([
+      { id: 'a', order: 'a' },
+      { id: 'b', order: 'abc' },
+      { id: 'c', order: 'abcde' },
+    ], 3)
+    expect(stats).toEqual({ longest: 5, average: 3, overLimit: ['c'] })
+  })
+
+  it('handles an empty list', () => {
+    expect(getFractionalKeyStats([])).toEqual({ longest: 0, average: 0, overLimit: [] })
+  })
+})
+
+describe('rebalanceFractionalOrder', () => {
+  function insertRepeatedly(lo: string, hi: string, count: number): string[] {
+    const keys: string[] = []
+    let upper = hi
+    for (let i = 0; i < count; i++) {
+      upper = generateKeyBetween(lo, upper)
+      keys.unshift(upper)
+    }
+    return keys
+  }
+
+  it('only re-keys the long keys and keeps the order', () => {
+    const grown = insertRepeatedly('b', 'c', 30)
+    const siblings = [
+      { id: 'first', order: 'a' },
+      { id: 'lo', order: 'b' },
+      ...grown.map((order, i) => ({ id: `g${i}`, order })),
+      { id: 'hi', order: 'c' },
+    ]
+    const maxLength = 4
+    const { blocks, changed } = rebalanceFractionalOrder(siblings, maxLength)
+
+    expect(blocks.map(b => b.id)).toEqual(siblings.map(b => b.id))
+    for (const block of siblings) {
+      if (block.order.length > maxLength) expect(changed).toContain(block.id)
+    }
+    expect(changed).not.toContain('first')
+    expect(changed).not.toContain('hi')
+    expect(blocks.every(b => String(b.order).length <= maxLength)).toBe(true)
+    const keys = blocks.map(b => String(b.order))
+    expect([...keys].sort(compareFractionalKeys)).toEqual(keys)
+  })
+
+  it('widens the run when the neighbors are too close', () => {
+    const siblings = [
+      { id: 'a', order: 'i' },
+      { id: 'b', order: 'i0000001' },
+      { id: 'c', order: 'i1' },
+      { id: 'd', order: 'z' },
+    ]
+    const { blocks, changed } = rebalanceFractionalOrder(siblings, 2)
+
+    expect(changed).toContain('b')
+    expect(changed).not.toContain('d')
+    const keys = blocks.map(b => String(b.order))
+    expect(keys.every(k => k.length <= 2)).toBe(true)
+    expect([...keys].sort(compareFractionalKeys)).toEqual(keys)
+  })
+
+  it('changes nothing when every key fits', () => {
+    const siblings = [{ id: 'a', order: 'a' }, { id: 'b', order: 'b' }]
+    const result = rebalanceFractionalOrder(siblings)
+    expect(result.changed).toEqual([])
+    expect(result.blocks[0]).toBe(siblings[0])
+  })
+})
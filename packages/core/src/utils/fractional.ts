@@ -69,21 +69,85 @@ function keyBefore(hi: string): string {
   return FLOOR + keyBefore(hi.slice(1))
 }
 
+/**
+ * Generate a key that sorts strictly after `lo`. Increments the first digit
+ * that is not already 'z' and drops the rest, so appending to the end of a
+ * list grows keys by one character per ~35 appends instead of every time.
+ */
+function keyAfter(lo: string): string {
+  for (let i = 0; i < lo.length; i++) {
+    const idx = charToIdx(lo[i])
+    if (idx < BASE - 1) return lo.slice(0, i) + ALPHABET[idx + 1]
+  }
+  return lo + ALPHABET[1]
+}
+
+/**
+ * Options for generating keys that stay unique when several peers insert at
+ * the same position concurrently.
+ */
+export interface FractionalKeyOptions {
+  /**
+   * Appended to every generated key, e.g. a short per-peer id. Two peers with
+   * different suffixes never produce the same key. Must use the key alphabet
+   * (0-9a-z) and must not end in '0'.
+   */
+  suffix?: string
+  /** Number of random characters appended before the suffix (default: 0) */
+  jitter?: number
+  /** Random source for jitter, returning [0, 1) (default: Math.random) */
+  random?: () => number
+}
+
+function keyExtra(options: FractionalKeyOptions): string {
+  const { suffix = '', jitter = 0, random = Math.random } = options
+  for (const c of suffix) charToIdx(c)
+  // Trailing zeros are trimmed by computeMidpoint, so a key ending in '0'
+  // would equal its own prefix numerically
+  if (suffix.endsWith(FLOOR)) throw new Error(`Fractional key suffix must not end in "${FLOOR}": "${suffix}"`)
+
+  let extra = ''
+  for (let i = 0; i < jitter; i++) {
+    const last = i === jitter - 1
+    extra += last
+      ? ALPHABET[1 + Math.floor(random() * (BASE - 1))]
+      : ALPHABET[Math.floor(random() * BASE)]
+  }
+  return extra + suffix
+}
+
 /**
  * Generate a key that sorts strictly between `lo` and `hi`.
  *
  * @param lo - Lower bound (null means no lower bound)
  * @param hi - Upper bound (null means no upper bound)
+ * @param options - Jitter and peer suffix for collision-free concurrent keys
  */
-export function generateKeyBetween(lo: string | null, hi: string | null): string {
+export function generateKeyBetween(
+  lo: string | null,
+  hi: string | null,
+  options?: FractionalKeyOptions
+): string {
+  let key: string
   if (lo !== null && hi !== null) {
     if (lo >= hi) throw new Error(`lo must be strictly less than hi: "${lo}" >= "${hi}"`)
-    return computeMidpoint(lo, hi)
+    key = computeMidpoint(lo, hi)
+  } else if (lo === null && hi === null) {
+    key = MID_CHAR
+  } else if (lo === null) {
+    key = keyBefore(hi!)
+  } else {
+    key = keyAfter(lo)
+  }
+
+  const extra = options ? keyExtra(options) : ''
+  if (!extra) return key
+  // Appending only moves the key up; if it is a prefix of `hi` it can reach
+  // `hi`, so step closer to `hi` until there is room
+  while (hi !== null && key + extra >= hi) {
+    key = computeMidpoint(key, hi)
   }
-  if (lo === null && hi === null) return MID_CHAR
-  if (lo === null) return keyBefore(hi!)
-  // hi === null: append MID_CHAR so result sorts after lo
-  return lo + MID_CHAR
+  return key + extra
 }
 
 /**
@@ -93,17 +157,18 @@ export function generateKeyBetween(lo: string | null, hi: string | null): string
 export function generateNKeysBetween(
   lo: string | null,
   hi: string | null,
-  n: number
+  n: number,
+  options?: FractionalKeyOptions
 ): string[] {
   if (n <= 0) return []
-  if (n === 1) return [generateKeyBetween(lo, hi)]
+  if (n === 1) return [generateKeyBetween(lo, hi, options)]
 
   const keys: string[] = new Array(n)
 
   function fill(loKey: string | null, hiKey: string | null, from: number, to: number) {
     if (from >= to) return
     const mid = Math.floor((from + to) / 2)
-    keys[mid] = generateKeyBetween(loKey, hiKey)
+    keys[mid] = generateKeyBetween(loKey, hiKey, options)
     fill(loKey, keys[mid], from, mid)
     fill(keys[mid], hiKey, mid + 1, to)
   }
@@ -156,3 +221,144 @@ export function initFractionalOrder<T extends { id: string; parentId: string | n
 
   return blocks.map(b => updated.get(b.id) ?? b)
 }
+
+/** Key length above which keys are reported and rebalanced by default */
+const DEFAULT_MAX_KEY_LENGTH = 32
+
+/**
+ * Length statistics for a set of sibling keys
+ */
+export interface FractionalKeyStats {
+  /** Length of the longest key */
+  longest: number
+  /** Mean key length */
+  average: number
+  /** Ids of the blocks whose key is longer than the limit */
+  overLimit: string[]
+}
+
+/**
+ * Measure the `order` keys of `siblings`. Use it to notice keys that keep
+ * growing (e.g. from repeated inserts at one spot) before they get expensive
+ * to store and compare, and rebalance them with `rebalanceFractionalOrder`.
+ */
+export function getFractionalKeyStats<T extends { id: string; order: number | string }>(
+  siblings: readonly T[],
+  maxLength = DEFAULT_MAX_KEY_LENGTH
+): FractionalKeyStats {
+  let longest = 0
+  let total = 0
+  const overLimit: string[] = []
+  for (const block of siblings) {
+    const length = String(block.order).length
+    longest = Math.max(longest, length)
+    total += length
+    if (length > maxLength) overLimit.push(block.id)
+  }
+  return { longest, average: siblings.length > 0 ? total / siblings.length : 0, overLimit }
+}
+
+/**
+ * Result of `rebalanceFractionalOrder`
+ */
+export interface FractionalRebalanceResult<T> {
+  /** The siblings in order, with new keys where they changed */
+  blocks: T[]
+  /** Ids of the blocks whose key changed */
+  changed: string[]
+}
+
+/** Longest keys spread arithmetically; 36^10 is still an exact double */
+const MAX_SPREAD_LENGTH = 10
+
+function keyValue(key: string, length: number): number {
+  let value = 0
+  for (let i = 0; i < length; i++) value = value * BASE + (i < key.length ? charToIdx(key[i]) : 0)
+  return value
+}
+
+function valueKey(value: number, length: number): string {
+  let key = ''
+  for (let i = 0; i < length; i++) {
+    key = ALPHABET[value % BASE] + key
+    value = Math.floor(value / BASE)
+  }
+  return key
+}
+
+/**
+ * Evenly spaced keys of the shortest length (up to `maxLength`) that fit `n`
+ * keys strictly between `lo` and `hi`, or null if none does.
+ */
+function spreadKeys(lo: string | null, hi: string | null, n: number, maxLength: number): string[] | null {
+  for (let length = 1; length <= Math.min(maxLength, MAX_SPREAD_LENGTH); length++) {
+    const loValue = lo === null ? 0 : keyValue(lo, length)
+    // A key equal to a longer `hi`'s prefix still sorts before it
+    const hiValue = hi === null
+      ? BASE ** length - 1
+      : keyValue(hi, length) - (hi.length > length ? 0 : 1)
+    // A step of at least 2 leaves room to skip keys ending in '0'
+    const step = Math.floor((hiValue - loValue) / (n + 1))
+    if (step < 2) continue
+
+    const keys: string[] = []
+    for (let i = 1; i <= n; i++) {
+      const value = loValue + i * step
+      keys.push(valueKey(value % BASE === 0 ? value + 1 : value, length))
+    }
+    return keys
+  }
+  return null
+}
+
+/**
+ * Shorten the `order` keys of one parent's children that are longer than
+ * `maxLength`, keeping their relative order.
+ *
+ * Keys within the limit are kept. Each run of long keys is re-spread, using
+ * the shortest keys that fit, between the short keys around it; if those
+ * neighbors are too close, the run is widened one neighbor at a time on each
+ * side. Only the blocks listed in `changed` need to be written back or synced.
+ */
+export function rebalanceFractionalOrder<T extends { id: string; order: number | string }>(
+  siblings: readonly T[],
+  maxLength = DEFAULT_MAX_KEY_LENGTH
+): FractionalRebalanceResult<T> {
+  const sorted = [...siblings].sort((a, b) => compareFractionalKeys(String(a.order), String(b.order)))
+  const keys = sorted.map(b => String(b.order))
+  const n = keys.length
+  const isLong = (i: number) => keys[i].length > maxLength
+
+  let i = 0
+  while (i < n) {
+    if (!isLong(i)) {
+      i++
+      continue
+    }
+    let start = i
+    let end = i + 1
+    while (end < n && isLong(end)) end++
+
+    let spread: string[] | null
+    for (;;) {
+      const lo = start > 0 ? keys[start - 1] : null
+      const hi = end < n ? keys[end] : null
+      spread = spreadKeys(lo, hi, end - start, maxLength)
+      if (spread || (start === 0 && end === n)) break
+      if (start > 0) start--
+      if (end < n) end++
+    }
+    // Even the whole list does not fit: fall back to the shortest keys possible
+    spread ??= generateNKeysBetween(null, null, n)
+    for (let j = start; j < end; j++) keys[j] = spread[j - start]
+    i = end
+  }
+
+  const changed: string[] = []
+  const blocks = sorted.map((block, j) => {
+    if (keys[j] === String(block.order)) return block
+    changed.push(block.id)
+    return { ...block, order: keys[j] }
+  })
+  return { blocks, changed }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { isValidDropZone, getKeyboardMoveZone, getKeyboardDropZones } from './keyboard'
+import { computeNormalizedIndex } from './blocks'
+import type { BaseBlock } from '../types'
+
+interface TestBlock extends BaseBlock {
+  type: 'container' | 'item'
+}
+
+const block = (
+  id: string,
+  type: TestBlock['type'],
+  parentId: string | null,
+  order: number
+): TestBlock => ({ id, type, parentId, order })
+
+// p (container): a, b
+// q (container): empty
+// c
+const index = computeNormalizedIndex([
+  block('p', 'container', null, 0),
+  block('a', 'item', 'p', 0),
+  block('b', 'item', 'p', 1),
+  block('q', 'container', null, 1),
+  block('c', 'item', null, 2),
+])
+const options = { containerTypes: ['container'] }
+
+describe('isValidDropZone', () => {
+  it('rejects no-op zones', () => {
+    expect(isValidDropZone(index, 'a', 'into-p', options)).toBe(false)
+    expect(isValidDropZone(index, 'a', 'after-b', options)).toBe(true)
+  })
+
+  it('rejects into/end zones on non-containers', () => {
+    expect(isValidDropZone(index, 'a', 'end-c', options)).toBe(false)
+  })
+
+  it('rejects missing targets', () => {
+    expect(isValidDropZone(index, 'a', 'after-missing', options)).toBe(false)
+  })
+
+  it('honors canDrop', () => {
+    expect(isValidDropZone(index, 'c', 'end-q', { ...options, canDrop: () => false })).toBe(false)
+  })
+
+  it('honors maxDepth', () => {
+    expect(isValidDropZone(index, 'p', 'end-q', { ...options, maxDepth: 2 })).toBe(false)
+    expect(isValidDropZone(index, 'c', 'end-q', { ...options, maxDepth: 2 })).toBe(true)
+  })
+
+  it('accepts root zones', () => {
+    expect(isValidDropZone(index, 'a', 'root-end', options)).toBe(true)
+  })
+})
+
+describe('getKeyboardMoveZone', () => {
+  it('moves up and down among siblings', () => {
+    expect(getKeyboardMoveZone(index, 'b', 'up', options)).toBe('before-a')
+    expect(getKeyboardMoveZone(index, 'a', 'down', options)).toBe('after-b')
+  })
+
+  it('returns null at the edges of the sibling list', () => {
+    expect(getKeyboardMoveZone(index, 'a', 'up', options)).toBeNull()
+    expect(getKeyboardMoveZone(index, 'b', 'down', options)).toBeNull()
+  })
+
+  it('indents into the end of the previous container sibling', () => {
+    expect(getKeyboardMoveZone(index, 'c', 'indent', options)).toBe('end-q')
+  })
+
+  it('does not indent under a non-container', () => {
+    expect(getKeyboardMoveZone(index, 'b', 'indent', options)).toBeNull()
+  })
+
+  it('outdents after the parent', () => {
+    expect(getKeyboardMoveZone(index, 'a', 'outdent', options)).toBe('after-p')
+    expect(getKeyboardMoveZone(index, 'c', 'outdent', options)).toBeNull()
+  })
+
+  it('respects maxDepth when indenting', () => {
+    expect(getKeyboardMoveZone(index, 'q', 'indent', { ...options, maxDepth: 1 })).toBeNull()
+  })
+})
+
+describe('getKeyboardDropZones', () => {
+  const zones = [
+    'root-start',
+    'into-p', 'after-a', 'end-p',
+    'after-p',
+    'into-q', 'end-q',
+    'after-q',
+    'root-end',
+  ]
+
+  it('keeps valid zones in order and drops duplicates of the same position', () => {
+    // into-q and end-q resolve to the same slot in the empty container
+    expect(getKeyboardDropZones(index, 'c', zones, options)).toEqual([
+      'root-start', 'into-p', 'after-a', 'end-p', 'after-p', 'into-q',
+    ])
+  })
+
+  it('excludes zones inside the active subtree', () => {
+    const result = getKeyboardDropZones(index, 'p', zones, options)
+    expect(result).not.toContain('into-p')
+    expect(result).not.toContain('after-a')
+  })
+
+  it('applies canDrop to each zone', () => {
+    const result = getKeyboardDropZones(index, 'c', zones, {
+      ...options,
+      canDrop: (_block, zone) => !zone.startsWith('into-'),
+    })
+    expect(result).toEqual(['root-start', 'after-a', 'end-p', 'after-p', 'end-q'])
+  })
+})
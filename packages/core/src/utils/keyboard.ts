@@ -0,0 +1,110 @@
+import type { BaseBlock, BlockIndex, CanDropFn } from '../types'
+import { reparentBlockIndex } from './blocks'
+import { extractUUID } from './helper'
+import type { BlockSchema } from './schema'
+import { isZoneUnlocked, type BlockLocks } from './locks'
+
+/**
+ * Keyboard move: reorder among siblings (`up`/`down`) or change nesting
+ * level (`indent` into the previous sibling, `outdent` after the parent).
+ */
+export type KeyboardMoveDirection = 'up' | 'down' | 'indent' | 'outdent'
+
+export interface KeyboardMoveOptions<T extends BaseBlock> {
+  containerTypes?: readonly string[]
+  maxDepth?: number
+  canDrop?: CanDropFn<T>
+  schema?: BlockSchema
+  /** Zones inside blocks locked for `userId` are not valid targets */
+  locks?: BlockLocks
+  userId?: string
+}
+
+/**
+ * Check whether dropping `activeId` at `targetZone` would change the tree
+ * and is allowed by `canDrop`, `maxDepth` and the container rules.
+ */
+export function isValidDropZone<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  activeId: string,
+  targetZone: string,
+  options: KeyboardMoveOptions<T> = {}
+): boolean {
+  const { containerTypes = [], maxDepth, canDrop, schema, locks, userId } = options
+  const active = index.byId.get(activeId)
+  if (!active) return false
+
+  const isRootZone = targetZone === 'root-start' || targetZone === 'root-end'
+  const target = isRootZone ? null : index.byId.get(extractUUID(targetZone)) ?? null
+  if (!isRootZone && !target) return false
+  if ((targetZone.startsWith('into-') || targetZone.startsWith('end-')) && !containerTypes.includes(target!.type)) {
+    return false
+  }
+  if (canDrop && !canDrop(active, targetZone, target)) return false
+  if (locks && !isZoneUnlocked(index, locks, targetZone, userId)) return false
+
+  return reparentBlockIndex(index, activeId, targetZone, containerTypes, 'integer', maxDepth, schema) !== index
+}
+
+/**
+ * Resolve the drop zone for a keyboard move, or null if the block cannot
+ * move in that direction.
+ */
+export function getKeyboardMoveZone<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  blockId: string,
+  direction: KeyboardMoveDirection,
+  options: KeyboardMoveOptions<T> = {}
+): string | null {
+  const block = index.byId.get(blockId)
+  if (!block) return null
+  const parentId = block.parentId ?? null
+  const siblings = index.byParent.get(parentId) ?? []
+  const position = siblings.indexOf(blockId)
+
+  let zone: string | null = null
+  switch (direction) {
+    case 'up':
+      if (position > 0) zone = `before-${siblings[position - 1]}`
+      break
+    case 'down':
+      if (position < siblings.length - 1) zone = `after-${siblings[position + 1]}`
+      break
+    case 'indent':
+      if (position > 0) zone = `end-${siblings[position - 1]}`
+      break
+    case 'outdent':
+      if (parentId !== null) zone = `after-${parentId}`
+      break
+  }
+
+  return zone && isValidDropZone(index, blockId, zone, options) ? zone : null
+}
+
+/**
+ * Reduce rendered drop zone ids (in visual order) to the valid targets for
+ * `activeId`, keeping only the first zone for each distinct resulting position.
+ * Used to walk drop targets one step at a time in keyboard "pick up" mode.
+ */
+export function getKeyboardDropZones<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  activeId: string,
+  zoneIds: readonly string[],
+  options: KeyboardMoveOptions<T> = {}
+): string[] {
+  const { containerTypes = [], maxDepth, schema } = options
+  const seen = new Set<string>()
+  const result: string[] = []
+
+  for (const zone of zoneIds) {
+    if (!isValidDropZone(index, activeId, zone, options)) continue
+    const next = reparentBlockIndex(index, activeId, zone, containerTypes, 'integer', maxDepth, schema)
+    const parentId = next.byId.get(activeId)!.parentId ?? null
+    const key = `${parentId}:${(next.byParent.get(parentId) ?? []).indexOf(activeId)}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    result.push(zone)
+  }
+
+  return result
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { getZoneLayout } from './layout'
+import { computeNormalizedIndex } from './blocks'
+import type { BaseBlock } from '../types'
+
+const index = computeNormalizedIndex<BaseBlock>([
+  { id: 'board', type: 'board', parentId: null, order: 0 },
+  { id: 'col', type: 'column', parentId: 'board', order: 0 },
+  { id: 'card', type: 'card', parentId: 'col', order: 0 },
+  { id: 'note', type: 'card', parentId: null, order: 1 },
+])
+
+const layouts = { board: 'horizontal', column: 'vertical' } as const
+
+describe('getZoneLayout', () => {
+  it('uses the layout of the zone parent type', () => {
+    expect(getZoneLayout(index, layouts, 'before-col')).toBe('horizontal')
+    expect(getZoneLayout(index, layouts, 'into-board')).toBe('horizontal')
+    expect(getZoneLayout(index, layouts, 'end-board')).toBe('horizontal')
+    expect(getZoneLayout(index, layouts, 'after-card')).toBe('vertical')
+  })
+
+  it('treats the root and types without a layout as vertical', () => {
+    expect(getZoneLayout(index, layouts, 'root-start')).toBe('vertical')
+    expect(getZoneLayout(index, layouts, 'before-board')).toBe('vertical')
+    expect(getZoneLayout(index, { board: 'grid' }, 'end-col')).toBe('vertical')
+    expect(getZoneLayout(index, layouts, 'before-missing')).toBe('vertical')
+  })
+})
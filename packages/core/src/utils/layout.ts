@@ -0,0 +1,35 @@
+import type { BaseBlock, BlockIndex } from '../types'
+import { getZoneParentId } from './schema'
+
+/**
+ * How a container lays out its children:
+ * - `'vertical'`: a top-to-bottom list, like the root
+ * - `'horizontal'`: one left-to-right row, e.g. kanban columns
+ * - `'grid'`: left-to-right rows that wrap, e.g. a card grid
+ *
+ * Children keep the same `before-`/`after-`/`into-`/`end-` zones in every
+ * layout. Between horizontal and grid children the zones are vertical bars,
+ * and collision detection measures them sideways.
+ */
+export type BlockLayout = 'vertical' | 'horizontal' | 'grid'
+
+/**
+ * Layouts keyed by container type. Types without an entry, and the root,
+ * are vertical.
+ */
+export type BlockLayouts = Readonly<Record<string, BlockLayout>>
+
+/**
+ * Layout of the list a drop zone sits in, i.e. the layout of the zone's
+ * parent. Root zones are always vertical.
+ */
+export function getZoneLayout<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  layouts: BlockLayouts,
+  zoneId: string
+): BlockLayout {
+  const parentId = getZoneParentId(index, zoneId)
+  if (parentId === null) return 'vertical'
+  const parent = index.byId.get(parentId)
+  return (parent && layouts[parent.type]) || 'vertical'
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isLockedFor,
+  getBlockLocks,
+  getBlockPermissions,
+  isZoneUnlocked,
+  getBlockLockState,
+  type BlockLocks,
+} from './locks'
+import { computeNormalizedIndex } from './blocks'
+import type { BaseBlock } from '../types'
+
+const block = (id: string, parentId: string | null, order: number): BaseBlock =>
+  ({ id, type: parentId === null ? 'group' : 'item', parentId, order })
+
+// g: h: t1
+//    t2
+// k
+const index = computeNormalizedIndex([
+  block('g', null, 0),
+  block('h', 'g', 0),
+  block('t1', 'h', 0),
+  block('t2', 'g', 1),
+  block('k', null, 1),
+])
+
+describe('isLockedFor', () => {
+  it('exempts only the user holding a locked lock', () => {
+    expect(isLockedFor({ kind: 'locked', userId: 'ada' }, 'ada')).toBe(false)
+    expect(isLockedFor({ kind: 'locked', userId: 'ada' }, 'bo')).toBe(true)
+    expect(isLockedFor({ kind: 'locked' }, undefined)).toBe(true)
+    expect(isLockedFor({ kind: 'readonly' }, 'ada')).toBe(true)
+  })
+})
+
+describe('getBlockLocks', () => {
+  it('collects the own lock and ancestor subtree locks, nearest first', () => {
+    const locks: BlockLocks = {
+      t1: { kind: 'pinned' },
+      h: { kind: 'readonly' },
+      g: { kind: 'locked', userId: 'ada', subtree: true },
+    }
+    expect(getBlockLocks(index, locks, 't1')).toEqual([{ kind: 'pinned' }, locks.g])
+    expect(getBlockLocks(index, locks, 'k')).toEqual([])
+  })
+})
+
+describe('getBlockPermissions', () => {
+  it('allows everything without locks', () => {
+    expect(getBlockPermissions(index, {}, 'h')).toEqual({ canMove: true, canEdit: true, canDelete: true, canAddChildren: true })
+  })
+
+  it('guards children only for subtree locks', () => {
+    expect(getBlockPermissions(index, { h: { kind: 'readonly' } }, 'h')).toEqual({
+      canMove: false, canEdit: false, canDelete: false, canAddChildren: true,
+    })
+    expect(getBlockPermissions(index, { h: { kind: 'readonly', subtree: true } }, 'h').canAddChildren).toBe(false)
+    expect(getBlockPermissions(index, { h: { kind: 'pinned', subtree: true } }, 'h')).toEqual({
+      canMove: false, canEdit: true, canDelete: true, canAddChildren: true,
+    })
+  })
+
+  it('refuses to delete blocks with locked descendants', () => {
+    const locks: BlockLocks = { t1: { kind: 'locked', userId: 'ada' } }
+    expect(getBlockPermissions(index, locks, 'g', 'bo').canDelete).toBe(false)
+    expect(getBlockPermissions(index, locks, 'g', 'ada').canDelete).toBe(true)
+    expect(getBlockPermissions(index, { t1: { kind: 'pinned' } }, 'g').canDelete).toBe(true)
+  })
+})
+
+describe('isZoneUnlocked', () => {
+  it('checks the parent the zone drops into', () => {
+    const locks: BlockLocks = { h: { kind: 'readonly', subtree: true } }
+    expect(isZoneUnlocked(index, locks, 'into-h')).toBe(false)
+    expect(isZoneUnlocked(index, locks, 'before-t1')).toBe(false)
+    expect(isZoneUnlocked(index, locks, 'after-h')).toBe(true)
+    expect(isZoneUnlocked(index, locks, 'root-end')).toBe(true)
+  })
+})
+
+describe('getBlockLockState', () => {
+  it('reports whether the block is locked and who holds it', () => {
+    const locks: BlockLocks = { g: { kind: 'locked', userId: 'ada', subtree: true } }
+    expect(getBlockLockState(index, locks, 't1', 'bo')).toEqual({ isLocked: true, lockedBy: 'ada' })
+    expect(getBlockLockState(index, locks, 't1', 'ada')).toEqual({ isLocked: false, lockedBy: 'ada' })
+    expect(getBlockLockState(index, locks, 'k', 'bo')).toEqual({ isLocked: false, lockedBy: undefined })
+  })
+})
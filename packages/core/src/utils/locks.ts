@@ -0,0 +1,148 @@
+import type { BaseBlock, BlockIndex } from '../types'
+import { getDescendantIds } from './blocks'
+import { getZoneParentId } from './schema'
+
+/**
+ * - `'locked'`: held by one user, e.g. while they edit it. Read-only to everyone else
+ * - `'readonly'`: nobody can move, edit or delete the block
+ * - `'pinned'`: the block cannot be moved, but can still be edited and deleted
+ */
+export type BlockLockKind = 'locked' | 'readonly' | 'pinned'
+
+export interface BlockLock {
+  kind: BlockLockKind
+  /** User holding a `'locked'` lock. The lock does not restrict that user */
+  userId?: string
+  /**
+   * Also lock every descendant. Blocks cannot be added, moved or dropped
+   * inside a locked or read-only subtree; a pinned subtree still accepts them
+   */
+  subtree?: boolean
+}
+
+/** Locks keyed by block id */
+export type BlockLocks = Readonly<Record<string, BlockLock>>
+
+/** What a user may do with one block */
+export interface BlockPermissions {
+  /** Drag it or move it with `moveBlock` */
+  canMove: boolean
+  /** Change its fields with `updateBlock` */
+  canEdit: boolean
+  /** Delete it along with its descendants */
+  canDelete: boolean
+  /** Add, move or drop blocks among its children */
+  canAddChildren: boolean
+}
+
+/** Whether a lock restricts `userId` (undefined for an anonymous user) */
+export function isLockedFor(lock: BlockLock, userId?: string): boolean {
+  return lock.kind !== 'locked' || lock.userId === undefined || lock.userId !== userId
+}
+
+/**
+ * Locks that cover a block: its own lock first, then the subtree locks of its
+ * ancestors from nearest to farthest.
+ */
+export function getBlockLocks<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  locks: BlockLocks,
+  blockId: string
+): BlockLock[] {
+  const result: BlockLock[] = []
+  const own = locks[blockId]
+  if (own) result.push(own)
+
+  const visited = new Set<string>([blockId])
+  let parentId = index.byId.get(blockId)?.parentId ?? null
+  while (parentId !== null && !visited.has(parentId)) {
+    visited.add(parentId)
+    const lock = locks[parentId]
+    if (lock?.subtree) result.push(lock)
+    parentId = index.byId.get(parentId)?.parentId ?? null
+  }
+  return result
+}
+
+/**
+ * Resolve what `userId` may do with a block under `locks`. Blocks that are
+ * not covered by any lock allow everything.
+ */
+export function getBlockPermissions<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  locks: BlockLocks,
+  blockId: string,
+  userId?: string
+): BlockPermissions {
+  const covering = getBlockLocks(index, locks, blockId)
+  const applied = covering.filter(lock => isLockedFor(lock, userId))
+  const canEdit = applied.every(lock => lock.kind === 'pinned')
+  // The block's own lock (first, if any) only covers its children when it is a subtree lock
+  const ownCount = locks[blockId] ? 1 : 0
+  const guardsChildren = covering.some((lock, i) =>
+    lock.kind !== 'pinned' && isLockedFor(lock, userId) && (i >= ownCount || lock.subtree === true)
+  )
+
+  return {
+    canMove: applied.length === 0,
+    canEdit,
+    // Deleting takes the descendants with it
+    canDelete: canEdit && !hasLockedDescendant(index, locks, blockId, userId),
+    canAddChildren: !guardsChildren,
+  }
+}
+
+/** Whether a descendant carries a lock that keeps `userId` from deleting it */
+function hasLockedDescendant<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  locks: BlockLocks,
+  blockId: string,
+  userId?: string
+): boolean {
+  if (!(index.byParent.get(blockId)?.length)) return false
+  for (const id of getDescendantIds(index, blockId)) {
+    const lock = locks[id]
+    if (id !== blockId && lock && lock.kind !== 'pinned' && isLockedFor(lock, userId)) return true
+  }
+  return false
+}
+
+/**
+ * Whether `userId` may place blocks at a drop zone, i.e. the zone's parent
+ * accepts new children. Root zones are never locked.
+ */
+export function isZoneUnlocked<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  locks: BlockLocks,
+  zoneId: string,
+  userId?: string
+): boolean {
+  const parentId = getZoneParentId(index, zoneId)
+  return parentId === null || getBlockPermissions(index, locks, parentId, userId).canAddChildren
+}
+
+/** How a block is shown to one user */
+export interface BlockLockState {
+  /** Some lock keeps the user from moving the block */
+  isLocked: boolean
+  /** User holding the nearest `'locked'` lock */
+  lockedBy: string | undefined
+}
+
+/**
+ * Lock state for renderers: `isLocked` when any lock keeps `userId` from
+ * moving the block, `lockedBy` with the user holding the nearest `'locked'`
+ * lock (including `userId` itself).
+ */
+export function getBlockLockState<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  locks: BlockLocks,
+  blockId: string,
+  userId?: string
+): BlockLockState {
+  const covering = getBlockLocks(index, locks, blockId)
+  return {
+    isLocked: covering.some(lock => isLockedFor(lock, userId)),
+    lockedBy: covering.find(lock => lock.kind === 'locked')?.userId,
+  }
+}
@@ -1,11 +1,12 @@
 import { describe, it, expect } from 'vitest'
-import { mergeBlockVersions } from './merge'
+import { mergeBlockVersions, mergeBlockTrees } from './merge'
 import type { BaseBlock } from '../types'
 
 interface TestBlock extends BaseBlock {
   type: 'item'
   title: string
   completed?: boolean
+  tags?: string[]
 }
 
 const block = (id: string, title: string, order: number | string = 0, parentId: string | null = null): TestBlock => ({
@@ -104,3 +105,168 @@ describe('mergeBlockVersions', () => {
     expect(mergeBlockVersions([], [block('1', 'A')])).toEqual([block('1', 'A')])
   })
 })
+
+describe('mergeBlockTrees', () => {
+  const base = [block('p', 'P', 'a'), block('1', 'One', 'a', 'p'), block('2', 'Two', 'b', 'p'), block('q', 'Q', 'b')]
+  const edit = (blocks: TestBlock[], id: string, patch: Partial<TestBlock>) =>
+    blocks.map(b => (b.id === id ? { ...b, ...patch } : b))
+  const fractional = { orderingStrategy: 'fractional' } as const
+
+  it('keeps changes made on one side', () => {
+    const local = edit(base, '1', { title: 'Local' })
+    const remote = edit(edit(base, '2', { parentId: 'q', order: 'a' }), '1', { completed: true })
+
+    const { blocks, conflicts } = mergeBlockTrees(base, local, remote, fractional)
+
+    expect(conflicts).toEqual([])
+    expect(blocks.find(b => b.id === '1')).toEqual({ ...block('1', 'Local', 'a', 'p'), completed: true })
+    expect(blocks.find(b => b.id === '2')).toEqual(block('2', 'Two', 'a', 'q'))
+  })
+
+  it('reports fields both sides changed and lets a resolver pick', () => {
+    const local = edit(base, '1', { title: 'Local', tags: ['x'] })
+    const remote = edit(base, '1', { title: 'Remote', tags: ['x'] })
+
+    const { blocks, conflicts } = mergeBlockTrees(base, local, remote, fractional)
+    expect(blocks.find(b => b.id === '1')!.title).toBe('Local')
+    expect(conflicts).toEqual([
+      { type: 'field', id: '1', field: 'title', base: 'One', local: 'Local', remote: 'Remote', resolved: 'Local' },
+    ])
+
+    const resolved = mergeBlockTrees(base, local, remote, {
+      ...fractional,
+      resolveField: ({ field, local, remote }) => (field === 'title' ? `${local}/${remote}` : local),
+    })
+    expect(resolved.blocks.find(b => b.id === '1')!.title).toBe('Local/Remote')
+  })
+
+  it('merges moves as a unit and reports competing moves', () => {
+    const local = edit(base, '1', { parentId: 'q', order: 'a' })
+    const remote = edit(base, '1', { order: 'c' })
+
+    const { blocks, conflicts } = mergeBlockTrees(base, local, remote, fractional)
+    expect(blocks.find(b => b.id === '1')).toEqual(block('1', 'One', 'a', 'q'))
+    expect(conflicts).toEqual([{
+      type: 'move',
+      id: '1',
+      base: { parentId: 'p', order: 'a' },
+      local: { parentId: 'q', order: 'a' },
+      remote: { parentId: 'p', order: 'c' },
+      resolved: { parentId: 'q', order: 'a' },
+    }])
+
+    const remoteWins = mergeBlockTrees(base, local, remote, { ...fractional, preferMoves: 'remote' })
+    expect(remoteWins.blocks.find(b => b.id === '1')).toEqual(block('1', 'One', 'c', 'p'))
+  })
+
+  it('keeps additions from both sides', () => {
+    const local = [...base, block('l', 'Local', 'c', 'p')]
+    const remote = [...base, block('r', 'Remote', 'c', 'q')]
+
+    const { blocks, conflicts } = mergeBlockTrees(base, local, remote, fractional)
+    expect(blocks.map(b => b.id)).toEqual(['p', '1', '2', 'l', 'q', 'r'])
+    expect(conflicts).toEqual([])
+  })
+
+  it('lets deletes win and reports the changes they discard', () => {
+    const local = base.filter(b => b.id === 'q')
+    const remote = [...edit(base, '2', { title: 'Edited' }), block('r', 'Remote', 'c', 'p')]
+
+    const { blocks, conflicts } = mergeBlockTrees(base, local, remote, fractional)
+    expect(blocks.map(b => b.id)).toEqual(['q'])
+    expect(conflicts).toEqual([
+      { type: 'delete', id: '2', deletedBy: 'local', block: block('2', 'Edited', 'b', 'p') },
+      { type: 'delete', id: 'r', deletedBy: 'local', block: block('r', 'Remote', 'c', 'p') },
+    ])
+  })
+
+  it('keeps a block moved into a deleted block where the deleting side had it', () => {
+    const local = base.filter(b => b.id !== 'q')
+    const remote = edit(base, '1', { parentId: 'q', order: 'a' })
+
+    const { blocks, conflicts } = mergeBlockTrees(base, local, remote, fractional)
+    expect(blocks.map(b => `${b.parentId}/${b.id}`)).toEqual(['null/p', 'p/1', 'p/2'])
+    expect(conflicts).toMatchObject([{ type: 'move', id: '1', resolved: { parentId: 'p', order: 'a' } }])
+  })
+
+  it('undoes the remote move when concurrent moves form a cycle', () => {
+    const local = edit(base, 'p', { parentId: 'q', order: 'a' })
+    const remote = edit(base, 'q', { parentId: 'p', order: 'c' })
+
+    const { blocks, conflicts } = mergeBlockTrees(base, local, remote, fractional)
+    expect(blocks.find(b => b.id === 'p')!.parentId).toBe('q')
+    expect(blocks.find(b => b.id === 'q')!.parentId).toBeNull()
+    expect(conflicts).toMatchObject([{ type: 'move', id: 'q', resolved: { parentId: null, order: 'b' } }])
+  })
+
+  describe('with integer ordering', () => {
+    const items = (...ids: string[]) => ids.map((id, order) => block(id, id, order))
+    const order = (blocks: TestBlock[]) => blocks.map(b => `${b.id}${b.order}`)
+
+    it('keeps a remote reorder', () => {
+      const { blocks, conflicts } = mergeBlockTrees(items('a', 'b', 'c'), items('a', 'b', 'c'), items('c', 'a', 'b'))
+
+      expect(order(blocks)).toEqual(['c0', 'a1', 'b2'])
+      expect(conflicts).toEqual([])
+    })
+
+    it('keeps a local reorder and a remote edit', () => {
+      const local = items('b', 'c', 'a')
+      const remote = items('a', 'b', 'c').map(b => (b.id === 'a' ? { ...b, title: 'Edited' } : b))
+
+      const { blocks, conflicts } = mergeBlockTrees(items('a', 'b', 'c'), local, remote)
+
+      expect(order(blocks)).toEqual(['b0', 'c1', 'a2'])
+      expect(blocks[2].title).toBe('Edited')
+      expect(conflicts).toEqual([])
+    })
+
+    it('does not take the orders a local insert shifted for moves', () => {
+      const { blocks, conflicts } = mergeBlockTrees(items('a', 'b', 'c'), items('x', 'a', 'b', 'c'), items('c', 'a', 'b'))
+
+      expect(order(blocks)).toEqual(['c0', 'x1', 'a2', 'b3'])
+      expect(conflicts).toEqual([])
+    })
+
+    it('places blocks inserted on both sides after the blocks they follow', () => {
+      const { blocks, conflicts } = mergeBlockTrees(items('a', 'b'), items('a', 'x', 'b'), items('a', 'b', 'y'))
+
+      expect(order(blocks)).toEqual(['a0', 'x1', 'b2', 'y3'])
+      expect(conflicts).toEqual([])
+    })
+
+    it('renumbers the siblings a remote move left behind', () => {
+      const base = [block('p', 'P', 0), block('a', 'A', 0, 'p'), block('b', 'B', 1, 'p'), block('q', 'Q', 1)]
+      const local = [...base.map(b => (b.parentId === 'p' ? { ...b, order: b.order as number + 1 } : b)), block('x', 'X', 0, 'p')]
+      const remote = base.map(b => (b.id === 'b' ? { ...b, parentId: 'q', order: 0 } : b))
+
+      const { blocks, conflicts } = mergeBlockTrees(base, local, remote)
+
+      expect(blocks.map(b => `${b.parentId}/${b.id}${b.order}`)).toEqual(['null/p0', 'p/x0', 'p/a1', 'null/q1', 'q/b0'])
+      expect(conflicts).toEqual([])
+    })
+
+    it('reports a block both sides moved to different places', () => {
+      const base = items('a', 'b', 'c')
+
+      const { blocks, conflicts } = mergeBlockTrees(base, items('b', 'c', 'a'), items('b', 'a', 'c'))
+
+      expect(order(blocks)).toEqual(['b0', 'c1', 'a2'])
+      expect(conflicts).toEqual([{
+        type: 'move',
+        id: 'a',
+        base: { parentId: null, order: 0 },
+        local: { parentId: null, order: 2 },
+        remote: { parentId: null, order: 1 },
+        resolved: { parentId: null, order: 2 },
+      }])
+    })
+
+    it('merges the same reorder made on both sides without a conflict', () => {
+      const { blocks, conflicts } = mergeBlockTrees(items('a', 'b', 'c'), items('x', 'c', 'a', 'b'), items('c', 'a', 'b'))
+
+      expect(order(blocks)).toEqual(['x0', 'c1', 'a2', 'b3'])
+      expect(conflicts).toEqual([])
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import type { BaseBlock } from '../types'
+import type { BaseBlock, OrderingStrategy } from '../types'
 
 export interface MergeBlockVersionsOptions {
   /**
@@ -54,3 +54,439 @@ export function mergeBlockVersions<T extends BaseBlock>(
     return merged as T
   })
 }
+
+/** Where a block sits: the fields a move changes */
+export interface BlockPlacement {
+  parentId: string | null
+  order: number | string
+}
+
+/** A field both sides changed to different values since the base */
+export interface BlockFieldConflict {
+  type: 'field'
+  id: string
+  field: string
+  base: unknown
+  local: unknown
+  remote: unknown
+  /** Value kept in the merged block (undefined removes the field) */
+  resolved: unknown
+}
+
+/** A block both sides moved to different places since the base */
+export interface BlockMoveConflict {
+  type: 'move'
+  id: string
+  /** Undefined when both sides added a block with the same id */
+  base: BlockPlacement | undefined
+  local: BlockPlacement
+  remote: BlockPlacement
+  resolved: BlockPlacement
+}
+
+/**
+ * One side deleted a block the other side changed, or deleted the parent of
+ * a block the other side added or moved in. Deletes win, so `block` (the
+ * other side's version) is not in the merged result.
+ */
+export interface BlockDeleteConflict<T extends BaseBlock> {
+  type: 'delete'
+  id: string
+  deletedBy: 'local' | 'remote'
+  block: T
+}
+
+export type BlockMergeConflict<T extends BaseBlock> =
+  | BlockFieldConflict
+  | BlockMoveConflict
+  | BlockDeleteConflict<T>
+
+export interface ThreeWayMergeOptions {
+  /**
+   * Pick the value of a field both sides changed. Called once per
+   * conflicting field; the return value is kept (default: the local value).
+   */
+  resolveField?: (conflict: Omit<BlockFieldConflict, 'resolved'>) => unknown
+  /** Side whose move wins when both sides moved a block to different places (default: 'local') */
+  preferMoves?: 'local' | 'remote'
+  /**
+   * How the blocks are ordered (default: 'integer'). Integer orders shift
+   * when a sibling is inserted or moved, so moves are found from each
+   * side's sibling order rather than from the order values.
+   */
+  orderingStrategy?: OrderingStrategy
+}
+
+export interface ThreeWayMergeResult<T extends BaseBlock> {
+  blocks: T[]
+  conflicts: BlockMergeConflict<T>[]
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  if (keysA.length !== keysB.length) return false
+  return keysA.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    isEqualValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  )
+}
+
+const placementOf = (block: BaseBlock): BlockPlacement => ({ parentId: block.parentId ?? null, order: block.order })
+
+const samePlacement = (a: BlockPlacement | undefined, b: BlockPlacement | undefined): boolean =>
+  !!a && !!b && a.parentId === b.parentId && a.order === b.order
+
+const compareOrder = (a: BaseBlock, b: BaseBlock): number =>
+  a.order < b.order ? -1 : a.order > b.order ? 1 : 0
+
+/** Which version a merged block's placement comes from */
+type PlacementSource = 'base' | 'local' | 'remote'
+
+/** Each parent's children ids, in order */
+function getSiblingSequences<T extends BaseBlock>(blocks: T[]): Map<string | null, string[]> {
+  const byParent = new Map<string | null, T[]>()
+  for (const block of blocks) {
+    const parentId = block.parentId ?? null
+    const siblings = byParent.get(parentId)
+    if (siblings) siblings.push(block)
+    else byParent.set(parentId, [block])
+  }
+  const sequences = new Map<string | null, string[]>()
+  for (const [parentId, siblings] of byParent) {
+    sequences.set(parentId, siblings.sort(compareOrder).map(b => b.id))
+  }
+  return sequences
+}
+
+/** Ids in the longest subsequence `a` and `b` share; ties drop the earlier id of `a` */
+function getCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+  const common = new Set<string>()
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return common
+}
+
+/**
+ * Ids of the blocks a version added or moved since the base. With integer
+ * ordering, a block moved among its siblings if it is outside the longest
+ * run of siblings that kept their base order, so blocks an insert only
+ * shifted do not count.
+ */
+function getMovedIds<T extends BaseBlock>(
+  baseById: Map<string, T>,
+  baseSequences: Map<string | null, string[]>,
+  sideById: Map<string, T>,
+  sideSequences: Map<string | null, string[]>,
+  orderingStrategy: OrderingStrategy
+): Set<string> {
+  const moved = new Set<string>()
+  if (orderingStrategy === 'fractional') {
+    for (const block of sideById.values()) {
+      const b = baseById.get(block.id)
+      if (!b || !samePlacement(placementOf(block), placementOf(b))) moved.add(block.id)
+    }
+    return moved
+  }
+
+  for (const [parentId, sequence] of sideSequences) {
+    const inParent = (byId: Map<string, T>) => (id: string) => {
+      const block = byId.get(id)
+      return !!block && (block.parentId ?? null) === parentId
+    }
+    const kept = getCommonSubsequence(
+      (baseSequences.get(parentId) ?? []).filter(inParent(sideById)),
+      sequence.filter(inParent(baseById))
+    )
+    for (const id of sequence) {
+      if (!kept.has(id)) moved.add(id)
+    }
+  }
+  return moved
+}
+
+/**
+ * Merge two versions of a block array that both started from `base`.
+ * Changes made on only one side are kept. Each content field is merged on
+ * its own, so concurrent edits to different fields of a block both survive;
+ * a block's `parentId` and `order` are merged together as one move. Where
+ * both sides changed the same thing differently, the local side wins unless
+ * `options` say otherwise, and a conflict record is returned.
+ *
+ * Deletes win over concurrent changes, and blocks added under a deleted
+ * block are dropped with it; a block moved into a deleted block stays where
+ * the deleting side had it. Concurrent moves that would nest a block inside
+ * itself are resolved by undoing the remote move.
+ *
+ * The result lists blocks in tree order, each followed by its descendants.
+ * Siblings neither side moved keep their order, and blocks a side moved or
+ * added follow the sibling they follow on that side. With integer ordering,
+ * siblings whose order differs from the local one are renumbered.
+ *
+ * @param base - The blocks both sides started from (e.g. a snapshot taken before editing)
+ * @param local - The local version
+ * @param remote - The remote version
+ * @param options - Conflict resolution
+ *
+ * @example
+ * ```ts
+ * const { blocks, conflicts } = mergeBlockTrees(snapshot, localBlocks, remoteBlocks, {
+ *   resolveField: ({ field, local, remote }) =>
+ *     field === 'completed' ? Boolean(local) || Boolean(remote) : local,
+ * })
+ * ```
+ */
+export function mergeBlockTrees<T extends BaseBlock>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  options: ThreeWayMergeOptions = {}
+): ThreeWayMergeResult<T> {
+  const { resolveField, preferMoves = 'local', orderingStrategy = 'integer' } = options
+  const baseById = new Map(base.map(b => [b.id, b]))
+  const localById = new Map(local.map(b => [b.id, b]))
+  const remoteById = new Map(remote.map(b => [b.id, b]))
+  const baseSequences = getSiblingSequences(base)
+  const localSequences = getSiblingSequences(local)
+  const remoteSequences = getSiblingSequences(remote)
+  const movedLocally = getMovedIds(baseById, baseSequences, localById, localSequences, orderingStrategy)
+  const movedRemotely = getMovedIds(baseById, baseSequences, remoteById, remoteSequences, orderingStrategy)
+  const conflicts: BlockMergeConflict<T>[] = []
+  const merged = new Map<string, T>()
+  const sources = new Map<string, PlacementSource>()
+  const moveConflicts = new Map<string, BlockMoveConflict>()
+
+  /** The sibling before `block`, skipping those the other version does not have */
+  const getPreviousSibling = (sequences: Map<string | null, string[]>, block: T, otherById: Map<string, T>) => {
+    const siblings = sequences.get(block.parentId ?? null)!
+    for (let i = siblings.indexOf(block.id) - 1; i >= 0; i--) {
+      if (otherById.has(siblings[i])) return siblings[i]
+    }
+    return null
+  }
+  // Integer orders of the same place differ once a side inserted before it
+  const samePlace = (l: T, r: T) => orderingStrategy === 'fractional'
+    ? samePlacement(placementOf(l), placementOf(r))
+    : (l.parentId ?? null) === (r.parentId ?? null)
+      && getPreviousSibling(localSequences, l, remoteById) === getPreviousSibling(remoteSequences, r, localById)
+
+  const changedSince = (block: T, original: T) =>
+    Object.keys({ ...block, ...original }).some(key =>
+      !isEqualValue((block as Record<string, unknown>)[key], (original as Record<string, unknown>)[key])
+    )
+
+  const ids = [...local.map(b => b.id), ...remote.filter(b => !localById.has(b.id)).map(b => b.id)]
+  for (const id of ids) {
+    const b = baseById.get(id)
+    const l = localById.get(id)
+    const r = remoteById.get(id)
+
+    if (!l || !r) {
+      const kept = (l ?? r)!
+      // Added on one side, or deleted on the other
+      if (!b) {
+        merged.set(id, kept)
+        sources.set(id, l ? 'local' : 'remote')
+      } else if (changedSince(kept, b)) {
+        conflicts.push({ type: 'delete', id, deletedBy: l ? 'remote' : 'local', block: kept })
+      }
+      continue
+    }
+
+    const block: Record<string, unknown> = {}
+    const fields = new Set([...Object.keys(l), ...Object.keys(r)])
+    for (const field of fields) {
+      if (field === 'parentId' || field === 'order') continue
+      const baseValue = b ? (b as Record<string, unknown>)[field] : undefined
+      const localValue = (l as Record<string, unknown>)[field]
+      const remoteValue = (r as Record<string, unknown>)[field]
+      let value: unknown
+      if (isEqualValue(localValue, remoteValue) || (b && isEqualValue(remoteValue, baseValue))) {
+        value = localValue
+      } else if (b && isEqualValue(localValue, baseValue)) {
+        value = remoteValue
+      } else {
+        const conflict = { type: 'field' as const, id, field, base: baseValue, local: localValue, remote: remoteValue }
+        value = resolveField ? resolveField(conflict) : localValue
+        conflicts.push({ ...conflict, resolved: value })
+      }
+      if (value !== undefined) block[field] = value
+    }
+
+    let source: PlacementSource = movedLocally.has(id) ? 'local' : movedRemotely.has(id) ? 'remote' : 'base'
+    if (source === 'local' && movedRemotely.has(id) && !samePlace(l, r)) {
+      source = preferMoves
+      const conflict: BlockMoveConflict = {
+        type: 'move',
+        id,
+        base: b ? placementOf(b) : undefined,
+        local: placementOf(l),
+        remote: placementOf(r),
+        resolved: placementOf(source === 'local' ? l : r),
+      }
+      moveConflicts.set(id, conflict)
+      conflicts.push(conflict)
+    }
+    const placement = placementOf(source === 'remote' ? r : l)
+    block.parentId = placement.parentId
+    block.order = placement.order
+    merged.set(id, block as T)
+    sources.set(id, source)
+  }
+
+  // Moves that only make sense together can nest a block inside itself
+  // (local moves A into B while remote moves B into A). Local moves alone
+  // never form a cycle, so undo remote ones until none is left.
+  const findCycle = (startId: string): string[] | null => {
+    const path: string[] = []
+    const seen = new Set<string>()
+    let id: string | null = startId
+    while (id !== null && merged.has(id)) {
+      if (seen.has(id)) return path.slice(path.indexOf(id))
+      seen.add(id)
+      path.push(id)
+      id = merged.get(id)!.parentId ?? null
+    }
+    return null
+  }
+  for (const id of merged.keys()) {
+    let cycle = findCycle(id)
+    while (cycle) {
+      const undoId = cycle.find(cycleId => {
+        const l = localById.get(cycleId)
+        return !!l && (l.parentId ?? null) !== (merged.get(cycleId)!.parentId ?? null)
+      })
+      if (!undoId) break
+      const l = localById.get(undoId)!
+      const resolved = placementOf(l)
+      merged.set(undoId, { ...merged.get(undoId)!, parentId: resolved.parentId, order: resolved.order })
+      sources.set(undoId, 'local')
+      const existing = moveConflicts.get(undoId)
+      if (existing) {
+        existing.resolved = resolved
+      } else {
+        const r = remoteById.get(undoId)!
+        const b = baseById.get(undoId)
+        const conflict: BlockMoveConflict = {
+          type: 'move', id: undoId, base: b ? placementOf(b) : undefined, local: resolved, remote: placementOf(r), resolved,
+        }
+        moveConflicts.set(undoId, conflict)
+        conflicts.push(conflict)
+      }
+      cycle = findCycle(id)
+    }
+  }
+
+  // A block moved into a deleted block stays where the deleting side had
+  // it; blocks added under a deleted block go with it
+  const dropped = new Set<string>()
+  let removed = true
+  while (removed) {
+    removed = false
+    for (const [id, block] of merged) {
+      const parentId = block.parentId ?? null
+      if (parentId === null || merged.has(parentId)) continue
+      const l = localById.get(id)
+      const r = remoteById.get(id)
+      const fallbackSource = localById.has(parentId) ? 'remote' : 'local'
+      const fallback = l && r ? placementOf(fallbackSource === 'remote' ? r : l) : null
+      if (fallback && (fallback.parentId === null || merged.has(fallback.parentId))) {
+        merged.set(id, { ...block, parentId: fallback.parentId, order: fallback.order })
+        sources.set(id, fallbackSource)
+        const existing = moveConflicts.get(id)
+        if (existing) {
+          existing.resolved = fallback
+        } else {
+          const b = baseById.get(id)
+          const conflict: BlockMoveConflict = {
+            type: 'move', id, base: b ? placementOf(b) : undefined, local: placementOf(l!), remote: placementOf(r!), resolved: fallback,
+          }
+          moveConflicts.set(id, conflict)
+          conflicts.push(conflict)
+        }
+        continue
+      }
+      merged.delete(id)
+      removed = true
+      if (!dropped.has(parentId)) {
+        conflicts.push({ type: 'delete', id, deletedBy: localById.has(parentId) ? 'remote' : 'local', block })
+      }
+      dropped.add(id)
+    }
+  }
+
+  // Blocks neither side moved keep their base order; blocks a side moved
+  // or added go right after the sibling they follow on that side
+  const mergeSiblings = (parentId: string | null, ids: Set<string>): string[] => {
+    const sequence = (baseSequences.get(parentId) ?? []).filter(id => ids.has(id) && sources.get(id) === 'base')
+    const sides = [['local', localSequences], ['remote', remoteSequences]] as const
+    for (const [side, sideSequences] of sides) {
+      const sideSequence = sideSequences.get(parentId) ?? []
+      sideSequence.forEach((id, position) => {
+        if (!ids.has(id) || sources.get(id) !== side) return
+        let previous = position - 1
+        while (previous >= 0 && !sequence.includes(sideSequence[previous])) previous--
+        sequence.splice(previous < 0 ? 0 : sequence.indexOf(sideSequence[previous]) + 1, 0, id)
+      })
+    }
+    return sequence
+  }
+
+  const byParent = new Map<string | null, string[]>()
+  for (const [id, block] of merged) {
+    const parentId = block.parentId ?? null
+    const siblings = byParent.get(parentId)
+    if (siblings) siblings.push(id)
+    else byParent.set(parentId, [id])
+  }
+  for (const [parentId, ids] of byParent) {
+    if (orderingStrategy === 'fractional') {
+      ids.sort((a, b) => compareOrder(merged.get(a)!, merged.get(b)!))
+      continue
+    }
+    const sequence = mergeSiblings(parentId, new Set(ids))
+    const localSiblings = localSequences.get(parentId) ?? []
+    const keepsLocalOrder = sequence.length === localSiblings.length && sequence.every((id, i) => localSiblings[i] === id)
+    sequence.forEach((id, i) => {
+      const block = merged.get(id)!
+      const order = keepsLocalOrder ? localById.get(id)!.order : i
+      if (block.order !== order) merged.set(id, { ...block, order })
+    })
+    byParent.set(parentId, sequence)
+  }
+  for (const conflict of moveConflicts.values()) {
+    const block = merged.get(conflict.id)
+    if (block) conflict.resolved = placementOf(block)
+  }
+
+  const blocks: T[] = []
+  const addChildren = (parentId: string | null) => {
+    for (const id of byParent.get(parentId) ?? []) {
+      blocks.push(merged.get(id)!)
+      addChildren(id)
+    }
+  }
+  addChildren(null)
+
+  return { blocks, conflicts }
+}
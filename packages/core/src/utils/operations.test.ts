@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { applyBlockOperations } from './operations'
+import { computeNormalizedIndex, buildOrderedBlocks } from './blocks'
+import type { BaseBlock, BlockOperation } from '../types'
+
+interface TestBlock extends BaseBlock {
+  type: 'container' | 'item'
+  title: string
+}
+
+const block = (
+  id: string,
+  type: TestBlock['type'],
+  parentId: string | null,
+  order: number | string
+): TestBlock => ({ id, type, parentId, order, title: `Block ${id}` })
+
+const ids = (state: ReturnType<typeof computeNormalizedIndex<TestBlock>>) =>
+  buildOrderedBlocks(state, ['container']).map(b => b.id)
+
+describe('applyBlockOperations', () => {
+  const blocks = [
+    block('p', 'container', null, 0),
+    block('a', 'item', 'p', 0),
+    block('b', 'item', 'p', 1),
+    block('c', 'item', null, 1),
+  ]
+
+  it('returns the same state for an empty list', () => {
+    const state = computeNormalizedIndex(blocks)
+    expect(applyBlockOperations(state, [])).toBe(state)
+  })
+
+  it('applies an insert at the recorded index', () => {
+    const state = computeNormalizedIndex(blocks)
+    const result = applyBlockOperations<TestBlock>(state, [
+      { type: 'insert', id: 'x', block: block('x', 'item', 'p', 1), to: { parentId: 'p', index: 1 } },
+    ])
+
+    expect(result.byParent.get('p')).toEqual(['a', 'x', 'b'])
+    expect(result.byId.get('x')?.parentId).toBe('p')
+  })
+
+  it('skips inserting an id that already exists', () => {
+    const state = computeNormalizedIndex(blocks)
+    const result = applyBlockOperations<TestBlock>(state, [
+      { type: 'insert', id: 'a', block: block('a', 'item', null, 0), to: { parentId: null, index: 0 } },
+    ])
+
+    expect(result).toBe(state)
+  })
+
+  it('applies a move across parents', () => {
+    const state = computeNormalizedIndex(blocks)
+    const result = applyBlockOperations<TestBlock>(state, [
+      { type: 'move', id: 'c', from: { parentId: null, index: 1 }, to: { parentId: 'p', index: 0 }, fromOrder: 1, toOrder: 0 },
+    ])
+
+    expect(ids(result)).toEqual(['p', 'c', 'a', 'b'])
+    expect(result.byId.get('c')?.parentId).toBe('p')
+  })
+
+  it('skips a move into the block\'s own subtree', () => {
+    const state = computeNormalizedIndex(blocks)
+    const result = applyBlockOperations<TestBlock>(state, [
+      { type: 'move', id: 'p', from: { parentId: null, index: 0 }, to: { parentId: 'a', index: 0 }, fromOrder: 0, toOrder: 0 },
+    ])
+
+    expect(result).toBe(state)
+  })
+
+  it('places fractional inserts and moves by order key', () => {
+    const fractional = [
+      block('a', 'item', null, 'a'),
+      block('b', 'item', null, 'c'),
+      block('c', 'item', null, 'e'),
+    ]
+    const state = computeNormalizedIndex(fractional, 'fractional')
+    const result = applyBlockOperations<TestBlock>(state, [
+      { type: 'insert', id: 'x', block: block('x', 'item', null, 'd'), to: { parentId: null, index: 0 } },
+      { type: 'move', id: 'a', from: { parentId: null, index: 0 }, to: { parentId: null, index: 0 }, fromOrder: 'a', toOrder: 'f' },
+    ], 'fractional')
+
+    expect(result.byParent.get(null)).toEqual(['b', 'x', 'c', 'a'])
+    expect(result.byId.get('a')?.order).toBe('f')
+  })
+
+  it('deletes a block and its descendants', () => {
+    const state = computeNormalizedIndex(blocks)
+    const result = applyBlockOperations<TestBlock>(state, [
+      { type: 'delete', id: 'p', from: { parentId: null, index: 0 }, deletedIds: ['p', 'a', 'b'], blocks: blocks.slice(0, 3) },
+    ])
+
+    expect(ids(result)).toEqual(['c'])
+  })
+
+  it('skips deleting a missing block', () => {
+    const state = computeNormalizedIndex(blocks)
+    const result = applyBlockOperations<TestBlock>(state, [
+      { type: 'delete', id: 'missing', from: { parentId: null, index: 0 }, deletedIds: ['missing'], blocks: [] },
+    ])
+
+    expect(result).toBe(state)
+  })
+
+  it('applies field updates without touching structural fields', () => {
+    const state = computeNormalizedIndex(blocks)
+    const result = applyBlockOperations<TestBlock>(state, [
+      { type: 'update', id: 'a', before: { title: 'Block a' }, after: { title: 'Renamed', parentId: null } },
+    ])
+
+    expect(result.byId.get('a')).toEqual({ ...blocks[1], title: 'Renamed' })
+    expect(result.byParent).toBe(state.byParent)
+  })
+
+  it('replaces all blocks on reset', () => {
+    const state = computeNormalizedIndex(blocks)
+    const ops: BlockOperation<TestBlock>[] = [{ type: 'reset', blocks: [block('z', 'item', null, 0)] }]
+
+    expect(ids(applyBlockOperations(state, ops))).toEqual(['z'])
+  })
+})
@@ -0,0 +1,215 @@
+import type { BaseBlock, BlockIndex, BlockOperation, InsertBlockOperation, OrderingStrategy } from '../types'
+import {
+  cloneMap,
+  cloneParentMap,
+  computeNormalizedIndex,
+  deleteBlockAndDescendants,
+  getBlockChanges,
+  getDescendantIds,
+} from './blocks'
+import { compareFractionalKeys } from './fractional'
+
+/**
+ * Insert `id` into a sibling list. With fractional ordering and a string key,
+ * the position is derived from the key so concurrent replays converge;
+ * otherwise the recorded index is used (clamped to the list bounds).
+ */
+function insertSibling<T extends BaseBlock>(
+  list: string[],
+  id: string,
+  index: number,
+  order: number | string,
+  byId: Map<string, T>,
+  orderingStrategy: OrderingStrategy
+): string[] {
+  const next = [...list]
+  if (orderingStrategy === 'fractional' && typeof order === 'string') {
+    const at = next.findIndex(siblingId => {
+      const sibling = byId.get(siblingId)
+      return sibling ? compareFractionalKeys(String(sibling.order), order) > 0 : false
+    })
+    next.splice(at === -1 ? next.length : at, 0, id)
+    return next
+  }
+  next.splice(Math.max(0, Math.min(index, next.length)), 0, id)
+  return next
+}
+
+/**
+ * Apply a list of block operations to an index, in order.
+ *
+ * Operations that no longer apply (inserting an id that already exists,
+ * moving or deleting a missing block, moving a block into its own subtree)
+ * are skipped, so replaying the same log twice is harmless.
+ */
+export function applyBlockOperations<T extends BaseBlock>(
+  state: BlockIndex<T>,
+  operations: BlockOperation<T>[],
+  orderingStrategy: OrderingStrategy = 'integer'
+): BlockIndex<T> {
+  let result = state
+
+  for (const op of operations) {
+    switch (op.type) {
+      case 'insert': {
+        if (result.byId.has(op.id)) break
+        const byId = cloneMap(result.byId)
+        const byParent = cloneParentMap(result.byParent)
+        const block = { ...op.block, parentId: op.to.parentId }
+        byId.set(op.id, block)
+        const siblings = byParent.get(op.to.parentId) ?? []
+        byParent.set(op.to.parentId, insertSibling(siblings, op.id, op.to.index, block.order, byId, orderingStrategy))
+        result = { byId, byParent }
+        break
+      }
+
+      case 'move': {
+        const block = result.byId.get(op.id)
+        if (!block) break
+        if (op.to.parentId !== null && getDescendantIds(result, op.id).has(op.to.parentId)) break
+        const byId = cloneMap(result.byId)
+        const byParent = cloneParentMap(result.byParent)
+        const oldParentId = block.parentId ?? null
+        byParent.set(oldParentId, (byParent.get(oldParentId) ?? []).filter(id => id !== op.id))
+        byId.set(op.id, { ...block, parentId: op.to.parentId, order: op.toOrder })
+        const siblings = byParent.get(op.to.parentId) ?? []
+        byParent.set(op.to.parentId, insertSibling(siblings, op.id, op.to.index, op.toOrder, byId, orderingStrategy))
+        result = { byId, byParent }
+        break
+      }
+
+      case 'delete': {
+        if (!result.byId.has(op.id)) break
+        result = deleteBlockAndDescendants(result, op.id)
+        break
+      }
+
+      case 'update': {
+        const block = result.byId.get(op.id)
+        if (!block) break
+        const byId = cloneMap(result.byId)
+        // Structural fields only change through move operations
+        byId.set(op.id, { ...block, ...op.after, id: block.id, parentId: block.parentId, order: block.order })
+        result = { byId, byParent: result.byParent }
+        break
+      }
+
+      case 'reset': {
+        result = computeNormalizedIndex(op.blocks, orderingStrategy)
+        break
+      }
+    }
+  }
+
+  return result
+}
+
+export interface OperationDiff<T extends BaseBlock> {
+  operations: BlockOperation<T>[]
+  inverse: BlockOperation<T>[]
+}
+
+/**
+ * Operations that turn `before` into `after`, and the operations that turn it
+ * back. Blocks are placed in tree order, each into its final slot, so the
+ * recorded indexes hold when the operations are replayed in order; surviving
+ * children leave deleted parents before those are deleted.
+ */
+export function diffBlockIndexes<T extends BaseBlock>(
+  before: BlockIndex<T>,
+  after: BlockIndex<T>,
+  orderingStrategy: OrderingStrategy
+): OperationDiff<T> {
+  const operations: BlockOperation<T>[] = []
+  // The operations undoing each of `operations`, in the same order
+  const undoing: BlockOperation<T>[][] = []
+  const fractional = orderingStrategy === 'fractional'
+
+  // Sibling lists and parents as the operations so far leave them
+  const lists = new Map<string | null, string[]>()
+  const parents = new Map<string, string | null>()
+  const getList = (parentId: string | null) => {
+    let list = lists.get(parentId)
+    if (!list) {
+      list = [...(before.byParent.get(parentId) ?? [])]
+      lists.set(parentId, list)
+    }
+    return list
+  }
+  const getParent = (id: string) =>
+    parents.has(id) ? parents.get(id)! : before.byId.get(id)?.parentId ?? null
+
+  const place = (parentId: string | null) => {
+    const children = after.byParent.get(parentId) ?? []
+    children.forEach((id, index) => {
+      const block = after.byId.get(id)
+      if (!block) return
+      const list = getList(parentId)
+      const to = { parentId, index }
+      const prev = before.byId.get(id)
+
+      if (!prev) {
+        list.splice(index, 0, id)
+        parents.set(id, parentId)
+        const inserted = { ...block, parentId }
+        operations.push({ type: 'insert', id, block: inserted, to })
+        undoing.push([{ type: 'delete', id, from: to, deletedIds: [id], blocks: [inserted] }])
+      } else {
+        const fromParent = getParent(id)
+        // Integer positions come from the lists; string keys are kept either way
+        const rekeyed = prev.order !== block.order && (fractional || typeof block.order === 'string')
+        if (fromParent !== parentId || rekeyed || (!fractional && list[index] !== id)) {
+          const fromList = getList(fromParent)
+          const from = { parentId: fromParent, index: fromList.indexOf(id) }
+          fromList.splice(from.index, 1)
+          list.splice(Math.min(index, list.length), 0, id)
+          parents.set(id, parentId)
+          operations.push({ type: 'move', id, from, to, fromOrder: prev.order, toOrder: block.order })
+          undoing.push([{ type: 'move', id, from: to, to: from, fromOrder: block.order, toOrder: prev.order }])
+        }
+      }
+      place(id)
+    })
+  }
+  place(null)
+
+  // Only deleted blocks are left under deleted parents now
+  for (const [id, block] of before.byId) {
+    if (after.byId.has(id)) continue
+    const parentId = getParent(id)
+    if (parentId !== null && !after.byId.has(parentId)) continue
+
+    const list = getList(parentId)
+    const from = { parentId, index: list.indexOf(id) }
+    // Reinsert the root, then its descendants in tree order
+    const reinserts: InsertBlockOperation<T>[] = [{ type: 'insert', id, block, to: from }]
+    const collect = (pid: string) => {
+      getList(pid).forEach((childId, index) => {
+        const child = before.byId.get(childId)!
+        reinserts.push({ type: 'insert', id: childId, block: child, to: { parentId: pid, index } })
+        collect(childId)
+      })
+    }
+    collect(id)
+    list.splice(from.index, 1)
+
+    const blocks = reinserts.map(op => op.block)
+    operations.push({ type: 'delete', id, from, deletedIds: blocks.map(b => b.id), blocks })
+    undoing.push(reinserts)
+  }
+
+  for (const [id, block] of after.byId) {
+    const prev = before.byId.get(id)
+    if (!prev || prev === block) continue
+    const changes = getBlockChanges(prev, block)
+    for (const key of ['id', 'parentId', 'order'] as const) {
+      delete changes.before[key]
+      delete changes.after[key]
+    }
+    if (Object.keys(changes.after).length === 0) continue
+    operations.push({ type: 'update', id, before: changes.before, after: changes.after })
+    undoing.push([{ type: 'update', id, before: changes.after, after: changes.before }])
+  }
+
+  return { operations, inverse: undoing.reverse().flat() }
+}
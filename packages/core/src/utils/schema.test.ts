@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  getSchemaContainerTypes,
+  getZoneParentId,
+  checkBlockPlacement,
+  isZoneAllowed,
+  getSchemaViolations,
+  type BlockSchema,
+} from './schema'
+import { computeNormalizedIndex, reparentBlockIndex, reparentMultipleBlocks, validateBlockTree } from './blocks'
+import type { BaseBlock } from '../types'
+
+interface TestBlock extends BaseBlock {
+  type: 'list' | 'item' | 'group' | 'text'
+}
+
+const block = (
+  id: string,
+  type: TestBlock['type'],
+  parentId: string | null,
+  order: number
+): TestBlock => ({ id, type, parentId, order })
+
+const schema: BlockSchema = {
+  list: { allowedChildren: ['item'], minChildren: 1, maxChildren: 3 },
+  item: { allowRoot: false },
+  group: { allowedChildren: ['group', 'text', 'list'], maxDepth: 2 },
+}
+
+// l (list): i1, i2
+// m (list): i3
+// g (group): h (group): t1
+// t2
+const index = computeNormalizedIndex([
+  block('l', 'list', null, 0),
+  block('i1', 'item', 'l', 0),
+  block('i2', 'item', 'l', 1),
+  block('m', 'list', null, 1),
+  block('i3', 'item', 'm', 0),
+  block('g', 'group', null, 2),
+  block('h', 'group', 'g', 0),
+  block('t1', 'text', 'h', 0),
+  block('t2', 'text', null, 3),
+])
+const containerTypes = getSchemaContainerTypes(schema)
+
+describe('getSchemaContainerTypes', () => {
+  it('returns the types with allowed children', () => {
+    expect(containerTypes).toEqual(['list', 'group'])
+  })
+})
+
+describe('getZoneParentId', () => {
+  it('resolves the parent a zone drops into', () => {
+    expect(getZoneParentId(index, 'into-l')).toBe('l')
+    expect(getZoneParentId(index, 'end-g')).toBe('g')
+    expect(getZoneParentId(index, 'after-i1')).toBe('l')
+    expect(getZoneParentId(index, 'before-t2')).toBeNull()
+    expect(getZoneParentId(index, 'root-end')).toBeNull()
+  })
+})
+
+describe('checkBlockPlacement', () => {
+  it('enforces allowed children and root placement', () => {
+    expect(checkBlockPlacement(index, [index.byId.get('t2')!], 'l', schema)).toBe('"list" blocks do not accept "text" children')
+    expect(checkBlockPlacement(index, [index.byId.get('i1')!], null, schema)).toBe('"item" blocks cannot be at the root')
+    expect(checkBlockPlacement(index, [index.byId.get('t2')!], 'h', schema)).toBeNull()
+  })
+
+  it('enforces child counts', () => {
+    const newItems = [block('n1', 'item', null, 0), block('n2', 'item', null, 0)]
+    expect(checkBlockPlacement(index, newItems, 'l', schema)).toBe('"list" blocks allow at most 3 children')
+    expect(checkBlockPlacement(index, [index.byId.get('i3')!], 'l', schema)).toBe('"list" blocks need at least 1 children')
+    // Reordering within the same parent does not count as an extra child
+    expect(checkBlockPlacement(index, [index.byId.get('i1')!], 'l', schema)).toBeNull()
+  })
+
+  it('enforces depth relative to each ancestor', () => {
+    // h holds t1, so moving it into a group nested under g makes g three levels deep
+    const nested = computeNormalizedIndex([...index.byId.values(), block('k', 'group', 'g', 1)])
+    expect(checkBlockPlacement(nested, [nested.byId.get('h')!], 'k', schema)).toBe('"group" blocks allow at most 2 nested levels')
+    expect(checkBlockPlacement(nested, [nested.byId.get('t2')!], 'k', schema)).toBeNull()
+  })
+
+  it('leaves types without rules unrestricted', () => {
+    expect(checkBlockPlacement(index, [block('x', 'text', null, 0)], null, {})).toBeNull()
+  })
+})
+
+describe('isZoneAllowed', () => {
+  it('checks the dragged blocks against the zone parent', () => {
+    expect(isZoneAllowed(index, ['i1'], 'after-i3', schema)).toBe(true)
+    expect(isZoneAllowed(index, ['i1'], 'before-t2', schema)).toBe(false)
+    expect(isZoneAllowed(index, ['t2'], 'into-l', schema)).toBe(false)
+  })
+})
+
+describe('schema enforcement in reparenting', () => {
+  it('rejects invalid single moves', () => {
+    expect(reparentBlockIndex(index, 't2', 'into-l', containerTypes, 'integer', undefined, schema)).toBe(index)
+    expect(reparentBlockIndex(index, 'i1', 'root-end', containerTypes, 'integer', undefined, schema)).toBe(index)
+    const moved = reparentBlockIndex(index, 'i1', 'into-m', containerTypes, 'integer', undefined, schema)
+    expect(moved.byId.get('i1')!.parentId).toBe('m')
+  })
+
+  it('rejects a multi-block move when the group breaks a rule', () => {
+    const next = reparentMultipleBlocks(index, ['i1', 'i2'], 'into-m', containerTypes, 'integer', undefined, schema)
+    expect(next).toBe(index)
+  })
+})
+
+describe('getSchemaViolations', () => {
+  it('returns nothing for a valid tree', () => {
+    expect(getSchemaViolations(index, schema)).toEqual([])
+  })
+
+  it('reports every broken rule', () => {
+    const broken = computeNormalizedIndex([
+      block('l', 'list', null, 0),
+      block('t', 'text', 'l', 0),
+      block('i', 'item', null, 1),
+      block('e', 'list', null, 2),
+    ])
+    expect(getSchemaViolations(broken, schema)).toEqual([
+      'Schema: block "t" of type "text" is not allowed in "list" block "l"',
+      'Schema: block "i" of type "item" cannot be at the root',
+      'Schema: block "e" has 0 children, "list" needs at least 1',
+    ])
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(validateBlockTree(broken, schema).issues).toHaveLength(3)
+    warnSpy.mockRestore()
+  })
+})
@@ -0,0 +1,162 @@
+import type { BaseBlock, BlockIndex } from '../types'
+import { getSubtreeDepth } from './blocks'
+import { extractUUID } from './helper'
+
+/**
+ * Nesting rules for one block type
+ */
+export interface BlockTypeRules {
+  /** Types allowed as direct children. Types with this list are containers */
+  allowedChildren?: readonly string[]
+  /** Fewest children a block of this type may be left with by a move */
+  minChildren?: number
+  /** Most children a block of this type may have */
+  maxChildren?: number
+  /** Levels that may nest below a block of this type (1 = children only) */
+  maxDepth?: number
+  /** Whether blocks of this type may sit at the root (default: true) */
+  allowRoot?: boolean
+}
+
+/**
+ * Declarative nesting rules keyed by block type. Types without an entry are
+ * unrestricted.
+ */
+export type BlockSchema = Readonly<Record<string, BlockTypeRules>>
+
+/**
+ * Container types implied by a schema: every type with `allowedChildren`.
+ */
+export function getSchemaContainerTypes(schema: BlockSchema): string[] {
+  return Object.keys(schema).filter(type => schema[type].allowedChildren !== undefined)
+}
+
+/**
+ * Parent a drop zone places blocks under. Mirrors `reparentBlockIndex`:
+ * `into-`/`end-` zones target the block itself, `before-`/`after-` its parent.
+ */
+export function getZoneParentId<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  zoneId: string
+): string | null {
+  if (zoneId === 'root-start' || zoneId === 'root-end') return null
+  const targetId = extractUUID(zoneId)
+  if (zoneId.startsWith('into-') || zoneId.startsWith('end-')) return targetId
+  return index.byId.get(targetId)?.parentId ?? null
+}
+
+/**
+ * Check whether `blocks` may be placed under `parentId` (null for the root).
+ * Blocks that are already in the index are treated as moves: they leave their
+ * current parent and keep their descendants. Returns a description of the
+ * first violated rule, or null if the placement is allowed.
+ */
+export function checkBlockPlacement<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  blocks: readonly T[],
+  parentId: string | null,
+  schema: BlockSchema
+): string | null {
+  const parent = parentId === null ? null : index.byId.get(parentId)
+  const parentRules = parent ? schema[parent.type] : undefined
+
+  for (const block of blocks) {
+    if (parentId === null) {
+      if (schema[block.type]?.allowRoot === false) {
+        return `"${block.type}" blocks cannot be at the root`
+      }
+    } else if (parentRules && !parentRules.allowedChildren?.includes(block.type)) {
+      return `"${parent!.type}" blocks do not accept "${block.type}" children`
+    }
+  }
+
+  // Children counts, for the new parent and each parent the blocks leave
+  const incoming = blocks.filter(b => !index.byId.has(b.id) || (index.byId.get(b.id)!.parentId ?? null) !== parentId)
+  if (parentRules?.maxChildren != null) {
+    const count = (index.byParent.get(parentId) ?? []).length + incoming.length
+    if (count > parentRules.maxChildren) {
+      return `"${parent!.type}" blocks allow at most ${parentRules.maxChildren} children`
+    }
+  }
+  const leaving = new Map<string, number>()
+  for (const block of incoming) {
+    const oldParentId = index.byId.get(block.id)?.parentId
+    if (oldParentId) leaving.set(oldParentId, (leaving.get(oldParentId) ?? 0) + 1)
+  }
+  for (const [oldParentId, count] of leaving) {
+    const oldParent = index.byId.get(oldParentId)
+    const min = oldParent ? schema[oldParent.type]?.minChildren : undefined
+    if (min != null && (index.byParent.get(oldParentId) ?? []).length - count < min) {
+      return `"${oldParent!.type}" blocks need at least ${min} children`
+    }
+  }
+
+  // Depth below the new parent and each of its ancestors
+  const depth = Math.max(0, ...blocks.map(b => (index.byId.has(b.id) ? getSubtreeDepth(index, b.id) : 1)))
+  const visited = new Set<string>()
+  let ancestor = parent
+  let levelsAbove = 0
+  while (ancestor && !visited.has(ancestor.id)) {
+    visited.add(ancestor.id)
+    const maxDepth = schema[ancestor.type]?.maxDepth
+    if (maxDepth != null && levelsAbove + depth > maxDepth) {
+      return `"${ancestor.type}" blocks allow at most ${maxDepth} nested levels`
+    }
+    ancestor = ancestor.parentId === null ? undefined : index.byId.get(ancestor.parentId)
+    levelsAbove++
+  }
+
+  return null
+}
+
+/**
+ * Whether dropping `blockIds` at `zoneId` satisfies the schema. Used to skip
+ * rendering zones that could never accept the dragged blocks.
+ */
+export function isZoneAllowed<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  blockIds: readonly string[],
+  zoneId: string,
+  schema: BlockSchema
+): boolean {
+  const blocks = blockIds.map(id => index.byId.get(id)).filter((b): b is T => b !== undefined)
+  return checkBlockPlacement(index, blocks, getZoneParentId(index, zoneId), schema) === null
+}
+
+/**
+ * Report every block that breaks the schema as it stands.
+ */
+export function getSchemaViolations<T extends BaseBlock>(
+  index: BlockIndex<T>,
+  schema: BlockSchema
+): string[] {
+  const issues: string[] = []
+
+  for (const [id, block] of index.byId) {
+    const rules = schema[block.type]
+    const parent = block.parentId === null ? null : index.byId.get(block.parentId)
+    const parentRules = parent ? schema[parent.type] : undefined
+
+    if (block.parentId === null && rules?.allowRoot === false) {
+      issues.push(`Schema: block "${id}" of type "${block.type}" cannot be at the root`)
+    }
+    if (parent && parentRules && !parentRules.allowedChildren?.includes(block.type)) {
+      issues.push(`Schema: block "${id}" of type "${block.type}" is not allowed in "${parent.type}" block "${parent.id}"`)
+    }
+    if (!rules) continue
+
+    const childCount = (index.byParent.get(id) ?? []).length
+    if (rules.minChildren != null && childCount < rules.minChildren) {
+      issues.push(`Schema: block "${id}" has ${childCount} children, "${block.type}" needs at least ${rules.minChildren}`)
+    }
+    if (rules.maxChildren != null && childCount > rules.maxChildren) {
+      issues.push(`Schema: block "${id}" has ${childCount} children, "${block.type}" allows at most ${rules.maxChildren}`)
+    }
+    const nestedLevels = getSubtreeDepth(index, id) - 1
+    if (rules.maxDepth != null && nestedLevels > rules.maxDepth) {
+      issues.push(`Schema: block "${id}" nests ${nestedLevels} levels, "${block.type}" allows at most ${rules.maxDepth}`)
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createHeightCache,
+  getVirtualWindow,
+  getScrollAnchor,
+  resolveScrollAnchor,
+  getVirtualZoneRects,
+  getAutoScrollDelta,
+} from './virtual'
+
+const ids = (n: number) => Array.from({ length: n }, (_, i) => `b${i}`)
+
+describe('createHeightCache', () => {
+  it('uses the estimate for unmeasured items', () => {
+    const cache = createHeightCache(30)
+    expect(cache.get('a')).toBe(30)
+    expect(cache.has('a')).toBe(false)
+    expect(cache.layout(ids(3))).toEqual({ offsets: [0, 30, 60], heights: [30, 30, 30], totalHeight: 90 })
+  })
+
+  it('lays out measured heights', () => {
+    const cache = createHeightCache(40)
+    cache.set('b1', 100)
+    const layout = cache.layout(ids(3))
+    expect(layout.offsets).toEqual([0, 40, 140])
+    expect(layout.totalHeight).toBe(180)
+  })
+
+  it('reports whether a measurement changed', () => {
+    const cache = createHeightCache()
+    expect(cache.set('a', 50)).toBe(true)
+    expect(cache.set('a', 50)).toBe(false)
+    cache.delete('a')
+    expect(cache.has('a')).toBe(false)
+  })
+})
+
+describe('getVirtualWindow', () => {
+  it('returns the items intersecting the viewport plus overscan', () => {
+    const cache = createHeightCache(50)
+    cache.set('b2', 200)
+    // offsets: b0 0, b1 50, b2 100-300, b3 300, b4 350 ...
+    const layout = cache.layout(ids(20))
+    expect(getVirtualWindow(layout, 120, 100, 0)).toEqual({ startIndex: 2, endIndex: 3, offsetY: 100 })
+    expect(getVirtualWindow(layout, 120, 250, 1)).toEqual({ startIndex: 1, endIndex: 6, offsetY: 50 })
+  })
+
+  it('clamps to the list bounds', () => {
+    const layout = createHeightCache(40).layout(ids(10))
+    expect(getVirtualWindow(layout, 0, 1000, 5)).toEqual({ startIndex: 0, endIndex: 10, offsetY: 0 })
+    expect(getVirtualWindow(layout, 5000, 400, 0).endIndex).toBe(10)
+  })
+
+  it('handles an empty list', () => {
+    const layout = createHeightCache().layout([])
+    expect(getVirtualWindow(layout, 0, 400)).toEqual({ startIndex: 0, endIndex: 0, offsetY: 0 })
+  })
+})
+
+describe('scroll anchoring', () => {
+  it('keeps the top item in place when items above it grow', () => {
+    const cache = createHeightCache(40)
+    const before = cache.layout(ids(10))
+    const anchor = getScrollAnchor(ids(10), before, 130)
+    expect(anchor).toEqual({ id: 'b3', delta: 10 })
+
+    cache.set('b0', 240)
+    expect(resolveScrollAnchor(ids(10), cache.layout(ids(10)), anchor!)).toBe(330)
+  })
+
+  it('follows the anchor when items are inserted above it', () => {
+    const layout = createHeightCache(40).layout(ids(10))
+    const anchor = getScrollAnchor(ids(10), layout, 80)!
+    const expanded = ['b0', 'c0', 'c1', ...ids(10).slice(1)]
+    expect(resolveScrollAnchor(expanded, createHeightCache(40).layout(expanded), anchor)).toBe(160)
+  })
+
+  it('does not anchor at the top or to removed items', () => {
+    const layout = createHeightCache(40).layout(ids(5))
+    expect(getScrollAnchor(ids(5), layout, 0)).toBeNull()
+    expect(resolveScrollAnchor(['b0'], layout, { id: 'b3', delta: 0 })).toBeNull()
+  })
+})
+
+describe('getVirtualZoneRects', () => {
+  const origin = { top: 100, left: 10, width: 200 }
+
+  it('places a zone at the top of each row and after the last one', () => {
+    const layout = createHeightCache(40).layout(ids(3))
+    const rects = getVirtualZoneRects(ids(3), layout, origin)
+    expect([...rects.keys()]).toEqual(['before-b0', 'before-b1', 'before-b2', 'after-b2'])
+    expect(rects.get('before-b1')).toEqual({ top: 140, left: 10, width: 200, height: 4, right: 210, bottom: 144 })
+    expect(rects.get('after-b2')!.top).toBe(220)
+  })
+
+  it('skips rendered rows and follows the scroll position', () => {
+    const layout = createHeightCache(40).layout(ids(4))
+    const rects = getVirtualZoneRects(ids(4), layout, { ...origin, top: -500 }, { skip: new Set(['b0', 'b1']) })
+    expect([...rects.keys()]).toEqual(['before-b2', 'before-b3', 'after-b3'])
+    expect(rects.get('before-b2')!.top).toBe(-420)
+  })
+})
+
+describe('getAutoScrollDelta', () => {
+  const viewport = { top: 0, bottom: 400 }
+
+  it('does not scroll away from the edges', () => {
+    expect(getAutoScrollDelta(200, viewport)).toBe(0)
+    expect(getAutoScrollDelta(48, viewport)).toBe(0)
+  })
+
+  it('ramps up towards each edge', () => {
+    expect(getAutoScrollDelta(24, viewport)).toBe(-8)
+    expect(getAutoScrollDelta(0, viewport)).toBe(-16)
+    expect(getAutoScrollDelta(390, viewport, { threshold: 20, maxSpeed: 10 })).toBe(5)
+  })
+
+  it('scrolls at full speed outside the container', () => {
+    expect(getAutoScrollDelta(-50, viewport)).toBe(-16)
+    expect(getAutoScrollDelta(450, viewport)).toBe(16)
+  })
+
+  it('shrinks the threshold in short containers', () => {
+    expect(getAutoScrollDelta(30, { top: 0, bottom: 60 })).toBe(0)
+  })
+})
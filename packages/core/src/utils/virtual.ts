@@ -0,0 +1,225 @@
+import type { Rect } from '../collision'
+
+/**
+ * Item positions for variable-height virtualization
+ */
+export interface VirtualLayout {
+  /** Top offset of each item, in item order */
+  offsets: number[]
+  /** Height of each item (measured or estimated) */
+  heights: number[]
+  totalHeight: number
+}
+
+/**
+ * Slice of items to render. `endIndex` is exclusive.
+ */
+export interface VirtualWindow {
+  startIndex: number
+  endIndex: number
+  /** Top offset of the first rendered item */
+  offsetY: number
+}
+
+/**
+ * Item the viewport is pinned to while the layout above it changes
+ */
+export interface ScrollAnchor {
+  id: string
+  /** Distance from the item's top to the scroll position */
+  delta: number
+}
+
+/**
+ * Measured item heights keyed by block id. Unmeasured items use the estimate.
+ */
+export interface HeightCache {
+  readonly estimatedHeight: number
+  get(id: string): number
+  has(id: string): boolean
+  /** Store a measurement. Returns false if the height did not change. */
+  set(id: string, height: number): boolean
+  delete(id: string): void
+  clear(): void
+  layout(ids: readonly string[]): VirtualLayout
+}
+
+export function createHeightCache(estimatedHeight = 40): HeightCache {
+  const heights = new Map<string, number>()
+
+  return {
+    estimatedHeight,
+    get: (id) => heights.get(id) ?? estimatedHeight,
+    has: (id) => heights.has(id),
+    set: (id, height) => {
+      if (heights.get(id) === height) return false
+      heights.set(id, height)
+      return true
+    },
+    delete: (id) => {
+      heights.delete(id)
+    },
+    clear: () => heights.clear(),
+    layout: (ids) => {
+      const offsets: number[] = new Array(ids.length)
+      const itemHeights: number[] = new Array(ids.length)
+      let top = 0
+      for (let i = 0; i < ids.length; i++) {
+        const height = heights.get(ids[i]) ?? estimatedHeight
+        offsets[i] = top
+        itemHeights[i] = height
+        top += height
+      }
+      return { offsets, heights: itemHeights, totalHeight: top }
+    },
+  }
+}
+
+/** Index of the item containing `y` (clamped to the list) */
+function findItemAt(layout: VirtualLayout, y: number): number {
+  const { offsets, heights } = layout
+  let lo = 0
+  let hi = offsets.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (offsets[mid] <= y) lo = mid
+    else hi = mid - 1
+  }
+  // Zero-height items share an offset with their successor; skip past them
+  while (lo < offsets.length - 1 && offsets[lo] + heights[lo] <= y) lo++
+  return lo
+}
+
+/**
+ * Find the items intersecting the viewport, plus `overscan` items on each side.
+ */
+export function getVirtualWindow(
+  layout: VirtualLayout,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 5
+): VirtualWindow {
+  const count = layout.offsets.length
+  if (count === 0) return { startIndex: 0, endIndex: 0, offsetY: 0 }
+
+  const first = findItemAt(layout, Math.max(0, scrollTop))
+  const last = findItemAt(layout, Math.max(0, scrollTop + viewportHeight - 1))
+  const startIndex = Math.max(0, first - overscan)
+  const endIndex = Math.min(count, last + 1 + overscan)
+
+  return { startIndex, endIndex, offsetY: layout.offsets[startIndex] }
+}
+
+/**
+ * Record which item sits at the top of the viewport, so the scroll position
+ * can be restored after items above it are measured, added or removed.
+ */
+export function getScrollAnchor(
+  ids: readonly string[],
+  layout: VirtualLayout,
+  scrollTop: number
+): ScrollAnchor | null {
+  if (ids.length === 0 || scrollTop <= 0) return null
+  const index = findItemAt(layout, scrollTop)
+  return { id: ids[index], delta: scrollTop - layout.offsets[index] }
+}
+
+/**
+ * Scroll position that keeps `anchor` in place in a new layout, or null if
+ * the anchored item is no longer in the list.
+ */
+export function resolveScrollAnchor(
+  ids: readonly string[],
+  layout: VirtualLayout,
+  anchor: ScrollAnchor
+): number | null {
+  const index = ids.indexOf(anchor.id)
+  if (index === -1) return null
+  return layout.offsets[index] + Math.min(anchor.delta, layout.heights[index])
+}
+
+/**
+ * Where the scrolled content starts, in client coordinates: the container's
+ * top minus its `scrollTop`, and its left edge and width
+ */
+export interface VirtualContentOrigin {
+  top: number
+  left: number
+  width: number
+}
+
+export interface VirtualZoneRectOptions {
+  /** Rows that are rendered and already have real drop zones */
+  skip?: ReadonlySet<string>
+  /** Height of each synthesized zone (default: 4) */
+  zoneHeight?: number
+}
+
+/**
+ * Drop zone rects for rows that are virtualized out, so collision detection
+ * can target positions that are not rendered. `ids` is the flattened list
+ * of visible rows in render order and `layout` their positions.
+ *
+ * Each row gets a `before-` zone at its top edge, and the last row an
+ * `after-` zone at its bottom edge.
+ */
+export function getVirtualZoneRects(
+  ids: readonly string[],
+  layout: VirtualLayout,
+  origin: VirtualContentOrigin,
+  options: VirtualZoneRectOptions = {}
+): Map<string, Rect> {
+  const { skip, zoneHeight = 4 } = options
+  const rects = new Map<string, Rect>()
+  const zoneAt = (y: number): Rect => ({
+    top: origin.top + y,
+    left: origin.left,
+    width: origin.width,
+    height: zoneHeight,
+    right: origin.left + origin.width,
+    bottom: origin.top + y + zoneHeight,
+  })
+
+  for (let i = 0; i < ids.length; i++) {
+    if (skip?.has(ids[i])) continue
+    rects.set(`before-${ids[i]}`, zoneAt(layout.offsets[i]))
+    if (i === ids.length - 1) {
+      rects.set(`after-${ids[i]}`, zoneAt(layout.offsets[i] + layout.heights[i]))
+    }
+  }
+
+  return rects
+}
+
+export interface AutoScrollOptions {
+  /** Distance from the edge, in pixels, where scrolling starts (default: 48) */
+  threshold?: number
+  /** Scroll speed at the edge, in pixels per frame (default: 16) */
+  maxSpeed?: number
+}
+
+/**
+ * Scroll delta for one frame while dragging near the top or bottom edge of
+ * a scroll container. Speed ramps up linearly towards the edge and stays at
+ * `maxSpeed` once the pointer leaves the container; 0 means do not scroll.
+ */
+export function getAutoScrollDelta(
+  pointerY: number,
+  viewport: Pick<Rect, 'top' | 'bottom'>,
+  options: AutoScrollOptions = {}
+): number {
+  const { maxSpeed = 16 } = options
+  // Keep the two zones from overlapping in short containers
+  const threshold = Math.min(options.threshold ?? 48, (viewport.bottom - viewport.top) / 2)
+  if (threshold <= 0) return 0
+
+  const fromTop = pointerY - viewport.top
+  if (fromTop < threshold) {
+    return -Math.round(maxSpeed * Math.min(1, (threshold - fromTop) / threshold))
+  }
+  const fromBottom = viewport.bottom - pointerY
+  if (fromBottom < threshold) {
+    return Math.round(maxSpeed * Math.min(1, (threshold - fromBottom) / threshold))
+  }
+  return 0
+}
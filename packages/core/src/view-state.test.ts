@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  createViewStatePersistence,
+  createMemoryStorageAdapter,
+  createWebStorageAdapter,
+  createIndexedDBAdapter,
+  type IDBFactoryLike,
+  type StorageLike,
+  type TreeViewState,
+  type ViewStateStorage,
+} from './view-state'
+
+const saved: TreeViewState = { expanded: { a: false, b: true }, selected: ['a1'], scroll: { top: 120, left: 0 } }
+
+function createStorageLike(): StorageLike & { items: Map<string, string> } {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+/** Storage whose reads resolve when `resolve` is called */
+function createDeferredStorage(state: TreeViewState | null) {
+  const inner = createMemoryStorageAdapter()
+  let resolve!: () => void
+  const loaded = new Promise<void>(r => { resolve = r })
+  const storage: ViewStateStorage = {
+    get: async () => {
+      await loaded
+      return state
+    },
+    set: (key, value) => inner.set(key, value),
+    remove: (key) => inner.remove(key),
+  }
+  return { storage, inner, resolve: async () => { resolve(); await loaded; await Promise.resolve() } }
+}
+
+/** Just enough IndexedDB for the adapter: one database with object stores as maps */
+function createFakeIndexedDB(): IDBFactoryLike {
+  const stores = new Map<string, Map<string, unknown>>()
+  const respond = <R>(result: R) => {
+    const req = { result, error: null, onsuccess: null as (() => void) | null, onerror: null as (() => void) | null }
+    queueMicrotask(() => req.onsuccess?.())
+    return req
+  }
+  const database = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => ({
+      objectStore: () => {
+        const store = stores.get(name)!
+        return {
+          get: (key: string) => respond(store.get(key)),
+          put: (value: unknown, key: string) => respond(store.set(key, structuredClone(value))),
+          delete: (key: string) => respond(store.delete(key)),
+        }
+      },
+    }),
+  }
+  return {
+    open: () => {
+      const req = {
+        result: database,
+        error: null,
+        onsuccess: null as (() => void) | null,
+        onerror: null as (() => void) | null,
+        onupgradeneeded: null as (() => void) | null,
+      }
+      queueMicrotask(() => {
+        req.onupgradeneeded?.()
+        req.onsuccess?.()
+      })
+      return req
+    },
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createViewStatePersistence', () => {
+  it('restores a synchronous storage right away', () => {
+    const storage = createMemoryStorageAdapter()
+    storage.set('tasks', saved)
+    const persistence = createViewStatePersistence({ treeId: 'tasks', storage })
+    const listener = vi.fn()
+
+    expect(persistence.isRestored()).toBe(true)
+    persistence.whenRestored(listener)
+    expect(listener).toHaveBeenCalledWith(saved)
+  })
+
+  it('writes changes after the write delay', () => {
+    const storage = createMemoryStorageAdapter()
+    const persistence = createViewStatePersistence({ treeId: 'tasks', storage, writeDelay: 100 })
+
+    persistence.save({ expanded: { a: false } })
+    persistence.save({ selected: ['b'] })
+    expect(storage.get('tasks')).toBeNull()
+
+    vi.advanceTimersByTime(100)
+    expect(storage.get('tasks')).toEqual({ expanded: { a: false }, selected: ['b'], scroll: null })
+  })
+
+  it('writes pending changes on flush', () => {
+    const storage = createMemoryStorageAdapter()
+    const persistence = createViewStatePersistence({ treeId: 'tasks', storage })
+    persistence.save({ scroll: { top: 10, left: 0 } })
+    persistence.flush()
+    expect(storage.get('tasks')).toMatchObject({ scroll: { top: 10, left: 0 } })
+  })
+
+  it('prunes ids of blocks that no longer exist', () => {
+    const storage = createMemoryStorageAdapter()
+    storage.set('tasks', saved)
+    const persistence = createViewStatePersistence({ treeId: 'tasks', storage })
+
+    persistence.prune(new Set())
+    expect(persistence.getState()).toEqual(saved)
+
+    persistence.prune(new Set(['b', 'x']))
+    persistence.flush()
+    expect(storage.get('tasks')).toEqual({ expanded: { b: true }, selected: [], scroll: saved.scroll })
+  })
+
+  it('keeps changes made while an asynchronous storage loads', async () => {
+    const { storage, inner, resolve } = createDeferredStorage(saved)
+    const persistence = createViewStatePersistence({ treeId: 'tasks', storage })
+    const listener = vi.fn()
+    persistence.whenRestored(listener)
+
+    persistence.save({ selected: ['b'] })
+    persistence.prune(new Set(['a', 'b']))
+    vi.advanceTimersByTime(1000)
+    expect(inner.get('tasks')).toBeNull()
+
+    await resolve()
+    expect(listener).toHaveBeenCalledWith({ expanded: { a: false, b: true }, selected: ['b'], scroll: saved.scroll })
+    vi.advanceTimersByTime(1000)
+    expect(inner.get('tasks')).toEqual(persistence.getState())
+  })
+
+  it('clears the stored state', () => {
+    const storage = createMemoryStorageAdapter()
+    storage.set('tasks', saved)
+    const persistence = createViewStatePersistence({ treeId: 'tasks', storage })
+    persistence.clear()
+    expect(storage.get('tasks')).toBeNull()
+    expect(persistence.getState()).toEqual({ expanded: {}, selected: [], scroll: null })
+  })
+
+  it('reports unreadable state and starts empty', () => {
+    const raw = createStorageLike()
+    raw.items.set('dnd-block-tree:tasks', '{oops')
+    const onError = vi.fn()
+    const persistence = createViewStatePersistence({ treeId: 'tasks', storage: createWebStorageAdapter(raw), onError })
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(persistence.isRestored()).toBe(true)
+    expect(persistence.getState().selected).toEqual([])
+  })
+})
+
+describe('createWebStorageAdapter', () => {
+  it('stores JSON under the prefixed key and drops malformed fields', () => {
+    const raw = createStorageLike()
+    const storage = createWebStorageAdapter(raw, { prefix: 'app:' })
+    storage.set('tasks', saved)
+    expect(JSON.parse(raw.items.get('app:tasks')!)).toEqual(saved)
+
+    raw.items.set('app:tasks', JSON.stringify({ expanded: { a: 'yes', b: false }, selected: ['a', 1], scroll: { top: 'x' } }))
+    expect(storage.get('tasks')).toEqual({ expanded: { b: false }, selected: ['a'], scroll: null })
+  })
+
+  it('stores nothing without a storage', () => {
+    const storage = createWebStorageAdapter(undefined)
+    storage.set('tasks', saved)
+    expect(storage.get('tasks')).toBeNull()
+  })
+})
+
+describe('createIndexedDBAdapter', () => {
+  it('round-trips state through an object store', async () => {
+    vi.useRealTimers()
+    const storage = createIndexedDBAdapter({ indexedDB: createFakeIndexedDB() })
+    expect(await storage.get('tasks')).toBeNull()
+    await storage.set('tasks', saved)
+    expect(await storage.get('tasks')).toEqual(saved)
+    await storage.remove('tasks')
+    expect(await storage.get('tasks')).toBeNull()
+  })
+
+  it('rejects without IndexedDB', async () => {
+    vi.useRealTimers()
+    const storage = createIndexedDBAdapter({ indexedDB: undefined })
+    await expect(storage.get('tasks')).rejects.toThrow(/IndexedDB is not available/)
+  })
+})
@@ -0,0 +1,366 @@
+import { EventEmitter } from './event-emitter'
+import { debounce } from './utils/helper'
+
+/** Scroll offset of a tree's scroll container, in px */
+export interface TreeScrollPosition {
+  top: number
+  left: number
+}
+
+/** What a tree looks like to the user, apart from its blocks */
+export interface TreeViewState {
+  /** Containers expanded (true) or collapsed (false) by id */
+  expanded: Record<string, boolean>
+  /** Selected block ids */
+  selected: string[]
+  /** Null until the tree has been scrolled */
+  scroll: TreeScrollPosition | null
+}
+
+/**
+ * Where view state is kept, by key. Methods may return promises, so
+ * asynchronous stores such as IndexedDB or a server work too.
+ */
+export interface ViewStateStorage {
+  get(key: string): TreeViewState | null | Promise<TreeViewState | null>
+  set(key: string, state: TreeViewState): void | Promise<void>
+  remove(key: string): void | Promise<void>
+}
+
+/** The subset of `localStorage` and `sessionStorage` that the web storage adapters use */
+export interface StorageLike {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+export interface WebStorageAdapterOptions {
+  /** Prepended to the tree id to form the storage key (default: 'dnd-block-tree:') */
+  prefix?: string
+}
+
+interface IDBRequestLike<R = unknown> {
+  readonly result: R
+  readonly error: unknown
+  onsuccess: (() => void) | null
+  onerror: (() => void) | null
+}
+
+interface IDBObjectStoreLike {
+  get(key: string): IDBRequestLike
+  put(value: unknown, key: string): IDBRequestLike
+  delete(key: string): IDBRequestLike
+}
+
+interface IDBDatabaseLike {
+  readonly objectStoreNames: { contains(name: string): boolean }
+  createObjectStore(name: string): unknown
+  transaction(storeName: string, mode: 'readonly' | 'readwrite'): { objectStore(name: string): IDBObjectStoreLike }
+}
+
+/** The subset of `indexedDB` that `createIndexedDBAdapter` uses */
+export interface IDBFactoryLike {
+  open(name: string, version?: number): IDBRequestLike<IDBDatabaseLike> & { onupgradeneeded: (() => void) | null }
+}
+
+export interface IndexedDBAdapterOptions {
+  /** Database name (default: 'dnd-block-tree') */
+  databaseName?: string
+  /** Object store the states are kept in, by tree id (default: 'view-state') */
+  storeName?: string
+  /** IndexedDB factory (default: the global `indexedDB`) */
+  indexedDB?: IDBFactoryLike
+}
+
+export interface ViewStatePersistenceOptions {
+  /** Key the state is stored under; give each tree its own */
+  treeId: string
+  /** Where the state is kept (default: `createLocalStorageAdapter()`) */
+  storage?: ViewStateStorage
+  /** Time to wait after the last change before writing, in ms (default: 250) */
+  writeDelay?: number
+  /** Called when reading or writing fails. The tree keeps working without persistence */
+  onError?: (error: unknown) => void
+}
+
+export interface ViewStatePersistence {
+  readonly treeId: string
+  /** The state as last restored or saved */
+  getState(): TreeViewState
+  /** Whether the stored state has been read; false while an asynchronous storage loads */
+  isRestored(): boolean
+  /**
+   * Call `listener` with the restored state: right away if the storage has
+   * been read, otherwise once it has. Returns an unsubscribe function.
+   */
+  whenRestored(listener: (state: TreeViewState) => void): () => void
+  /** Merge changes into the state and write it after `writeDelay` */
+  save(changes: Partial<TreeViewState>): void
+  /**
+   * Forget expanded and selected ids that are not in `blockIds`, e.g. the
+   * tree's `byId` map. Ignored while the tree is empty, since its blocks may
+   * not have loaded yet.
+   */
+  prune(blockIds: { has(id: string): boolean; readonly size: number }): void
+  /** Write pending changes now, e.g. before the page unloads */
+  flush(): void
+  /** Forget the state and remove it from the storage */
+  clear(): void
+}
+
+const DEFAULT_PREFIX = 'dnd-block-tree:'
+
+const emptyViewState = (): TreeViewState => ({ expanded: {}, selected: [], scroll: null })
+
+/** Read a stored value back into a view state, dropping anything malformed */
+function normalizeViewState(value: unknown): TreeViewState | null {
+  if (!value || typeof value !== 'object') return null
+  const raw = value as Record<string, unknown>
+  const state = emptyViewState()
+  if (raw.expanded && typeof raw.expanded === 'object') {
+    for (const [id, expanded] of Object.entries(raw.expanded as Record<string, unknown>)) {
+      if (typeof expanded === 'boolean') state.expanded[id] = expanded
+    }
+  }
+  if (Array.isArray(raw.selected)) {
+    state.selected = raw.selected.filter((id): id is string => typeof id === 'string')
+  }
+  const scroll = raw.scroll as Record<string, unknown> | null | undefined
+  if (scroll && typeof scroll.top === 'number' && typeof scroll.left === 'number') {
+    state.scroll = { top: scroll.top, left: scroll.left }
+  }
+  return state
+}
+
+/** Keep view state in a `Storage`-like store as JSON */
+export function createWebStorageAdapter(
+  storage: StorageLike | undefined,
+  options: WebStorageAdapterOptions = {}
+): ViewStateStorage {
+  const { prefix = DEFAULT_PREFIX } = options
+  return {
+    get: (key) => {
+      const json = storage?.getItem(prefix + key)
+      return json ? normalizeViewState(JSON.parse(json)) : null
+    },
+    set: (key, state) => storage?.setItem(prefix + key, JSON.stringify(state)),
+    remove: (key) => storage?.removeItem(prefix + key),
+  }
+}
+
+function getWebStorage(name: 'localStorage' | 'sessionStorage'): StorageLike | undefined {
+  try {
+    return (globalThis as unknown as Record<string, StorageLike | undefined>)[name]
+  } catch {
+    // Reading the property throws when storage is disabled
+    return undefined
+  }
+}
+
+/**
+ * Keep view state in `localStorage`, so it survives reloads and is shared by
+ * the tabs of an origin. Where `localStorage` is missing (e.g. during server
+ * rendering) nothing is stored.
+ */
+export function createLocalStorageAdapter(options?: WebStorageAdapterOptions): ViewStateStorage {
+  return createWebStorageAdapter(getWebStorage('localStorage'), options)
+}
+
+/** Keep view state in `sessionStorage`, so it survives reloads of the tab only */
+export function createSessionStorageAdapter(options?: WebStorageAdapterOptions): ViewStateStorage {
+  return createWebStorageAdapter(getWebStorage('sessionStorage'), options)
+}
+
+/** Keep view state in memory, e.g. in tests or to share it between trees of one page */
+export function createMemoryStorageAdapter(): ViewStateStorage {
+  const states = new Map<string, TreeViewState>()
+  return {
+    get: (key) => states.get(key) ?? null,
+    set: (key, state) => {
+      states.set(key, state)
+    },
+    remove: (key) => {
+      states.delete(key)
+    },
+  }
+}
+
+function request<R>(req: IDBRequestLike<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/**
+ * Keep view state in IndexedDB, for large trees or pages that already keep
+ * their data there. The state is restored asynchronously, so trees render
+ * with their initial expansion first.
+ */
+export function createIndexedDBAdapter(options: IndexedDBAdapterOptions = {}): ViewStateStorage {
+  const {
+    databaseName = 'dnd-block-tree',
+    storeName = 'view-state',
+    indexedDB = (globalThis as unknown as { indexedDB?: IDBFactoryLike }).indexedDB,
+  } = options
+
+  let database: Promise<IDBDatabaseLike> | null = null
+  const open = () => {
+    if (!indexedDB) return Promise.reject(new Error('IndexedDB is not available in this environment'))
+    if (!database) {
+      const req = indexedDB.open(databaseName, 1)
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(storeName)) req.result.createObjectStore(storeName)
+      }
+      database = request(req)
+    }
+    return database
+  }
+  const store = async (mode: 'readonly' | 'readwrite') =>
+    (await open()).transaction(storeName, mode).objectStore(storeName)
+
+  return {
+    get: async (key) => normalizeViewState(await request((await store('readonly')).get(key))),
+    set: async (key, state) => {
+      await request((await store('readwrite')).put(state, key))
+    },
+    remove: async (key) => {
+      await request((await store('readwrite')).delete(key))
+    },
+  }
+}
+
+const isPromise = <V>(value: V | Promise<V>): value is Promise<V> =>
+  typeof (value as { then?: unknown } | null)?.then === 'function'
+
+/**
+ * Persist a tree's expansion, selection and scroll position, so they are
+ * restored after a reload. Pass it to `createBlockTree`, `BlockTree` or a
+ * controller as `persistence`; they save changes through it and prune ids
+ * of deleted blocks.
+ *
+ * @example
+ * ```ts
+ * const persistence = createViewStatePersistence({ treeId: 'tasks' })
+ * const tree = createBlockTree({ initialBlocks, containerTypes, persistence })
+ * ```
+ */
+export function createViewStatePersistence(options: ViewStatePersistenceOptions): ViewStatePersistence {
+  const { treeId, storage = createLocalStorageAdapter(), writeDelay = 250, onError } = options
+
+  const emitter = new EventEmitter<{ restore: (state: TreeViewState) => void }>()
+  let state = emptyViewState()
+  let restored = false
+  // Changes saved while the storage loads; they win over the stored state
+  let unrestoredChanges: Partial<TreeViewState> = {}
+  let pendingPrune: { has(id: string): boolean; readonly size: number } | null = null
+  let dirty = false
+
+  const report = (error: unknown) => onError?.(error)
+
+  function write() {
+    dirty = false
+    try {
+      const result = storage.set(treeId, state)
+      if (isPromise(result)) result.catch(report)
+    } catch (error) {
+      report(error)
+    }
+  }
+  const scheduleWrite = debounce(write, writeDelay)
+
+  function markDirty() {
+    dirty = true
+    if (restored) scheduleWrite()
+  }
+
+  function pruneState(blockIds: { has(id: string): boolean }): boolean {
+    const expanded: Record<string, boolean> = {}
+    let changed = false
+    for (const [id, value] of Object.entries(state.expanded)) {
+      if (blockIds.has(id)) expanded[id] = value
+      else changed = true
+    }
+    const selected = state.selected.filter(id => blockIds.has(id))
+    if (selected.length !== state.selected.length) changed = true
+    if (changed) state = { ...state, expanded, selected }
+    return changed
+  }
+
+  function restore(stored: TreeViewState | null) {
+    state = { ...(stored ?? emptyViewState()), ...unrestoredChanges }
+    unrestoredChanges = {}
+    restored = true
+    if (pendingPrune && pruneState(pendingPrune)) dirty = true
+    pendingPrune = null
+    if (dirty) scheduleWrite()
+    emitter.emit('restore', state)
+  }
+
+  try {
+    const stored = storage.get(treeId)
+    if (isPromise(stored)) {
+      stored.then(restore, (error) => {
+        report(error)
+        restore(null)
+      })
+    } else {
+      restore(stored)
+    }
+  } catch (error) {
+    report(error)
+    restore(null)
+  }
+
+  return {
+    treeId,
+    getState: () => state,
+    isRestored: () => restored,
+
+    whenRestored: (listener) => {
+      if (restored) {
+        listener(state)
+        return () => {}
+      }
+      const off = emitter.on('restore', (restoredState) => {
+        off()
+        listener(restoredState)
+      })
+      return off
+    },
+
+    save: (changes) => {
+      state = { ...state, ...changes }
+      if (!restored) unrestoredChanges = { ...unrestoredChanges, ...changes }
+      markDirty()
+    },
+
+    prune: (blockIds) => {
+      if (blockIds.size === 0) return
+      if (!restored) {
+        pendingPrune = blockIds
+        return
+      }
+      if (pruneState(blockIds)) markDirty()
+    },
+
+    flush: () => {
+      if (!restored || !dirty) return
+      scheduleWrite.cancel()
+      write()
+    },
+
+    clear: () => {
+      scheduleWrite.cancel()
+      dirty = false
+      state = emptyViewState()
+      unrestoredChanges = {}
+      try {
+        const result = storage.remove(treeId)
+        if (isPromise(result)) result.catch(report)
+      } catch (error) {
+        report(error)
+      }
+    },
+  }
+}
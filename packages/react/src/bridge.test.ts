@@ -116,4 +116,44 @@ describe('adaptCollisionDetection', () => {
     expect(data.left).toBe(10)
     expect(data.droppableContainer).toBe(container)
   })
+
+  it('reports a winning virtual candidate out of band', () => {
+    const onVirtualCollision = vi.fn()
+    const coreDetector: CoreCollisionDetection = vi.fn((candidates) => [
+      { id: candidates[candidates.length - 1].id, value: 0, left: 0 },
+    ])
+    const detect = adaptCollisionDetection(coreDetector, {
+      getVirtualCandidates: () => [
+        { id: 'z1', rect: { top: 0, left: 0, width: 100, height: 4, right: 100, bottom: 4 } },
+        { id: 'before-far', rect: { top: 900, left: 0, width: 100, height: 4, right: 100, bottom: 904 } },
+      ],
+      onVirtualCollision,
+    })
+    const container = makeContainer('z1', { top: 0, left: 0, width: 100, height: 50 })
+
+    const result = detect({
+      droppableContainers: [container],
+      collisionRect: { top: 900, left: 0, width: 1, height: 1 },
+    } as any)
+
+    // Mounted droppables are not duplicated by virtual candidates
+    expect((coreDetector as any).mock.calls[0][0].map((c: { id: string }) => c.id)).toEqual(['z1', 'before-far'])
+    expect(result).toEqual([])
+    expect(onVirtualCollision).toHaveBeenCalledWith('before-far')
+  })
+
+  it('clears the virtual collision when a droppable wins', () => {
+    const onVirtualCollision = vi.fn()
+    const coreDetector: CoreCollisionDetection = vi.fn(() => [{ id: 'z1', value: 0, left: 0 }])
+    const detect = adaptCollisionDetection(coreDetector, { getVirtualCandidates: () => [], onVirtualCollision })
+    const container = makeContainer('z1', { top: 0, left: 0, width: 100, height: 50 })
+
+    const result = detect({
+      droppableContainers: [container],
+      collisionRect: { top: 0, left: 0, width: 1, height: 1 },
+    } as any)
+
+    expect(result[0].id).toBe('z1')
+    expect(onVirtualCollision).toHaveBeenCalledWith(null)
+  })
 })
@@ -6,6 +6,20 @@ import type {
   SnapshotRectsRef,
 } from '@dnd-block-tree/core'
 
+export interface AdaptCollisionOptions {
+  /**
+   * Extra candidates with no droppable behind them, e.g. drop zones
+   * synthesized for rows a virtualized list has not rendered
+   */
+  getVirtualCandidates?: () => CollisionCandidate[]
+  /**
+   * Called with the winning virtual candidate, or null when a droppable wins.
+   * dnd-kit cannot report a zone it does not know, so a virtual winner makes
+   * the detector return no collision
+   */
+  onVirtualCollision?: (id: string | null) => void
+}
+
 /**
  * Adapt a framework-agnostic CoreCollisionDetection into a dnd-kit CollisionDetection.
  *
@@ -16,7 +30,10 @@ import type {
  */
 export function adaptCollisionDetection(
   coreDetector: CoreCollisionDetection,
+  options: AdaptCollisionOptions = {},
 ): CollisionDetection {
+  const { getVirtualCandidates, onVirtualCollision } = options
+
   return ({ droppableContainers, collisionRect }) => {
     if (!collisionRect) return []
 
@@ -38,6 +55,17 @@ export function adaptCollisionDetection(
       })
     }
 
+    // Virtual candidates only stand in for zones that are not mounted
+    const virtualIds = new Set<string>()
+    if (getVirtualCandidates) {
+      const mountedIds = new Set(candidates.map(c => c.id))
+      for (const candidate of getVirtualCandidates()) {
+        if (mountedIds.has(candidate.id)) continue
+        virtualIds.add(candidate.id)
+        candidates.push(candidate)
+      }
+    }
+
     // Convert dnd-kit collision rect to core Rect
     const pointerRect: Rect = {
       top: collisionRect.top,
@@ -51,6 +79,12 @@ export function adaptCollisionDetection(
     // Call core detector
     const results = coreDetector(candidates, pointerRect)
 
+    if (onVirtualCollision) {
+      const virtualWinner = results.length > 0 && virtualIds.has(results[0].id) ? results[0].id : null
+      onVirtualCollision(virtualWinner)
+      if (virtualWinner) return []
+    }
+
     // Convert results back to dnd-kit CollisionDescriptors
     return results.map(result => {
       const container = droppableContainers.find(c => String(c.id) === result.id)
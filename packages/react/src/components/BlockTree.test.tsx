@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, fireEvent, waitFor } from '@testing-library/react'
+import { useState } from 'react'
+import type { BaseBlock, BlockAddEvent, BlockDeleteEvent } from '@dnd-block-tree/core'
+import { BlockTree } from './BlockTree'
+import type { BlockRenderers } from '../types'
+
+interface TestBlock extends BaseBlock {
+  type: 'section' | 'item'
+  title: string
+}
+
+const renderers: BlockRenderers<TestBlock, ['section']> = {
+  section: ({ block, children }) => <div>{block.title}{children}</div>,
+  item: ({ block }) => <div>{block.title}</div>,
+}
+
+// s (section): a
+// b
+const initialBlocks: TestBlock[] = [
+  { id: 's', type: 'section', parentId: null, order: 0, title: 'S' },
+  { id: 'a', type: 'item', parentId: 's', order: 0, title: 'A' },
+  { id: 'b', type: 'item', parentId: null, order: 1, title: 'B' },
+]
+
+function renderTree() {
+  const onBlockAdd = vi.fn<(event: BlockAddEvent<TestBlock>) => void>()
+  const onBlockDelete = vi.fn<(event: BlockDeleteEvent<TestBlock>) => void>()
+  function Tree() {
+    const [blocks, setBlocks] = useState(initialBlocks)
+    return (
+      <BlockTree
+        blocks={blocks}
+        renderers={renderers}
+        containerTypes={['section']}
+        onChange={setBlocks}
+        clipboard
+        onBlockAdd={onBlockAdd}
+        onBlockDelete={onBlockDelete}
+      />
+    )
+  }
+  const { container } = render(<Tree />)
+  const press = (id: string, key: string) => {
+    fireEvent.keyDown(container.querySelector(`[data-block-id="${id}"]`)!, { key, ctrlKey: true })
+  }
+  return { press, onBlockAdd, onBlockDelete }
+}
+
+describe('BlockTree clipboard shortcuts', () => {
+  it('reports cut blocks to onBlockDelete', () => {
+    const { press, onBlockDelete } = renderTree()
+
+    press('s', 'x')
+    expect(onBlockDelete).toHaveBeenCalledTimes(1)
+    expect(onBlockDelete.mock.calls[0][0]).toMatchObject({ block: { id: 's' }, parentId: null })
+    expect(onBlockDelete.mock.calls[0][0].deletedIds).toEqual(expect.arrayContaining(['s', 'a']))
+  })
+
+  it('reports pasted and duplicated blocks to onBlockAdd', async () => {
+    const { press, onBlockAdd } = renderTree()
+
+    press('b', 'd')
+    expect(onBlockAdd).toHaveBeenCalledTimes(1)
+    expect(onBlockAdd.mock.calls[0][0]).toMatchObject({ block: { type: 'item', title: 'B' }, parentId: null, index: 2 })
+
+    press('a', 'c')
+    press('b', 'v')
+    await waitFor(() => expect(onBlockAdd).toHaveBeenCalledTimes(2))
+    expect(onBlockAdd.mock.calls[1][0]).toMatchObject({ block: { type: 'item', title: 'A' }, parentId: null, index: 2 })
+  })
+})
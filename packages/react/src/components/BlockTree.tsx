@@ -1,6 +1,6 @@
 'use client'
 
-import { useCallback, useRef, useReducer, useMemo, useEffect, useState, type ReactNode, type KeyboardEvent } from 'react'
+import { useCallback, useId, useRef, useReducer, useMemo, useEffect, useState, type ReactNode, type KeyboardEvent } from 'react'
 import {
   DndContext,
   DragStartEvent as DndKitDragStartEvent,
@@ -8,10 +8,14 @@ import {
   DragOverEvent,
   DragMoveEvent as DndKitDragMoveEvent,
   DragCancelEvent,
+  type CollisionDetection,
 } from '@dnd-kit/core'
+import { getEventCoordinates } from '@dnd-kit/utilities'
 import type {
   BaseBlock,
   BlockIndex,
+  BlockClipboardPayload,
+  PasteBlocksResult,
   BlockTreeCallbacks,
   BlockPosition,
   DragStartEvent,
@@ -19,28 +23,78 @@ import type {
   DragEndEvent,
   BlockMoveEvent,
   MoveOperation,
+  KeyboardMoveDirection,
+  Announcements,
+  AnnouncementEvent,
   ExpandChangeEvent,
   HoverChangeEvent,
   DropZoneType,
   Rect,
   SnapshotRectsRef,
+  GetZoneLayout,
+  CoreCollisionDetection,
+  CollisionRecorder,
+  DragGroup,
+  DragGroupMember,
+  AutoScrollOptions,
+  Presence,
+  PeerPresence,
+  PresencePointer,
+  ViewStatePersistence,
+  BlockFilterQuery,
+  BlockFilterOptions,
 } from '@dnd-block-tree/core'
 import {
   getDropZoneType,
   extractBlockId,
   createStickyCollision,
+  createOffsetDepthCollision,
   computeNormalizedIndex,
   reparentBlockIndex,
   reparentMultipleBlocks,
+  getBlockDepth,
+  getZoneDepth,
+  getSubtreeDepth,
+  getZoneLayout,
+  scoreCollisionCandidates,
+  getSchemaContainerTypes,
+  isZoneAllowed as isSchemaZoneAllowed,
   buildOrderedBlocks,
+  deleteBlockAndDescendants,
+  copyBlockSubtrees,
+  pasteBlockSubtrees,
+  insertBlockSubtrees,
+  writeSystemClipboard,
+  readSystemClipboard,
+  canReceiveBlocks,
+  getZonePosition,
+  getDescendantIds,
+  getKeyboardDropZones,
+  getKeyboardMoveZone,
+  resolveAnnouncements,
+  getAnnouncement,
+  getVirtualZoneRects,
+  getPresenceOverlay,
+  getBlockPermissions,
+  getBlockLockState,
+  isZoneUnlocked,
+  filterBlockTree,
+  getFilteredIndex,
+  getFilteredExpandedMap,
+  mapFilteredZone,
   debounce,
+  generateId,
 } from '@dnd-block-tree/core'
 import type { BlockRenderers, InternalRenderers, BlockTreeCustomization } from '../types'
 import { useConfiguredSensors } from '../hooks/useConfiguredSensors'
+import { useVirtualTree } from '../hooks/useVirtualTree'
+import { useAutoScroll } from '../hooks/useAutoScroll'
 import { adaptCollisionDetection } from '../bridge'
 import { triggerHaptic } from '../utils/haptic'
 import { TreeRenderer } from './TreeRenderer'
 import { DragOverlay } from './DragOverlay'
+import { LiveRegion } from './LiveRegion'
+import { RemoteCursors } from './RemoteCursors'
 
 export interface BlockTreeProps<
   T extends BaseBlock,
@@ -72,19 +126,102 @@ export interface BlockTreeProps<
   showDropPreview?: boolean
   /** Enable keyboard navigation with arrow keys (default: false) */
   keyboardNavigation?: boolean
+  /**
+   * Enable keyboard moves (requires `keyboardNavigation`): Alt+Up/Down to
+   * reorder, Tab/Shift+Tab or Alt+Right/Left to indent/outdent, and Space to
+   * pick up the focused block, walk drop zones with Up/Down and drop with
+   * Space or Enter. Escape cancels (default: false)
+   */
+  keyboardMoves?: boolean
+  /**
+   * Enable Cmd/Ctrl+C/X/V/D to copy, cut, paste and duplicate the focused
+   * block (or the selection) with its descendants. Uses the system clipboard
+   * when available, so subtrees can be pasted between tabs (default: false)
+   */
+  clipboard?: boolean
+  /**
+   * Screen reader messages for drag start, hover target, drop and cancel,
+   * spoken through a visually hidden live region. Override any template, or
+   * pass `false` to turn the announcer off (default: built-in messages)
+   */
+  announcements?: Partial<Announcements<T>> | false
   /** Enable multi-select with Cmd/Ctrl+Click and Shift+Click (default: false) */
   multiSelect?: boolean
   /** Externally-controlled selected IDs (for multi-select) */
   selectedIds?: Set<string>
   /** Called when selection changes (for multi-select) */
   onSelectionChange?: (selectedIds: Set<string>) => void
-  /** Enable virtual scrolling for large trees (fixed item height only) */
+  /**
+   * Enable virtual scrolling for large trees. With `itemHeight` every visible
+   * block is assumed to be that tall; without it top-level blocks are
+   * measured, so they can have any height
+   */
   virtualize?: {
-    /** Fixed height of each item in pixels */
-    itemHeight: number
+    /** Fixed height of each item in pixels. Omit to measure blocks */
+    itemHeight?: number
+    /** Height assumed for blocks that have not been measured yet (default: 40) */
+    estimatedItemHeight?: number
     /** Number of extra items to render outside the visible range (default: 5) */
     overscan?: number
+    /**
+     * Scroll the list while dragging near its top or bottom edge. Pass
+     * options to tune the edge zone and speed, or `false` to turn it off
+     * (default: on)
+     */
+    autoScroll?: AutoScrollOptions | false
   }
+  /**
+   * Share this tree's drags with other peers and show theirs: a ghost where
+   * each remote drag would drop, its block locked, the hovered zone in the
+   * peer's color and the peer's pointer (see `createPresence`)
+   */
+  presence?: Presence
+  /**
+   * Record every collision detection call of the built-in detectors, for the
+   * DevTools collision inspector or a replay in a test (see
+   * `createCollisionRecorder`). A custom `collisionDetection` is not recorded
+   */
+  collisionRecorder?: CollisionRecorder
+  /**
+   * Let blocks be dragged between this tree and the other trees registered
+   * with the same group (see `createDragGroup`). Dropped blocks keep their ids
+   */
+  dragGroup?: DragGroup<T>
+  /** Identifies this tree in its drag group's transfers (default: a generated id) */
+  treeId?: string
+  /**
+   * Restore the expansion, selection and scroll position saved for this tree,
+   * and save their changes (see `createViewStatePersistence`). The scroll
+   * position is the root element's, so give it a height and overflow unless
+   * `virtualize` is on. Selection changes are saved as the tree makes them
+   */
+  persistence?: ViewStatePersistence
+  /**
+   * Show only the blocks this text or test matches, with their ancestors
+   * expanded (see `filterBlockTree`). Renderers get the text matches as
+   * `matchRanges`. Expanding and collapsing while filtering changes the
+   * filtered view only. Memoize a test function, since a new one resets it
+   */
+  filter?: BlockFilterQuery<T> | null
+  /** Fields to search, case sensitivity and whether to show descendants of matches */
+  filterOptions?: BlockFilterOptions
+}
+
+// dnd-kit's own live region would announce raw zone ids on top of ours
+const silentDndKitAnnouncements = {
+  onDragStart: () => undefined,
+  onDragOver: () => undefined,
+  onDragEnd: () => undefined,
+  onDragCancel: () => undefined,
+}
+
+interface KeyboardDragState {
+  id: string
+  from: BlockPosition
+  /** Valid drop zones in visual order */
+  zones: string[]
+  /** Current target in `zones`; -1 means the original position */
+  zoneIndex: number
 }
 
 interface InternalState<T extends BaseBlock> {
@@ -137,6 +274,14 @@ function computeInitialExpanded<T extends BaseBlock>(
   return expandedMap
 }
 
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable
+    || target.tagName === 'INPUT'
+    || target.tagName === 'TEXTAREA'
+    || target.tagName === 'SELECT'
+}
+
 function getVisibleBlockIds<T extends BaseBlock>(
   blocksByParent: Map<string | null, T[]>,
   containerTypes: readonly string[],
@@ -160,7 +305,11 @@ export function BlockTree<
 >({
   blocks,
   renderers,
-  containerTypes = [] as unknown as C,
+  schema,
+  locks,
+  userId,
+  layouts,
+  containerTypes = (schema ? getSchemaContainerTypes(schema) : []) as unknown as C,
   onChange,
   dragOverlay,
   activationDistance = 8,
@@ -183,16 +332,31 @@ export function BlockTree<
   canDrag,
   canDrop,
   collisionDetection,
+  offsetDepth,
   sensors: sensorConfig,
   animation,
   initialExpanded,
   orderingStrategy = 'integer',
+  fractionalKeys,
   maxDepth,
+  idGenerator = generateId,
   keyboardNavigation = false,
+  keyboardMoves = false,
+  clipboard = false,
+  announcements,
   multiSelect = false,
   selectedIds: externalSelectedIds,
   onSelectionChange,
   virtualize,
+  presence,
+  collisionRecorder,
+  dragGroup,
+  treeId,
+  persistence,
+  filter,
+  filterOptions,
+  onBlockAdd,
+  onBlockDelete,
 }: BlockTreeProps<T, C>) {
   const sensors = useConfiguredSensors({
     activationDistance: sensorConfig?.activationDistance ?? activationDistance,
@@ -201,8 +365,12 @@ export function BlockTree<
     longPressDelay: sensorConfig?.longPressDelay,
   })
 
+  // A synchronous storage is restored on the first render, so saved expansion doesn't flash
   const initialExpandedMap = useMemo(
-    () => computeInitialExpanded(blocks, containerTypes, initialExpanded),
+    () => ({
+      ...computeInitialExpanded(blocks, containerTypes, initialExpanded),
+      ...(persistence?.isRestored() ? persistence.getState().expanded : undefined),
+    }),
     // eslint-disable-next-line react-hooks/exhaustive-deps
     []
   )
@@ -225,10 +393,40 @@ export function BlockTree<
   const snapshotRectsRef = useRef<Map<string, Rect> | null>(null) as SnapshotRectsRef
   const needsResnapshot = useRef(false)
 
+  // With virtualize, rows outside the rendered window have no drop zones.
+  // Their zones are synthesized from the layout and reported by the
+  // collision detector out of band, since dnd-kit only knows mounted droppables.
+  const virtualZoneRectsRef = useRef<Map<string, Rect> | null>(null)
+  const getVirtualZoneRectsRef = useRef<() => Map<string, Rect> | null>(() => null)
+  const virtualOverRef = useRef<string | null>(null)
+
+  const adaptOptions = {
+    getVirtualCandidates: () => [...(virtualZoneRectsRef.current ?? [])].map(([id, rect]) => ({ id, rect })),
+    onVirtualCollision: (id: string | null) => {
+      virtualOverRef.current = id
+    },
+  }
+  // Layout of each zone's list, so zones between horizontal and grid children are measured sideways
+  const zoneLayoutRef = useRef<GetZoneLayout>(() => 'vertical')
+  // Read at detection time, so the recorder can be swapped between renders
+  const collisionRecorderRef = useRef(collisionRecorder)
+  collisionRecorderRef.current = collisionRecorder
+  const recordable = (detector: CoreCollisionDetection): CoreCollisionDetection => (candidates, pointerRect) => {
+    const recorder = collisionRecorderRef.current
+    if (!recorder) return detector(candidates, pointerRect)
+    return recorder.wrap(detector, {
+      snapshotRef: snapshotRectsRef,
+      score: (scored, pointer) => scoreCollisionCandidates(scored, pointer, zoneLayoutRef.current),
+    })(candidates, pointerRect)
+  }
   // Sticky collision with hysteresis (core's createStickyCollision adapted to dnd-kit)
-  const stickyCollisionRef = useRef(
-    adaptCollisionDetection(createStickyCollision(20, snapshotRectsRef))
-  )
+  const stickyCollisionRef = useRef(adaptCollisionDetection(
+    recordable(createStickyCollision(20, snapshotRectsRef, zoneId => zoneLayoutRef.current(zoneId))),
+    adaptOptions
+  ))
+  // With offsetDepth, the level comes from the drag's sideways offset instead
+  const offsetDepthRef = useRef(createOffsetDepthCollision(typeof offsetDepth === 'object' ? offsetDepth : {}, snapshotRectsRef))
+  const offsetCollisionRef = useRef(adaptCollisionDetection(recordable(offsetDepthRef.current), adaptOptions))
   // Keep a direct ref to the core detector for reset
   const coreStickyRef = useRef(createStickyCollision(20, snapshotRectsRef))
 
@@ -243,6 +441,7 @@ export function BlockTree<
       if (id) map.set(id, el.getBoundingClientRect())
     })
     snapshotRectsRef.current = map
+    virtualZoneRectsRef.current = getVirtualZoneRectsRef.current()
   }, [])
 
   const [, forceRender] = useReducer((x: number) => x + 1, 0)
@@ -270,13 +469,78 @@ export function BlockTree<
     [blocks, orderingStrategy]
   )
 
+  zoneLayoutRef.current = zoneId => (layouts ? getZoneLayout(originalIndex, layouts, zoneId) : 'vertical')
+
+  // --- Filtering ---
+  const filterResult = useMemo(
+    () => (filter != null ? filterBlockTree(originalIndex, filter, filterOptions) : null),
+    [originalIndex, filter, filterOptions]
+  )
+
+  // Expansion changed while filtering; a new filter starts from its ancestors expanded
+  const filterExpandedRef = useRef<Record<string, boolean>>({})
+  const lastFilterRef = useRef(filter)
+  if (lastFilterRef.current !== filter) {
+    lastFilterRef.current = filter
+    filterExpandedRef.current = {}
+  }
+
+  const viewExpandedMap = useMemo(
+    () => filterResult
+      ? { ...getFilteredExpandedMap(stateRef.current.expandedMap, filterResult), ...filterExpandedRef.current }
+      : stateRef.current.expandedMap,
+    [filterResult, stateRef.current.expandedMap, filterExpandedRef.current]
+  )
+
   const blocksByParent = useMemo(() => {
+    const index = filterResult ? getFilteredIndex(originalIndex, filterResult) : originalIndex
     const map = new Map<string | null, T[]>()
-    for (const [parentId, ids] of originalIndex.byParent.entries()) {
-      map.set(parentId, ids.map(id => originalIndex.byId.get(id)!).filter(Boolean))
+    for (const [parentId, ids] of index.byParent.entries()) {
+      map.set(parentId, ids.map(id => index.byId.get(id)!).filter(Boolean))
     }
     return map
-  }, [originalIndex])
+  }, [originalIndex, filterResult])
+
+  // --- Screen reader announcements ---
+  const resolvedAnnouncements = useMemo(
+    () => (announcements === false ? null : resolveAnnouncements(announcements)),
+    [announcements]
+  )
+  const [liveMessage, setLiveMessage] = useState('')
+
+  const announce = useCallback((
+    event: AnnouncementEvent,
+    index: BlockIndex<T>,
+    blockId: string,
+    targetZone: string | null = null
+  ) => {
+    if (!resolvedAnnouncements) return
+    const message = getAnnouncement(resolvedAnnouncements, event, index, blockId, {
+      targetZone,
+      count: Math.max(1, draggedIdsRef.current.length),
+    })
+    // Screen readers skip unchanged text, so alternate a trailing no-break space
+    if (message) setLiveMessage(prev => (prev === message ? `${message}\u00a0` : message))
+  }, [resolvedAnnouncements])
+
+  // --- Presence ---
+  const [remotePeers, setRemotePeers] = useState<PeerPresence[]>([])
+  const pointerRef = useRef<PresencePointer | null>(null)
+
+  useEffect(() => {
+    if (!presence) return
+    setRemotePeers(presence.getPeers())
+    const off = presence.on('change', setRemotePeers)
+    return () => {
+      off()
+      presence.setDragState(null)
+    }
+  }, [presence])
+
+  const presenceOverlay = useMemo(
+    () => (presence ? getPresenceOverlay(originalIndex, remotePeers) : null),
+    [presence, originalIndex, remotePeers]
+  )
 
   // --- Keyboard navigation ---
   const focusedIdRef = useRef<string | null>(null)
@@ -289,16 +553,19 @@ export function BlockTree<
   )
   const selectedIds = externalSelectedIds ?? internalSelectedIds
   const setSelectedIds = useCallback((ids: Set<string>) => {
+    persistence?.save({ selected: [...ids] })
     if (onSelectionChange) {
       onSelectionChange(ids)
     } else {
       setInternalSelectedIds(ids)
     }
-  }, [onSelectionChange])
+  }, [onSelectionChange, persistence])
+  const setSelectedIdsRef = useRef(setSelectedIds)
+  setSelectedIdsRef.current = setSelectedIds
 
   const visibleBlockIds = useMemo(
-    () => getVisibleBlockIds(blocksByParent, containerTypes, stateRef.current.expandedMap),
-    [blocksByParent, containerTypes, stateRef.current.expandedMap]
+    () => getVisibleBlockIds(blocksByParent, containerTypes, viewExpandedMap),
+    [blocksByParent, containerTypes, viewExpandedMap]
   )
 
   const focusBlock = useCallback((id: string | null) => {
@@ -311,10 +578,394 @@ export function BlockTree<
   }, [])
 
   const toggleExpandRef = useRef<(id: string) => void>(() => {})
+  const hoverRef = useRef<(zoneId: string, parentId: string | null) => void>(() => {})
+
+  // --- Clipboard ---
+  const clipboardRef = useRef<BlockClipboardPayload<T> | null>(null)
+  const latestIndexRef = useRef(originalIndex)
+  latestIndexRef.current = originalIndex
+
+  // --- View state persistence ---
+  useEffect(() => {
+    if (!persistence) return
+    const off = persistence.whenRestored(({ expanded, selected, scroll }) => {
+      stateRef.current.expandedMap = { ...stateRef.current.expandedMap, ...expanded }
+      const restoredIds = selected.filter(id => latestIndexRef.current.byId.has(id))
+      if (restoredIds.length > 0) setSelectedIdsRef.current(new Set(restoredIds))
+      if (scroll && rootRef.current) {
+        rootRef.current.scrollTop = scroll.top
+        rootRef.current.scrollLeft = scroll.left
+      }
+      forceRender()
+    })
+    return () => {
+      off()
+      persistence.flush()
+    }
+  }, [persistence])
+
+  useEffect(() => {
+    persistence?.prune(originalIndex.byId)
+  }, [persistence, originalIndex])
+
+  const handlePersistedScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    const el = event.currentTarget
+    persistence?.save({ scroll: { top: el.scrollTop, left: el.scrollLeft } })
+  }, [persistence])
+
+  const commitIndex = useCallback((index: BlockIndex<T>) => {
+    onChange?.(buildOrderedBlocks(index, containerTypes, orderingStrategy))
+  }, [onChange, containerTypes, orderingStrategy])
+
+  /** Whether `locks` let the local user move a block */
+  const canMoveBlock = useCallback((id: string): boolean => {
+    return !locks || getBlockPermissions(originalIndex, locks, id, userId).canMove
+  }, [locks, userId, originalIndex])
+
+  const getLockState = useCallback((id: string) => getBlockLockState(originalIndex, locks ?? {}, id, userId), [locks, userId, originalIndex])
+
+  // --- Drag group ---
+  const generatedTreeId = useId()
+  const groupTreeId = treeId ?? generatedTreeId
+  const dragGroupRef = useRef(dragGroup)
+  dragGroupRef.current = dragGroup
+  const [incomingZone, setIncomingZone] = useState<string | null>(null)
+
+  // Registered once; its methods are refreshed every render so the group sees the latest blocks and options
+  const groupMemberRef = useRef({} as DragGroupMember<T>)
+  Object.assign(groupMemberRef.current, {
+    id: groupTreeId,
+    getBlockIndex: () => latestIndexRef.current,
+    getRect: () => rootRef.current?.getBoundingClientRect() ?? null,
+    getZoneRects: () => {
+      const rects = new Map<string, Rect>()
+      rootRef.current?.querySelectorAll('[data-zone-id]').forEach(el => {
+        rects.set(el.getAttribute('data-zone-id')!, el.getBoundingClientRect())
+      })
+      for (const [id, rect] of getVirtualZoneRectsRef.current() ?? []) {
+        if (!rects.has(id)) rects.set(id, rect)
+      }
+      return rects
+    },
+    getLayout: zoneId => zoneLayoutRef.current(zoneId),
+    canReceive: (zoneId, dropped) => canReceiveBlocks(latestIndexRef.current, zoneId, dropped, { schema, locks, userId }),
+    canRelease: ids => !locks || ids.every(id => getBlockPermissions(latestIndexRef.current, locks, id, userId).canDelete),
+    receive: (payload, { targetZone }) => {
+      const index = latestIndexRef.current
+      const to = getZonePosition(index, targetZone)
+      const result = to && insertBlockSubtrees(index, payload, to, {
+        containerTypes, orderingStrategy, maxDepth, schema, keyOptions: fractionalKeys,
+      })
+      if (!result) return []
+      latestIndexRef.current = result.index
+      commitIndex(result.index)
+      const roots = result.rootIds.map(id => result.index.byId.get(id)!)
+      roots.forEach((block, i) => onBlockAdd?.({ block, parentId: result.to.parentId, index: result.to.index + i }))
+      return roots
+    },
+    release: ({ blockIds }) => {
+      let index = latestIndexRef.current
+      const deleted = blockIds.flatMap(id => {
+        const block = index.byId.get(id)
+        if (!block) return []
+        const deletedIds = [...getDescendantIds(index, id)]
+        index = deleteBlockAndDescendants(index, id)
+        return [{ block, deletedIds, parentId: block.parentId }]
+      })
+      latestIndexRef.current = index
+      commitIndex(index)
+      deleted.forEach(event => onBlockDelete?.(event))
+    },
+  } satisfies DragGroupMember<T>)
+
+  useEffect(() => {
+    if (!dragGroup) return
+    const unregister = dragGroup.register(groupMemberRef.current)
+    const off = dragGroup.on('change', drag => {
+      setIncomingZone(drag?.targetId === groupTreeId ? drag.targetZone : null)
+    })
+    return () => {
+      off()
+      unregister()
+      setIncomingZone(null)
+    }
+  }, [dragGroup, groupTreeId])
+
+  /** Whether the pointer is over another tree of the drag group, which takes the drop */
+  const isOverOtherTree = () => !!dragGroupRef.current?.getDrag()?.targetId
+
+  /** Report the top-level blocks of each paste to onBlockAdd, looked up in the committed index */
+  const reportAdded = useCallback((index: BlockIndex<T>, results: PasteBlocksResult<T>[]) => {
+    for (const result of results) {
+      result.rootIds.forEach((id, i) => onBlockAdd?.({ block: index.byId.get(id)!, parentId: result.to.parentId, index: result.to.index + i }))
+    }
+  }, [onBlockAdd])
+
+  const handleClipboardKey = useCallback((event: KeyboardEvent<HTMLDivElement>): boolean => {
+    if (isEditableTarget(event.target)) return false
+    const key = event.key.toLowerCase()
+    if (key !== 'c' && key !== 'x' && key !== 'v' && key !== 'd') return false
+
+    const targetEl = (event.target as HTMLElement).closest?.('[data-block-id]')
+    const focusedId = targetEl?.getAttribute('data-block-id') ?? focusedIdRef.current
+    const ids = !focusedId ? []
+      : multiSelect && selectedIds.has(focusedId) ? visibleBlockIds.filter(id => selectedIds.has(id))
+      : [focusedId]
+    // Nothing to copy and nothing to paste: leave the key to the browser
+    if (ids.length === 0 && (key !== 'v' || !clipboardRef.current)) return false
+
+    const pasteOptions = { idGenerator, containerTypes, orderingStrategy, maxDepth, schema, keyOptions: fractionalKeys }
+    // Pasted and duplicated blocks land after their target, among its siblings
+    const canPasteAfter = (index: BlockIndex<T>, id: string | null) =>
+      !locks || !id || isZoneUnlocked(index, locks, `after-${id}`, userId)
+
+    event.preventDefault()
+    switch (key) {
+      case 'c':
+      case 'x': {
+        if (ids.length === 0) break
+        const payload = copyBlockSubtrees(originalIndex, ids)
+        if (payload.blocks.length === 0) break
+        if (key === 'x' && locks && !payload.blocks.every(root => getBlockPermissions(originalIndex, locks, root.id, userId).canDelete)) break
+        clipboardRef.current = payload
+        void writeSystemClipboard(payload)
+        if (key === 'x') {
+          let index = originalIndex
+          const deleted = payload.blocks.map(root => {
+            const block = originalIndex.byId.get(root.id)!
+            const deletedIds = [...getDescendantIds(index, root.id)]
+            index = deleteBlockAndDescendants(index, root.id)
+            return { block, deletedIds, parentId: block.parentId }
+          })
+          commitIndex(index)
+          deleted.forEach(event => onBlockDelete?.(event))
+        }
+        break
+      }
+      case 'v': {
+        void readSystemClipboard<T>().then(systemPayload => {
+          const payload = systemPayload ?? clipboardRef.current
+          if (!payload || !canPasteAfter(latestIndexRef.current, focusedId)) return
+          const result = pasteBlockSubtrees(latestIndexRef.current, payload, focusedId, 'after', pasteOptions)
+          if (!result) return
+          commitIndex(result.index)
+          reportAdded(result.index, [result])
+        })
+        break
+      }
+      case 'd': {
+        const payload = copyBlockSubtrees(originalIndex, ids)
+        let index = originalIndex
+        const results: PasteBlocksResult<T>[] = []
+        for (const root of payload.blocks) {
+          if (!canPasteAfter(index, root.id)) continue
+          const result = pasteBlockSubtrees(index, { ...payload, blocks: [root] }, root.id, 'after', pasteOptions)
+          if (!result) continue
+          index = result.index
+          results.push(result)
+        }
+        if (index === originalIndex) break
+        commitIndex(index)
+        reportAdded(index, results)
+        break
+      }
+    }
+    return true
+  }, [multiSelect, selectedIds, visibleBlockIds, idGenerator, containerTypes, orderingStrategy, maxDepth, schema, locks, userId, fractionalKeys, originalIndex, commitIndex, reportAdded, onBlockDelete])
+
+  // --- Keyboard moves ---
+  const keyboardDragRef = useRef<KeyboardDragState | null>(null)
+
+  /** Send the current pointer or keyboard drag to other peers */
+  const publishPresence = useCallback(() => {
+    if (!presence) return
+    const keyboardDrag = keyboardDragRef.current
+    const activeId = stateRef.current.activeId ?? keyboardDrag?.id ?? null
+    const hoverZone = keyboardDrag ? keyboardDrag.zones[keyboardDrag.zoneIndex] ?? null : stateRef.current.hoverZone
+    presence.setDragState(activeId ? { activeId, hoverZone, pointer: pointerRef.current } : null)
+  }, [presence])
+
+  // Schema and locks: zones the dragged block(s) could never be dropped in
+  const isZoneAllowed = useCallback((zoneId: string): boolean => {
+    const ids = keyboardDragRef.current ? [keyboardDragRef.current.id] : draggedIdsRef.current
+    if (ids.length === 0) return true
+    if (locks && !isZoneUnlocked(originalIndex, locks, zoneId, userId)) return false
+    return !schema || isSchemaZoneAllowed(originalIndex, ids, zoneId, schema)
+  }, [schema, locks, userId, originalIndex])
+
+  /** Run onBeforeMove. Returns the (possibly rewritten) zone, or null if cancelled. */
+  const resolveKeyboardMove = useCallback((block: T, from: BlockPosition, targetZone: string): string | null => {
+    if (!onBeforeMove) return targetZone
+    const result = onBeforeMove({ block, from, targetZone })
+    if (result === false) return null
+    return result ? result.targetZone : targetZone
+  }, [onBeforeMove])
+
+  const applyKeyboardMove = useCallback((block: T, from: BlockPosition, targetZone: string) => {
+    const updatedIndex = reparentBlockIndex(originalIndex, block.id, targetZone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+    if (updatedIndex === originalIndex) return
+    announce('drop', updatedIndex, block.id, targetZone)
+    const reorderedBlocks = buildOrderedBlocks(updatedIndex, containerTypes, orderingStrategy)
+    onBlockMove?.({
+      block,
+      from,
+      to: getBlockPosition(reorderedBlocks, block.id),
+      blocks: reorderedBlocks,
+      movedIds: [block.id],
+    })
+    onChange?.(reorderedBlocks)
+  }, [originalIndex, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys, onBlockMove, onChange, announce])
+
+  const finishKeyboardDrag = useCallback((drop: boolean) => {
+    const drag = keyboardDragRef.current
+    keyboardDragRef.current = null
+    publishPresence()
+    const block = drag ? originalIndex.byId.get(drag.id) : undefined
+    if (!drag || !block) return
+
+    const renderedZone = drop ? drag.zones[drag.zoneIndex] : undefined
+    const zone = renderedZone && filterResult ? mapFilteredZone(originalIndex, filterResult, renderedZone, [block.id]) : renderedZone
+    const targetZone = zone ? resolveKeyboardMove(block, drag.from, zone) : null
+    if (zone && targetZone === null) {
+      // Cancelled by onBeforeMove
+      announce('dragCancel', originalIndex, block.id)
+      forceRender()
+      return
+    }
+
+    const endEvent: DragEndEvent<T> = {
+      block,
+      blockId: block.id,
+      targetZone,
+      cancelled: targetZone === null,
+    }
+    if (targetZone === null) {
+      onDragCancel?.(endEvent)
+      announce('dragCancel', originalIndex, block.id)
+    }
+    onDragEnd?.(endEvent)
+    if (targetZone) applyKeyboardMove(block, drag.from, targetZone)
+    focusBlock(block.id)
+  }, [originalIndex, filterResult, resolveKeyboardMove, applyKeyboardMove, onDragCancel, onDragEnd, focusBlock, announce, publishPresence])
+
+  const handleMoveKey = useCallback((event: KeyboardEvent<HTMLDivElement>): boolean => {
+    const drag = keyboardDragRef.current
+    if (drag) {
+      switch (event.key) {
+        case 'ArrowUp':
+        case 'ArrowDown': {
+          event.preventDefault()
+          if (drag.zones.length === 0) break
+          const delta = event.key === 'ArrowUp' ? -1 : 1
+          drag.zoneIndex = Math.min(drag.zones.length - 1, Math.max(0, drag.zoneIndex + delta))
+          const zoneId = drag.zones[drag.zoneIndex]
+          onHoverChange?.({
+            zoneId,
+            zoneType: getDropZoneType(zoneId),
+            targetBlock: originalIndex.byId.get(extractBlockId(zoneId)) ?? null,
+          })
+          announce(
+            'dragOver',
+            reparentBlockIndex(originalIndex, drag.id, zoneId, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys),
+            drag.id,
+            zoneId
+          )
+          publishPresence()
+          forceRender()
+          break
+        }
+        case ' ':
+        case 'Enter':
+          event.preventDefault()
+          finishKeyboardDrag(true)
+          break
+        case 'Escape':
+          event.preventDefault()
+          finishKeyboardDrag(false)
+          break
+        case 'Tab':
+          // Cancel the move but let focus leave the tree as usual
+          finishKeyboardDrag(false)
+          break
+      }
+      // Focus navigation is suspended while a block is picked up
+      return true
+    }
+
+    const currentId = focusedIdRef.current
+    const block = currentId ? originalIndex.byId.get(currentId) : undefined
+    if (!block || isEditableTarget(event.target)) return false
+
+    let direction: KeyboardMoveDirection | null = null
+    if (event.key === 'Tab' && !event.altKey) {
+      direction = event.shiftKey ? 'outdent' : 'indent'
+    } else if (event.altKey) {
+      switch (event.key) {
+        case 'ArrowUp':
+          direction = 'up'
+          break
+        case 'ArrowDown':
+          direction = 'down'
+          break
+        case 'ArrowRight':
+          direction = 'indent'
+          break
+        case 'ArrowLeft':
+          direction = 'outdent'
+          break
+      }
+    }
+
+    const moveOptions = { containerTypes, maxDepth, canDrop, schema, locks, userId }
+
+    if (direction) {
+      // Tab only moves the block when it can, otherwise it moves focus
+      const consumeAlways = event.key !== 'Tab'
+      if (consumeAlways) event.preventDefault()
+      if (!canMoveBlock(block.id)) return consumeAlways
+      const zone = getKeyboardMoveZone(originalIndex, block.id, direction, moveOptions)
+      const from = getBlockPosition(blocks, block.id)
+      const targetZone = zone ? resolveKeyboardMove(block, from, zone) : null
+      if (!targetZone) return consumeAlways
+      event.preventDefault()
+      applyKeyboardMove(block, from, targetZone)
+      return true
+    }
+
+    if (event.key === ' ') {
+      event.preventDefault()
+      if (canDrag && !canDrag(block)) return true
+      if (presenceOverlay?.locked.has(block.id)) return true
+      if (!canMoveBlock(block.id)) return true
+      if (onDragStart?.({ block, blockId: block.id }) === false) return true
+      const zoneIds = Array.from(
+        rootRef.current?.querySelectorAll('[data-zone-id]') ?? [],
+        el => el.getAttribute('data-zone-id')!
+      )
+      keyboardDragRef.current = {
+        id: block.id,
+        from: getBlockPosition(blocks, block.id),
+        zones: getKeyboardDropZones(originalIndex, block.id, zoneIds, moveOptions),
+        zoneIndex: -1,
+      }
+      announce('dragStart', originalIndex, block.id)
+      publishPresence()
+      forceRender()
+      return true
+    }
+
+    return false
+  }, [blocks, originalIndex, containerTypes, orderingStrategy, maxDepth, schema, locks, userId, canMoveBlock, canDrag, canDrop, onDragStart, onHoverChange, resolveKeyboardMove, applyKeyboardMove, finishKeyboardDrag, announce, presenceOverlay, publishPresence])
 
   const handleKeyDown = useCallback((event: KeyboardEvent<HTMLDivElement>) => {
+    if (clipboard && (event.metaKey || event.ctrlKey) && !event.altKey && !event.shiftKey) {
+      if (handleClipboardKey(event)) return
+    }
+
     if (!keyboardNavigation) return
 
+    if (keyboardMoves && handleMoveKey(event)) return
+
     const currentId = focusedIdRef.current
     const currentIndex = currentId ? visibleBlockIds.indexOf(currentId) : -1
 
@@ -336,7 +987,7 @@ export function BlockTree<
         if (currentId) {
           const block = originalIndex.byId.get(currentId)
           if (block && containerTypes.includes(block.type)) {
-            if (stateRef.current.expandedMap[currentId] === false) {
+            if (viewExpandedMap[currentId] === false) {
               toggleExpandRef.current(currentId)
             } else {
               const children = blocksByParent.get(currentId) ?? []
@@ -350,7 +1001,7 @@ export function BlockTree<
         event.preventDefault()
         if (currentId) {
           const block = originalIndex.byId.get(currentId)
-          if (block && containerTypes.includes(block.type) && stateRef.current.expandedMap[currentId] !== false) {
+          if (block && containerTypes.includes(block.type) && viewExpandedMap[currentId] !== false) {
             toggleExpandRef.current(currentId)
           } else if (block?.parentId) {
             focusBlock(block.parentId)
@@ -380,7 +1031,7 @@ export function BlockTree<
         break
       }
     }
-  }, [keyboardNavigation, visibleBlockIds, focusBlock, originalIndex, containerTypes, blocksByParent])
+  }, [keyboardNavigation, keyboardMoves, clipboard, handleClipboardKey, handleMoveKey, visibleBlockIds, focusBlock, originalIndex, containerTypes, blocksByParent, viewExpandedMap])
 
   const handleBlockClick = useCallback((blockId: string, event: React.MouseEvent) => {
     if (!multiSelect) return
@@ -435,16 +1086,33 @@ export function BlockTree<
     if (!block) return null
 
     const parentId = block.parentId ?? null
-    const siblings = virtualIndex.byParent.get(parentId) ?? []
+    // Hidden siblings are not rendered, so the ghost's index skips them
+    const siblings = (virtualIndex.byParent.get(parentId) ?? [])
+      .filter(id => !filterResult || id === activeId || filterResult.visibleIds.has(id))
     const index = siblings.indexOf(activeId)
     return { parentId, index }
-  }, [showDropPreview, stateRef.current.virtualState, stateRef.current.activeId])
+  }, [showDropPreview, stateRef.current.virtualState, stateRef.current.activeId, filterResult])
 
   const activeBlock = stateRef.current.activeId
     ? originalIndex.byId.get(stateRef.current.activeId) ?? null
     : null
 
-  const draggedBlock = activeBlock
+  // During a keyboard move the block stays rendered in place, so the ghost
+  // index counts it when the target is further down the same parent
+  const keyboardDrag = keyboardDragRef.current
+  const keyboardDragBlock = keyboardDrag ? originalIndex.byId.get(keyboardDrag.id) ?? null : null
+  let keyboardPreviewPosition: { parentId: string | null; index: number } | null = null
+  if (keyboardDrag && keyboardDrag.zoneIndex >= 0 && showDropPreview) {
+    const updatedIndex = reparentBlockIndex(
+      originalIndex, keyboardDrag.id, keyboardDrag.zones[keyboardDrag.zoneIndex], containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys
+    )
+    const parentId = updatedIndex.byId.get(keyboardDrag.id)?.parentId ?? null
+    const index = (updatedIndex.byParent.get(parentId) ?? []).indexOf(keyboardDrag.id)
+    const shifted = parentId === keyboardDrag.from.parentId && index >= keyboardDrag.from.index
+    keyboardPreviewPosition = { parentId, index: shifted ? index + 1 : index }
+  }
+
+  const draggedBlock = activeBlock ?? (keyboardPreviewPosition ? keyboardDragBlock : null)
 
   const handleDragStart = useCallback((event: DndKitDragStartEvent) => {
     const id = String(event.active.id)
@@ -456,6 +1124,18 @@ export function BlockTree<
       return
     }
 
+    // Another peer is moving this block
+    if (presenceOverlay?.locked.has(id)) {
+      return
+    }
+
+    const dragIds = multiSelect && selectedIds.has(id)
+      ? visibleBlockIds.filter(vid => selectedIds.has(vid))
+      : [id]
+    if (!dragIds.every(canMoveBlock)) {
+      return
+    }
+
     const dragEvent: DragStartEvent<T> = {
       block,
       blockId: id,
@@ -470,14 +1150,16 @@ export function BlockTree<
 
     // Reset sticky collision for fresh drag
     coreStickyRef.current.reset()
+    offsetDepthRef.current.setOrigin({
+      depth: getBlockDepth(originalIndex, id),
+      maxDepth: maxDepth != null ? maxDepth - getSubtreeDepth(originalIndex, id) + 1 : undefined,
+      getZoneDepth: (zoneId) => getZoneDepth(originalIndex, zoneId),
+    })
+    virtualOverRef.current = null
 
-    if (multiSelect && selectedIds.has(id)) {
-      draggedIdsRef.current = visibleBlockIds.filter(vid => selectedIds.has(vid))
-    } else {
-      draggedIdsRef.current = [id]
-      if (multiSelect) {
-        setSelectedIds(new Set([id]))
-      }
+    draggedIdsRef.current = dragIds
+    if (multiSelect && !selectedIds.has(id)) {
+      setSelectedIds(new Set([id]))
     }
 
     if (sensorConfig?.hapticFeedback) {
@@ -489,10 +1171,46 @@ export function BlockTree<
     initialBlocksRef.current = [...blocks]
     cachedReorderRef.current = null
     needsResnapshot.current = true
+    announce('dragStart', originalIndex, id)
+    publishPresence()
+    dragGroup?.startDrag(groupTreeId, dragIds)
     forceRender()
-  }, [blocks, canDrag, onDragStart, multiSelect, selectedIds, setSelectedIds, visibleBlockIds, sensorConfig?.hapticFeedback])
+  }, [blocks, originalIndex, canDrag, onDragStart, multiSelect, selectedIds, setSelectedIds, visibleBlockIds, sensorConfig?.hapticFeedback, maxDepth, announce, presenceOverlay, canMoveBlock, publishPresence, dragGroup, groupTreeId])
 
   const handleDragMove = useCallback((event: DndKitDragMoveEvent) => {
+    const coordinates = getEventCoordinates(event.activatorEvent)
+
+    // Over another tree of the drag group, which highlights its own zone
+    if (dragGroup && coordinates && dragGroup.moveDrag(coordinates.x + event.delta.x, coordinates.y + event.delta.y)?.targetId) {
+      virtualOverRef.current = null
+      if (stateRef.current.hoverZone !== null) {
+        debouncedSetVirtual.cancel()
+        stateRef.current.hoverZone = null
+        stateRef.current.virtualState = null
+        cachedReorderRef.current = null
+        onHoverChange?.({ zoneId: null, zoneType: null, targetBlock: null })
+        publishPresence()
+        forceRender()
+      }
+    }
+
+    // A synthesized zone won collision, so dnd-kit reports no `over` for it
+    const virtualZone = virtualOverRef.current
+    if (virtualZone && virtualZone !== stateRef.current.hoverZone) {
+      hoverRef.current(virtualZone, null)
+    }
+
+    // Pointer in the root's content coordinates, so peers can draw it over their own tree
+    const root = rootRef.current
+    if (presence && coordinates && root) {
+      const rect = root.getBoundingClientRect()
+      pointerRef.current = {
+        x: coordinates.x + event.delta.x - rect.left + root.scrollLeft,
+        y: coordinates.y + event.delta.y - rect.top + root.scrollTop,
+      }
+      publishPresence()
+    }
+
     if (!onDragMove) return
 
     const id = stateRef.current.activeId
@@ -512,10 +1230,10 @@ export function BlockTree<
     }
 
     debouncedDragMove(moveEvent)
-  }, [blocks, onDragMove, debouncedDragMove])
+  }, [blocks, onDragMove, debouncedDragMove, debouncedSetVirtual, onHoverChange, presence, publishPresence, dragGroup])
 
   const handleDragOver = useCallback((event: DragOverEvent) => {
-    if (!event.over) return
+    if (!event.over || isOverOtherTree()) return
 
     const targetZone = String(event.over.id)
     const activeId = stateRef.current.activeId
@@ -530,13 +1248,16 @@ export function BlockTree<
       return
     }
 
+    if (!isZoneAllowed(targetZone)) return
+
     if (maxDepth != null && activeBlock) {
       const baseIndex = computeNormalizedIndex(initialBlocksRef.current, orderingStrategy)
-      const testResult = reparentBlockIndex(baseIndex, activeId, targetZone, containerTypes, orderingStrategy, maxDepth)
+      const testResult = reparentBlockIndex(baseIndex, activeId, targetZone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
       if (testResult === baseIndex) return
     }
 
-    if (stateRef.current.hoverZone !== targetZone) {
+    const hoverChanged = stateRef.current.hoverZone !== targetZone
+    if (hoverChanged) {
       const zoneType: DropZoneType = getDropZoneType(targetZone)
 
       const hoverEvent: HoverChangeEvent<T> = {
@@ -549,22 +1270,76 @@ export function BlockTree<
     }
 
     stateRef.current.hoverZone = targetZone
+    if (hoverChanged) publishPresence()
 
     const baseIndex = computeNormalizedIndex(initialBlocksRef.current, orderingStrategy)
     const ids = draggedIdsRef.current
+    // Zones of the filtered view land next to visible siblings, past none of the hidden ones
+    const zone = filterResult ? mapFilteredZone(baseIndex, filterResult, targetZone, ids) : targetZone
     const updatedIndex = ids.length > 1
-      ? reparentMultipleBlocks(baseIndex, ids, targetZone, containerTypes, orderingStrategy, maxDepth)
-      : reparentBlockIndex(baseIndex, activeId, targetZone, containerTypes, orderingStrategy, maxDepth)
+      ? reparentMultipleBlocks(baseIndex, ids, zone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+      : reparentBlockIndex(baseIndex, activeId, zone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
     const orderedBlocks = buildOrderedBlocks(updatedIndex, containerTypes, orderingStrategy)
 
-    cachedReorderRef.current = { targetId: targetZone, reorderedBlocks: orderedBlocks }
+    cachedReorderRef.current = { targetId: zone, reorderedBlocks: orderedBlocks }
+    if (hoverChanged) announce('dragOver', updatedIndex, activeId, zone)
 
     if (showDropPreview) {
       debouncedSetVirtual(orderedBlocks)
     }
-  }, [blocks, containerTypes, debouncedSetVirtual, canDrop, onHoverChange, showDropPreview, maxDepth, orderingStrategy])
+  }, [blocks, containerTypes, debouncedSetVirtual, canDrop, isZoneAllowed, onHoverChange, showDropPreview, maxDepth, schema, fractionalKeys, orderingStrategy, announce, publishPresence, filterResult])
+
+  /** End the drag here without moving anything */
+  const cancelDrag = useCallback(() => {
+    debouncedSetVirtual.cancel()
+    debouncedDragMove.cancel()
+
+    const activeId = stateRef.current.activeId
+    const activeBlockData = activeId ? blocks.find(b => b.id === activeId) : null
+
+    if (activeBlockData) {
+      const cancelEvent: DragEndEvent<T> = {
+        block: activeBlockData,
+        blockId: activeId!,
+        targetZone: null,
+        cancelled: true,
+      }
+      onDragCancel?.(cancelEvent)
+      onDragEnd?.(cancelEvent)
+      announce('dragCancel', originalIndex, activeBlockData.id)
+    }
+
+    stateRef.current.activeId = null
+    stateRef.current.hoverZone = null
+    stateRef.current.virtualState = null
+    stateRef.current.isDragging = false
+    cachedReorderRef.current = null
+    initialBlocksRef.current = []
+    fromPositionRef.current = null
+    draggedIdsRef.current = []
+    snapshotRectsRef.current = null
+    virtualZoneRectsRef.current = null
+    pointerRef.current = null
+    publishPresence()
+
+    forceRender()
+  }, [blocks, originalIndex, debouncedSetVirtual, debouncedDragMove, onDragCancel, onDragEnd, announce, publishPresence])
+
+  const handleDragCancel = useCallback((_event: DragCancelEvent) => {
+    cancelDrag()
+    dragGroup?.cancelDrag()
+  }, [cancelDrag, dragGroup])
 
   const handleDragEnd = useCallback((_event: DndKitDragEndEvent) => {
+    if (dragGroup && isOverOtherTree()) {
+      // Dropped on another tree: the drag ends cancelled here and the blocks are deleted once the other tree takes them
+      cancelDrag()
+      dragGroup.endDrag()
+      return
+    }
+    // Back over this tree, which drops the blocks itself
+    dragGroup?.endDrag()
+
     debouncedSetVirtual.cancel()
     debouncedDragMove.cancel()
 
@@ -581,6 +1356,7 @@ export function BlockTree<
       const result = onBeforeMove(operation)
 
       if (result === false) {
+        announce('dragCancel', originalIndex, activeBlockData.id)
         stateRef.current.activeId = null
         stateRef.current.hoverZone = null
         stateRef.current.virtualState = null
@@ -589,6 +1365,9 @@ export function BlockTree<
         initialBlocksRef.current = []
         fromPositionRef.current = null
         snapshotRectsRef.current = null
+        virtualZoneRectsRef.current = null
+        pointerRef.current = null
+        publishPresence()
         forceRender()
         return
       }
@@ -597,8 +1376,8 @@ export function BlockTree<
         const baseIndex = computeNormalizedIndex(initialBlocksRef.current, orderingStrategy)
         const ids = draggedIdsRef.current
         const updatedIndex = ids.length > 1
-          ? reparentMultipleBlocks(baseIndex, ids, result.targetZone, containerTypes, orderingStrategy, maxDepth)
-          : reparentBlockIndex(baseIndex, activeId!, result.targetZone, containerTypes, orderingStrategy, maxDepth)
+          ? reparentMultipleBlocks(baseIndex, ids, result.targetZone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+          : reparentBlockIndex(baseIndex, activeId!, result.targetZone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
         const reorderedBlocks = buildOrderedBlocks(updatedIndex, containerTypes, orderingStrategy)
         cached = { targetId: result.targetZone, reorderedBlocks }
       }
@@ -628,39 +1407,12 @@ export function BlockTree<
       onBlockMove?.(moveEvent)
     }
 
-    stateRef.current.activeId = null
-    stateRef.current.hoverZone = null
-    stateRef.current.virtualState = null
-    stateRef.current.isDragging = false
-    cachedReorderRef.current = null
-    initialBlocksRef.current = []
-    fromPositionRef.current = null
-    draggedIdsRef.current = []
-    snapshotRectsRef.current = null
-
-    if (cached && onChange) {
-      onChange(cached.reorderedBlocks)
-    }
-
-    forceRender()
-  }, [blocks, containerTypes, orderingStrategy, debouncedSetVirtual, debouncedDragMove, onChange, onDragEnd, onBlockMove, onBeforeMove])
-
-  const handleDragCancel = useCallback((_event: DragCancelEvent) => {
-    debouncedSetVirtual.cancel()
-    debouncedDragMove.cancel()
-
-    const activeId = stateRef.current.activeId
-    const activeBlockData = activeId ? blocks.find(b => b.id === activeId) : null
-
     if (activeBlockData) {
-      const cancelEvent: DragEndEvent<T> = {
-        block: activeBlockData,
-        blockId: activeId!,
-        targetZone: null,
-        cancelled: true,
+      if (cached) {
+        announce('drop', computeNormalizedIndex(cached.reorderedBlocks, orderingStrategy), activeBlockData.id, cached.targetId)
+      } else {
+        announce('drop', originalIndex, activeBlockData.id)
       }
-      onDragCancel?.(cancelEvent)
-      onDragEnd?.(cancelEvent)
     }
 
     stateRef.current.activeId = null
@@ -672,13 +1424,20 @@ export function BlockTree<
     fromPositionRef.current = null
     draggedIdsRef.current = []
     snapshotRectsRef.current = null
+    virtualZoneRectsRef.current = null
+    pointerRef.current = null
+    publishPresence()
+
+    if (cached && onChange) {
+      onChange(cached.reorderedBlocks)
+    }
 
     forceRender()
-  }, [blocks, debouncedSetVirtual, debouncedDragMove, onDragCancel, onDragEnd])
+  }, [blocks, originalIndex, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys, debouncedSetVirtual, debouncedDragMove, onChange, onDragEnd, onBlockMove, onBeforeMove, announce, publishPresence, dragGroup, cancelDrag])
 
   const handleHover = useCallback((zoneId: string, _parentId: string | null) => {
     const activeId = stateRef.current.activeId
-    if (!activeId) return
+    if (!activeId || isOverOtherTree()) return
 
     const activeBlockData = blocks.find(b => b.id === activeId)
     const targetBlockId = extractBlockId(zoneId)
@@ -688,13 +1447,16 @@ export function BlockTree<
       return
     }
 
+    if (!isZoneAllowed(zoneId)) return
+
     if (maxDepth != null && activeBlockData) {
       const baseIdx = computeNormalizedIndex(initialBlocksRef.current, orderingStrategy)
-      const testResult = reparentBlockIndex(baseIdx, activeId, zoneId, containerTypes, orderingStrategy, maxDepth)
+      const testResult = reparentBlockIndex(baseIdx, activeId, zoneId, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
       if (testResult === baseIdx) return
     }
 
-    if (stateRef.current.hoverZone !== zoneId) {
+    const hoverChanged = stateRef.current.hoverZone !== zoneId
+    if (hoverChanged) {
       const zoneType: DropZoneType = getDropZoneType(zoneId)
 
       const hoverEvent: HoverChangeEvent<T> = {
@@ -707,26 +1469,33 @@ export function BlockTree<
     }
 
     stateRef.current.hoverZone = zoneId
+    if (hoverChanged) publishPresence()
 
     const baseIndex = computeNormalizedIndex(initialBlocksRef.current, orderingStrategy)
     const ids = draggedIdsRef.current
+    const zone = filterResult ? mapFilteredZone(baseIndex, filterResult, zoneId, ids) : zoneId
     const updatedIndex = ids.length > 1
-      ? reparentMultipleBlocks(baseIndex, ids, zoneId, containerTypes, orderingStrategy, maxDepth)
-      : reparentBlockIndex(baseIndex, activeId, zoneId, containerTypes, orderingStrategy, maxDepth)
+      ? reparentMultipleBlocks(baseIndex, ids, zone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+      : reparentBlockIndex(baseIndex, activeId, zone, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
     const orderedBlocks = buildOrderedBlocks(updatedIndex, containerTypes, orderingStrategy)
 
-    cachedReorderRef.current = { targetId: zoneId, reorderedBlocks: orderedBlocks }
+    cachedReorderRef.current = { targetId: zone, reorderedBlocks: orderedBlocks }
+    if (hoverChanged) announce('dragOver', updatedIndex, activeId, zone)
 
     if (showDropPreview) {
       debouncedSetVirtual(orderedBlocks)
     }
-  }, [blocks, containerTypes, orderingStrategy, debouncedSetVirtual, canDrop, onHoverChange, showDropPreview, maxDepth])
+  }, [blocks, containerTypes, orderingStrategy, debouncedSetVirtual, canDrop, isZoneAllowed, onHoverChange, showDropPreview, maxDepth, schema, fractionalKeys, announce, publishPresence, filterResult])
 
   const handleToggleExpand = useCallback((id: string) => {
-    const newExpanded = stateRef.current.expandedMap[id] === false
-    stateRef.current.expandedMap = {
-      ...stateRef.current.expandedMap,
-      [id]: newExpanded,
+    const newExpanded = viewExpandedMap[id] === false
+    if (filterResult) {
+      filterExpandedRef.current = { ...filterExpandedRef.current, [id]: newExpanded }
+    } else {
+      stateRef.current.expandedMap = {
+        ...stateRef.current.expandedMap,
+        [id]: newExpanded,
+      }
     }
 
     const block = blocks.find(b => b.id === id)
@@ -739,52 +1508,93 @@ export function BlockTree<
       onExpandChange(expandEvent)
     }
 
+    if (!filterResult) persistence?.save({ expanded: stateRef.current.expandedMap })
     forceRender()
-  }, [blocks, onExpandChange])
+  }, [blocks, onExpandChange, persistence, viewExpandedMap, filterResult])
 
   toggleExpandRef.current = handleToggleExpand
+  hoverRef.current = handleHover
 
   // --- Virtual scrolling ---
+  // Fixed heights count every visible block; measured heights count top-level
+  // blocks, whose elements include their expanded children
   const virtualContainerRef = useRef<HTMLDivElement>(null)
-  const [virtualScroll, setVirtualScroll] = useState({ scrollTop: 0, clientHeight: 0 })
-
-  useEffect(() => {
-    if (!virtualize) return
-    const el = virtualContainerRef.current
-    if (!el) return
-
-    setVirtualScroll({ scrollTop: el.scrollTop, clientHeight: el.clientHeight })
-
-    const onScroll = () => {
-      setVirtualScroll({ scrollTop: el.scrollTop, clientHeight: el.clientHeight })
-    }
-    el.addEventListener('scroll', onScroll, { passive: true })
-    return () => el.removeEventListener('scroll', onScroll)
-  }, [virtualize])
+  const measureBlocks = !!virtualize && virtualize.itemHeight === undefined
+  const rootBlockIds = useMemo(
+    () => (blocksByParent.get(null) ?? []).map(b => b.id),
+    [blocksByParent]
+  )
+  const virtualIds = measureBlocks ? rootBlockIds : visibleBlockIds
+  const virtualTree = useVirtualTree({
+    containerRef: virtualContainerRef,
+    itemCount: virtualize ? virtualIds.length : 0,
+    itemHeight: virtualize?.itemHeight,
+    itemIds: measureBlocks ? rootBlockIds : undefined,
+    estimatedItemHeight: virtualize?.estimatedItemHeight,
+    overscan: virtualize?.overscan,
+  })
 
   const virtualResult = useMemo(() => {
     if (!virtualize) return null
 
-    const { itemHeight, overscan = 5 } = virtualize
-    const { scrollTop, clientHeight } = virtualScroll
-    const totalHeight = visibleBlockIds.length * itemHeight
-    const startRaw = Math.floor(scrollTop / itemHeight)
-    const visibleCount = Math.ceil(clientHeight / itemHeight)
-    const start = Math.max(0, startRaw - overscan)
-    const end = Math.min(visibleBlockIds.length - 1, startRaw + visibleCount + overscan)
-    const offsetY = start * itemHeight
-
+    const { start, end } = virtualTree.visibleRange
     const visibleSet = new Set<string>()
     for (let i = start; i <= end; i++) {
-      visibleSet.add(visibleBlockIds[i])
+      visibleSet.add(virtualIds[i])
     }
 
-    return { totalHeight, offsetY, visibleSet }
-  }, [virtualize, virtualScroll, visibleBlockIds])
+    return { totalHeight: virtualTree.totalHeight, offsetY: virtualTree.offsetY, visibleSet }
+  }, [virtualize, virtualTree.visibleRange.start, virtualTree.visibleRange.end, virtualTree.totalHeight, virtualTree.offsetY, virtualIds])
+
+  getVirtualZoneRectsRef.current = () => {
+    const el = virtualContainerRef.current
+    if (!virtualResult || !el) return null
+
+    // Nested rows render inside their top-level block, so a row has real
+    // zones whenever its top-level ancestor is in the window
+    const rendered = new Set<string>()
+    for (const id of virtualIds) {
+      let rootId = id
+      for (let b = originalIndex.byId.get(id); b?.parentId; b = originalIndex.byId.get(b.parentId)) {
+        rootId = b.parentId
+      }
+      if (virtualResult.visibleSet.has(rootId)) rendered.add(id)
+    }
+
+    const rect = el.getBoundingClientRect()
+    const origin = {
+      top: rect.top + el.clientTop - el.scrollTop,
+      left: rect.left + el.clientLeft,
+      width: el.clientWidth,
+    }
+    return getVirtualZoneRects(virtualIds, virtualTree.getLayout(), origin, { skip: rendered })
+  }
+
+  // Zones move (and rows mount) as the list scrolls mid-drag
+  const handleVirtualScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    if (stateRef.current.isDragging) needsResnapshot.current = true
+    handlePersistedScroll(event)
+  }, [handlePersistedScroll])
+
+  const autoScroll = virtualize?.autoScroll
+  useAutoScroll({
+    containerRef: virtualContainerRef,
+    active: !!virtualize && autoScroll !== false && stateRef.current.isDragging,
+    threshold: autoScroll ? autoScroll.threshold : undefined,
+    maxSpeed: autoScroll ? autoScroll.maxSpeed : undefined,
+  })
 
   // Resolve effective collision detection: user-provided dnd-kit detector,
-  // or the internal sticky collision adapted from core
-  const effectiveCollision = collisionDetection ?? stickyCollisionRef.current
+  // or the internal sticky or offset-depth collision adapted from core
+  const effectiveCollision = collisionDetection ?? (offsetDepth ? offsetCollisionRef : stickyCollisionRef).current
+  // No zone of this tree is hit while the pointer is over another tree of the drag group
+  const effectiveCollisionRef = useRef(effectiveCollision)
+  effectiveCollisionRef.current = effectiveCollision
+  const groupCollision = useCallback<CollisionDetection>(
+    args => (isOverOtherTree() ? [] : effectiveCollisionRef.current(args)),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  )
 
   const treeContent = (
     <TreeRenderer
@@ -792,7 +1602,7 @@ export function BlockTree<
       blocksByParent={blocksByParent}
       parentId={null}
       activeId={stateRef.current.activeId}
-      expandedMap={stateRef.current.expandedMap}
+      expandedMap={viewExpandedMap}
       renderers={renderers as InternalRenderers<T>}
       containerTypes={containerTypes}
       onHover={handleHover}
@@ -802,25 +1612,36 @@ export function BlockTree<
       indentClassName={indentClassName}
       rootClassName={className}
       canDrag={canDrag}
-      previewPosition={previewPosition}
+      previewPosition={previewPosition ?? keyboardPreviewPosition}
       draggedBlock={draggedBlock}
       focusedId={keyboardNavigation ? focusedIdRef.current : undefined}
       selectedIds={multiSelect ? selectedIds : undefined}
       onBlockClick={multiSelect ? handleBlockClick : undefined}
       animation={animation}
       virtualVisibleIds={virtualResult?.visibleSet ?? null}
+      measureRootBlock={measureBlocks ? virtualTree.measureElement : undefined}
+      isZoneAllowed={(schema || locks) && (stateRef.current.activeId || keyboardDrag) ? isZoneAllowed : undefined}
+      presence={presenceOverlay}
+      incomingZone={incomingZone}
+      getLockState={locks ? getLockState : undefined}
+      layouts={layouts}
+      filter={filterResult}
     />
   )
 
   return (
     <DndContext
       sensors={sensors}
-      collisionDetection={effectiveCollision}
+      collisionDetection={dragGroup ? groupCollision : effectiveCollision}
       onDragStart={handleDragStart}
       onDragMove={handleDragMove}
       onDragOver={handleDragOver}
       onDragEnd={handleDragEnd}
       onDragCancel={handleDragCancel}
+      accessibility={resolvedAnnouncements ? { announcements: silentDndKitAnnouncements } : undefined}
+      // Virtualized lists scroll with useAutoScroll instead, which keeps
+      // synthesized zones in sync
+      autoScroll={virtualize ? false : undefined}
     >
       {virtualize ? (
         <div
@@ -829,30 +1650,37 @@ export function BlockTree<
             (rootRef as React.MutableRefObject<HTMLDivElement | null>).current = el
           }}
           className={className}
-          style={{ minWidth: 0, overflow: 'auto', position: 'relative' }}
-          onKeyDown={keyboardNavigation ? handleKeyDown : undefined}
-          role={keyboardNavigation ? 'tree' : undefined}
+          style={{ minWidth: 0, overflow: 'auto', position: 'relative', overflowAnchor: measureBlocks ? 'none' : undefined }}
+          onKeyDown={keyboardNavigation || clipboard ? handleKeyDown : undefined}
+          onScroll={handleVirtualScroll}
+          role="tree"
+          aria-multiselectable={multiSelect || undefined}
         >
           <div style={{ height: virtualResult!.totalHeight, position: 'relative' }}>
             <div style={{ position: 'absolute', top: virtualResult!.offsetY, left: 0, right: 0 }}>
               {treeContent}
             </div>
           </div>
+          {presenceOverlay && <RemoteCursors cursors={presenceOverlay.cursors} />}
         </div>
       ) : (
         <div
           ref={rootRef}
           className={className}
-          style={{ minWidth: 0 }}
-          onKeyDown={keyboardNavigation ? handleKeyDown : undefined}
-          role={keyboardNavigation ? 'tree' : undefined}
+          style={{ minWidth: 0, position: presenceOverlay ? 'relative' : undefined }}
+          onKeyDown={keyboardNavigation || clipboard ? handleKeyDown : undefined}
+          onScroll={persistence ? handlePersistedScroll : undefined}
+          role="tree"
+          aria-multiselectable={multiSelect || undefined}
         >
           {treeContent}
+          {presenceOverlay && <RemoteCursors cursors={presenceOverlay.cursors} />}
         </div>
       )}
       <DragOverlay activeBlock={activeBlock} selectedCount={multiSelect ? selectedIds.size : 0}>
         {dragOverlay}
       </DragOverlay>
+      {resolvedAnnouncements && <LiveRegion message={liveMessage} />}
     </DndContext>
   )
 }
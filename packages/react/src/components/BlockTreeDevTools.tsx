@@ -7,10 +7,24 @@ import type {
   DragStartEvent,
   DragEndEvent,
   BlockMoveEvent,
+  BlockUpdateEvent,
   ExpandChangeEvent,
   HoverChangeEvent,
+  CollisionFrame,
+  CollisionRecorder,
+  BlockTimeline,
+  BlockTimelineSession,
+  TimelineStep,
+} from '@dnd-block-tree/core'
+import {
+  computeNormalizedIndex,
+  validateBlockTree,
+  getBlockDepth,
+  diffBlockTrees,
+  createCollisionRecorder,
+  createBlockTimeline,
+  scoreCollisionCandidates,
 } from '@dnd-block-tree/core'
-import { computeNormalizedIndex, validateBlockTree, getBlockDepth } from '@dnd-block-tree/core'
 
 // ============================================================================
 // Types
@@ -19,7 +33,7 @@ import { computeNormalizedIndex, validateBlockTree, getBlockDepth } from '@dnd-b
 export interface DevToolsEventEntry {
   id: number
   timestamp: number
-  type: 'dragStart' | 'dragEnd' | 'blockMove' | 'expandChange' | 'hoverChange'
+  type: 'dragStart' | 'dragEnd' | 'blockMove' | 'blockUpdate' | 'expandChange' | 'hoverChange'
   summary: string
 }
 
@@ -27,6 +41,7 @@ export interface DevToolsCallbacks<T extends BaseBlock = BaseBlock> {
   onDragStart: NonNullable<BlockTreeCallbacks<T>['onDragStart']>
   onDragEnd: NonNullable<BlockTreeCallbacks<T>['onDragEnd']>
   onBlockMove: NonNullable<BlockTreeCallbacks<T>['onBlockMove']>
+  onBlockUpdate: NonNullable<BlockTreeCallbacks<T>['onBlockUpdate']>
   onExpandChange: NonNullable<BlockTreeCallbacks<T>['onExpandChange']>
   onHoverChange: NonNullable<BlockTreeCallbacks<T>['onHoverChange']>
 }
@@ -42,6 +57,14 @@ export interface BlockTreeDevToolsProps<T extends BaseBlock = BaseBlock> {
   buttonStyle?: React.CSSProperties
   panelStyle?: React.CSSProperties
   forceMount?: boolean
+  /** Recorder passed to the tree's `collisionRecorder`. Adds the collision inspector */
+  collisionRecorder?: CollisionRecorder
+  /** Timeline that records every state of `blocks` (default: one the panel creates) */
+  timeline?: BlockTimeline<T>
+  /** Replace the tree's blocks with a recorded state. Enables jumping to a step */
+  onTimeTravel?: (blocks: T[]) => void
+  /** Keep the timeline in localStorage under this key, so it survives reloads */
+  persistKey?: string
 }
 
 // ============================================================================
@@ -68,6 +91,8 @@ export function useDevToolsCallbacks<T extends BaseBlock = BaseBlock>() {
     setEvents([])
   }, [])
 
+  const [collisionRecorder] = useState(() => createCollisionRecorder())
+
   const callbacks: DevToolsCallbacks<T> = useMemo(() => ({
     onDragStart: (event: DragStartEvent<T>) => {
       addEvent('dragStart', `Started dragging "${event.blockId}"`)
@@ -85,6 +110,10 @@ export function useDevToolsCallbacks<T extends BaseBlock = BaseBlock>() {
       const ids = event.movedIds.length > 1 ? ` (${event.movedIds.length} blocks)` : ''
       addEvent('blockMove', `Moved "${event.block.id}" from ${fromStr} to ${toStr}${ids}`)
     },
+    onBlockUpdate: (event: BlockUpdateEvent<T>) => {
+      const fields = Object.keys(event.changes).join(', ')
+      addEvent('blockUpdate', `Updated "${event.block.id}" (${fields})`)
+    },
     onExpandChange: (event: ExpandChangeEvent<T>) => {
       addEvent('expandChange', `${event.expanded ? 'Expanded' : 'Collapsed'} "${event.blockId}"`)
     },
@@ -95,7 +124,74 @@ export function useDevToolsCallbacks<T extends BaseBlock = BaseBlock>() {
     },
   }), [addEvent])
 
-  return { callbacks, events, clearEvents }
+  return { callbacks, events, clearEvents, collisionRecorder }
+}
+
+// ============================================================================
+// Collision overlay
+// ============================================================================
+
+const pointerCenter = ({ pointer }: CollisionFrame) =>
+  ({ x: pointer.left + pointer.width / 2, y: pointer.top + pointer.height / 2 })
+
+/**
+ * Every candidate rect of one recorded frame, labelled with its score, plus the
+ * pointer path up to that frame. Green is the best-scored zone, blue the zone
+ * the detector picked (they differ while a sticky detector holds on).
+ */
+function CollisionOverlay({ frame, path }: { frame: CollisionFrame; path: readonly CollisionFrame[] }) {
+  const scores = frame.scores ?? scoreCollisionCandidates(frame.candidates, frame.pointer)
+  const values = new Map(scores.map(score => [score.id, score.value]))
+  const winnerId = scores[0]?.id
+  const currentId = frame.results[0]?.id
+  const pointer = pointerCenter(frame)
+
+  return (
+    <svg
+      data-devtools-collision-overlay=""
+      aria-hidden="true"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        width: '100%',
+        height: '100%',
+        zIndex: 99997,
+        pointerEvents: 'none',
+        overflow: 'visible',
+      }}
+    >
+      {frame.candidates.map(({ id, rect }) => {
+        const highlighted = id === currentId || id === winnerId
+        const color = id === currentId ? '#3b82f6' : id === winnerId ? '#10b981' : '#9ca3af'
+        const value = values.get(id)
+        return (
+          <g key={id}>
+            <rect
+              x={rect.left}
+              y={rect.top}
+              width={Math.max(rect.width, 1)}
+              height={Math.max(rect.height, 1)}
+              fill={color}
+              fillOpacity={highlighted ? 0.25 : 0.08}
+              stroke={color}
+              strokeWidth={highlighted ? 2 : 1}
+            />
+            <text x={rect.left + 2} y={rect.top - 2} fill={color} fontSize={9} fontFamily="monospace">
+              {value === undefined ? id : `${id} ${value.toFixed(1)}`}
+            </text>
+          </g>
+        )
+      })}
+      <polyline
+        points={path.map(f => { const p = pointerCenter(f); return `${p.x},${p.y}` }).join(' ')}
+        fill="none"
+        stroke="#f59e0b"
+        strokeWidth={1.5}
+        strokeOpacity={0.8}
+      />
+      <circle cx={pointer.x} cy={pointer.y} r={4} fill="#f59e0b" />
+    </svg>
+  )
 }
 
 // ============================================================================
@@ -124,7 +220,7 @@ function DevToolsLogo({ size = 20 }: { size?: number }) {
 // Diff computation
 // ============================================================================
 
-type ChangeType = 'added' | 'moved' | 'unchanged'
+type ChangeType = 'added' | 'removed' | 'moved' | 'changed' | 'unchanged'
 
 interface DiffEntry<T extends BaseBlock> {
   block: T
@@ -148,6 +244,25 @@ function computeDiffMap<T extends BaseBlock>(prev: T[], next: T[]): Map<string,
   return changeMap
 }
 
+/**
+ * Changes between two recorded states, for each side of the step comparison:
+ * the left side marks removed blocks, the right side added ones.
+ */
+function computeStepDiff<T extends BaseBlock>(before: T[], after: T[]): { left: Map<string, ChangeType>; right: Map<string, ChangeType> } {
+  const diff = diffBlockTrees(before, after)
+  const right = new Map<string, ChangeType>()
+  for (const { id } of diff.added) right.set(id, 'added')
+  for (const { id } of diff.changed) right.set(id, 'changed')
+  for (const { id } of [...diff.moved, ...diff.reordered]) right.set(id, 'moved')
+
+  const left = new Map<string, ChangeType>()
+  for (const { id } of diff.deleted) left.set(id, 'removed')
+  for (const [id, change] of right) {
+    if (change !== 'added') left.set(id, change)
+  }
+  return { left, right }
+}
+
 function buildDiffTree<T extends BaseBlock>(blocks: T[], changeMap: Map<string, ChangeType>): DiffEntry<T>[] {
   const result: DiffEntry<T>[] = []
   const byParent = new Map<string | null, T[]>()
@@ -181,6 +296,7 @@ const TYPE_COLORS: Record<DevToolsEventEntry['type'], string> = {
   dragStart: '#3b82f6',
   dragEnd: '#10b981',
   blockMove: '#f59e0b',
+  blockUpdate: '#ec4899',
   expandChange: '#8b5cf6',
   hoverChange: '#6b7280',
 }
@@ -189,6 +305,7 @@ const TYPE_LABELS: Record<DevToolsEventEntry['type'], string> = {
   dragStart: 'DRAG',
   dragEnd: 'DROP',
   blockMove: 'MOVE',
+  blockUpdate: 'UPDATE',
   expandChange: 'EXPAND',
   hoverChange: 'HOVER',
 }
@@ -197,6 +314,7 @@ const TYPE_TOOLTIPS: Record<DevToolsEventEntry['type'], string> = {
   dragStart: 'onDragStart -- a block was picked up',
   dragEnd: 'onDragEnd -- a block was dropped or drag was cancelled',
   blockMove: 'onBlockMove -- a block was reparented to a new position',
+  blockUpdate: 'onBlockUpdate -- a block\'s fields were updated',
   expandChange: 'onExpandChange -- a container was expanded or collapsed',
   hoverChange: 'onHoverChange -- the pointer entered a drop zone',
 }
@@ -209,6 +327,7 @@ const MIN_HEIGHT = 200
 const BTN_SIZE = 40
 const BTN_MARGIN = 16
 const STORAGE_KEY = 'dnd-devtools-position'
+const TIMELINE_STORAGE_PREFIX = 'dnd-devtools-timeline:'
 const BTN_DRAG_THRESHOLD = 5
 
 type Corner = NonNullable<BlockTreeDevToolsProps['position']>
@@ -249,6 +368,28 @@ function savePosition(corner: Corner) {
   try { localStorage.setItem(STORAGE_KEY, corner) } catch { /* ignore */ }
 }
 
+function loadStoredTimeline<T extends BaseBlock>(key: string): BlockTimelineSession<T> | null {
+  try {
+    const v = localStorage.getItem(TIMELINE_STORAGE_PREFIX + key)
+    return v ? JSON.parse(v) : null
+  } catch { /* ignore */ }
+  return null
+}
+
+function saveTimeline(key: string, session: BlockTimelineSession) {
+  try { localStorage.setItem(TIMELINE_STORAGE_PREFIX + key, JSON.stringify(session)) } catch { /* ignore */ }
+}
+
+function downloadJSON(data: unknown, filename: string) {
+  const json = JSON.stringify(data, null, 2)
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
 function computeCardOrigin(corner: Corner, width: number, height: number): { x: number; y: number } {
   const vw = typeof window !== 'undefined' ? window.innerWidth : 1024
   const vh = typeof window !== 'undefined' ? window.innerHeight : 768
@@ -294,6 +435,10 @@ export function BlockTreeDevTools<T extends BaseBlock = BaseBlock>({
   buttonStyle,
   panelStyle,
   forceMount = false,
+  collisionRecorder,
+  timeline: timelineProp,
+  onTimeTravel,
+  persistKey,
 }: BlockTreeDevToolsProps<T>) {
   if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'production' && !forceMount) {
     return null
@@ -554,6 +699,125 @@ export function BlockTreeDevTools<T extends BaseBlock = BaseBlock>({
     }
   }, [blocks, containerTypes])
 
+  const [collisionFrames, setCollisionFrames] = useState<readonly CollisionFrame[]>([])
+  const [isRecordingCollisions, setIsRecordingCollisions] = useState(false)
+  const [collisionFrameIndex, setCollisionFrameIndex] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!collisionRecorder) return
+    // Frames arrive on every pointer move, so sync at most once per animation frame
+    let raf = 0
+    const sync = () => {
+      cancelAnimationFrame(raf)
+      raf = requestAnimationFrame(() => {
+        setCollisionFrames([...collisionRecorder.getFrames()])
+        setIsRecordingCollisions(collisionRecorder.isRecording())
+      })
+    }
+    sync()
+    const offFrame = collisionRecorder.on('frame', sync)
+    const offChange = collisionRecorder.on('change', sync)
+    return () => {
+      cancelAnimationFrame(raf)
+      offFrame()
+      offChange()
+    }
+  }, [collisionRecorder])
+
+  const toggleCollisionRecording = useCallback(() => {
+    if (!collisionRecorder) return
+    setCollisionFrameIndex(null)
+    if (collisionRecorder.isRecording()) collisionRecorder.stop()
+    else collisionRecorder.start()
+  }, [collisionRecorder])
+
+  const exportCollisions = useCallback(() => {
+    if (!collisionRecorder) return
+    downloadJSON(collisionRecorder.toJSON(), 'collision-recording.json')
+  }, [collisionRecorder])
+
+  const [ownTimeline] = useState(() => timelineProp ? null : createBlockTimeline(blocks))
+  const timeline = timelineProp ?? ownTimeline!
+  const [timelineSteps, setTimelineSteps] = useState<readonly TimelineStep<T>[]>(() => timeline.getSteps())
+  const [timelineCursor, setTimelineCursor] = useState(() => timeline.getCursor())
+  const [selectedStep, setSelectedStep] = useState<number | null>(null)
+  const [compareSteps, setCompareSteps] = useState<{ from: number; to: number } | null>(null)
+  const [timelineError, setTimelineError] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (persistKey) {
+      const stored = loadStoredTimeline<T>(persistKey)
+      if (stored) {
+        try { timeline.load(stored) } catch { /* ignore */ }
+      }
+    }
+    const sync = () => {
+      setTimelineSteps(timeline.getSteps())
+      setTimelineCursor(timeline.getCursor())
+      if (persistKey) saveTimeline(persistKey, timeline.toJSON())
+    }
+    sync()
+    return timeline.on('change', sync)
+  }, [timeline, persistKey])
+
+  // Every new state of the tree becomes a step; states reached by time travel are already recorded
+  useEffect(() => {
+    timeline.record(blocks)
+  }, [timeline, blocks])
+
+  const shownStep = selectedStep === null ? timelineCursor : Math.min(selectedStep, timelineSteps.length)
+  const shownStepInfo = shownStep > 0 ? timelineSteps[shownStep - 1] : null
+
+  const jumpToStep = useCallback((step: number) => {
+    if (!onTimeTravel) return
+    onTimeTravel(timeline.seek(step))
+    setSelectedStep(null)
+  }, [timeline, onTimeTravel])
+
+  const compareStep = useCallback((step: number) => {
+    setCompareSteps({ from: Math.max(0, step - 1), to: step })
+    setShowDiff(true)
+  }, [])
+
+  const exportTimeline = useCallback(() => {
+    downloadJSON(timeline.toJSON(), 'block-tree-session.json')
+  }, [timeline])
+
+  const importTimeline = useCallback(async (file: File) => {
+    try {
+      const blocksAtCursor = timeline.load(JSON.parse(await file.text()))
+      setTimelineError(null)
+      setSelectedStep(null)
+      setCompareSteps(null)
+      onTimeTravel?.(blocksAtCursor)
+    } catch (error) {
+      setTimelineError(error instanceof Error ? error.message : 'Could not read the session')
+    }
+  }, [timeline, onTimeTravel])
+
+  const clearTimeline = useCallback(() => {
+    timeline.clear(blocks)
+    setSelectedStep(null)
+    setCompareSteps(null)
+  }, [timeline, blocks])
+
+  const stepDiff = useMemo(() => {
+    if (!compareSteps) return null
+    const from = Math.min(compareSteps.from, timelineSteps.length)
+    const to = Math.min(compareSteps.to, timelineSteps.length)
+    const before = timeline.getBlocksAt(from)
+    const after = timeline.getBlocksAt(to)
+    const { left, right } = computeStepDiff(before, after)
+    return { from, to, left: buildDiffTree(before, left), right: buildDiffTree(after, right) }
+  }, [timeline, compareSteps, timelineSteps, timelineCursor])
+
+  // While recording, follow the latest frame
+  const shownFrameIndex = isRecordingCollisions || collisionFrameIndex === null
+    ? collisionFrames.length - 1
+    : Math.min(collisionFrameIndex, collisionFrames.length - 1)
+  const shownFrame = collisionFrames[shownFrameIndex]
+
   const formatTime = (ts: number) => {
     const d = new Date(ts)
     return `${d.getHours().toString().padStart(2, '0')}:${d.getMinutes().toString().padStart(2, '0')}:${d.getSeconds().toString().padStart(2, '0')}`
@@ -805,12 +1069,54 @@ export function BlockTreeDevTools<T extends BaseBlock = BaseBlock>({
 
   const diffRowColor = (ct: ChangeType): React.CSSProperties => {
     if (ct === 'added') return { background: 'rgba(16,185,129,0.1)', color: '#34d399' }
+    if (ct === 'removed') return { background: 'rgba(239,68,68,0.1)', color: '#f87171' }
     if (ct === 'moved') return { background: 'rgba(245,158,11,0.1)', color: '#fbbf24' }
+    if (ct === 'changed') return { background: 'rgba(236,72,153,0.1)', color: '#f472b6' }
     return { color: 'rgba(200,200,200,0.5)' }
   }
 
+  const DIFF_MARKERS: Record<ChangeType, string> = { added: '+', removed: '-', moved: '~', changed: '*', unchanged: '' }
+
+  const stepLabel = (step: number) => step === 0 ? 'Initial' : timelineSteps[step - 1]?.label ?? ''
+
+  const stepSelectStyle: React.CSSProperties = {
+    fontSize: 10,
+    background: 'transparent',
+    color: '#ccc',
+    border: '1px solid rgba(128,128,128,0.3)',
+    borderRadius: 4,
+    maxWidth: 120,
+  }
+
+  const renderStepColumn = (entries: DiffEntry<T>[]) => (
+    <div style={{ flex: '1 1 50%', minWidth: 0, fontFamily: 'monospace', fontSize: 10, lineHeight: '1.7' }}>
+      {entries.map(({ block, changeType, depth }) => (
+        <div
+          key={block.id}
+          style={{
+            padding: '1px 4px 1px ' + (depth * 10 + 4) + 'px',
+            borderRadius: 3,
+            display: 'flex',
+            gap: 4,
+            ...diffRowColor(changeType),
+          }}
+        >
+          <span style={{ width: 8, flexShrink: 0, fontWeight: 700 }}>{DIFF_MARKERS[changeType]}</span>
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', minWidth: 0 }}>
+            {getLabel(block)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+
   return (
     <>
+      {/* Collision overlay */}
+      {isOpen && shownFrame && (
+        <CollisionOverlay frame={shownFrame} path={collisionFrames.slice(0, shownFrameIndex + 1)} />
+      )}
+
       {/* Trigger Button + Tooltip */}
       <div style={{ position: 'fixed', left: btnPos.x, top: btnPos.y, zIndex: 99998 }}>
         <button
@@ -930,6 +1236,122 @@ export function BlockTreeDevTools<T extends BaseBlock = BaseBlock>({
                 </div>
               </div>
 
+              <div style={sectionStyle} data-devtools-section="timeline">
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 }}>
+                  <div style={headingStyle} title="Every recorded state of the tree">Timeline ({timelineSteps.length})</div>
+                  <div style={{ display: 'flex', gap: 4 }}>
+                    <button onClick={exportTimeline} style={clearBtnStyle} title="Download the session as JSON">Export</button>
+                    <button onClick={() => importInputRef.current?.click()} style={clearBtnStyle} title="Load a session from JSON">Import</button>
+                    {timelineSteps.length > 0 && (
+                      <button onClick={clearTimeline} style={clearBtnStyle}>Clear</button>
+                    )}
+                  </div>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    style={{ display: 'none' }}
+                    onChange={e => {
+                      const file = e.target.files?.[0]
+                      if (file) void importTimeline(file)
+                      e.target.value = ''
+                    }}
+                  />
+                </div>
+                {timelineSteps.length > 0 ? (
+                  <>
+                    <input
+                      type="range"
+                      min={0}
+                      max={timelineSteps.length}
+                      value={shownStep}
+                      onChange={e => setSelectedStep(Number(e.target.value))}
+                      style={{ width: '100%' }}
+                      aria-label="Timeline step"
+                    />
+                    <div style={statRowStyle} title="Step selected on the scrubber">
+                      <span>Step {shownStep} / {timelineSteps.length}{shownStep === timelineCursor ? ' (current)' : ''}</span>
+                      <span style={statValueStyle}>{shownStepInfo ? formatTime(shownStepInfo.time) : ''}</span>
+                    </div>
+                    <div style={{ fontSize: 11, opacity: 0.8, marginBottom: 4 }}>{stepLabel(shownStep)}</div>
+                    <div style={{ display: 'flex', gap: 4 }}>
+                      {onTimeTravel && (
+                        <button
+                          onClick={() => jumpToStep(shownStep)}
+                          style={clearBtnStyle}
+                          disabled={shownStep === timelineCursor}
+                          title="Replace the tree's blocks with this step's"
+                        >
+                          Jump
+                        </button>
+                      )}
+                      <button
+                        onClick={() => compareStep(shownStep)}
+                        style={clearBtnStyle}
+                        disabled={shownStep === 0}
+                        title="Compare this step with the one before it"
+                      >
+                        Compare
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <div style={{ fontSize: 11, opacity: 0.4, padding: '8px 0' }}>
+                    No steps yet. Change the tree to record one.
+                  </div>
+                )}
+                {timelineError && (
+                  <div style={{ fontSize: 10, color: '#ef4444', marginTop: 4 }}>{timelineError}</div>
+                )}
+              </div>
+
+              {collisionRecorder && (
+                <div style={sectionStyle} data-devtools-section="collisions">
+                  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 }}>
+                    <div style={headingStyle} title="Recorded collision detector calls">Collisions ({collisionFrames.length})</div>
+                    <div style={{ display: 'flex', gap: 4 }}>
+                      <button onClick={toggleCollisionRecording} style={clearBtnStyle}>
+                        {isRecordingCollisions ? 'Stop' : 'Record'}
+                      </button>
+                      {collisionFrames.length > 0 && !isRecordingCollisions && (
+                        <button onClick={exportCollisions} style={clearBtnStyle} title="Download the recording as JSON">Export</button>
+                      )}
+                    </div>
+                  </div>
+                  {shownFrame ? (
+                    <>
+                      {!isRecordingCollisions && collisionFrames.length > 1 && (
+                        <input
+                          type="range"
+                          min={0}
+                          max={collisionFrames.length - 1}
+                          value={shownFrameIndex}
+                          onChange={e => setCollisionFrameIndex(Number(e.target.value))}
+                          style={{ width: '100%' }}
+                          aria-label="Collision frame"
+                        />
+                      )}
+                      <div style={statRowStyle} title="Frame shown in the overlay">
+                        <span>Frame</span>
+                        <span style={statValueStyle}>{shownFrameIndex + 1} / {collisionFrames.length} · {shownFrame.time}ms</span>
+                      </div>
+                      <div style={statRowStyle} title="Zone the detector picked">
+                        <span>Picked</span>
+                        <span style={{ ...statValueStyle, color: '#3b82f6' }}>{shownFrame.results[0]?.id ?? 'none'}</span>
+                      </div>
+                      <div style={statRowStyle} title="Candidates the detector scored">
+                        <span>Candidates</span>
+                        <span style={statValueStyle}>{shownFrame.candidates.length}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <div style={{ fontSize: 11, opacity: 0.4, padding: '8px 0' }}>
+                      {isRecordingCollisions ? 'Recording. Drag some blocks!' : 'Record a drag to inspect its zones.'}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div style={sectionStyle} data-devtools-section="performance">
                 <div style={headingStyle} title="Render metrics">Performance</div>
                 <div style={statRowStyle} title="Render count">
@@ -951,7 +1373,35 @@ export function BlockTreeDevTools<T extends BaseBlock = BaseBlock>({
               </div>
             </div>
 
-            {showDiff && (
+            {showDiff && stepDiff && (
+              <div style={diffColumnStyle} data-devtools-section="step-diff">
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                  <div style={headingStyle} title="Blocks at two steps of the timeline">Steps</div>
+                  <button onClick={() => setCompareSteps(null)} style={clearBtnStyle} title="Back to the live structure diff">Live</button>
+                </div>
+                <div style={{ display: 'flex', gap: 6, marginBottom: 6 }}>
+                  {(['from', 'to'] as const).map(side => (
+                    <select
+                      key={side}
+                      value={stepDiff[side]}
+                      onChange={e => setCompareSteps({ from: stepDiff.from, to: stepDiff.to, [side]: Number(e.target.value) })}
+                      style={{ ...stepSelectStyle, flex: 1 }}
+                      aria-label={side === 'from' ? 'Compare from step' : 'Compare to step'}
+                    >
+                      {Array.from({ length: timelineSteps.length + 1 }, (_, step) => (
+                        <option key={step} value={step}>{step}: {stepLabel(step)}</option>
+                      ))}
+                    </select>
+                  ))}
+                </div>
+                <div style={{ display: 'flex', gap: 6 }}>
+                  {renderStepColumn(stepDiff.left)}
+                  {renderStepColumn(stepDiff.right)}
+                </div>
+              </div>
+            )}
+
+            {showDiff && !stepDiff && (
               <div style={diffColumnStyle}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
                   <div style={headingStyle} title="Tree structure diff">Structure</div>
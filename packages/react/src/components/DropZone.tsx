@@ -3,6 +3,7 @@
 import { useDroppable } from '@dnd-kit/core'
 import { memo, useCallback, useEffect } from 'react'
 import { extractUUID } from '@dnd-block-tree/core'
+import type { BlockLayout, PeerPresence } from '@dnd-block-tree/core'
 
 export interface DropZoneProps {
   id: string
@@ -12,6 +13,12 @@ export interface DropZoneProps {
   className?: string
   activeClassName?: string
   height?: number
+  /** Remote peers hovering this zone; it is highlighted in the first one's color */
+  remotePeers?: PeerPresence[]
+  /** Blocks dragged from another tree of the drag group would land here; highlighted like a hovered zone */
+  isIncoming?: boolean
+  /** Layout of the list the zone sits in. Zones between horizontal and grid children are vertical bars */
+  layout?: BlockLayout
 }
 
 function DropZoneComponent({
@@ -22,6 +29,9 @@ function DropZoneComponent({
   className = 'h-1 rounded transition-colors',
   activeClassName = 'bg-blue-500',
   height = 4,
+  remotePeers,
+  isIncoming = false,
+  layout = 'vertical',
 }: DropZoneProps) {
   const { setNodeRef, isOver, active } = useDroppable({ id })
 
@@ -39,13 +49,21 @@ function DropZoneComponent({
   if (isIntoZone && active?.id && zoneBlockId === String(active.id)) return null
   if (isIntoZone && activeId && zoneBlockId === activeId) return null
 
+  const highlighted = isOver || isIncoming
+  const remoteColor = !highlighted && remotePeers?.length ? remotePeers[0].user.color : undefined
+  const size = highlighted || remoteColor ? height * 2 : height
+
   return (
     <div
       ref={setNodeRef}
       data-zone-id={id}
       data-parent-id={parentId ?? ''}
-      style={{ height: isOver ? height * 2 : height }}
-      className={`${className} ${isOver ? activeClassName : 'bg-transparent'}`}
+      aria-hidden="true"
+      data-remote-peer-ids={remotePeers?.map(peer => peer.peerId).join(' ') || undefined}
+      style={layout === 'vertical'
+        ? { height: size, backgroundColor: remoteColor }
+        : { width: size, height: 'auto', alignSelf: 'stretch', flexShrink: 0, backgroundColor: remoteColor }}
+      className={`${className} ${highlighted ? activeClassName : remoteColor ? '' : 'bg-transparent'}`}
     />
   )
 }
@@ -0,0 +1,34 @@
+'use client'
+
+import type { CSSProperties } from 'react'
+
+export interface LiveRegionProps {
+  /** Text to announce; changing it triggers a screen reader announcement */
+  message: string
+  /** Politeness level (default: 'assertive') */
+  politeness?: 'polite' | 'assertive'
+}
+
+const visuallyHidden: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  clipPath: 'inset(100%)',
+  whiteSpace: 'nowrap',
+}
+
+/**
+ * Visually hidden live region for drag and drop announcements
+ */
+export function LiveRegion({ message, politeness = 'assertive' }: LiveRegionProps) {
+  return (
+    <div role="status" aria-live={politeness} aria-atomic="true" style={visuallyHidden}>
+      {message}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { memo } from 'react'
+import type { RemoteCursor } from '@dnd-block-tree/core'
+
+export interface RemoteCursorsProps {
+  cursors: RemoteCursor[]
+}
+
+/**
+ * Remote peers' pointers while they drag, labelled with their names.
+ * Positioned absolutely, so it must render inside the tree's root element.
+ */
+function RemoteCursorsComponent({ cursors }: RemoteCursorsProps) {
+  return (
+    <>
+      {cursors.map(({ peer, pointer }) => (
+        <div
+          key={peer.peerId}
+          data-remote-cursor={peer.peerId}
+          aria-hidden="true"
+          style={{
+            position: 'absolute',
+            left: pointer.x,
+            top: pointer.y,
+            zIndex: 10,
+            pointerEvents: 'none',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 4,
+          }}
+        >
+          <span style={{ width: 8, height: 8, borderRadius: '50%', backgroundColor: peer.user.color }} />
+          <span
+            style={{
+              padding: '1px 6px',
+              borderRadius: 4,
+              fontSize: 11,
+              lineHeight: '16px',
+              color: '#fff',
+              backgroundColor: peer.user.color,
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {peer.user.name}
+          </span>
+        </div>
+      ))}
+    </>
+  )
+}
+
+export const RemoteCursors = memo(RemoteCursorsComponent)
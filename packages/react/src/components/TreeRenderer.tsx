@@ -1,8 +1,19 @@
 'use client'
 
-import { Fragment, memo, type ReactNode } from 'react'
+import { Fragment, memo, useCallback, type ReactNode } from 'react'
 import { useDraggable } from '@dnd-kit/core'
-import type { BaseBlock, CanDragFn, AnimationConfig } from '@dnd-block-tree/core'
+import type {
+  BaseBlock,
+  BlockFilterResult,
+  BlockLayout,
+  BlockLayouts,
+  BlockLockState,
+  CanDragFn,
+  AnimationConfig,
+  PeerPresence,
+  PresenceOverlay,
+  RemoteDragPreview,
+} from '@dnd-block-tree/core'
 import type { InternalRenderers, ContainerRendererProps } from '../types'
 import { DropZone } from './DropZone'
 
@@ -36,6 +47,29 @@ export interface TreeRendererProps<T extends BaseBlock> {
   animation?: AnimationConfig
   /** When virtual scrolling is active, only render blocks in this set */
   virtualVisibleIds?: Set<string> | null
+  /** Ref callback for measuring top-level blocks (variable-height virtual scrolling) */
+  measureRootBlock?: (el: HTMLElement | null) => void
+  /** Drop zones the dragged blocks may not be dropped in are not rendered */
+  isZoneAllowed?: (zoneId: string) => boolean
+  /** Remote peers' drags: ghost previews, locked blocks and hovered zones */
+  presence?: PresenceOverlay<T> | null
+  /** Zone where blocks dragged from another tree of the drag group would land */
+  incomingZone?: string | null
+  /** Lock state of a block for the local user. Locked blocks cannot be dragged */
+  getLockState?: (blockId: string) => BlockLockState
+  /** Layouts by container type, passed down to nested renderers */
+  layouts?: BlockLayouts
+  /** Layout of this list: the layout of the parent's type (default: vertical) */
+  layout?: BlockLayout
+  /** Active filter; its match ranges are passed to the renderers */
+  filter?: BlockFilterResult | null
+}
+
+/** Flex styles that lay horizontal and grid lists out in rows */
+const LAYOUT_STYLES: Record<BlockLayout, React.CSSProperties | undefined> = {
+  vertical: undefined,
+  horizontal: { display: 'flex', flexDirection: 'row', alignItems: 'stretch' },
+  grid: { display: 'flex', flexDirection: 'row', flexWrap: 'wrap', alignItems: 'stretch' },
 }
 
 /**
@@ -43,9 +77,24 @@ export interface TreeRendererProps<T extends BaseBlock> {
  * an accurate preview of the final layout. Collision detection uses
  * snapshotted zone rects to avoid feedback loops from the ghost's displacement.
  */
-function GhostPreview({ children }: { children: ReactNode }) {
+function GhostPreview({ children, peer }: { children: ReactNode; peer?: PeerPresence }) {
+  if (peer) {
+    // A remote peer's drop target, outlined in their color
+    return (
+      <div
+        data-dnd-ghost
+        data-remote-peer-id={peer.peerId}
+        aria-hidden="true"
+        title={peer.user.name}
+        className="opacity-50"
+        style={{ pointerEvents: 'none', outline: `2px dashed ${peer.user.color}`, outlineOffset: 2 }}
+      >
+        {children}
+      </div>
+    )
+  }
   return (
-    <div data-dnd-ghost className="opacity-50" style={{ pointerEvents: 'none' }}>
+    <div data-dnd-ghost aria-hidden="true" className="opacity-50" style={{ pointerEvents: 'none' }}>
       {children}
     </div>
   )
@@ -66,6 +115,9 @@ function DraggableBlock<T extends BaseBlock>({
   depth,
   posInSet,
   setSize,
+  measureRef,
+  lockedBy,
+  isLocked,
 }: {
   block: T
   children: (props: { isDragging: boolean }) => ReactNode
@@ -78,24 +130,42 @@ function DraggableBlock<T extends BaseBlock>({
   depth: number
   posInSet: number
   setSize: number
+  measureRef?: (el: HTMLElement | null) => void
+  /** Remote peer dragging this block */
+  lockedBy?: PeerPresence
+  /** Locked for the local user by a block lock */
+  isLocked?: boolean
 }) {
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
     id: block.id,
-    disabled,
+    disabled: disabled || !!lockedBy,
   })
 
+  const ref = useCallback((el: HTMLElement | null) => {
+    setNodeRef(el)
+    measureRef?.(el)
+  }, [setNodeRef, measureRef])
+
   const isFocused = focusedId === block.id
 
   return (
     <div
-      ref={setNodeRef}
+      ref={ref}
       {...attributes}
       {...listeners}
       data-block-id={block.id}
       tabIndex={isFocused ? 0 : -1}
       onClick={onBlockClick ? (e: React.MouseEvent) => { e.stopPropagation(); onBlockClick(block.id, e) } : undefined}
       data-selected={isSelected || undefined}
-      style={{ touchAction: 'none', minWidth: 0, outline: 'none' }}
+      data-locked-by={lockedBy?.peerId}
+      data-locked={isLocked || undefined}
+      title={lockedBy ? `${lockedBy.user.name} is moving this` : undefined}
+      style={{
+        touchAction: 'none',
+        minWidth: 0,
+        outline: lockedBy ? `2px solid ${lockedBy.user.color}` : 'none',
+        outlineOffset: 2,
+      }}
       role="treeitem"
       aria-level={depth + 1}
       aria-posinset={posInSet}
@@ -134,6 +204,14 @@ function TreeRendererInner<T extends BaseBlock>({
   onBlockClick,
   animation,
   virtualVisibleIds,
+  measureRootBlock,
+  isZoneAllowed,
+  presence,
+  incomingZone,
+  getLockState,
+  layouts,
+  layout = 'vertical',
+  filter,
 }: TreeRendererProps<T>) {
   const items = blocksByParent.get(parentId) ?? []
 
@@ -149,24 +227,53 @@ function TreeRendererInner<T extends BaseBlock>({
   const showGhostHere = previewPosition?.parentId === parentId && draggedBlock
 
   const containerClass = depth === 0 ? rootClassName : indentClassName
+  const startZoneId = parentId ? `into-${parentId}` : 'root-start'
+  const endZoneId = parentId ? `end-${parentId}` : 'root-end'
+
+  // Remote previews count every sibling, including blocks being dragged here
+  const remotePreviews = presence?.previews.filter(preview => preview.parentId === parentId) ?? []
+  const renderRemoteGhosts = (previews: RemoteDragPreview<T>[]) => previews.map(preview => {
+    const GhostRenderer = renderers[preview.block.type as keyof typeof renderers]
+    return GhostRenderer ? (
+      <GhostPreview key={`remote-${preview.peer.peerId}`} peer={preview.peer}>
+        {GhostRenderer({
+          block: preview.block as T & { type: typeof preview.block.type },
+          isDragging: true,
+          depth,
+        })}
+      </GhostPreview>
+    ) : null
+  })
 
   return (
-    <div className={containerClass} style={{ minWidth: 0 }}>
+    <div
+      className={containerClass}
+      style={{ minWidth: 0, ...LAYOUT_STYLES[layout] }}
+      role={depth > 0 ? 'group' : undefined}
+      data-layout={layout === 'vertical' ? undefined : layout}
+    >
       {/* Position-0 zone: always at the start, stable regardless of which block is dragged */}
-      <DropZone
-        id={parentId ? `into-${parentId}` : 'root-start'}
-        parentId={parentId}
-        onHover={onHover}
-        activeId={activeId}
-        className={dropZoneClassName}
-        activeClassName={dropZoneActiveClassName}
-      />
+      {(isZoneAllowed?.(startZoneId) ?? true) && (
+        <DropZone
+          id={startZoneId}
+          parentId={parentId}
+          onHover={onHover}
+          activeId={activeId}
+          className={dropZoneClassName}
+          activeClassName={dropZoneActiveClassName}
+          layout={layout}
+          remotePeers={presence?.zones.get(startZoneId)}
+          isIncoming={incomingZone === startZoneId}
+        />
+      )}
 
       {filteredBlocks.map((block, index) => {
         const isContainer = containerTypes.includes(block.type)
         const isExpanded = expandedMap[block.id] !== false // Default to expanded
         const Renderer = renderers[block.type as keyof typeof renderers]
-        const isDragDisabled = canDrag ? !canDrag(block) : false
+        const lockState = getLockState?.(block.id)
+        const matchRanges = filter?.ranges.get(block.id)
+        const isDragDisabled = (canDrag ? !canDrag(block) : false) || !!lockState?.isLocked
 
         // Check if ghost should appear BEFORE this block
         const ghostBeforeThis = showGhostHere && previewPosition!.index === index
@@ -195,6 +302,8 @@ function TreeRendererInner<T extends BaseBlock>({
               </GhostPreview>
             )}
 
+            {renderRemoteGhosts(remotePreviews.filter(preview => preview.index === originalIndex))}
+
             {/* Render the block */}
             <DraggableBlock
               block={block}
@@ -207,6 +316,9 @@ function TreeRendererInner<T extends BaseBlock>({
               depth={depth}
               posInSet={originalIndex + 1}
               setSize={items.length}
+              measureRef={depth === 0 ? measureRootBlock : undefined}
+              lockedBy={presence?.locked.get(block.id)}
+              isLocked={lockState?.isLocked}
             >
               {({ isDragging }) => {
                 if (isContainer) {
@@ -257,6 +369,13 @@ function TreeRendererInner<T extends BaseBlock>({
                             onBlockClick={onBlockClick}
                             animation={animation}
                             virtualVisibleIds={virtualVisibleIds}
+                            isZoneAllowed={isZoneAllowed}
+                            presence={presence}
+                            incomingZone={incomingZone}
+                            getLockState={getLockState}
+                            layouts={layouts}
+                            layout={layouts?.[block.type]}
+                            filter={filter}
                           />
                         </div>
                       </div>
@@ -286,6 +405,13 @@ function TreeRendererInner<T extends BaseBlock>({
                         onBlockClick={onBlockClick}
                         animation={animation}
                         virtualVisibleIds={virtualVisibleIds}
+                        isZoneAllowed={isZoneAllowed}
+                        presence={presence}
+                        incomingZone={incomingZone}
+                        getLockState={getLockState}
+                        layouts={layouts}
+                        layout={layouts?.[block.type]}
+                        filter={filter}
                       />
                     ) : null
                   }
@@ -297,6 +423,8 @@ function TreeRendererInner<T extends BaseBlock>({
                     depth,
                     isExpanded,
                     onToggleExpand: () => onToggleExpand(block.id),
+                    ...lockState,
+                    matchRanges,
                   } as ContainerRendererProps<T & { type: typeof block.type }>)
                 }
 
@@ -304,12 +432,14 @@ function TreeRendererInner<T extends BaseBlock>({
                   block: block as T & { type: typeof block.type },
                   isDragging,
                   depth,
+                  ...lockState,
+                  matchRanges,
                 })
               }}
             </DraggableBlock>
 
             {/* After-zone for non-last blocks (end-zone handles last position) */}
-            {!isLastInOriginal && (
+            {!isLastInOriginal && (isZoneAllowed?.(`after-${block.id}`) ?? true) && (
               <DropZone
                 id={`after-${block.id}`}
                 parentId={block.parentId}
@@ -317,6 +447,9 @@ function TreeRendererInner<T extends BaseBlock>({
                 activeId={activeId}
                 className={dropZoneClassName}
                 activeClassName={dropZoneActiveClassName}
+                layout={layout}
+                remotePeers={presence?.zones.get(`after-${block.id}`)}
+                isIncoming={incomingZone === `after-${block.id}`}
               />
             )}
           </Fragment>
@@ -337,15 +470,22 @@ function TreeRendererInner<T extends BaseBlock>({
         ) : null
       })()}
 
+      {renderRemoteGhosts(remotePreviews.filter(preview => preview.index >= items.length))}
+
       {/* End zone: for dropping at the last position in a container */}
-      <DropZone
-        id={parentId ? `end-${parentId}` : 'root-end'}
-        parentId={parentId}
-        onHover={onHover}
-        activeId={activeId}
-        className={dropZoneClassName}
-        activeClassName={dropZoneActiveClassName}
-      />
+      {(isZoneAllowed?.(endZoneId) ?? true) && (
+        <DropZone
+          id={endZoneId}
+          parentId={parentId}
+          onHover={onHover}
+          activeId={activeId}
+          className={dropZoneClassName}
+          activeClassName={dropZoneActiveClassName}
+          layout={layout}
+          remotePeers={presence?.zones.get(endZoneId)}
+          isIncoming={incomingZone === endZoneId}
+        />
+      )}
     </div>
   )
 }
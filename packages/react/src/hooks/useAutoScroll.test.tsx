@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { useAutoScroll } from './useAutoScroll'
+
+function scrollContainer(): HTMLElement {
+  const el = document.createElement('div')
+  el.getBoundingClientRect = () => ({ top: 0, bottom: 400 } as DOMRect)
+  Object.defineProperty(el, 'clientHeight', { value: 400 })
+  Object.defineProperty(el, 'scrollHeight', { value: 1000 })
+  return el
+}
+
+function movePointer(clientY: number) {
+  window.dispatchEvent(new MouseEvent('pointermove', { clientY }))
+}
+
+describe('useAutoScroll', () => {
+  let frames: FrameRequestCallback[]
+
+  beforeEach(() => {
+    frames = []
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb))
+    vi.stubGlobal('cancelAnimationFrame', () => { frames = [] })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const flush = () => frames.splice(0).forEach(cb => cb(0))
+
+  it('scrolls every frame while the pointer is near an edge', () => {
+    const el = scrollContainer()
+    renderHook(() => useAutoScroll({ containerRef: { current: el }, active: true, threshold: 40, maxSpeed: 10 }))
+
+    movePointer(400)
+    flush()
+    expect(el.scrollTop).toBe(20)
+
+    movePointer(200)
+    flush()
+    expect(el.scrollTop).toBe(20)
+  })
+
+  it('does nothing while inactive and stops when deactivated', () => {
+    const el = scrollContainer()
+    const { rerender } = renderHook(
+      ({ active }) => useAutoScroll({ containerRef: { current: el }, active }),
+      { initialProps: { active: false } }
+    )
+
+    movePointer(400)
+    expect(el.scrollTop).toBe(0)
+
+    rerender({ active: true })
+    movePointer(400)
+    expect(el.scrollTop).toBe(16)
+
+    rerender({ active: false })
+    flush()
+    expect(el.scrollTop).toBe(16)
+  })
+})
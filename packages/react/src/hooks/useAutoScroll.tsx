@@ -0,0 +1,56 @@
+'use client'
+
+import { useEffect } from 'react'
+import { getAutoScrollDelta, type AutoScrollOptions } from '@dnd-block-tree/core'
+
+export interface UseAutoScrollOptions extends AutoScrollOptions {
+  /** Ref to the scrollable container element */
+  containerRef: React.RefObject<HTMLElement | null>
+  /** Track the pointer and scroll; usually true while a drag is active */
+  active: boolean
+}
+
+function pointerY(event: PointerEvent | TouchEvent): number | null {
+  if ('touches' in event) return event.touches[0]?.clientY ?? null
+  return event.clientY
+}
+
+/**
+ * Scroll a container while the pointer is near its top or bottom edge.
+ * While `active`, the pointer is tracked on the window and the container
+ * is scrolled every frame until the pointer leaves the edge zones.
+ */
+export function useAutoScroll({ containerRef, active, threshold, maxSpeed }: UseAutoScrollOptions): void {
+  useEffect(() => {
+    if (!active) return
+
+    let y: number | null = null
+    let frame = 0
+
+    const tick = () => {
+      frame = 0
+      const el = containerRef.current
+      if (!el || y === null) return
+
+      const delta = getAutoScrollDelta(y, el.getBoundingClientRect(), { threshold, maxSpeed })
+      const next = Math.max(0, Math.min(el.scrollHeight - el.clientHeight, el.scrollTop + delta))
+      if (next === el.scrollTop) return
+
+      el.scrollTop = next
+      frame = requestAnimationFrame(tick)
+    }
+
+    const handleMove = (event: PointerEvent | TouchEvent) => {
+      y = pointerY(event)
+      if (!frame) tick()
+    }
+
+    window.addEventListener('pointermove', handleMove, { passive: true })
+    window.addEventListener('touchmove', handleMove, { passive: true })
+    return () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('touchmove', handleMove)
+      cancelAnimationFrame(frame)
+    }
+  }, [active, containerRef, threshold, maxSpeed])
+}
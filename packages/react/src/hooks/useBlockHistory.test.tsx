@@ -91,4 +91,23 @@ describe('useBlockHistory', () => {
     act(() => result.current.undo())
     expect(result.current.canUndo).toBe(false)
   })
+
+  it('labels steps and groups changes into one', () => {
+    const { result } = renderHook(() => useBlockHistory([block('1')]))
+
+    act(() => result.current.set([block('1'), block('2', 1)], { label: 'Add task' }))
+    expect(result.current.undoLabel).toBe('Add task')
+
+    act(() => {
+      result.current.history.group('Replace tasks', () => {
+        result.current.set([block('2')])
+        result.current.set([block('3')])
+      })
+    })
+    expect(result.current.undoLabel).toBe('Replace tasks')
+
+    act(() => result.current.undo())
+    expect(result.current.blocks.map(b => b.id)).toEqual(['1', '2'])
+    expect(result.current.redoLabel).toBe('Replace tasks')
+  })
 })
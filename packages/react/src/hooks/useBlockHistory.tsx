@@ -1,19 +1,22 @@
 'use client'
 
-import { useReducer, useCallback } from 'react'
-import type { BaseBlock } from '@dnd-block-tree/core'
-import { historyReducer } from '@dnd-block-tree/core'
+import { useReducer, useRef, useEffect, useCallback } from 'react'
+import type {
+  BaseBlock,
+  BlockArrayHistory,
+  CommandHistory,
+  CommandHistoryOptions,
+  HistoryRecordOptions,
+} from '@dnd-block-tree/core'
+import { createBlockArrayHistory } from '@dnd-block-tree/core'
 
-export interface UseBlockHistoryOptions {
-  /** Maximum number of undo steps to retain (default: 50) */
-  maxSteps?: number
-}
+export interface UseBlockHistoryOptions<T extends BaseBlock = BaseBlock> extends CommandHistoryOptions<T> {}
 
 export interface UseBlockHistoryResult<T extends BaseBlock> {
   /** Current blocks state */
   blocks: T[]
-  /** Set new blocks state (pushes current to undo stack) */
-  set: (blocks: T[]) => void
+  /** Set new blocks state, recorded as an undoable step */
+  set: (blocks: T[], options?: HistoryRecordOptions) => void
   /** Undo the last change */
   undo: () => void
   /** Redo the last undone change */
@@ -22,44 +25,58 @@ export interface UseBlockHistoryResult<T extends BaseBlock> {
   canUndo: boolean
   /** Whether redo is available */
   canRedo: boolean
+  /** Label of the step undo would revert, e.g. "Move 3 blocks" */
+  undoLabel: string | null
+  /** Label of the step redo would reapply */
+  redoLabel: string | null
+  /** The underlying command history, for grouping and its steps */
+  history: CommandHistory<T>
 }
 
 /**
  * Composable hook for undo/redo support with BlockTree.
  *
+ * Each `set` records the operations between the old and new blocks and their
+ * inverse, not a snapshot; rapid edits of the same blocks coalesce into one step.
+ *
  * Usage:
  * ```tsx
- * const { blocks, set, undo, redo, canUndo, canRedo } = useBlockHistory(initialBlocks)
+ * const { blocks, set, undo, redo, canUndo, canRedo, undoLabel } = useBlockHistory(initialBlocks)
  * <BlockTree blocks={blocks} onChange={set} />
- * <button onClick={undo} disabled={!canUndo}>Undo</button>
+ * <button onClick={undo} disabled={!canUndo}>Undo {undoLabel}</button>
  * <button onClick={redo} disabled={!canRedo}>Redo</button>
  * ```
  */
 export function useBlockHistory<T extends BaseBlock>(
   initialBlocks: T[],
-  options: UseBlockHistoryOptions = {}
+  options: UseBlockHistoryOptions<T> = {}
 ): UseBlockHistoryResult<T> {
-  const { maxSteps = 50 } = options
+  const stateRef = useRef<BlockArrayHistory<T> | null>(null)
+  if (!stateRef.current) {
+    stateRef.current = createBlockArrayHistory(initialBlocks, options)
+  }
+  const state = stateRef.current
+  const { history } = state
+  const [, forceRender] = useReducer((n: number) => n + 1, 0)
 
-  const [state, dispatch] = useReducer(historyReducer<T>, {
-    past: [],
-    present: initialBlocks,
-    future: [],
-  })
+  useEffect(() => history.on('change', forceRender), [history])
 
-  const set = useCallback(
-    (blocks: T[]) => dispatch({ type: 'SET', payload: blocks, maxSteps }),
-    [maxSteps]
-  )
-  const undo = useCallback(() => dispatch({ type: 'UNDO' }), [])
-  const redo = useCallback(() => dispatch({ type: 'REDO' }), [])
+  const set = useCallback((blocks: T[], recordOptions?: HistoryRecordOptions) => {
+    state.set(blocks, recordOptions)
+    forceRender()
+  }, [state])
+  const undo = useCallback(() => { state.undo() }, [state])
+  const redo = useCallback(() => { state.redo() }, [state])
 
   return {
-    blocks: state.present,
+    blocks: state.getBlocks(),
     set,
     undo,
     redo,
-    canUndo: state.past.length > 0,
-    canRedo: state.future.length > 0,
+    canUndo: history.canUndo(),
+    canRedo: history.canRedo(),
+    undoLabel: history.getUndoLabel(),
+    redoLabel: history.getRedoLabel(),
+    history,
   }
 }
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { createBlockState } from './useBlockState'
+import type { BaseBlock } from '@dnd-block-tree/core'
+
+interface TestBlock extends BaseBlock {
+  type: 'item'
+  title: string
+}
+
+const block = (id: string, title: string): TestBlock => ({ id, type: 'item', parentId: null, order: 0, title })
+
+describe('createBlockState', () => {
+  it('applies several updates made in one handler', () => {
+    const { BlockStateProvider, useBlockState } = createBlockState<TestBlock>()
+    const onBlockUpdate = vi.fn()
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <BlockStateProvider initialBlocks={[block('1', 'A')]} onBlockUpdate={onBlockUpdate}>
+        {children}
+      </BlockStateProvider>
+    )
+    const { result } = renderHook(() => useBlockState(), { wrapper })
+
+    act(() => {
+      result.current.updateItem('1', { title: 'B' })
+      result.current.updateItem('1', { title: 'A' })
+    })
+
+    expect(result.current.blockMap.get('1')?.title).toBe('A')
+    expect(onBlockUpdate).toHaveBeenCalledTimes(2)
+    expect(onBlockUpdate.mock.calls[1][0]).toMatchObject({
+      block: { title: 'A' },
+      previous: { title: 'B' },
+      changes: { title: 'A' },
+    })
+  })
+
+  it('starts an update from the writes of other setters in the same handler', () => {
+    const { BlockStateProvider, useBlockState } = createBlockState<TestBlock>()
+    const onBlockUpdate = vi.fn()
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <BlockStateProvider initialBlocks={[block('1', 'A')]} onBlockUpdate={onBlockUpdate}>
+        {children}
+      </BlockStateProvider>
+    )
+    const { result } = renderHook(() => useBlockState(), { wrapper })
+
+    act(() => {
+      result.current.setAll([block('1', 'B'), block('2', 'C')])
+      result.current.updateItem('2', { title: 'D' })
+      result.current.updateItem('1', { title: 'E' })
+    })
+
+    expect(result.current.blocks.map(b => b.title)).toEqual(['E', 'D'])
+    expect(onBlockUpdate).toHaveBeenCalledTimes(2)
+    expect(onBlockUpdate.mock.calls[0][0]).toMatchObject({ block: { title: 'D' }, previous: { title: 'C' } })
+    expect(onBlockUpdate.mock.calls[1][0]).toMatchObject({ block: { title: 'E' }, previous: { title: 'B' } })
+  })
+})
@@ -6,6 +6,7 @@ import {
   useReducer,
   useMemo,
   useCallback,
+  useRef,
   type ReactNode,
 } from 'react'
 import type {
@@ -13,14 +14,19 @@ import type {
   BlockIndex,
   BlockAction,
   BlockStateContextValue,
+  BlockPatch,
   OrderingStrategy,
 } from '@dnd-block-tree/core'
 import {
   blockReducer,
   computeNormalizedIndex,
   getDescendantIds,
+  applyBlockPatch,
+  getBlockChanges,
   generateId,
   generateKeyBetween,
+  checkBlockPlacement,
+  getSchemaContainerTypes,
 } from '@dnd-block-tree/core'
 import type { BlockStateProviderProps } from '../types'
 
@@ -39,17 +45,20 @@ export function createBlockState<T extends BaseBlock>() {
   function BlockStateProvider({
     children,
     initialBlocks = [],
-    containerTypes = [],
+    schema,
+    containerTypes = schema ? getSchemaContainerTypes(schema) : [],
     onChange,
     orderingStrategy = 'integer',
+    fractionalKeys,
     maxDepth,
     onBlockAdd,
     onBlockDelete,
+    onBlockUpdate,
   }: BlockStateProviderProps<T>) {
     const reducerWithOptions = useCallback(
       (state: BlockIndex<T>, action: BlockAction<T>) =>
-        blockReducer(state, action, containerTypes, orderingStrategy, maxDepth),
-      [containerTypes, orderingStrategy, maxDepth]
+        blockReducer(state, action, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys),
+      [containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys]
     )
 
     const [state, dispatch] = useReducer(
@@ -57,6 +66,17 @@ export function createBlockState<T extends BaseBlock>() {
       computeNormalizedIndex(initialBlocks, orderingStrategy)
     )
 
+    // State with every action dispatched since the last render, so several
+    // writes in one handler each see the ones before
+    const latestStateRef = useRef(state)
+    latestStateRef.current = state
+
+    /** Dispatch and advance latestStateRef, so later writes in the same handler build on this one */
+    const dispatchAction = useCallback((action: BlockAction<T>) => {
+      latestStateRef.current = reducerWithOptions(latestStateRef.current, action)
+      dispatch(action)
+    }, [reducerWithOptions])
+
     const blocks = useMemo(() => {
       const result: T[] = []
       const walk = (parentId: string | null) => {
@@ -101,6 +121,12 @@ export function createBlockState<T extends BaseBlock>() {
       return map
     }, [state])
 
+    const assertPlacement = useCallback((block: T, parentId: string | null) => {
+      if (!schema) return
+      const violation = checkBlockPlacement(state, [block], parentId, schema)
+      if (violation) throw new Error(`Cannot add block ${block.id}: ${violation}`)
+    }, [state, schema])
+
     const createItem = useCallback(
       (type: T['type'], parentId: string | null = null): T => {
         const siblings = state.byParent.get(parentId) ?? []
@@ -108,15 +134,16 @@ export function createBlockState<T extends BaseBlock>() {
         if (orderingStrategy === 'fractional') {
           const lastId = siblings[siblings.length - 1]
           const lastOrder = lastId ? String(state.byId.get(lastId)!.order) : null
-          order = generateKeyBetween(lastOrder, null)
+          order = generateKeyBetween(lastOrder, null, fractionalKeys)
         }
 
         const newItem = { id: generateId(), type, parentId, order } as T
-        dispatch({ type: 'ADD_ITEM', payload: newItem })
+        assertPlacement(newItem, parentId)
+        dispatchAction({ type: 'ADD_ITEM', payload: newItem })
         onBlockAdd?.({ block: newItem, parentId, index: siblings.length })
         return newItem
       },
-      [state, orderingStrategy, onBlockAdd]
+      [state, orderingStrategy, fractionalKeys, assertPlacement, dispatchAction, onBlockAdd]
     )
 
     const insertItem = useCallback(
@@ -135,12 +162,13 @@ export function createBlockState<T extends BaseBlock>() {
           const nextId = insertIndex < siblings.length ? siblings[insertIndex] : null
           const prevOrder = prevId ? String(state.byId.get(prevId)!.order) : null
           const nextOrder = nextId ? String(state.byId.get(nextId)!.order) : null
-          order = generateKeyBetween(prevOrder, nextOrder)
+          order = generateKeyBetween(prevOrder, nextOrder, fractionalKeys)
         }
 
         const newItem = { id: generateId(), type, parentId, order } as T
+        assertPlacement(newItem, parentId)
 
-        dispatch({
+        dispatchAction({
           type: 'INSERT_ITEM',
           payload: { item: newItem, parentId, index: insertIndex },
         })
@@ -148,7 +176,7 @@ export function createBlockState<T extends BaseBlock>() {
         onBlockAdd?.({ block: newItem, parentId, index: insertIndex })
         return newItem
       },
-      [state, orderingStrategy, onBlockAdd]
+      [state, orderingStrategy, fractionalKeys, assertPlacement, dispatchAction, onBlockAdd]
     )
 
     const deleteItem = useCallback((id: string) => {
@@ -157,16 +185,25 @@ export function createBlockState<T extends BaseBlock>() {
         const deletedIds = [...getDescendantIds(state, id)]
         onBlockDelete({ block, deletedIds, parentId: block.parentId })
       }
-      dispatch({ type: 'DELETE_ITEM', payload: { id } })
-    }, [state, onBlockDelete])
+      dispatchAction({ type: 'DELETE_ITEM', payload: { id } })
+    }, [state, dispatchAction, onBlockDelete])
 
     const moveItem = useCallback((activeId: string, targetZone: string) => {
-      dispatch({ type: 'MOVE_ITEM', payload: { activeId, targetZone } })
-    }, [])
+      dispatchAction({ type: 'MOVE_ITEM', payload: { activeId, targetZone } })
+    }, [dispatchAction])
+
+    const updateItem = useCallback((id: string, patch: BlockPatch<T>) => {
+      const block = latestStateRef.current.byId.get(id)
+      dispatchAction({ type: 'UPDATE_ITEM', payload: { id, patch } })
+      if (!block) return
+      const updated = applyBlockPatch(block, patch)
+      if (updated === block) return
+      onBlockUpdate?.({ block: updated, previous: block, changes: getBlockChanges(block, updated).after })
+    }, [dispatchAction, onBlockUpdate])
 
     const setAll = useCallback((all: T[]) => {
-      dispatch({ type: 'SET_ALL', payload: all })
-    }, [])
+      dispatchAction({ type: 'SET_ALL', payload: all })
+    }, [dispatchAction])
 
     const value: BlockStateContextValue<T> = useMemo(
       () => ({
@@ -179,6 +216,7 @@ export function createBlockState<T extends BaseBlock>() {
         insertItem,
         deleteItem,
         moveItem,
+        updateItem,
         setAll,
       }),
       [
@@ -191,6 +229,7 @@ export function createBlockState<T extends BaseBlock>() {
         insertItem,
         deleteItem,
         moveItem,
+        updateItem,
         setAll,
       ]
     )
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi } from 'vitest'
 import { renderHook, act } from '@testing-library/react'
 import { useDeferredSync } from './useDeferredSync'
-import type { BaseBlock } from '@dnd-block-tree/core'
+import type { BaseBlock, ThreeWayMergeResult } from '@dnd-block-tree/core'
 
 interface TestBlock extends BaseBlock {
   type: 'item'
@@ -159,4 +159,24 @@ describe('useDeferredSync', () => {
     expect(merged![0].priority).toBe(10)
     expect(merged![0].order).toBe('k')
   })
+
+  it('exitBusy with three-way strategy merges against the base', () => {
+    const { result } = renderHook(() =>
+      useDeferredSync<TestBlock>({
+        threeWayOptions: { orderingStrategy: 'fractional', resolveField: ({ remote }) => remote },
+      })
+    )
+    const base = [block('1', 'One', 'a'), block('2', 'Two', 'b')]
+
+    act(() => result.current.enterBusy())
+    act(() => result.current.apply([block('1', 'One', 'c'), block('2', 'Remote', 'b')]))
+
+    let merged: ThreeWayMergeResult<TestBlock> | null = null
+    act(() => {
+      merged = result.current.exitBusy([block('1', 'Local', 'a'), block('2', 'Local', 'b')], 'three-way', base)
+    })
+
+    expect(merged!.blocks).toEqual([block('2', 'Remote', 'b'), block('1', 'Local', 'c')])
+    expect(merged!.conflicts).toMatchObject([{ type: 'field', id: '2', field: 'title', resolved: 'Remote' }])
+  })
 })
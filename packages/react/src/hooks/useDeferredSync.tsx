@@ -2,14 +2,16 @@
 
 import { useRef, useCallback } from 'react'
 import type { BaseBlock } from '@dnd-block-tree/core'
-import { mergeBlockVersions } from '@dnd-block-tree/core'
-import type { MergeBlockVersionsOptions } from '@dnd-block-tree/core'
+import { mergeBlockVersions, mergeBlockTrees } from '@dnd-block-tree/core'
+import type { MergeBlockVersionsOptions, ThreeWayMergeOptions, ThreeWayMergeResult } from '@dnd-block-tree/core'
 
 export interface UseDeferredSyncOptions<T extends BaseBlock> {
   /** Called when remote data is applied (only when not busy) */
   onResolve?: (blocks: T[]) => void
   /** Options passed to mergeBlockVersions when using 'merge' strategy */
   mergeOptions?: MergeBlockVersionsOptions
+  /** Options passed to mergeBlockTrees when using 'three-way' strategy */
+  threeWayOptions?: ThreeWayMergeOptions
 }
 
 export interface UseDeferredSyncResult<T extends BaseBlock> {
@@ -25,15 +27,21 @@ export interface UseDeferredSyncResult<T extends BaseBlock> {
    *
    * @param localBlocks - Current local blocks to merge with queued remote
    * @param strategy - 'merge' uses mergeBlockVersions (content + structure),
-   *                   'lww' discards queued remote changes (last write wins)
+   *                   'lww' discards queued remote changes (last write wins),
+   *                   'three-way' uses mergeBlockTrees with `base` as the common
+   *                   base and also returns conflicts
+   * @param base - The blocks from before the action started ('three-way' only)
    */
-  exitBusy: (localBlocks: T[], strategy: 'merge' | 'lww') => T[] | null
+  exitBusy: {
+    (localBlocks: T[], strategy: 'merge' | 'lww'): T[] | null
+    (localBlocks: T[], strategy: 'three-way', base: T[]): ThreeWayMergeResult<T> | null
+  }
 }
 
 /**
  * Hook for deferring remote sync updates during blocking actions
  * like editing or dragging. Remote changes queue while busy and
- * resolve on exit using either merge or last-write-wins strategy.
+ * resolve on exit using merge, three-way merge or last-write-wins strategy.
  *
  * @example
  * ```tsx
@@ -53,10 +61,13 @@ export interface UseDeferredSyncResult<T extends BaseBlock> {
  * }
  *
  * // Edit handlers:
- * onStartEdit: () => sync.enterBusy()
+ * onStartEdit: () => {
+ *   editBase.current = currentBlocks
+ *   sync.enterBusy()
+ * }
  * onCommitEdit: () => {
- *   const result = sync.exitBusy(editedBlocks, 'merge')
- *   if (result) publish(result)
+ *   const result = sync.exitBusy(editedBlocks, 'three-way', editBase.current)
+ *   if (result) publish(result.blocks)
  * }
  * ```
  */
@@ -80,7 +91,7 @@ export function useDeferredSync<T extends BaseBlock>(
     busyRef.current = true
   }, [])
 
-  const exitBusy = useCallback((localBlocks: T[], strategy: 'merge' | 'lww'): T[] | null => {
+  const exitBusy = useCallback(((localBlocks: T[], strategy: 'merge' | 'lww' | 'three-way', base?: T[]) => {
     busyRef.current = false
     const queued = queueRef.current
     queueRef.current = null
@@ -91,8 +102,12 @@ export function useDeferredSync<T extends BaseBlock>(
       return localBlocks
     }
 
+    if (strategy === 'three-way') {
+      return mergeBlockTrees(base!, localBlocks, queued, optionsRef.current?.threeWayOptions)
+    }
+
     return mergeBlockVersions(localBlocks, queued, optionsRef.current?.mergeOptions)
-  }, [])
+  }) as UseDeferredSyncResult<T>['exitBusy'], [])
 
   return {
     get isBusy() { return busyRef.current },
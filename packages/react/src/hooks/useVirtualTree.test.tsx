@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { renderHook } from '@testing-library/react'
+import { renderHook, act } from '@testing-library/react'
 import { useVirtualTree } from './useVirtualTree'
 
 function createRef(el: HTMLElement | null = null) {
@@ -83,4 +83,63 @@ describe('useVirtualTree', () => {
     // end = min(99, 0+0+5) = 5
     expect(result.current.visibleRange.end).toBe(5)
   })
+
+  describe('measured heights', () => {
+    const ids = (n: number) => Array.from({ length: n }, (_, i) => `b${i}`)
+
+    function item(id: string, height: number) {
+      const el = document.createElement('div')
+      el.setAttribute('data-block-id', id)
+      el.getBoundingClientRect = () => ({ height } as DOMRect)
+      document.body.appendChild(el)
+      return el
+    }
+
+    it('uses the estimate until items are measured', () => {
+      const { result } = renderHook(() =>
+        useVirtualTree({
+          containerRef: createRef(),
+          itemCount: 10,
+          itemIds: ids(10),
+          estimatedItemHeight: 30,
+          overscan: 2,
+        })
+      )
+      expect(result.current.totalHeight).toBe(300)
+      expect(result.current.visibleRange).toEqual({ start: 0, end: 2 })
+    })
+
+    it('caches measured heights by id', () => {
+      const itemIds = ids(10)
+      const { result } = renderHook(() =>
+        useVirtualTree({ containerRef: createRef(), itemCount: 10, itemIds, estimatedItemHeight: 30 })
+      )
+      act(() => result.current.measureElement(item('b0', 130)))
+      expect(result.current.totalHeight).toBe(400)
+    })
+
+    it('keeps the top visible item in place when an item above it grows', () => {
+      const container = document.createElement('div')
+      let scrollTop = 0
+      Object.defineProperty(container, 'scrollTop', { get: () => scrollTop, set: v => { scrollTop = v } })
+      document.body.appendChild(container)
+
+      const itemIds = ids(20)
+      const { result } = renderHook(() =>
+        useVirtualTree({ containerRef: createRef(container), itemCount: 20, itemIds, estimatedItemHeight: 40 })
+      )
+      scrollTop = 210 // b5, 10px in
+      act(() => result.current.measureElement(item('b1', 140)))
+      expect(scrollTop).toBe(310)
+      expect(result.current.offsetY).toBe(0)
+    })
+
+    it('ignores measureElement with a fixed item height', () => {
+      const { result } = renderHook(() =>
+        useVirtualTree({ containerRef: createRef(), itemCount: 10, itemHeight: 30, itemIds: ids(10) })
+      )
+      act(() => result.current.measureElement(item('b0', 130)))
+      expect(result.current.totalHeight).toBe(300)
+    })
+  })
 })
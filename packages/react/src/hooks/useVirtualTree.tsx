@@ -1,14 +1,29 @@
 'use client'
 
-import { useState, useCallback, useRef, useEffect } from 'react'
+import { useState, useCallback, useRef, useEffect, useLayoutEffect, useMemo, useReducer } from 'react'
+import {
+  createHeightCache,
+  getVirtualWindow,
+  getScrollAnchor,
+  resolveScrollAnchor,
+  type HeightCache,
+  type VirtualLayout,
+} from '@dnd-block-tree/core'
 
 export interface UseVirtualTreeOptions {
   /** Ref to the scrollable container element */
   containerRef: React.RefObject<HTMLElement | null>
   /** Total number of items in the tree */
   itemCount: number
-  /** Fixed height of each item in pixels */
-  itemHeight: number
+  /**
+   * Fixed height of each item in pixels. Omit to measure items instead
+   * (variable heights), which requires `itemIds`
+   */
+  itemHeight?: number
+  /** Ids of the items in render order; measured heights are cached by id */
+  itemIds?: readonly string[]
+  /** Height assumed for items that have not been measured yet (default: 40) */
+  estimatedItemHeight?: number
   /** Number of extra items to render outside the visible range (default: 5) */
   overscan?: number
 }
@@ -20,61 +35,181 @@ export interface UseVirtualTreeResult {
   totalHeight: number
   /** Offset from top for the first rendered item */
   offsetY: number
+  /**
+   * Ref callback for rendered items when measuring. The item id is read from
+   * `data-block-id` and the height is re-measured whenever the element resizes.
+   * Does nothing with a fixed `itemHeight`.
+   */
+  measureElement: (el: HTMLElement | null) => void
+  /** Positions of all items, including the ones that are not rendered */
+  getLayout: () => VirtualLayout
+}
+
+function fixedLayout(itemCount: number, itemHeight: number): VirtualLayout {
+  const offsets: number[] = new Array(itemCount)
+  const heights: number[] = new Array(itemCount).fill(itemHeight)
+  for (let i = 0; i < itemCount; i++) offsets[i] = i * itemHeight
+  return { offsets, heights, totalHeight: itemCount * itemHeight }
+}
+
+function measureHeight(el: Element, entry?: ResizeObserverEntry): number {
+  const size = entry?.borderBoxSize?.[0]
+  return size ? size.blockSize : el.getBoundingClientRect().height
 }
 
 /**
- * Lightweight fixed-height virtual scrolling hook for tree lists.
+ * Lightweight virtual scrolling hook for tree lists.
  *
  * Tracks scroll position on the container and computes which items
- * should be rendered based on the viewport and overscan.
+ * should be rendered based on the viewport and overscan. With a fixed
+ * `itemHeight` positions are computed arithmetically; otherwise items are
+ * measured with a ResizeObserver and the scroll position is anchored to the
+ * top visible item, so content above the viewport changing height (e.g. a
+ * container expanding) does not make the list jump.
  */
 export function useVirtualTree({
   containerRef,
   itemCount,
   itemHeight,
+  itemIds,
+  estimatedItemHeight = 40,
   overscan = 5,
 }: UseVirtualTreeOptions): UseVirtualTreeResult {
   const [scrollTop, setScrollTop] = useState(0)
   const [containerHeight, setContainerHeight] = useState(0)
+  const [container, setContainer] = useState<HTMLElement | null>(null)
   const rafId = useRef(0)
 
+  // The container may mount after this hook (e.g. when virtualization is toggled on)
+  useLayoutEffect(() => {
+    if (containerRef.current !== container) setContainer(containerRef.current)
+  })
+
   const handleScroll = useCallback(() => {
     cancelAnimationFrame(rafId.current)
     rafId.current = requestAnimationFrame(() => {
-      const el = containerRef.current
-      if (el) {
-        setScrollTop(el.scrollTop)
-        setContainerHeight(el.clientHeight)
+      if (container) {
+        setScrollTop(container.scrollTop)
+        setContainerHeight(container.clientHeight)
       }
     })
-  }, [containerRef])
+  }, [container])
 
   useEffect(() => {
-    const el = containerRef.current
-    if (!el) return
+    if (!container) return
 
-    setScrollTop(el.scrollTop)
-    setContainerHeight(el.clientHeight)
+    setScrollTop(container.scrollTop)
+    setContainerHeight(container.clientHeight)
 
-    el.addEventListener('scroll', handleScroll, { passive: true })
+    container.addEventListener('scroll', handleScroll, { passive: true })
     return () => {
-      el.removeEventListener('scroll', handleScroll)
+      container.removeEventListener('scroll', handleScroll)
       cancelAnimationFrame(rafId.current)
     }
-  }, [containerRef, handleScroll])
+  }, [container, handleScroll])
+
+  // --- Measured (variable-height) mode ---
+  const measured = itemHeight === undefined
+  const cacheRef = useRef<HeightCache | null>(null)
+  if (!cacheRef.current || cacheRef.current.estimatedHeight !== estimatedItemHeight) {
+    cacheRef.current = createHeightCache(estimatedItemHeight)
+  }
+  const cache = cacheRef.current
+  const [measureVersion, bumpMeasureVersion] = useReducer((n: number) => n + 1, 0)
+  const observedRef = useRef(new Map<Element, string>())
+  const observerRef = useRef<ResizeObserver | null>(null)
+
+  const recordHeight = useCallback((id: string, height: number): boolean => {
+    // Zero means hidden or not laid out yet; keep the estimate
+    return height > 0 && cache.set(id, height)
+  }, [cache])
+
+  const measureElement = useCallback((el: HTMLElement | null) => {
+    if (!measured || !el) return
+    const id = el.getAttribute('data-block-id')
+    if (!id || observedRef.current.get(el) === id) return
+
+    observedRef.current.set(el, id)
+    if (!observerRef.current && typeof ResizeObserver !== 'undefined') {
+      observerRef.current = new ResizeObserver((entries) => {
+        let changed = false
+        for (const entry of entries) {
+          const entryId = observedRef.current.get(entry.target)
+          if (entryId && recordHeight(entryId, measureHeight(entry.target, entry))) changed = true
+        }
+        if (changed) bumpMeasureVersion()
+      })
+    }
+    observerRef.current?.observe(el)
+    if (recordHeight(id, measureHeight(el))) bumpMeasureVersion()
+  }, [measured, recordHeight])
+
+  // Stop observing elements that were unmounted
+  useEffect(() => {
+    for (const el of observedRef.current.keys()) {
+      if (!el.isConnected) {
+        observerRef.current?.unobserve(el)
+        observedRef.current.delete(el)
+      }
+    }
+  })
+
+  useEffect(() => () => observerRef.current?.disconnect(), [])
+
+  const layout = useMemo(
+    () => (measured ? cache.layout(itemIds ?? []) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [measured, cache, itemIds, measureVersion]
+  )
+
+  const getLayout = useCallback(
+    () => layout ?? fixedLayout(itemCount, itemHeight ?? estimatedItemHeight),
+    [layout, itemCount, itemHeight, estimatedItemHeight]
+  )
+
+  // Scroll anchoring: keep the top visible item in place when the layout changes
+  const prevLayoutRef = useRef<{ ids: readonly string[]; layout: VirtualLayout } | null>(null)
+  useLayoutEffect(() => {
+    const prev = prevLayoutRef.current
+    prevLayoutRef.current = layout ? { ids: itemIds ?? [], layout } : null
+    if (!prev || !layout || !container) return
+
+    const anchor = getScrollAnchor(prev.ids, prev.layout, container.scrollTop)
+    if (!anchor) return
+    const next = resolveScrollAnchor(itemIds ?? [], layout, anchor)
+    if (next !== null && Math.abs(next - container.scrollTop) >= 1) {
+      container.scrollTop = next
+      setScrollTop(next)
+    }
+  }, [layout, container])
+
+  if (layout) {
+    const { startIndex, endIndex, offsetY } = getVirtualWindow(layout, scrollTop, containerHeight, overscan)
+    return {
+      visibleRange: { start: startIndex, end: endIndex - 1 },
+      totalHeight: layout.totalHeight,
+      offsetY,
+      measureElement,
+      getLayout,
+    }
+  }
 
-  const totalHeight = itemCount * itemHeight
+  // --- Fixed-height mode ---
+  const fixedHeight = itemHeight!
+  const totalHeight = itemCount * fixedHeight
 
-  const startRaw = Math.floor(scrollTop / itemHeight)
-  const visibleCount = Math.ceil(containerHeight / itemHeight)
+  const startRaw = Math.floor(scrollTop / fixedHeight)
+  const visibleCount = Math.ceil(containerHeight / fixedHeight)
   const start = Math.max(0, startRaw - overscan)
   const end = Math.min(itemCount - 1, startRaw + visibleCount + overscan)
 
-  const offsetY = start * itemHeight
+  const offsetY = start * fixedHeight
 
   return {
     visibleRange: { start, end },
     totalHeight,
     offsetY,
+    measureElement,
+    getLayout,
   }
 }
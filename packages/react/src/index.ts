@@ -6,6 +6,7 @@ export type {
   BaseBlock,
   BlockIndex,
   BlockAction,
+  BlockPatch,
   DragOverlayProps as CoreDragOverlayProps,
   BlockTreeConfig,
   BlockStateContextValue,
@@ -18,9 +19,18 @@ export type {
   BlockMoveEvent,
   BlockAddEvent,
   BlockDeleteEvent,
+  BlockUpdateEvent,
   MoveOperation,
   ExpandChangeEvent,
   HoverChangeEvent,
+  OrderOverflowEvent,
+  // Operation types
+  BlockOperation,
+  InsertBlockOperation,
+  MoveBlockOperation,
+  DeleteBlockOperation,
+  UpdateBlockOperation,
+  ResetBlocksOperation,
   // Callback types
   BlockTreeCallbacks,
   // Customization types (core versions with CoreCollisionDetection)
@@ -39,19 +49,151 @@ export type {
   CollisionResult,
   CoreCollisionDetection,
   SnapshotRectsRef,
+  GetZoneLayout,
+  OffsetDepthOrigin,
+  OffsetDepthOptions,
+  OffsetDepthCollision,
+  CollisionFrame,
+  CollisionRecording,
+  CollisionRecorderOptions,
+  CollisionRecorderWrapOptions,
+  CollisionRecorderEvents,
+  CollisionRecorder,
   // Reducer types
   ExpandAction,
   HistoryState,
   HistoryAction,
+  // Command history types
+  HistoryStep,
+  CommandHistory,
+  CommandHistoryOptions,
+  CommandHistoryEvents,
+  HistoryRecordOptions,
+  BlockArrayHistory,
+  // Timeline types
+  TimelineStep,
+  BlockTimelineSession,
+  BlockTimelineOptions,
+  BlockTimelineEvents,
+  BlockTimeline,
+  // Tree diff types
+  BlockTreeDiff,
+  BlockDiffAdd,
+  BlockDiffDelete,
+  BlockDiffMove,
+  BlockDiffChange,
+  DiffBlockTreesOptions,
+  // View state types
+  TreeViewState,
+  TreeScrollPosition,
+  ViewStateStorage,
+  ViewStatePersistence,
+  ViewStatePersistenceOptions,
+  StorageLike,
+  WebStorageAdapterOptions,
+  IndexedDBAdapterOptions,
+  IDBFactoryLike,
+  // Filter types
+  BlockFilterQuery,
+  BlockFilterOptions,
+  BlockFilterResult,
+  TextMatchRange,
+  HighlightSegment,
   // Tree factory types
   BlockTreeOptions,
   BlockTreeEvents,
   BlockTreeInstance,
+  BlockTreeBatch,
+  // Replicated tree document types
+  TreeDocument,
+  TreeDocumentOptions,
+  TreeDocumentEvents,
+  TreeDocumentUpdate,
+  CrdtBlockState,
+  CrdtMove,
+  CrdtRegister,
+  CrdtStamp,
+  // Sync transport types
+  SyncTransport,
+  SyncMessage,
+  TreeSync,
+  TreeSyncOptions,
+  TreeSyncEvents,
+  SyncBlockTreeOptions,
+  LoopbackNetwork,
+  LoopbackNetworkOptions,
+  MessageTarget,
+  PostMessageTransportOptions,
+  WebSocketLike,
+  // Presence types
+  Presence,
+  PresenceOptions,
+  PresenceEvents,
+  PresenceMessage,
+  PresenceUser,
+  PresenceDragState,
+  PresencePointer,
+  PeerPresence,
+  PresenceOverlay,
+  RemoteDragPreview,
+  RemoteCursor,
+  // Drag group types
+  DragGroup,
+  DragGroupOptions,
+  DragGroupEvents,
+  DragGroupMember,
+  DragGroupDrag,
+  BlockTransfer,
+  BlockTransferEvent,
   // Util types
   TreeValidationResult,
   NestedBlock,
+  // Keyboard move types
+  KeyboardMoveDirection,
+  KeyboardMoveOptions,
+  // Schema types
+  BlockTypeRules,
+  BlockSchema,
+  // Lock types
+  BlockLockKind,
+  BlockLock,
+  BlockLocks,
+  BlockPermissions,
+  BlockLockState,
+  // Layout types
+  BlockLayout,
+  BlockLayouts,
+  // Fractional indexing types
+  FractionalKeyOptions,
+  FractionalKeyStats,
+  FractionalRebalanceResult,
+  // Announcement types
+  Announcements,
+  AnnouncementContext,
+  AnnouncementEvent,
+  // Clipboard types
+  BlockClipboardPayload,
+  PastePosition,
+  InsertBlocksOptions,
+  PasteBlocksOptions,
+  PasteBlocksResult,
   // Merge types
   MergeBlockVersionsOptions,
+  ThreeWayMergeOptions,
+  ThreeWayMergeResult,
+  BlockMergeConflict,
+  BlockFieldConflict,
+  BlockMoveConflict,
+  BlockDeleteConflict,
+  BlockPlacement,
+  // Virtualization types
+  HeightCache,
+  VirtualLayout,
+  VirtualWindow,
+  ScrollAnchor,
+  VirtualContentOrigin,
+  VirtualZoneRectOptions,
+  AutoScrollOptions,
 } from '@dnd-block-tree/core'
 
 // Re-export core functions
@@ -60,16 +202,53 @@ export {
   extractBlockId,
   // Collision
   weightedVerticalCollision,
+  horizontalCollision,
+  gridCollision,
   closestCenterCollision,
   createStickyCollision,
+  createOffsetDepthCollision,
+  scoreCollisionCandidates,
+  createCollisionRecorder,
+  replayCollisionRecording,
   // Event emitter
   EventEmitter,
   // Reducers
   blockReducer,
   expandReducer,
   historyReducer,
+  // Command history
+  createCommandHistory,
+  createBlockArrayHistory,
+  describeBlockOperations,
+  // Timeline
+  createBlockTimeline,
+  // View state persistence
+  createViewStatePersistence,
+  createWebStorageAdapter,
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createIndexedDBAdapter,
+  createMemoryStorageAdapter,
   // Tree factory
   createBlockTree,
+  // Replicated tree document
+  createTreeDocument,
+  bindTreeDocument,
+  generatePeerId,
+  // Sync transport
+  connectTreeDocument,
+  syncBlockTree,
+  createLoopbackNetwork,
+  createBroadcastChannelTransport,
+  createPostMessageTransport,
+  createWebSocketTransport,
+  // Presence
+  createPresence,
+  getPresenceOverlay,
+  getZonePosition,
+  // Drag groups
+  createDragGroup,
+  canReceiveBlocks,
   // Utils
   cloneMap,
   cloneParentMap,
@@ -79,23 +258,79 @@ export {
   getDescendantIds,
   deleteBlockAndDescendants,
   getBlockDepth,
+  getZoneDepth,
   getSubtreeDepth,
   reparentMultipleBlocks,
   validateBlockTree,
+  applyBlockPatch,
+  getBlockChanges,
   extractUUID,
   debounce,
   generateId,
   // Serialization
   flatToNested,
   nestedToFlat,
+  // Clipboard
+  BLOCK_CLIPBOARD_MIME,
+  copyBlockSubtrees,
+  pasteBlockSubtrees,
+  insertBlockSubtrees,
+  serializeBlockClipboard,
+  parseBlockClipboard,
+  writeSystemClipboard,
+  readSystemClipboard,
+  // Announcements
+  defaultAnnouncements,
+  resolveAnnouncements,
+  getAnnouncement,
+  // Keyboard moves
+  isValidDropZone,
+  getKeyboardMoveZone,
+  getKeyboardDropZones,
+  // Schema
+  getSchemaContainerTypes,
+  getZoneParentId,
+  checkBlockPlacement,
+  isZoneAllowed,
+  getSchemaViolations,
+  // Locks
+  isLockedFor,
+  getBlockLocks,
+  getBlockPermissions,
+  isZoneUnlocked,
+  getBlockLockState,
+  // Layouts
+  getZoneLayout,
+  // Operations
+  applyBlockOperations,
+  // Tree diffing
+  diffBlockTrees,
+  applyBlockDiff,
+  // Filtering
+  filterBlockTree,
+  findMatchRanges,
+  getHighlightSegments,
+  getFilteredIndex,
+  getFilteredExpandedMap,
+  mapFilteredZone,
   // Fractional indexing
   generateKeyBetween,
   generateNKeysBetween,
   generateInitialKeys,
   initFractionalOrder,
   compareFractionalKeys,
+  getFractionalKeyStats,
+  rebalanceFractionalOrder,
   // Merge
   mergeBlockVersions,
+  mergeBlockTrees,
+  // Virtualization
+  createHeightCache,
+  getVirtualWindow,
+  getScrollAnchor,
+  resolveScrollAnchor,
+  getVirtualZoneRects,
+  getAutoScrollDelta,
 } from '@dnd-block-tree/core'
 
 // ============================================================================
@@ -119,6 +354,7 @@ export type {
 // ============================================================================
 
 export { adaptCollisionDetection } from './bridge'
+export type { AdaptCollisionOptions } from './bridge'
 
 // ============================================================================
 // Utils
@@ -149,6 +385,12 @@ export type { DropZoneProps } from './components/DropZone'
 export { DragOverlay } from './components/DragOverlay'
 export type { DragOverlayProps } from './components/DragOverlay'
 
+export { LiveRegion } from './components/LiveRegion'
+export type { LiveRegionProps } from './components/LiveRegion'
+
+export { RemoteCursors } from './components/RemoteCursors'
+export type { RemoteCursorsProps } from './components/RemoteCursors'
+
 export { BlockTreeSSR } from './components/BlockTreeSSR'
 export type { BlockTreeSSRProps } from './components/BlockTreeSSR'
 
@@ -170,6 +412,9 @@ export type { UseLayoutAnimationOptions } from './hooks/useLayoutAnimation'
 export { useVirtualTree } from './hooks/useVirtualTree'
 export type { UseVirtualTreeOptions, UseVirtualTreeResult } from './hooks/useVirtualTree'
 
+export { useAutoScroll } from './hooks/useAutoScroll'
+export type { UseAutoScrollOptions } from './hooks/useAutoScroll'
+
 // ============================================================================
 // DevTools
 // ============================================================================
@@ -11,6 +11,7 @@ import type {
   OrderingStrategy,
   BlockAddEvent,
   BlockDeleteEvent,
+  BlockUpdateEvent,
   CanDragFn,
   CanDropFn,
   IdGeneratorFn,
@@ -18,6 +19,11 @@ import type {
   DropZoneConfig,
   AnimationConfig,
   AutoExpandConfig,
+  BlockSchema,
+  BlockLocks,
+  BlockLayouts,
+  FractionalKeyOptions,
+  OffsetDepthOptions,
 } from '@dnd-block-tree/core'
 
 // ============================================================================
@@ -54,9 +60,12 @@ export interface BlockStateProviderProps<T extends BaseBlock = BaseBlock> {
   containerTypes?: readonly string[]
   onChange?: (blocks: T[]) => void
   orderingStrategy?: OrderingStrategy
+  fractionalKeys?: FractionalKeyOptions
   maxDepth?: number
+  schema?: BlockSchema
   onBlockAdd?: (event: BlockAddEvent<T>) => void
   onBlockDelete?: (event: BlockDeleteEvent<T>) => void
+  onBlockUpdate?: (event: BlockUpdateEvent<T>) => void
 }
 
 /**
@@ -93,6 +102,7 @@ export interface BlockTreeCustomization<T extends BaseBlock = BaseBlock> {
   canDrag?: CanDragFn<T>
   canDrop?: CanDropFn<T>
   collisionDetection?: CollisionDetection
+  offsetDepth?: boolean | OffsetDepthOptions
   sensors?: SensorConfig
   dropZones?: DropZoneConfig
   animation?: AnimationConfig
@@ -100,5 +110,10 @@ export interface BlockTreeCustomization<T extends BaseBlock = BaseBlock> {
   idGenerator?: IdGeneratorFn
   initialExpanded?: string[] | 'all' | 'none'
   orderingStrategy?: OrderingStrategy
+  fractionalKeys?: FractionalKeyOptions
   maxDepth?: number
+  schema?: BlockSchema
+  locks?: BlockLocks
+  userId?: string
+  layouts?: BlockLayouts
 }
@@ -3,6 +3,7 @@ export type {
   BaseBlock,
   BlockIndex,
   BlockAction,
+  BlockPatch,
   BlockTreeConfig,
   BlockStateContextValue,
   DropZoneType,
@@ -13,9 +14,17 @@ export type {
   BlockMoveEvent,
   BlockAddEvent,
   BlockDeleteEvent,
+  BlockUpdateEvent,
   MoveOperation,
   ExpandChangeEvent,
   HoverChangeEvent,
+  OrderOverflowEvent,
+  BlockOperation,
+  InsertBlockOperation,
+  MoveBlockOperation,
+  DeleteBlockOperation,
+  UpdateBlockOperation,
+  ResetBlocksOperation,
   BlockTreeCallbacks,
   CanDragFn,
   CanDropFn,
@@ -31,15 +40,130 @@ export type {
   CollisionResult,
   CoreCollisionDetection,
   SnapshotRectsRef,
+  GetZoneLayout,
+  OffsetDepthOrigin,
+  OffsetDepthOptions,
+  OffsetDepthCollision,
+  CollisionFrame,
+  CollisionRecording,
+  CollisionRecorderOptions,
+  CollisionRecorderWrapOptions,
+  CollisionRecorderEvents,
+  CollisionRecorder,
   ExpandAction,
   HistoryState,
   HistoryAction,
+  HistoryStep,
+  CommandHistory,
+  CommandHistoryOptions,
+  CommandHistoryEvents,
+  HistoryRecordOptions,
+  BlockArrayHistory,
+  TimelineStep,
+  BlockTimelineSession,
+  BlockTimelineOptions,
+  BlockTimelineEvents,
+  BlockTimeline,
+  BlockTreeDiff,
+  BlockDiffAdd,
+  BlockDiffDelete,
+  BlockDiffMove,
+  BlockDiffChange,
+  DiffBlockTreesOptions,
+  TreeViewState,
+  TreeScrollPosition,
+  ViewStateStorage,
+  ViewStatePersistence,
+  ViewStatePersistenceOptions,
+  StorageLike,
+  WebStorageAdapterOptions,
+  IndexedDBAdapterOptions,
+  IDBFactoryLike,
+  BlockFilterQuery,
+  BlockFilterOptions,
+  BlockFilterResult,
+  TextMatchRange,
+  HighlightSegment,
   BlockTreeOptions,
   BlockTreeEvents,
   BlockTreeInstance,
+  BlockTreeBatch,
+  TreeDocument,
+  TreeDocumentOptions,
+  TreeDocumentEvents,
+  TreeDocumentUpdate,
+  CrdtBlockState,
+  CrdtMove,
+  CrdtRegister,
+  CrdtStamp,
+  SyncTransport,
+  SyncMessage,
+  TreeSync,
+  TreeSyncOptions,
+  TreeSyncEvents,
+  SyncBlockTreeOptions,
+  LoopbackNetwork,
+  LoopbackNetworkOptions,
+  MessageTarget,
+  PostMessageTransportOptions,
+  WebSocketLike,
+  Presence,
+  PresenceOptions,
+  PresenceEvents,
+  PresenceMessage,
+  PresenceUser,
+  PresenceDragState,
+  PresencePointer,
+  PeerPresence,
+  PresenceOverlay,
+  RemoteDragPreview,
+  RemoteCursor,
+  DragGroup,
+  DragGroupOptions,
+  DragGroupEvents,
+  DragGroupMember,
+  DragGroupDrag,
+  BlockTransfer,
+  BlockTransferEvent,
   TreeValidationResult,
   NestedBlock,
+  KeyboardMoveDirection,
+  KeyboardMoveOptions,
+  BlockTypeRules,
+  BlockSchema,
+  BlockLockKind,
+  BlockLock,
+  BlockLocks,
+  BlockPermissions,
+  BlockLockState,
+  BlockLayout,
+  BlockLayouts,
+  FractionalKeyOptions,
+  FractionalKeyStats,
+  FractionalRebalanceResult,
+  Announcements,
+  AnnouncementContext,
+  AnnouncementEvent,
+  BlockClipboardPayload,
+  PastePosition,
+  InsertBlocksOptions,
+  PasteBlocksOptions,
+  PasteBlocksResult,
   MergeBlockVersionsOptions,
+  ThreeWayMergeOptions,
+  ThreeWayMergeResult,
+  BlockMergeConflict,
+  BlockFieldConflict,
+  BlockMoveConflict,
+  BlockDeleteConflict,
+  BlockPlacement,
+  HeightCache,
+  VirtualLayout,
+  VirtualWindow,
+  ScrollAnchor,
+  VirtualContentOrigin,
+  VirtualZoneRectOptions,
+  AutoScrollOptions,
 } from '@dnd-block-tree/core'
 
 // Re-export core functions
@@ -47,13 +171,43 @@ export {
   getDropZoneType,
   extractBlockId,
   weightedVerticalCollision,
+  horizontalCollision,
+  gridCollision,
   closestCenterCollision,
   createStickyCollision,
+  createOffsetDepthCollision,
+  scoreCollisionCandidates,
+  createCollisionRecorder,
+  replayCollisionRecording,
   EventEmitter,
   blockReducer,
   expandReducer,
   historyReducer,
+  createCommandHistory,
+  createBlockArrayHistory,
+  describeBlockOperations,
+  createBlockTimeline,
+  createViewStatePersistence,
+  createWebStorageAdapter,
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createIndexedDBAdapter,
+  createMemoryStorageAdapter,
   createBlockTree,
+  createTreeDocument,
+  bindTreeDocument,
+  generatePeerId,
+  connectTreeDocument,
+  syncBlockTree,
+  createLoopbackNetwork,
+  createBroadcastChannelTransport,
+  createPostMessageTransport,
+  createWebSocketTransport,
+  createPresence,
+  getPresenceOverlay,
+  getZonePosition,
+  createDragGroup,
+  canReceiveBlocks,
   cloneMap,
   cloneParentMap,
   computeNormalizedIndex,
@@ -62,20 +216,64 @@ export {
   getDescendantIds,
   deleteBlockAndDescendants,
   getBlockDepth,
+  getZoneDepth,
   getSubtreeDepth,
   reparentMultipleBlocks,
   validateBlockTree,
+  applyBlockPatch,
+  getBlockChanges,
   extractUUID,
   debounce,
   generateId,
   flatToNested,
   nestedToFlat,
+  BLOCK_CLIPBOARD_MIME,
+  copyBlockSubtrees,
+  pasteBlockSubtrees,
+  insertBlockSubtrees,
+  serializeBlockClipboard,
+  parseBlockClipboard,
+  defaultAnnouncements,
+  resolveAnnouncements,
+  getAnnouncement,
+  isValidDropZone,
+  getKeyboardMoveZone,
+  getKeyboardDropZones,
+  getSchemaContainerTypes,
+  getZoneParentId,
+  checkBlockPlacement,
+  isZoneAllowed,
+  getSchemaViolations,
+  isLockedFor,
+  getBlockLocks,
+  getBlockPermissions,
+  isZoneUnlocked,
+  getBlockLockState,
+  getZoneLayout,
+  applyBlockOperations,
+  diffBlockTrees,
+  applyBlockDiff,
+  filterBlockTree,
+  findMatchRanges,
+  getHighlightSegments,
+  getFilteredIndex,
+  getFilteredExpandedMap,
+  mapFilteredZone,
   generateKeyBetween,
   generateNKeysBetween,
   generateInitialKeys,
   initFractionalOrder,
   compareFractionalKeys,
+  getFractionalKeyStats,
+  rebalanceFractionalOrder,
   mergeBlockVersions,
+  mergeBlockTrees,
+  createHeightCache,
+  getVirtualWindow,
+  getScrollAnchor,
+  resolveScrollAnchor,
+  getVirtualZoneRects,
+  getAutoScrollDelta,
 } from '@dnd-block-tree/core'
 
 // Svelte-specific types
@@ -126,5 +324,7 @@ export { default as DropZone } from './components/DropZone.svelte'
 export { default as DraggableBlock } from './components/DraggableBlock.svelte'
 export { default as DragOverlay } from './components/DragOverlay.svelte'
 export { default as GhostPreview } from './components/GhostPreview.svelte'
+export { default as LiveRegion } from './components/LiveRegion.svelte'
+export { default as RemoteCursors } from './components/RemoteCursors.svelte'
 export { default as BlockTreeSSR } from './components/BlockTreeSSR.svelte'
 export { default as BlockTreeDevTools } from './components/BlockTreeDevTools.svelte'
@@ -1,54 +1,66 @@
-import type { BaseBlock, HistoryState } from '@dnd-block-tree/core'
-import { historyReducer } from '@dnd-block-tree/core'
+import type { BaseBlock, CommandHistory, CommandHistoryOptions, HistoryRecordOptions } from '@dnd-block-tree/core'
+import { createBlockArrayHistory } from '@dnd-block-tree/core'
 
-export interface BlockHistoryOptions {
-  maxSteps?: number
-}
+export interface BlockHistoryOptions<T extends BaseBlock = BaseBlock> extends CommandHistoryOptions<T> {}
 
 export interface BlockHistoryState<T extends BaseBlock> {
   readonly blocks: T[]
   readonly canUndo: boolean
   readonly canRedo: boolean
-  set(blocks: T[]): void
+  /** Label of the step undo would revert, e.g. "Move 3 blocks" */
+  readonly undoLabel: string | null
+  /** Label of the step redo would reapply */
+  readonly redoLabel: string | null
+  /** The underlying command history, for grouping and its steps */
+  readonly history: CommandHistory<T>
+  set(blocks: T[], options?: HistoryRecordOptions): void
   undo(): void
   redo(): void
 }
 
 /**
  * Reactive undo/redo history using $state runes.
- * Wraps core's historyReducer.
+ * Wraps core's command history, which records operations instead of snapshots.
  */
 export function createBlockHistory<T extends BaseBlock>(
   initialBlocks: T[],
-  options: BlockHistoryOptions = {}
+  options: BlockHistoryOptions<T> = {}
 ): BlockHistoryState<T> {
-  const { maxSteps = 50 } = options
+  const state = createBlockArrayHistory(initialBlocks, options)
+  const { history } = state
 
-  let state = $state<HistoryState<T>>({
-    past: [],
-    present: initialBlocks,
-    future: [],
+  const read = () => ({
+    blocks: state.getBlocks(),
+    canUndo: history.canUndo(),
+    canRedo: history.canRedo(),
+    undoLabel: history.getUndoLabel(),
+    redoLabel: history.getRedoLabel(),
   })
-
-  const blocks = $derived(state.present)
-  const canUndo = $derived(state.past.length > 0)
-  const canRedo = $derived(state.future.length > 0)
+  let current = $state.raw(read())
+  const sync = () => { current = read() }
+  history.on('change', sync)
 
   return {
-    get blocks() { return blocks },
-    get canUndo() { return canUndo },
-    get canRedo() { return canRedo },
+    get blocks() { return current.blocks },
+    get canUndo() { return current.canUndo },
+    get canRedo() { return current.canRedo },
+    get undoLabel() { return current.undoLabel },
+    get redoLabel() { return current.redoLabel },
+    history,
 
-    set(newBlocks: T[]) {
-      state = historyReducer(state, { type: 'SET', payload: newBlocks, maxSteps })
+    set(newBlocks: T[], recordOptions?: HistoryRecordOptions) {
+      state.set(newBlocks, recordOptions)
+      sync()
     },
 
     undo() {
-      state = historyReducer(state, { type: 'UNDO' })
+      state.undo()
+      sync()
     },
 
     redo() {
-      state = historyReducer(state, { type: 'REDO' })
+      state.redo()
+      sync()
     },
   }
 }
@@ -6,14 +6,22 @@ import type {
   OrderingStrategy,
   BlockAddEvent,
   BlockDeleteEvent,
+  BlockUpdateEvent,
+  BlockPatch,
+  BlockSchema,
+  FractionalKeyOptions,
 } from '@dnd-block-tree/core'
 import {
   blockReducer,
   computeNormalizedIndex,
   buildOrderedBlocks,
   getDescendantIds,
+  applyBlockPatch,
+  getBlockChanges,
   generateId,
   generateKeyBetween,
+  checkBlockPlacement,
+  getSchemaContainerTypes,
 } from '@dnd-block-tree/core'
 import { getContext, setContext } from 'svelte'
 
@@ -23,10 +31,13 @@ export interface BlockStateOptions<T extends BaseBlock> {
   initialBlocks?: T[]
   containerTypes?: readonly string[]
   orderingStrategy?: OrderingStrategy
+  fractionalKeys?: FractionalKeyOptions
   maxDepth?: number
+  schema?: BlockSchema
   onChange?: (blocks: T[]) => void
   onBlockAdd?: (event: BlockAddEvent<T>) => void
   onBlockDelete?: (event: BlockDeleteEvent<T>) => void
+  onBlockUpdate?: (event: BlockUpdateEvent<T>) => void
 }
 
 export interface BlockState<T extends BaseBlock> {
@@ -38,6 +49,7 @@ export interface BlockState<T extends BaseBlock> {
   insertItem(type: T['type'], referenceId: string, position: 'before' | 'after'): T
   deleteItem(id: string): void
   moveItem(activeId: string, targetZone: string): void
+  updateItem(id: string, patch: BlockPatch<T>): void
   setAll(blocks: T[]): void
 }
 
@@ -46,18 +58,27 @@ export function createBlockState<T extends BaseBlock>(
 ): BlockState<T> {
   const {
     initialBlocks = [],
-    containerTypes = [],
+    schema,
+    containerTypes = schema ? getSchemaContainerTypes(schema) : [],
     orderingStrategy = 'integer',
+    fractionalKeys,
     maxDepth,
     onChange,
     onBlockAdd,
     onBlockDelete,
+    onBlockUpdate,
   } = options
 
   let index = $state<BlockIndex<T>>(computeNormalizedIndex(initialBlocks as T[], orderingStrategy))
 
   function dispatch(action: BlockAction<T>) {
-    index = blockReducer(index, action, containerTypes, orderingStrategy, maxDepth)
+    index = blockReducer(index, action, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+  }
+
+  function assertPlacement(block: T, parentId: string | null) {
+    if (!schema) return
+    const violation = checkBlockPlacement(index, [block], parentId, schema)
+    if (violation) throw new Error(`Cannot add block ${block.id}: ${violation}`)
   }
 
   const blocks = $derived.by(() => {
@@ -91,10 +112,11 @@ export function createBlockState<T extends BaseBlock>(
       if (orderingStrategy === 'fractional') {
         const lastId = siblings[siblings.length - 1]
         const lastOrder = lastId ? String(index.byId.get(lastId)!.order) : null
-        order = generateKeyBetween(lastOrder, null)
+        order = generateKeyBetween(lastOrder, null, fractionalKeys)
       }
 
       const newItem = { id: generateId(), type, parentId, order } as T
+      assertPlacement(newItem, parentId)
       dispatch({ type: 'ADD_ITEM', payload: newItem })
       onBlockAdd?.({ block: newItem, parentId, index: siblings.length })
       return newItem
@@ -115,10 +137,11 @@ export function createBlockState<T extends BaseBlock>(
         const nextId = insertIdx < siblings.length ? siblings[insertIdx] : null
         const prevOrder = prevId ? String(index.byId.get(prevId)!.order) : null
         const nextOrder = nextId ? String(index.byId.get(nextId)!.order) : null
-        order = generateKeyBetween(prevOrder, nextOrder)
+        order = generateKeyBetween(prevOrder, nextOrder, fractionalKeys)
       }
 
       const newItem = { id: generateId(), type, parentId, order } as T
+      assertPlacement(newItem, parentId)
       dispatch({ type: 'INSERT_ITEM', payload: { item: newItem, parentId, index: insertIdx } })
       onBlockAdd?.({ block: newItem, parentId, index: insertIdx })
       return newItem
@@ -137,6 +160,15 @@ export function createBlockState<T extends BaseBlock>(
       dispatch({ type: 'MOVE_ITEM', payload: { activeId, targetZone } })
     },
 
+    updateItem(id: string, patch: BlockPatch<T>) {
+      const block = index.byId.get(id)
+      if (!block) return
+      const updated = applyBlockPatch(block, patch)
+      if (updated === block) return
+      dispatch({ type: 'UPDATE_ITEM', payload: { id, patch } })
+      onBlockUpdate?.({ block: updated, previous: block, changes: getBlockChanges(block, updated).after })
+    },
+
     setAll(allBlocks: T[]) {
       dispatch({ type: 'SET_ALL', payload: allBlocks })
     },
@@ -7,6 +7,7 @@ import type {
   ExpandChangeEvent,
   Rect,
   SnapshotRectsRef,
+  ViewStatePersistence,
 } from '@dnd-block-tree/core'
 import {
   expandReducer,
@@ -26,6 +27,8 @@ export interface TreeStateOptions {
   previewDebounce?: number
   containerTypes?: readonly string[]
   orderingStrategy?: OrderingStrategy
+  /** Restore the expansion saved for this tree and save its changes (see `createViewStatePersistence`) */
+  persistence?: ViewStatePersistence
 }
 
 export interface TreeState<T extends BaseBlock> {
@@ -59,6 +62,7 @@ export function createTreeState<T extends BaseBlock>(
     previewDebounce = 150,
     containerTypes = [],
     orderingStrategy = 'integer',
+    persistence,
   } = options
 
   let activeId = $state<string | null>(null)
@@ -72,6 +76,11 @@ export function createTreeState<T extends BaseBlock>(
   let cachedReorder: { targetId: string; reorderedBlocks: T[] } | null = null
   let draggedIds: string[] = []
 
+  persistence?.whenRestored(({ expanded }) => {
+    expandedMap = { ...expandedMap, ...expanded }
+  })
+  const saveExpanded = () => persistence?.save({ expanded: $state.snapshot(expandedMap) })
+
   const activeBlock = $derived(activeId ? blockMap().get(activeId) ?? null : null)
 
   const debouncedSetVirtual = debounce((newBlocks: T[] | null) => {
@@ -117,6 +126,7 @@ export function createTreeState<T extends BaseBlock>(
 
     toggleExpand(id: string) {
       expandedMap = expandReducer(expandedMap, { type: 'TOGGLE', id })
+      saveExpanded()
     },
 
     setExpandAll(expanded: boolean) {
@@ -124,6 +134,7 @@ export function createTreeState<T extends BaseBlock>(
         .filter(b => containerTypes.includes(b.type))
         .map(b => b.id)
       expandedMap = expandReducer(expandedMap, { type: 'SET_ALL', expanded, ids: containerIds })
+      saveExpanded()
     },
 
     handleHover(zoneId: string, _parentId: string | null) {
@@ -10,6 +10,7 @@ import type {
   OrderingStrategy,
   BlockAddEvent,
   BlockDeleteEvent,
+  BlockUpdateEvent,
   CanDragFn,
   CanDropFn,
   IdGeneratorFn,
@@ -18,6 +19,11 @@ import type {
   AnimationConfig,
   AutoExpandConfig,
   CoreCollisionDetection,
+  BlockSchema,
+  BlockLocks,
+  BlockLayouts,
+  FractionalKeyOptions,
+  OffsetDepthOptions,
 } from '@dnd-block-tree/core'
 import type { Snippet } from 'svelte'
 
@@ -41,9 +47,12 @@ export interface BlockStateOptions<T extends BaseBlock = BaseBlock> {
   containerTypes?: readonly string[]
   onChange?: (blocks: T[]) => void
   orderingStrategy?: OrderingStrategy
+  fractionalKeys?: FractionalKeyOptions
   maxDepth?: number
+  schema?: BlockSchema
   onBlockAdd?: (event: BlockAddEvent<T>) => void
   onBlockDelete?: (event: BlockDeleteEvent<T>) => void
+  onBlockUpdate?: (event: BlockUpdateEvent<T>) => void
 }
 
 /** Tree state context value (UI state) */
@@ -66,6 +75,7 @@ export interface BlockTreeCustomization<T extends BaseBlock = BaseBlock> {
   canDrag?: CanDragFn<T>
   canDrop?: CanDropFn<T>
   collisionDetection?: CoreCollisionDetection
+  offsetDepth?: boolean | OffsetDepthOptions
   sensors?: SensorConfig
   dropZones?: DropZoneConfig
   animation?: AnimationConfig
@@ -73,5 +83,10 @@ export interface BlockTreeCustomization<T extends BaseBlock = BaseBlock> {
   idGenerator?: IdGeneratorFn
   initialExpanded?: string[] | 'all' | 'none'
   orderingStrategy?: OrderingStrategy
+  fractionalKeys?: FractionalKeyOptions
   maxDepth?: number
+  schema?: BlockSchema
+  locks?: BlockLocks
+  userId?: string
+  layouts?: BlockLayouts
 }
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { AutoScroller } from './auto-scroller'
+
+function scrollContainer(): HTMLElement {
+  const el = document.createElement('div')
+  el.getBoundingClientRect = () => ({ top: 0, bottom: 400 } as DOMRect)
+  Object.defineProperty(el, 'clientHeight', { value: 400 })
+  Object.defineProperty(el, 'scrollHeight', { value: 1000 })
+  return el
+}
+
+describe('AutoScroller', () => {
+  let frames: FrameRequestCallback[]
+
+  beforeEach(() => {
+    frames = []
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb))
+    vi.stubGlobal('cancelAnimationFrame', () => { frames = [] })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const flush = () => frames.splice(0).forEach(cb => cb(0))
+
+  it('keeps scrolling while the pointer stays near the bottom edge', () => {
+    const el = scrollContainer()
+    const scroller = new AutoScroller({ threshold: 40, maxSpeed: 10 })
+    scroller.update(el, 400)
+    expect(el.scrollTop).toBe(10)
+    flush()
+    flush()
+    expect(el.scrollTop).toBe(30)
+    scroller.stop()
+    flush()
+    expect(el.scrollTop).toBe(30)
+  })
+
+  it('does not scroll away from the edges or past the ends', () => {
+    const el = scrollContainer()
+    const scroller = new AutoScroller()
+    scroller.update(el, 200)
+    expect(el.scrollTop).toBe(0)
+    expect(frames).toHaveLength(0)
+
+    scroller.update(el, -10)
+    expect(el.scrollTop).toBe(0)
+    expect(frames).toHaveLength(0)
+  })
+})
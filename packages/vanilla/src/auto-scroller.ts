@@ -0,0 +1,44 @@
+import type { AutoScrollOptions } from '@dnd-block-tree/core'
+import { getAutoScrollDelta } from '@dnd-block-tree/core'
+
+/**
+ * Scrolls a container while a drag hovers near its top or bottom edge.
+ * Feed it the pointer with `update()`; it keeps scrolling every frame until
+ * the pointer leaves the edge zones or `stop()` is called.
+ */
+export class AutoScroller {
+  private options: AutoScrollOptions
+  private element: HTMLElement | null = null
+  private pointerY = 0
+  private frame = 0
+
+  constructor(options: AutoScrollOptions = {}) {
+    this.options = options
+  }
+
+  update(element: HTMLElement, pointerY: number): void {
+    this.element = element
+    this.pointerY = pointerY
+    if (!this.frame) this.tick()
+  }
+
+  stop(): void {
+    if (this.frame) cancelAnimationFrame(this.frame)
+    this.frame = 0
+    this.element = null
+  }
+
+  private tick = (): void => {
+    this.frame = 0
+    const el = this.element
+    if (!el) return
+
+    const delta = getAutoScrollDelta(this.pointerY, el.getBoundingClientRect(), this.options)
+    const max = el.scrollHeight - el.clientHeight
+    const next = Math.max(0, Math.min(max, el.scrollTop + delta))
+    if (next === el.scrollTop) return
+
+    el.scrollTop = next
+    this.frame = requestAnimationFrame(this.tick)
+  }
+}
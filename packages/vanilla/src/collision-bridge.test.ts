@@ -4,6 +4,7 @@ import {
   buildCandidates,
   detectCollision,
   measureDropZoneRects,
+  mergeZoneRects,
 } from './collision-bridge'
 import type { CoreCollisionDetection, Rect } from '@dnd-block-tree/core'
 
@@ -121,3 +122,16 @@ describe('measureDropZoneRects', () => {
     expect(measureDropZoneRects(new Map()).size).toBe(0)
   })
 })
+
+describe('mergeZoneRects', () => {
+  it('adds synthesized zones and keeps measured ones', () => {
+    const measured = new Map<string, Rect>([['after-a', { top: 10, left: 0, width: 100, height: 4, right: 100, bottom: 14 }]])
+    const synthesized = new Map<string, Rect>([
+      ['after-a', { top: 99, left: 0, width: 100, height: 4, right: 100, bottom: 103 }],
+      ['before-z', { top: 900, left: 0, width: 100, height: 4, right: 100, bottom: 904 }],
+    ])
+    const merged = mergeZoneRects(measured, synthesized)
+    expect(merged.get('after-a')!.top).toBe(10)
+    expect(merged.get('before-z')!.top).toBe(900)
+  })
+})
@@ -22,6 +22,21 @@ export function measureDropZoneRects(
   return rects
 }
 
+/**
+ * Add synthesized rects for rows a virtual scroller has not rendered.
+ * Measured zones win over synthesized ones with the same id.
+ */
+export function mergeZoneRects(
+  measured: Map<string, Rect>,
+  synthesized: Map<string, Rect>
+): Map<string, Rect> {
+  const rects = new Map(synthesized)
+  for (const [id, rect] of measured) {
+    rects.set(id, rect)
+  }
+  return rects
+}
+
 /** Build collision candidates from a snapshot rect map */
 export function buildCandidates(
   snapshotRects: Map<string, Rect>
@@ -1,6 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { createBlockTreeController } from './controller'
-import type { BaseBlock } from '@dnd-block-tree/core'
+import { createDefaultRenderer } from './renderer/default-renderer'
+import {
+  createCollisionRecorder,
+  createDragGroup,
+  createLoopbackNetwork,
+  createMemoryStorageAdapter,
+  createPresence,
+  createViewStatePersistence,
+} from '@dnd-block-tree/core'
+import type { BaseBlock, PresenceMessage } from '@dnd-block-tree/core'
+import type { BlockTreeControllerOptions } from './types'
 
 interface TestBlock extends BaseBlock {
   type: 'container' | 'item'
@@ -72,6 +82,22 @@ describe('createBlockTreeController', () => {
     ctrl.destroy()
   })
 
+  it('updateBlock updates fields and fires onBlockUpdate', () => {
+    interface TitledBlock extends BaseBlock {
+      type: 'item'
+      title: string
+    }
+    const onBlockUpdate = vi.fn()
+    const ctrl = createBlockTreeController<TitledBlock>({
+      initialBlocks: [{ id: '1', type: 'item', parentId: null, order: 0, title: 'Old' }],
+      callbacks: { onBlockUpdate },
+    })
+    ctrl.updateBlock('1', { title: 'New' })
+    expect(ctrl.getBlock('1')?.title).toBe('New')
+    expect(onBlockUpdate).toHaveBeenCalledWith(expect.objectContaining({ changes: { title: 'New' } }))
+    ctrl.destroy()
+  })
+
   it('deleteBlock removes a block', () => {
     const ctrl = createBlockTreeController<TestBlock>({
       initialBlocks: [block('1'), block('2', 'item', null, 1)],
@@ -164,6 +190,62 @@ describe('createBlockTreeController', () => {
     ctrl.destroy()
   })
 
+  // --- Persistence ---
+
+  it('restores and saves expansion, selection and scroll', () => {
+    const storage = createMemoryStorageAdapter()
+    storage.set('tree', { expanded: { c: false }, selected: ['1', 'gone'], scroll: { top: 40, left: 0 } })
+    const persistence = createViewStatePersistence({ treeId: 'tree', storage })
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('c', 'container'), block('1', 'item', 'c')],
+      containerTypes: ['container'],
+      persistence,
+    })
+    ctrl.mount(container)
+
+    expect(ctrl.getExpandedMap()).toEqual({ c: false })
+    expect([...ctrl.getSelectedIds()]).toEqual(['1'])
+    expect(container.scrollTop).toBe(40)
+
+    ctrl.select('c', 'single')
+    container.scrollTop = 10
+    container.dispatchEvent(new Event('scroll'))
+    ctrl.destroy()
+    expect(storage.get('tree')).toEqual({ expanded: { c: false }, selected: ['c'], scroll: { top: 10, left: 0 } })
+  })
+
+  // --- Filtering ---
+
+  it('renders only matches and their ancestors without changing the expansion', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('c', 'container'), block('1', 'item', 'c'), block('2', 'item', 'c', 1), block('3', 'item', null, 1)],
+      containerTypes: ['container'],
+      initialExpanded: 'none',
+    })
+    const renderer = createDefaultRenderer(ctrl, {
+      container,
+      containerTypes: ['container'],
+      renderBlock: (_b, ctx) => {
+        const el = document.createElement('div')
+        if (ctx.children) el.appendChild(ctx.children)
+        return el
+      },
+    })
+    const renderedIds = () => [...container.querySelectorAll('[data-block-id]')].map(el => el.getAttribute('data-block-id'))
+
+    ctrl.setFilter(b => b.id === '2')
+    expect(renderedIds()).toEqual(['c', '2'])
+    expect(container.querySelector('[data-block-id="2"]')!.hasAttribute('data-match')).toBe(true)
+    expect(container.querySelector('[data-block-id="c"]')!.hasAttribute('data-match')).toBe(false)
+    expect(ctrl.getVisibleBlocks().map(b => b.id)).toEqual(['c', '2'])
+
+    ctrl.setFilter(null)
+    expect(renderedIds()).toEqual(['c', '3'])
+    expect(ctrl.getExpandedMap()).toEqual({ c: false })
+    renderer()
+    ctrl.destroy()
+  })
+
   // --- History ---
 
   it('enableHistory enables undo/redo', () => {
@@ -183,6 +265,21 @@ describe('createBlockTreeController', () => {
     ctrl.destroy()
   })
 
+  it('undoes and redoes recorded steps without losing the redo stack', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1)],
+    })
+    ctrl.enableHistory({ maxSteps: 10 })
+    ctrl.getTree().moveBlock('1', 'after-2')
+    expect(ctrl.getHistory()!.getUndoLabel()).toBe('Move block')
+
+    expect(ctrl.undo()!.map(b => b.id)).toEqual(['1', '2'])
+    expect(ctrl.canRedo()).toBe(true)
+    expect(ctrl.redo()!.map(b => b.id)).toEqual(['2', '1'])
+    expect(ctrl.canUndo()).toBe(true)
+    ctrl.destroy()
+  })
+
   it('canUndo/canRedo are false without history', () => {
     const ctrl = createBlockTreeController<TestBlock>()
     expect(ctrl.canUndo()).toBe(false)
@@ -275,8 +372,607 @@ describe('createBlockTreeController', () => {
     ctrl.destroy()
   })
 
+  // --- Move events ---
+
+  it('forwards core block:move to onBlockMove', () => {
+    const onBlockMove = vi.fn()
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1)],
+      callbacks: { onBlockMove },
+    })
+    ctrl.getTree().moveBlock('1', 'after-2')
+    expect(onBlockMove).toHaveBeenCalledWith(expect.objectContaining({
+      from: { parentId: null, index: 0 },
+      to: { parentId: null, index: 1 },
+    }))
+    ctrl.destroy()
+  })
+
+  it('passes onBeforeMove to the core tree', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1)],
+      callbacks: { onBeforeMove: () => false },
+    })
+    ctrl.getTree().moveBlock('1', 'after-2')
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['1', '2'])
+    ctrl.destroy()
+  })
+
+  // --- Clipboard ---
+
+  it('copyBlocks and pasteBlocks copy a subtree with new ids', async () => {
+    let n = 0
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('p', 'container'), block('a', 'item', 'p'), block('b', 'item', null, 1)],
+      containerTypes: ['container'],
+      idGenerator: () => `copy-${++n}`,
+    })
+    ctrl.copyBlocks(['p'])
+    const pasted = await ctrl.pasteBlocks('b', 'after')
+    expect(pasted.map(b => b.id)).toEqual(['copy-1'])
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['p', 'a', 'b', 'copy-1', 'copy-2'])
+    ctrl.destroy()
+  })
+
+  it('copyBlocks defaults to the selection', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1)],
+    })
+    ctrl.select('2', 'single')
+    expect(ctrl.copyBlocks()?.blocks.map(b => b.id)).toEqual(['2'])
+    ctrl.destroy()
+  })
+
+  it('cutBlocks removes the blocks', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1)],
+    })
+    ctrl.cutBlocks(['1'])
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['2'])
+    ctrl.destroy()
+  })
+
+  it('keyboard shortcuts duplicate and copy/paste the focused block', async () => {
+    let n = 0
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1)],
+      idGenerator: () => `copy-${++n}`,
+      sensors: { keyboard: true },
+    })
+    ctrl.mount(container)
+    const key = (k: string, init: KeyboardEventInit = {}) =>
+      container.dispatchEvent(new KeyboardEvent('keydown', { key: k, bubbles: true, cancelable: true, ...init }))
+
+    key('ArrowDown')
+    key('d', { ctrlKey: true })
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['1', 'copy-1', '2'])
+
+    key('c', { metaKey: true })
+    key('v', { metaKey: true })
+    await vi.waitFor(() => expect(ctrl.getBlocks()).toHaveLength(4))
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['1', 'copy-2', 'copy-1', '2'])
+
+    ctrl.destroy()
+  })
+
+  it('keyboard shortcuts are ignored inside inputs', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1')],
+      sensors: { keyboard: true },
+    })
+    ctrl.mount(container)
+    const input = document.createElement('input')
+    container.appendChild(input)
+    container.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true }))
+    const event = new KeyboardEvent('keydown', { key: 'd', ctrlKey: true, bubbles: true, cancelable: true })
+    input.dispatchEvent(event)
+    expect(event.defaultPrevented).toBe(false)
+    expect(ctrl.getBlocks()).toHaveLength(1)
+    ctrl.destroy()
+  })
+
+  it('leaves other Ctrl keys to navigation and clipboard keys to the browser with nothing focused', () => {
+    let n = 0
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1)],
+      idGenerator: () => `copy-${++n}`,
+      sensors: { keyboard: true },
+    })
+    ctrl.mount(container)
+    const key = (k: string, init: KeyboardEventInit = {}) =>
+      container.dispatchEvent(new KeyboardEvent('keydown', { key: k, bubbles: true, cancelable: true, ...init }))
+
+    expect(key('c', { ctrlKey: true })).toBe(true)
+    expect(key('v', { ctrlKey: true })).toBe(true)
+    expect(key('d', { ctrlKey: true })).toBe(true)
+    expect(ctrl.getBlocks()).toHaveLength(2)
+
+    expect(key('End', { ctrlKey: true })).toBe(false)
+    expect(key('d', { ctrlKey: true })).toBe(false)
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['1', '2', 'copy-1'])
+    ctrl.destroy()
+  })
+
+  it('keyboard shortcuts act on the visible selection in tree order', () => {
+    let n = 0
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1), block('3', 'item', null, 2)],
+      idGenerator: () => `copy-${++n}`,
+      sensors: { keyboard: true },
+    })
+    ctrl.mount(container)
+    ctrl.setFilter(b => b.id !== '2')
+    ctrl.select('3', 'toggle')
+    ctrl.select('2', 'toggle')
+    ctrl.select('1', 'toggle')
+
+    container.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true }))
+    container.dispatchEvent(new KeyboardEvent('keydown', { key: 'd', ctrlKey: true, bubbles: true, cancelable: true }))
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['1', 'copy-1', '2', '3', 'copy-2'])
+    ctrl.destroy()
+  })
+
+  // --- Keyboard moves ---
+
+  function mountWithKeyboardMoves(
+    blocks: TestBlock[],
+    options: BlockTreeControllerOptions<TestBlock> = {},
+    target = container
+  ) {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: blocks,
+      containerTypes: ['container'],
+      sensors: { keyboard: true, keyboardMoves: true },
+      ...options,
+    })
+    ctrl.mount(target)
+    const renderer = createDefaultRenderer(ctrl, {
+      container: target,
+      containerTypes: ['container'],
+      renderBlock: (b) => {
+        const el = document.createElement('div')
+        el.textContent = b.id
+        return el
+      },
+    })
+    const key = (k: string, init: KeyboardEventInit = {}) =>
+      target.dispatchEvent(new KeyboardEvent('keydown', { key: k, bubbles: true, cancelable: true, ...init }))
+    return { ctrl, key, cleanup: () => { renderer(); ctrl.destroy() } }
+  }
+
+  it('Alt+ArrowDown reorders the focused block among siblings', () => {
+    const { ctrl, key, cleanup } = mountWithKeyboardMoves([block('1'), block('2', 'item', null, 1)])
+    key('ArrowDown')
+    key('ArrowDown', { altKey: true })
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['2', '1'])
+    cleanup()
+  })
+
+  it('Tab indents into the previous container and Shift+Tab outdents', () => {
+    const { ctrl, key, cleanup } = mountWithKeyboardMoves([block('p', 'container'), block('1', 'item', null, 1)])
+    key('ArrowDown')
+    key('ArrowDown')
+    key('Tab')
+    expect(ctrl.getBlock('1')?.parentId).toBe('p')
+    key('Tab', { shiftKey: true })
+    expect(ctrl.getBlock('1')?.parentId).toBeNull()
+    cleanup()
+  })
+
+  it('leaves Tab to the browser when the block cannot move', () => {
+    const { ctrl, key, cleanup } = mountWithKeyboardMoves([block('1'), block('2', 'item', null, 1)])
+    key('ArrowDown')
+    expect(key('Tab')).toBe(true)
+    expect(key('Tab', { shiftKey: true })).toBe(true)
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['1', '2'])
+    cleanup()
+  })
+
+  it('Space picks up a block, arrows walk drop zones, Space drops', () => {
+    const { ctrl, key, cleanup } = mountWithKeyboardMoves([
+      block('1'),
+      block('2', 'item', null, 1),
+      block('3', 'item', null, 2),
+    ])
+    key('ArrowDown')
+    key(' ')
+    expect(ctrl.getDragState().activeId).toBe('1')
+
+    key('ArrowDown')
+    key('ArrowDown')
+    expect(ctrl.getDragState().hoverZone).not.toBeNull()
+    key(' ')
+
+    expect(ctrl.getDragState().isDragging).toBe(false)
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['2', '3', '1'])
+    cleanup()
+  })
+
+  it('Escape cancels a keyboard pick-up', () => {
+    const { ctrl, key, cleanup } = mountWithKeyboardMoves([block('1'), block('2', 'item', null, 1)])
+    key('ArrowDown')
+    key(' ')
+    key('ArrowDown')
+    key('Escape')
+    expect(ctrl.getDragState().isDragging).toBe(false)
+    expect(ctrl.getBlocks().map(b => b.id)).toEqual(['1', '2'])
+    cleanup()
+  })
+
+  it('keyboard pick-up skips zones rejected by canDrop', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('p', 'container'), block('1', 'item', null, 1)],
+      containerTypes: ['container'],
+      canDrop: (_b, zone) => !zone.startsWith('into-') && !zone.startsWith('end-'),
+      sensors: { keyboard: true, keyboardMoves: true },
+    })
+    ctrl.mount(container)
+    const renderer = createDefaultRenderer(ctrl, {
+      container,
+      containerTypes: ['container'],
+      renderBlock: () => document.createElement('div'),
+    })
+    const key = (k: string) =>
+      container.dispatchEvent(new KeyboardEvent('keydown', { key: k, bubbles: true, cancelable: true }))
+    key('ArrowDown')
+    key('ArrowDown')
+    key(' ')
+    key('ArrowDown')
+    key('ArrowDown')
+    key(' ')
+    expect(ctrl.getBlock('1')?.parentId).toBeNull()
+    renderer()
+    ctrl.destroy()
+  })
+
+  it('does not render zones the schema rules out while dragging', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('p', 'container'), block('1', 'item', 'p'), block('q', 'container', null, 1)],
+      schema: { container: { allowedChildren: ['item'] }, item: { allowRoot: false } },
+      sensors: { keyboard: true, keyboardMoves: true },
+    })
+    ctrl.mount(container)
+    const renderer = createDefaultRenderer(ctrl, {
+      container,
+      renderBlock: (_b, ctx) => {
+        const el = document.createElement('div')
+        if (ctx.children) el.appendChild(ctx.children)
+        return el
+      },
+    })
+    const zone = (id: string) => container.querySelector(`[data-zone-id="${id}"]`)
+    const key = (k: string) =>
+      container.dispatchEvent(new KeyboardEvent('keydown', { key: k, bubbles: true, cancelable: true }))
+    expect(zone('root-end')).not.toBeNull()
+
+    key('ArrowDown')
+    key('ArrowDown')
+    key(' ')
+    expect(zone('root-end')).toBeNull()
+    expect(zone('before-q')).toBeNull()
+    expect(zone('end-q')).not.toBeNull()
+
+    key('Escape')
+    expect(zone('root-end')).not.toBeNull()
+    renderer()
+    ctrl.destroy()
+  })
+
+  it('keeps locked blocks in place and hides zones inside locked subtrees', () => {
+    const { ctrl, key, cleanup } = mountWithKeyboardMoves([
+      block('p', 'container'),
+      block('1', 'item', 'p'),
+      block('2', 'item', null, 1),
+    ], { locks: { p: { kind: 'readonly', subtree: true } } })
+    const zone = (id: string) => container.querySelector(`[data-zone-id="${id}"]`)
+    expect(container.querySelector('[data-block-id="p"]')?.getAttribute('data-locked')).toBe('true')
+
+    key('ArrowDown')
+    key('ArrowDown', { altKey: true })
+    expect(ctrl.getBlocks().filter(b => b.parentId === null).map(b => b.id)).toEqual(['p', '2'])
+
+    key('ArrowDown')
+    key('ArrowDown')
+    key(' ')
+    expect(ctrl.getDragState().activeId).toBe('2')
+    expect(zone('into-p')).toBeNull()
+    expect(zone('root-start')).not.toBeNull()
+    key('Escape')
+
+    ctrl.getTree().setLocks({})
+    expect(container.querySelector('[data-locked]')).toBeNull()
+    cleanup()
+  })
+
+  // --- Announcements ---
+
+  const liveRegion = () => document.querySelector('[data-dnd-live-region]')
+
+  it('announces keyboard pick-up, hover target and drop', () => {
+    const { key, cleanup } = mountWithKeyboardMoves([
+      block('1'),
+      block('2', 'item', null, 1),
+      block('3', 'item', null, 2),
+    ])
+    key('ArrowDown')
+    key(' ')
+    expect(liveRegion()?.textContent).toBe('Picked up item, position 1 of 3 at root.')
+    expect(liveRegion()?.getAttribute('aria-live')).toBe('assertive')
+
+    key('ArrowDown')
+    key('ArrowDown')
+    expect(liveRegion()?.textContent).toBe('Drop at root, position 3 of 3.')
+    key(' ')
+    expect(liveRegion()?.textContent).toBe('Dropped item at root, position 3 of 3.')
+    cleanup()
+    expect(liveRegion()).toBeNull()
+  })
+
+  it('announces cancel with custom templates', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('1'), block('2', 'item', null, 1)],
+      sensors: { keyboard: true, keyboardMoves: true },
+      announcements: {
+        getLabel: b => `Block ${b.id}`,
+        dragCancel: ctx => `${ctx.label} stays at ${ctx.position}`,
+      },
+    })
+    ctrl.mount(container)
+    const renderer = createDefaultRenderer(ctrl, { container, renderBlock: () => document.createElement('div') })
+    const key = (k: string) =>
+      container.dispatchEvent(new KeyboardEvent('keydown', { key: k, bubbles: true, cancelable: true }))
+    key('ArrowDown')
+    key('ArrowDown')
+    key(' ')
+    key('Escape')
+    expect(liveRegion()?.textContent).toBe('Block 2 stays at 2')
+    renderer()
+    ctrl.destroy()
+  })
+
+  it('renders ARIA tree attributes', () => {
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('p', 'container'), block('1', 'item', 'p', 0), block('2', 'item', 'p', 1)],
+      containerTypes: ['container'],
+    })
+    ctrl.mount(container)
+    const renderer = createDefaultRenderer(ctrl, {
+      container,
+      containerTypes: ['container'],
+      renderBlock: (_b, ctx) => {
+        const el = document.createElement('div')
+        if (ctx.children) el.appendChild(ctx.children)
+        return el
+      },
+    })
+    ctrl.select('2', 'single')
+    renderer.refresh()
+    const item = container.querySelector('[data-block-id="2"]')!
+    expect(item.getAttribute('role')).toBe('treeitem')
+    expect(item.getAttribute('aria-level')).toBe('2')
+    expect(item.getAttribute('aria-posinset')).toBe('2')
+    expect(item.getAttribute('aria-setsize')).toBe('2')
+    expect(item.getAttribute('aria-selected')).toBe('true')
+    expect(container.querySelector('[data-block-id="p"]')!.getAttribute('aria-expanded')).toBe('true')
+    expect(container.querySelector('[role="group"]')).not.toBeNull()
+    expect(container.querySelector('[data-zone-id]')!.getAttribute('aria-hidden')).toBe('true')
+    renderer()
+    ctrl.destroy()
+  })
+
   // --- getTree ---
 
+  it('shares drags through presence and locks blocks peers are moving', () => {
+    const network = createLoopbackNetwork<PresenceMessage>()
+    const blocks = [block('1'), block('2', 'item', null, 1), block('3', 'item', null, 2)]
+    const other = document.createElement('div')
+    document.body.appendChild(other)
+    const a = mountWithKeyboardMoves(blocks, {
+      presence: createPresence(network.connect(), { peerId: 'a', user: { name: 'Ada', color: 'red' } }),
+    })
+    const b = mountWithKeyboardMoves(blocks, {
+      presence: createPresence(network.connect(), { peerId: 'b', user: { name: 'Bo', color: 'blue' } }),
+    }, other)
+
+    a.key('ArrowDown')
+    a.key(' ')
+    a.key('ArrowDown')
+    a.key('ArrowDown')
+    const hoverZone = a.ctrl.getDragState().hoverZone!
+
+    const overlay = b.ctrl.getPresenceOverlay()!
+    expect(overlay.locked.get('1')?.peerId).toBe('a')
+    expect(other.querySelector('[data-block-id="1"]')?.getAttribute('data-locked-by')).toBe('a')
+    expect(other.querySelector(`[data-zone-id="${hoverZone}"]`)?.getAttribute('data-remote-peer-ids')).toBe('a')
+    expect(other.querySelector('[data-remote-peer-id="a"]')?.textContent).toBe('1')
+
+    // The locked block cannot be picked up by the other peer
+    b.key('ArrowDown')
+    b.key(' ')
+    expect(b.ctrl.getDragState().activeId).toBeNull()
+
+    a.key('Escape')
+    expect(b.ctrl.getPresenceOverlay()!.locked.size).toBe(0)
+    expect(other.querySelector('[data-locked-by]')).toBeNull()
+
+    a.cleanup()
+    b.cleanup()
+    document.body.removeChild(other)
+  })
+
+  it('drops on zones synthesized for rows that are not rendered', () => {
+    const rect = (top: number) => ({ top, left: 0, width: 100, height: 4, right: 100, bottom: top + 4 })
+    const onChange = vi.fn()
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('a', 'item', null, 0), block('b', 'item', null, 1), block('c', 'item', null, 2)],
+      onChange,
+      // Only `a` is rendered; `c` is scrolled out of view
+      getVirtualZoneRects: () => new Map([['before-c', rect(500)]]),
+    })
+    ctrl.mount(container)
+    const el = document.createElement('div')
+    container.appendChild(el)
+    ctrl.registerDraggable('a', el)
+
+    // jsdom has no PointerEvent; the sensor only reads MouseEvent fields
+    const pointer = (type: string, clientY: number, target: EventTarget = document) =>
+      target.dispatchEvent(new MouseEvent(type, { button: 0, clientX: 10, clientY, bubbles: true }))
+    pointer('pointerdown', 0, el)
+    pointer('pointermove', 20)
+    pointer('pointermove', 498)
+    expect(ctrl.getDragState().hoverZone).toBe('before-c')
+    pointer('pointerup', 498)
+
+    expect(ctrl.getTree().getBlockIndex().byParent.get(null)).toEqual(['b', 'a', 'c'])
+    ctrl.destroy()
+  })
+
+  it('picks the nesting level from the horizontal offset with offsetDepth', () => {
+    const rect = (top: number, left: number) => ({ top, left, width: 100, height: 4, right: left + 100, bottom: top + 4 })
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('p', 'container'), block('a', 'item', 'p'), block('b', 'item', null, 1)],
+      containerTypes: ['container'],
+      offsetDepth: { indentation: 24 },
+      // One slot below `a`: the end of `p` and the root level before `b`
+      getVirtualZoneRects: () => new Map([['end-p', rect(100, 24)], ['before-b', rect(106, 0)]]),
+    })
+    ctrl.mount(container)
+    const el = document.createElement('div')
+    container.appendChild(el)
+    ctrl.registerDraggable('b', el)
+
+    const pointer = (type: string, clientX: number, clientY: number, target: EventTarget = document) =>
+      target.dispatchEvent(new MouseEvent(type, { button: 0, clientX, clientY, bubbles: true }))
+    pointer('pointerdown', 10, 0, el)
+    pointer('pointermove', 10, 20)
+    pointer('pointermove', 10, 104)
+    expect(ctrl.getDragState().hoverZone).toBe('before-b')
+    pointer('pointermove', 40, 104)
+    expect(ctrl.getDragState().hoverZone).toBe('end-p')
+    pointer('pointerup', 40, 104)
+
+    expect(ctrl.getBlock('b')!.parentId).toBe('p')
+    ctrl.destroy()
+  })
+
+  it('measures zones between horizontal children sideways with layouts', () => {
+    const rect = (top: number, left: number, width: number, height: number) =>
+      ({ top, left, width, height, right: left + width, bottom: top + height })
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('board', 'container'), block('a', 'item', 'board'), block('b', 'item', 'board', 1), block('r', 'item', null, 1)],
+      containerTypes: ['container'],
+      layouts: { container: 'horizontal' },
+      // A full-height bar between the board's children and a zone below the board
+      getVirtualZoneRects: () => new Map([['before-b', rect(0, 110, 4, 300)], ['root-end', rect(100, 120, 100, 4)]]),
+    })
+    expect(ctrl.getLayout('board')).toBe('horizontal')
+    expect(ctrl.getLayout('a')).toBe('vertical')
+    expect(ctrl.getLayout(null)).toBe('vertical')
+
+    ctrl.mount(container)
+    const el = document.createElement('div')
+    container.appendChild(el)
+    ctrl.registerDraggable('r', el)
+
+    const pointer = (type: string, clientX: number, clientY: number, target: EventTarget = document) =>
+      target.dispatchEvent(new MouseEvent(type, { button: 0, clientX, clientY, bubbles: true }))
+    pointer('pointerdown', 150, 130, el)
+    pointer('pointermove', 150, 110)
+    pointer('pointermove', 150, 104)
+    expect(ctrl.getDragState().hoverZone).toBe('root-end')
+    // Next to the bar, but nearer the top edge of `root-end` than the bar's top edge
+    pointer('pointermove', 112, 60)
+    expect(ctrl.getDragState().hoverZone).toBe('before-b')
+    pointer('pointerup', 112, 60)
+
+    expect(ctrl.getBlock('r')!.parentId).toBe('board')
+    expect(ctrl.getBlocks().filter(b => b.parentId === 'board').map(b => b.id)).toEqual(['a', 'r', 'b'])
+    ctrl.destroy()
+  })
+
+  it('records drags with collisionRecorder', () => {
+    const rect = (top: number, left: number, width: number, height: number) =>
+      ({ top, left, width, height, right: left + width, bottom: top + height })
+    const collisionRecorder = createCollisionRecorder()
+    const ctrl = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('a', 'item'), block('b', 'item', null, 1)],
+      collisionRecorder,
+      getVirtualZoneRects: () => new Map([['before-a', rect(0, 0, 100, 4)], ['root-end', rect(100, 0, 100, 4)]]),
+    })
+    ctrl.mount(container)
+    const el = document.createElement('div')
+    container.appendChild(el)
+    ctrl.registerDraggable('b', el)
+
+    const pointer = (type: string, clientX: number, clientY: number, target: EventTarget = document) =>
+      target.dispatchEvent(new MouseEvent(type, { button: 0, clientX, clientY, bubbles: true }))
+    collisionRecorder.start()
+    pointer('pointerdown', 50, 130, el)
+    pointer('pointermove', 50, 110)
+    pointer('pointermove', 50, 104)
+    pointer('pointerup', 50, 104)
+    collisionRecorder.stop()
+
+    const frames = collisionRecorder.getFrames()
+    expect(frames.length).toBeGreaterThan(0)
+    expect(frames.at(-1)!.results[0].id).toBe('root-end')
+    expect(frames.at(-1)!.scores!.map(s => s.id)).toEqual(['root-end', 'before-a'])
+    ctrl.destroy()
+  })
+
+  it('moves blocks to another tree of the drag group', () => {
+    const rect = (top: number, left: number, width: number, height: number) =>
+      ({ top, left, width, height, right: left + width, bottom: top + height })
+    const dragGroup = createDragGroup<TestBlock>()
+    const onBlockDelete = vi.fn()
+    const onBlockAdd = vi.fn()
+    const source = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('p', 'container'), block('c', 'item', 'p'), block('b', 'item', null, 1)],
+      containerTypes: ['container'],
+      dragGroup,
+      treeId: 'source',
+      callbacks: { onBlockDelete },
+      getVirtualZoneRects: () => new Map([['before-p', rect(0, 0, 100, 4)], ['root-end', rect(100, 0, 100, 4)]]),
+    })
+    const target = createBlockTreeController<TestBlock>({
+      initialBlocks: [block('x')],
+      containerTypes: ['container'],
+      dragGroup,
+      treeId: 'target',
+      callbacks: { onBlockAdd },
+      getVirtualZoneRects: () => new Map([['before-x', rect(0, 300, 100, 4)], ['root-end', rect(40, 300, 100, 4)]]),
+    })
+    const other = document.createElement('div')
+    document.body.appendChild(other)
+    container.getBoundingClientRect = () => rect(0, 0, 200, 200) as DOMRect
+    other.getBoundingClientRect = () => rect(0, 300, 200, 200) as DOMRect
+    source.mount(container)
+    target.mount(other)
+    const el = document.createElement('div')
+    container.appendChild(el)
+    source.registerDraggable('p', el)
+
+    const pointer = (type: string, clientX: number, clientY: number, target: EventTarget = document) =>
+      target.dispatchEvent(new MouseEvent(type, { button: 0, clientX, clientY, bubbles: true }))
+    pointer('pointerdown', 50, 2, el)
+    pointer('pointermove', 50, 20)
+    pointer('pointermove', 350, 42)
+    expect(source.getDragState().hoverZone).toBeNull()
+    expect(target.getDragState().incomingZone).toBe('root-end')
+    pointer('pointerup', 350, 42)
+
+    expect(source.getBlocks().map(b => b.id)).toEqual(['b'])
+    expect(target.getBlocks().map(b => [b.id, b.parentId])).toEqual([['x', null], ['p', null], ['c', 'p']])
+    expect(target.getDragState().incomingZone).toBeNull()
+    expect(onBlockDelete).toHaveBeenCalledWith(expect.objectContaining({ deletedIds: ['p', 'c'] }))
+    expect(onBlockAdd).toHaveBeenCalledWith(expect.objectContaining({ parentId: null, index: 1 }))
+
+    source.destroy()
+    target.destroy()
+    expect(dragGroup.getMembers()).toEqual([])
+    document.body.removeChild(other)
+  })
+
   it('getTree returns the core tree instance', () => {
     const ctrl = createBlockTreeController<TestBlock>()
     const tree = ctrl.getTree()
@@ -1,13 +1,47 @@
 import type {
+  AnnouncementEvent,
   BaseBlock,
+  BlockClipboardPayload,
+  BlockFilterOptions,
+  BlockFilterQuery,
+  BlockFilterResult,
+  BlockLayout,
+  BlockIndex,
+  BlockPatch,
+  BlockOperation,
   BlockTreeInstance,
+  CommandHistory,
   CoreCollisionDetection,
+  DragGroupMember,
+  KeyboardMoveDirection,
+  PastePosition,
+  PeerPresence,
+  PresenceOverlay,
   Rect,
 } from '@dnd-block-tree/core'
 import {
+  canReceiveBlocks,
   createBlockTree,
+  createCommandHistory,
   createStickyCollision,
+  createOffsetDepthCollision,
+  scoreCollisionCandidates,
   EventEmitter,
+  generateId,
+  getBlockDepth,
+  getSubtreeDepth,
+  getZoneDepth,
+  getZoneLayout,
+  getAnnouncement,
+  getKeyboardDropZones,
+  getKeyboardMoveZone,
+  getPresenceOverlay,
+  getSchemaContainerTypes,
+  readSystemClipboard,
+  reparentBlockIndex,
+  reparentMultipleBlocks,
+  resolveAnnouncements,
+  writeSystemClipboard,
 } from '@dnd-block-tree/core'
 import type {
   BlockTreeControllerOptions,
@@ -16,14 +50,16 @@ import type {
   Unsubscribe,
   VanillaSensorConfig,
 } from './types'
-import { measureDropZoneRects, detectCollision } from './collision-bridge'
+import { measureDropZoneRects, mergeZoneRects, detectCollision } from './collision-bridge'
+import { AutoScroller } from './auto-scroller'
 import { DragOverlay } from './drag-overlay'
+import { LiveAnnouncer } from './live-announcer'
 import { PointerSensor } from './sensors/pointer-sensor'
 import { TouchSensor } from './sensors/touch-sensor'
 import { KeyboardSensor } from './sensors/keyboard-sensor'
 import type { SensorCallbacks } from './sensors/types'
 import type { Sensor } from './sensors/types'
-import { createBlockHistory, type BlockHistory } from './history'
+import type { BlockHistoryOptions } from './history'
 
 export interface BlockTreeController<T extends BaseBlock = BaseBlock> {
   // Mounting
@@ -37,28 +73,53 @@ export interface BlockTreeController<T extends BaseBlock = BaseBlock> {
   // State reads
   getDragState(): DragState
   getBlocks(): T[]
+  /** Blocks in tree order without those the filter hides */
+  getVisibleBlocks(): T[]
   getEffectiveBlocks(): T[]
   getExpandedMap(): Record<string, boolean>
   getBlock(id: string): T | undefined
+  /** Remote peers' drags resolved against the local blocks, or null without `presence` */
+  getPresenceOverlay(): PresenceOverlay<T> | null
+  /** How a block's children are laid out (the root's for null), from the `layouts` option */
+  getLayout(parentId: string | null): BlockLayout
 
   // Actions
   toggleExpand(id: string): void
   setExpandAll(expanded: boolean): void
   addBlock(type: T['type'], parentId?: string | null): T
   deleteBlock(id: string): void
+  updateBlock(id: string, patch: BlockPatch<T>): T | undefined
   setBlocks(blocks: T[]): void
 
+  // Filtering
+  /**
+   * Render only the blocks `query` matches and their ancestors; null or a
+   * blank text clears it (see `BlockTreeInstance.setFilter`)
+   */
+  setFilter(query: BlockFilterQuery<T> | null, options?: BlockFilterOptions): void
+  getFilter(): BlockFilterResult | null
+
+  // Clipboard (ids default to the current selection)
+  copyBlocks(ids?: string[]): BlockClipboardPayload<T> | null
+  cutBlocks(ids?: string[]): BlockClipboardPayload<T> | null
+  /** Paste from the system clipboard, falling back to the last copy in this tree */
+  pasteBlocks(targetId: string | null, position?: PastePosition): Promise<T[]>
+  duplicateBlocks(ids?: string[]): T[]
+
   // Selection
   select(id: string, mode: 'single' | 'toggle' | 'range'): void
   clearSelection(): void
   getSelectedIds(): Set<string>
 
   // History (opt-in)
-  enableHistory(maxSteps?: number): void
+  /** Record each change as an undoable step. A number sets `maxSteps` */
+  enableHistory(options?: number | BlockHistoryOptions<T>): void
   undo(): T[] | null
   redo(): T[] | null
   canUndo(): boolean
   canRedo(): boolean
+  /** The command history once enabled, for step labels and grouping */
+  getHistory(): CommandHistory<T> | null
 
   // Events
   on<K extends keyof ControllerEvents<T>>(event: K, handler: ControllerEvents<T>[K]): Unsubscribe
@@ -78,32 +139,64 @@ export function createBlockTreeController<T extends BaseBlock>(
 ): BlockTreeController<T> {
   const {
     initialBlocks = [],
-    containerTypes = [],
+    schema,
+    containerTypes = schema ? getSchemaContainerTypes(schema) : [],
     orderingStrategy,
+    fractionalKeys,
+    maxKeyLength,
     maxDepth,
     previewDebounce,
     canDrag,
     canDrop,
     idGenerator,
     initialExpanded,
+    persistence,
     sensors: sensorConfig,
     onChange,
     callbacks,
+    announcements,
+    autoScroll = false,
+    getVirtualZoneRects,
+    presence,
+    locks,
+    userId,
+    offsetDepth,
+    layouts,
+    collisionRecorder,
+    dragGroup,
+    treeId = generateId(),
   } = options
 
-  // Core tree instance
-  const stickyCollision = createStickyCollision(15)
+  // Core tree instance. With offsetDepth, the pointer's sideways offset picks the level
+  const offsetDepthCollision = offsetDepth
+    ? createOffsetDepthCollision(offsetDepth === true ? {} : offsetDepth)
+    : null
+  // Zones between horizontal and grid children are measured sideways
+  const zoneLayout = layouts
+    ? (zoneId: string): BlockLayout => getZoneLayout(tree.getBlockIndex(), layouts, zoneId)
+    : undefined
+  const collision = offsetDepthCollision ?? createStickyCollision(15, undefined, zoneLayout)
+  const recordedCollision: CoreCollisionDetection | undefined = collisionRecorder?.wrap(collision, {
+    score: (candidates, pointerRect) => scoreCollisionCandidates(candidates, pointerRect, zoneLayout),
+  })
   const tree = createBlockTree<T>({
     initialBlocks,
     containerTypes,
+    schema,
+    locks,
+    userId,
     orderingStrategy,
+    fractionalKeys,
+    maxKeyLength,
     maxDepth,
     previewDebounce,
     canDrag,
     canDrop,
     idGenerator,
     initialExpanded,
-    collisionDetection: stickyCollision,
+    persistence,
+    collisionDetection: recordedCollision ?? collision,
+    onBeforeMove: callbacks?.onBeforeMove,
   })
 
   // Emitter for controller-level events
@@ -114,12 +207,35 @@ export function createBlockTreeController<T extends BaseBlock>(
   const draggableElements = new Map<string, HTMLElement>()
   const dropZoneElements = new Map<string, HTMLElement>()
   let snapshotRects: Map<string, Rect> | null = null
-  let dragFromPosition: { parentId: string | null; index: number } | null = null
+  let lastPointer: { x: number; y: number } | null = null
+  let resnapshotFrame = 0
+
+  // Edge auto-scroll (opt-in)
+  const autoScroller = autoScroll
+    ? new AutoScroller(autoScroll === true ? {} : autoScroll)
+    : null
 
   // Selection state
   const selectedIds = new Set<string>()
   let lastSelectedId: string | null = null
 
+  function emitSelectionChange(): void {
+    persistence?.save({ selected: [...selectedIds] })
+    emitter.emit('selection:change', new Set(selectedIds))
+  }
+
+  // The tree restores expansion itself; selection and scroll are restored here
+  function restoreScroll(): void {
+    const scroll = persistence?.getState().scroll
+    if (!container || !scroll) return
+    container.scrollTop = scroll.top
+    container.scrollLeft = scroll.left
+  }
+
+  function handlePersistedScroll(): void {
+    if (container) persistence?.save({ scroll: { top: container.scrollTop, left: container.scrollLeft } })
+  }
+
   // Sensors
   const activeSensors: Sensor[] = []
 
@@ -128,18 +244,82 @@ export function createBlockTreeController<T extends BaseBlock>(
   let overlayRenderer: ((block: T) => HTMLElement) | null = null
 
   // History (opt-in)
-  let history: BlockHistory<T> | null = null
+  let history: CommandHistory<T> | null = null
+  let historyIndex: BlockIndex<T> | null = null
+  let replayingHistory = false
+
+  function replayHistory(operations: BlockOperation<T>[] | undefined): T[] | null {
+    if (!operations) return null
+    replayingHistory = true
+    try {
+      tree.applyOperations(operations)
+    } finally {
+      replayingHistory = false
+    }
+    return tree.getBlocks()
+  }
+
+  // Screen reader announcements
+  const resolvedAnnouncements = announcements === false ? null : resolveAnnouncements(announcements)
+  const announcer = new LiveAnnouncer()
+  let announcedIds: string[] = []
+  let pendingDrop: { id: string; targetZone: string } | null = null
+
+  function announce(event: AnnouncementEvent, index: BlockIndex<T>, blockId: string, targetZone: string | null = null) {
+    if (!resolvedAnnouncements) return
+    const message = getAnnouncement(resolvedAnnouncements, event, index, blockId, {
+      targetZone,
+      count: Math.max(1, announcedIds.length),
+    })
+    if (message) announcer.announce(message)
+  }
+
+  // Renderers draw the filtered view: visible blocks and the view's expansion
+  function emitRender() {
+    emitter.emit('render', tree.getVisibleBlocks(), tree.getExpandedMap())
+  }
 
   // Wire core tree events to callbacks and controller emitter
   tree.on('blocks:change', (blocks) => {
     onChange?.(blocks as T[])
     if (history) {
-      history.push(blocks as T[])
+      const index = tree.getBlockIndex()
+      if (!replayingHistory) history.record(historyIndex!, index)
+      historyIndex = index
     }
-    emitter.emit('render', blocks as T[], tree.getExpandedMap())
+    emitRender()
   })
-  tree.on('expand:change', () => {
-    emitter.emit('render', tree.getBlocks(), tree.getExpandedMap())
+  tree.on('expand:change', emitRender)
+  tree.on('filter:change', emitRender)
+  tree.on('locks:change', emitRender)
+  tree.on('drag:start', (e) => announce('dragStart', tree.getBlockIndex(), e.blockId))
+  tree.on('hover:change', (e) => {
+    const activeId = tree.getActiveId()
+    if (!activeId || !e.zoneId) return
+    // The index is only updated on drop, so project the move for the message
+    const index = tree.getBlockIndex()
+    const preview = announcedIds.length > 1
+      ? reparentMultipleBlocks(index, announcedIds, e.zoneId, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+      : reparentBlockIndex(index, activeId, e.zoneId, containerTypes, orderingStrategy, maxDepth, schema, fractionalKeys)
+    announce('dragOver', preview, activeId, e.zoneId)
+  })
+  tree.on('drag:end', (e) => {
+    if (e.cancelled) {
+      announce('dragCancel', tree.getBlockIndex(), e.blockId)
+    } else if (e.targetZone) {
+      // Announced from block:move, once the drop has been applied
+      pendingDrop = { id: e.blockId, targetZone: e.targetZone }
+      return
+    } else {
+      announce('drop', tree.getBlockIndex(), e.blockId)
+    }
+    announcedIds = []
+  })
+  tree.on('block:move', () => {
+    if (!pendingDrop) return
+    announce('drop', tree.getBlockIndex(), pendingDrop.id, pendingDrop.targetZone)
+    pendingDrop = null
+    announcedIds = []
   })
   if (callbacks?.onDragStart) {
     tree.on('drag:start', (e) => callbacks.onDragStart!(e as any))
@@ -147,12 +327,18 @@ export function createBlockTreeController<T extends BaseBlock>(
   if (callbacks?.onDragEnd) {
     tree.on('drag:end', (e) => callbacks.onDragEnd!(e as any))
   }
+  if (callbacks?.onBlockMove) {
+    tree.on('block:move', (e) => callbacks.onBlockMove!(e as any))
+  }
   if (callbacks?.onBlockAdd) {
     tree.on('block:add', (e) => callbacks.onBlockAdd!(e as any))
   }
   if (callbacks?.onBlockDelete) {
     tree.on('block:delete', (e) => callbacks.onBlockDelete!(e as any))
   }
+  if (callbacks?.onBlockUpdate) {
+    tree.on('block:update', (e) => callbacks.onBlockUpdate!(e as any))
+  }
   if (callbacks?.onExpandChange) {
     tree.on('expand:change', (e) => callbacks.onExpandChange!(e as any))
   }
@@ -160,6 +346,124 @@ export function createBlockTreeController<T extends BaseBlock>(
     tree.on('hover:change', (e) => callbacks.onHoverChange!(e as any))
   }
 
+  // Presence: remote peers' drags, resolved lazily against the current blocks
+  let remotePeers: PeerPresence[] = presence?.getPeers() ?? []
+  let presenceOverlay: PresenceOverlay<T> | null = null
+
+  function getCurrentPresenceOverlay(): PresenceOverlay<T> | null {
+    if (!presence) return null
+    presenceOverlay ??= getPresenceOverlay(tree.getBlockIndex(), remotePeers)
+    return presenceOverlay
+  }
+
+  const offPresence = presence?.on('change', (peers) => {
+    remotePeers = peers
+    presenceOverlay = null
+    emitter.emit('presence:change', getCurrentPresenceOverlay()!)
+  })
+  tree.on('blocks:change', () => {
+    presenceOverlay = null
+  })
+
+  // Drag group: blocks dropped here from another tree arrive with their ids
+  let incomingZone: string | null = null
+  const groupMember: DragGroupMember<T> = {
+    id: treeId,
+    getBlockIndex: () => tree.getBlockIndex(),
+    getRect: () => container?.getBoundingClientRect() ?? null,
+    getZoneRects: () => snapshotZoneRects(),
+    getLayout: zoneLayout,
+    canReceive: (zoneId, blocks) =>
+      canReceiveBlocks(tree.getBlockIndex(), zoneId, blocks, { schema, locks: tree.getLocks(), userId }),
+    canRelease: (ids) => ids.every(id => tree.getPermissions(id).canDelete),
+    receive: (payload, { targetZone }) => tree.insertSubtrees(payload, targetZone),
+    release: ({ blockIds }) => tree.transaction(() => blockIds.forEach(id => tree.deleteBlock(id))),
+  }
+  const unregisterFromGroup = dragGroup?.register(groupMember)
+  const offDragGroup = dragGroup?.on('change', (drag) => {
+    const zone = drag?.targetId === treeId ? drag.targetZone : null
+    if (zone === incomingZone) return
+    incomingZone = zone
+    emitter.emit('drag:statechange', getDragState())
+  })
+
+  /** Send the local drag to other peers, with the pointer in the container's content coordinates */
+  function publishPresence(): void {
+    if (!presence) return
+    const { activeId, hoverZone } = getDragState()
+    if (!activeId) {
+      presence.setDragState(null)
+      return
+    }
+    let pointer = null
+    if (lastPointer && container) {
+      const rect = container.getBoundingClientRect()
+      pointer = {
+        x: lastPointer.x - rect.left + container.scrollLeft,
+        y: lastPointer.y - rect.top + container.scrollTop,
+      }
+    }
+    presence.setDragState({ activeId, hoverZone, pointer })
+  }
+  if (presence) emitter.on('drag:statechange', publishPresence)
+
+  /** Drop zones are filtered while dragging, so the tree must re-render before measuring */
+  function filtersZones(): boolean {
+    return !!schema || Object.keys(tree.getLocks()).length > 0
+  }
+
+  /** Another peer is moving one of these blocks */
+  function isLockedByPeer(ids: string[]): boolean {
+    const locked = getCurrentPresenceOverlay()?.locked
+    return !!locked && ids.some(id => locked.has(id))
+  }
+
+  function snapshotZoneRects(): Map<string, Rect> {
+    const measured = measureDropZoneRects(dropZoneElements)
+    const rects = getVirtualZoneRects ? mergeZoneRects(measured, getVirtualZoneRects()) : measured
+    // Zones rendered before the drag started may not accept the dragged blocks
+    for (const id of rects.keys()) {
+      if (!tree.isZoneAllowed(id)) rects.delete(id)
+    }
+    return rects
+  }
+
+  function hoverAt(x: number, y: number): void {
+    if (!snapshotRects) return
+    const detector = tree.getCollisionDetection()
+    if (!detector) return
+
+    const targetZone = detectCollision(detector, snapshotRects, x, y)
+    if (targetZone) {
+      const prevHover = tree.getHoverZone()
+      tree.updateDrag(targetZone)
+      if (tree.getHoverZone() !== prevHover) {
+        emitter.emit('drag:statechange', getDragState())
+      }
+    }
+  }
+
+  // Scrolling moves the zones (and renders new rows when virtualized), so
+  // re-measure once the frame has rendered and re-run collision
+  function handleContainerScroll(): void {
+    if (!snapshotRects || resnapshotFrame) return
+    resnapshotFrame = requestAnimationFrame(() => {
+      resnapshotFrame = 0
+      if (!snapshotRects) return
+      snapshotRects = snapshotZoneRects()
+      if (lastPointer) hoverAt(lastPointer.x, lastPointer.y)
+    })
+  }
+
+  function endPointerTracking(): void {
+    snapshotRects = null
+    lastPointer = null
+    autoScroller?.stop()
+    cancelAnimationFrame(resnapshotFrame)
+    resnapshotFrame = 0
+    container?.removeEventListener('scroll', handleContainerScroll)
+  }
+
   // Sensor callbacks
   const sensorCallbacks: SensorCallbacks = {
     onDragStart(blockId: string, x: number, y: number) {
@@ -167,25 +471,27 @@ export function createBlockTreeController<T extends BaseBlock>(
         ? [...selectedIds]
         : [blockId]
 
-      // Capture from position before drag starts
-      const blocks = tree.getBlocks()
-      const dragBlock = blocks.find(b => b.id === blockId)
-      if (dragBlock) {
-        const siblings = blocks.filter(b => b.parentId === dragBlock.parentId)
-        dragFromPosition = {
-          parentId: dragBlock.parentId,
-          index: siblings.findIndex(b => b.id === blockId),
-        }
-      }
+      if (isLockedByPeer(draggedIds)) return
 
+      announcedIds = draggedIds
       const started = tree.startDrag(blockId, draggedIds)
       if (!started) {
-        dragFromPosition = null
+        announcedIds = []
         return
       }
-
-      stickyCollision.reset()
-      snapshotRects = measureDropZoneRects(dropZoneElements)
+      dragGroup?.startDrag(treeId, draggedIds)
+
+      collision.reset()
+      offsetDepthCollision?.setOrigin({
+        x,
+        depth: getBlockDepth(tree.getBlockIndex(), blockId),
+        maxDepth: maxDepth != null ? maxDepth - getSubtreeDepth(tree.getBlockIndex(), blockId) + 1 : undefined,
+        getZoneDepth: (zoneId) => getZoneDepth(tree.getBlockIndex(), zoneId),
+      })
+      // Re-render without the zones the schema or locks rule out before measuring
+      if (filtersZones()) emitRender()
+      snapshotRects = snapshotZoneRects()
+      container?.addEventListener('scroll', handleContainerScroll, { passive: true })
 
       // Show overlay
       const block = tree.getBlock(blockId)
@@ -201,55 +507,45 @@ export function createBlockTreeController<T extends BaseBlock>(
       if (!snapshotRects) return
 
       overlay.move(x, y)
-
-      const detector = tree.getCollisionDetection()
-      if (!detector) return
-
-      const targetZone = detectCollision(detector, snapshotRects, x, y)
-      if (targetZone) {
-        const prevHover = tree.getHoverZone()
-        tree.updateDrag(targetZone)
-        if (tree.getHoverZone() !== prevHover) {
-          emitter.emit('drag:statechange', getDragState())
-        }
+      lastPointer = { x, y }
+      if (autoScroller && container) autoScroller.update(container, y)
+
+      const prevHover = tree.getHoverZone()
+      // Over another tree of the drag group, which highlights its own zone
+      if (dragGroup?.moveDrag(x, y)?.targetId) {
+        tree.updateDrag(null)
+        if (prevHover !== null) emitter.emit('drag:statechange', getDragState())
+        return
       }
+      hoverAt(x, y)
+      // Hover changes are published with drag:statechange
+      if (tree.getHoverZone() === prevHover) publishPresence()
     },
 
     onDragEnd(_x: number, _y: number) {
-      const draggedBlockIds = selectedIds.size > 1 ? [...selectedIds] : []
-      const activeDragId = tree.getActiveId()
-      const result = tree.endDrag()
-      overlay.hide()
-      snapshotRects = null
-
-      if (result && callbacks?.onBlockMove && activeDragId) {
-        const movedBlock = result.blocks.find(b => b.id === activeDragId) as T | undefined
-        const movedIds = draggedBlockIds.length > 0 ? draggedBlockIds : (activeDragId ? [activeDragId] : [])
-        if (movedBlock) {
-          const siblings = result.blocks.filter(b => b.parentId === movedBlock.parentId)
-          const toIndex = siblings.findIndex(b => b.id === activeDragId)
-          callbacks.onBlockMove({
-            block: movedBlock,
-            from: dragFromPosition ?? { parentId: null, index: 0 },
-            to: { parentId: movedBlock.parentId, index: toIndex },
-            blocks: result.blocks as T[],
-            movedIds,
-          })
-        }
+      if (dragGroup?.getDrag()?.targetId) {
+        // Dropped on another tree: this tree's drag ends cancelled and the blocks are deleted once the other takes them
+        tree.cancelDrag()
+      } else {
+        // block:move (and onBlockMove) is emitted by the core tree
+        tree.endDrag()
       }
+      dragGroup?.endDrag()
+      overlay.hide()
+      endPointerTracking()
 
-      dragFromPosition = null
       emitter.emit('drag:statechange', getDragState())
-      emitter.emit('render', tree.getBlocks(), tree.getExpandedMap())
+      emitRender()
     },
 
     onDragCancel() {
       tree.cancelDrag()
+      dragGroup?.cancelDrag()
       overlay.hide()
-      snapshotRects = null
+      endPointerTracking()
 
       emitter.emit('drag:statechange', getDragState())
-      emitter.emit('render', tree.getBlocks(), tree.getExpandedMap())
+      emitRender()
     },
   }
 
@@ -258,6 +554,7 @@ export function createBlockTreeController<T extends BaseBlock>(
       isDragging: tree.getActiveId() !== null,
       activeId: tree.getActiveId(),
       hoverZone: tree.getHoverZone(),
+      incomingZone,
     }
   }
 
@@ -283,18 +580,103 @@ export function createBlockTreeController<T extends BaseBlock>(
     }
 
     if (config.keyboard) {
-      const visibleBlocks = () => tree.getEffectiveBlocks()
+      const visibleBlocks = () => {
+        const filter = tree.getFilter()
+        const blocks = tree.getEffectiveBlocks()
+        return filter ? blocks.filter(b => filter.visibleIds.has(b.id)) : blocks
+      }
       let focusedIndex = -1
 
+      // Keyboard "pick up" mode: valid drop zones and the current target
+      let grabbedZones: string[] | null = null
+      let grabbedZoneIndex = -1
+      const moveOptions = () => ({ containerTypes, maxDepth, canDrop, schema, locks: tree.getLocks(), userId })
+
+      const refocus = (id: string) => {
+        focusedIndex = visibleBlocks().findIndex(b => b.id === id)
+        focusDraggable(id)
+      }
+
+      // Act on the whole visible selection, in tree order, when the focused block is part of it
+      const clipboardTargets = (focusedId: string | undefined): string[] => {
+        if (!focusedId) return []
+        if (!selectedIds.has(focusedId)) return [focusedId]
+        return visibleBlocks().filter(b => selectedIds.has(b.id)).map(b => b.id)
+      }
+
+      const stepGrabbedZone = (delta: number) => {
+        if (!grabbedZones || grabbedZones.length === 0) return
+        grabbedZoneIndex = Math.min(grabbedZones.length - 1, Math.max(0, grabbedZoneIndex + delta))
+        tree.updateDrag(grabbedZones[grabbedZoneIndex])
+        emitter.emit('drag:statechange', getDragState())
+      }
+
+      const dropGrabbed = () => {
+        const id = tree.getActiveId()
+        grabbedZones = null
+        grabbedZoneIndex = -1
+        tree.endDrag()
+        emitter.emit('drag:statechange', getDragState())
+        emitRender()
+        if (id) refocus(id)
+      }
+
+      const moveCallbacks = config.keyboardMoves ? {
+        onMove(direction: KeyboardMoveDirection) {
+          if (grabbedZones) return false
+          const block = visibleBlocks()[focusedIndex]
+          if (!block || !tree.getPermissions(block.id).canMove) return false
+          const zone = getKeyboardMoveZone(tree.getBlockIndex(), block.id, direction, moveOptions())
+          if (!zone) return false
+          tree.moveBlock(block.id, zone)
+          announce('drop', tree.getBlockIndex(), block.id, zone)
+          refocus(block.id)
+          return true
+        },
+        onGrab() {
+          if (grabbedZones) {
+            dropGrabbed()
+            return
+          }
+          const block = visibleBlocks()[focusedIndex]
+          if (!block || isLockedByPeer([block.id])) return
+          announcedIds = [block.id]
+          if (!tree.startDrag(block.id)) {
+            announcedIds = []
+            return
+          }
+          if (filtersZones()) emitRender()
+          grabbedZones = getKeyboardDropZones(tree.getBlockIndex(), block.id, getRenderedZoneIds(), moveOptions())
+          grabbedZoneIndex = -1
+          emitter.emit('drag:statechange', getDragState())
+        },
+      } : {}
+
       const keyboard = new KeyboardSensor({
         ...sensorCallbacks,
+        ...moveCallbacks,
+        onDragCancel() {
+          const id = tree.getActiveId()
+          grabbedZones = null
+          grabbedZoneIndex = -1
+          sensorCallbacks.onDragCancel()
+          if (id) refocus(id)
+        },
         onFocusPrev() {
+          if (grabbedZones) {
+            stepGrabbedZone(-1)
+            return
+          }
           const blocks = visibleBlocks()
           focusedIndex = Math.max(0, focusedIndex - 1)
           const block = blocks[focusedIndex]
           if (block) focusDraggable(block.id)
         },
         onFocusNext() {
+          if (grabbedZones) {
+            stepGrabbedZone(1)
+            return
+          }
           const blocks = visibleBlocks()
           focusedIndex = Math.min(blocks.length - 1, focusedIndex + 1)
           const block = blocks[focusedIndex]
@@ -325,6 +707,10 @@ export function createBlockTreeController<T extends BaseBlock>(
           if (blocks[focusedIndex]) focusDraggable(blocks[focusedIndex].id)
         },
         onToggleExpand() {
+          if (grabbedZones) {
+            dropGrabbed()
+            return
+          }
           const blocks = visibleBlocks()
           const block = blocks[focusedIndex]
           if (block && containerTypes.includes(block.type)) {
@@ -338,12 +724,42 @@ export function createBlockTreeController<T extends BaseBlock>(
             controller.select(block.id, 'toggle')
           }
         },
+        onCopy() {
+          const ids = clipboardTargets(visibleBlocks()[focusedIndex]?.id)
+          if (ids.length > 0) controller.copyBlocks(ids)
+          return ids.length > 0
+        },
+        onCut() {
+          const ids = clipboardTargets(visibleBlocks()[focusedIndex]?.id)
+          if (ids.length > 0) controller.cutBlocks(ids)
+          return ids.length > 0
+        },
+        onPaste() {
+          const focusedId = visibleBlocks()[focusedIndex]?.id
+          // Nothing focused and nothing copied: leave the key to the browser
+          if (!focusedId && !tree.getClipboard()) return false
+          void controller.pasteBlocks(focusedId ?? null, 'after')
+          return true
+        },
+        onDuplicate() {
+          const ids = clipboardTargets(visibleBlocks()[focusedIndex]?.id)
+          if (ids.length > 0) controller.duplicateBlocks(ids)
+          return ids.length > 0
+        },
       })
       keyboard.attach(container)
       activeSensors.push(keyboard)
     }
   }
 
+  /** Registered drop zones that are in the DOM, in document order */
+  function getRenderedZoneIds(): string[] {
+    return [...dropZoneElements.entries()]
+      .filter(([, el]) => el.isConnected)
+      .sort(([, a], [, b]) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1))
+      .map(([id]) => id)
+  }
+
   function focusDraggable(id: string): void {
     const el = draggableElements.get(id)
     if (el) el.focus()
@@ -361,12 +777,19 @@ export function createBlockTreeController<T extends BaseBlock>(
       container = el
       setupSensors()
       // Initial render
-      emitter.emit('render', tree.getBlocks(), tree.getExpandedMap())
+      emitRender()
+      if (persistence) {
+        restoreScroll()
+        el.addEventListener('scroll', handlePersistedScroll, { passive: true })
+      }
     },
 
     unmount() {
+      container?.removeEventListener('scroll', handlePersistedScroll)
       teardownSensors()
+      endPointerTracking()
       overlay.hide()
+      announcer.destroy()
       container = null
     },
 
@@ -389,9 +812,16 @@ export function createBlockTreeController<T extends BaseBlock>(
 
     getDragState,
     getBlocks: () => tree.getBlocks(),
+    getVisibleBlocks: () => tree.getVisibleBlocks(),
     getEffectiveBlocks: () => tree.getEffectiveBlocks(),
     getExpandedMap: () => tree.getExpandedMap(),
     getBlock: (id) => tree.getBlock(id),
+    getPresenceOverlay: getCurrentPresenceOverlay,
+
+    getLayout(parentId: string | null) {
+      const parent = parentId !== null ? tree.getBlock(parentId) : undefined
+      return (parent && layouts?.[parent.type]) || 'vertical'
+    },
 
     toggleExpand(id: string) {
       tree.toggleExpand(id)
@@ -409,10 +839,42 @@ export function createBlockTreeController<T extends BaseBlock>(
       tree.deleteBlock(id)
     },
 
+    updateBlock(id: string, patch: BlockPatch<T>) {
+      return tree.updateBlock(id, patch)
+    },
+
     setBlocks(blocks: T[]) {
       tree.setBlocks(blocks)
     },
 
+    setFilter(query: BlockFilterQuery<T> | null, options?: BlockFilterOptions) {
+      tree.setFilter(query, options)
+    },
+
+    getFilter: () => tree.getFilter(),
+
+    copyBlocks(ids = [...selectedIds]) {
+      const payload = tree.copyBlocks(ids)
+      if (payload) void writeSystemClipboard(payload)
+      return payload
+    },
+
+    cutBlocks(ids = [...selectedIds]) {
+      const payload = tree.cutBlocks(ids)
+      if (payload) void writeSystemClipboard(payload)
+      return payload
+    },
+
+    async pasteBlocks(targetId: string | null, position: PastePosition = 'after') {
+      const payload = await readSystemClipboard<T>() ?? tree.getClipboard()
+      if (!payload) return []
+      return tree.pasteBlocks(targetId, position, payload)
+    },
+
+    duplicateBlocks(ids = [...selectedIds]) {
+      return tree.duplicateBlocks(ids)
+    },
+
     select(id: string, mode: 'single' | 'toggle' | 'range') {
       if (mode === 'single') {
         selectedIds.clear()
@@ -424,7 +886,7 @@ export function createBlockTreeController<T extends BaseBlock>(
           selectedIds.add(id)
         }
       } else if (mode === 'range' && lastSelectedId) {
-        const blocks = tree.getBlocks()
+        const blocks = tree.getVisibleBlocks()
         const startIdx = blocks.findIndex(b => b.id === lastSelectedId)
         const endIdx = blocks.findIndex(b => b.id === id)
         if (startIdx !== -1 && endIdx !== -1) {
@@ -435,37 +897,28 @@ export function createBlockTreeController<T extends BaseBlock>(
         }
       }
       lastSelectedId = id
-      emitter.emit('selection:change', new Set(selectedIds))
+      emitSelectionChange()
     },
 
     clearSelection() {
       selectedIds.clear()
       lastSelectedId = null
-      emitter.emit('selection:change', new Set())
+      emitSelectionChange()
     },
 
     getSelectedIds: () => new Set(selectedIds),
 
-    enableHistory(maxSteps = 50) {
-      history = createBlockHistory(tree.getBlocks(), { maxSteps })
-    },
-
-    undo() {
-      if (!history) return null
-      const blocks = history.undo()
-      if (blocks) tree.setBlocks(blocks)
-      return blocks
-    },
-
-    redo() {
-      if (!history) return null
-      const blocks = history.redo()
-      if (blocks) tree.setBlocks(blocks)
-      return blocks
+    enableHistory(options = {}) {
+      const historyOptions = typeof options === 'number' ? { maxSteps: options } : options
+      history = createCommandHistory({ orderingStrategy, ...historyOptions })
+      historyIndex = tree.getBlockIndex()
     },
 
+    undo: () => replayHistory(history?.undo()?.inverse),
+    redo: () => replayHistory(history?.redo()?.operations),
     canUndo: () => history?.canUndo() ?? false,
     canRedo: () => history?.canRedo() ?? false,
+    getHistory: () => history,
 
     on<K extends keyof ControllerEvents<T>>(event: K, handler: ControllerEvents<T>[K]): Unsubscribe {
       return emitter.on(event, handler)
@@ -479,8 +932,16 @@ export function createBlockTreeController<T extends BaseBlock>(
     getTree: () => tree,
 
     destroy() {
+      offRestore?.()
+      container?.removeEventListener('scroll', handlePersistedScroll)
+      offPresence?.()
+      offDragGroup?.()
+      unregisterFromGroup?.()
+      presence?.setDragState(null)
       teardownSensors()
+      endPointerTracking()
       overlay.hide()
+      announcer.destroy()
       tree.destroy()
       emitter.removeAllListeners()
       draggableElements.clear()
@@ -489,5 +950,14 @@ export function createBlockTreeController<T extends BaseBlock>(
     },
   }
 
+  const offRestore = persistence?.whenRestored(({ selected }) => {
+    const restored = selected.filter(id => tree.getBlock(id))
+    if (restored.length > 0) {
+      for (const id of restored) selectedIds.add(id)
+      emitter.emit('selection:change', new Set(selectedIds))
+    }
+    restoreScroll()
+  })
+
   return controller
 }
@@ -105,6 +105,35 @@ describe('createDeferredSync', () => {
     expect(result).toBeNull()
   })
 
+  it('exitBusy with three-way strategy merges against the base', () => {
+    const sync = createDeferredSync<TestBlock>({ threeWayOptions: { orderingStrategy: 'fractional' } })
+    const base = [block('1', 'One', 'a'), block('2', 'Two', 'b')]
+
+    sync.enterBusy()
+    sync.apply([block('1', 'One', 'c'), block('2', 'Remote', 'b')])
+
+    const result = sync.exitBusy([block('1', 'Local', 'a'), block('2', 'Two', 'b')], 'three-way', base)
+
+    expect(result).toEqual({
+      blocks: [block('2', 'Remote', 'b'), block('1', 'Local', 'c')],
+      conflicts: [],
+    })
+  })
+
+  it('passes threeWayOptions to the three-way merge', () => {
+    const sync = createDeferredSync<TestBlock>({
+      threeWayOptions: { resolveField: ({ remote }) => remote },
+    })
+
+    sync.enterBusy()
+    sync.apply([block('1', 'Remote')])
+
+    const result = sync.exitBusy([block('1', 'Local')], 'three-way', [block('1', 'One')])
+
+    expect(result!.blocks[0].title).toBe('Remote')
+    expect(result!.conflicts).toMatchObject([{ type: 'field', id: '1', field: 'title', resolved: 'Remote' }])
+  })
+
   it('works without options', () => {
     const sync = createDeferredSync<TestBlock>()
 
@@ -1,12 +1,14 @@
 import type { BaseBlock } from '@dnd-block-tree/core'
-import { mergeBlockVersions } from '@dnd-block-tree/core'
-import type { MergeBlockVersionsOptions } from '@dnd-block-tree/core'
+import { mergeBlockVersions, mergeBlockTrees } from '@dnd-block-tree/core'
+import type { MergeBlockVersionsOptions, ThreeWayMergeOptions, ThreeWayMergeResult } from '@dnd-block-tree/core'
 
 export interface DeferredSyncOptions<T extends BaseBlock> {
   /** Called when remote data is applied (only when not busy) */
   onResolve?: (blocks: T[]) => void
   /** Options passed to mergeBlockVersions when using 'merge' strategy */
   mergeOptions?: MergeBlockVersionsOptions
+  /** Options passed to mergeBlockTrees when using 'three-way' strategy */
+  threeWayOptions?: ThreeWayMergeOptions
 }
 
 export interface DeferredSync<T extends BaseBlock> {
@@ -21,12 +23,19 @@ export interface DeferredSync<T extends BaseBlock> {
    * Returns the merged result if a queue existed, null otherwise.
    */
   exitBusy(localBlocks: T[], strategy: 'merge' | 'lww'): T[] | null
+  /**
+   * Exit busy state and merge queued remote changes with the local ones,
+   * using `base`, the blocks from before the action started, as the common
+   * base. Returns the merged blocks and any conflicts if a queue existed,
+   * null otherwise.
+   */
+  exitBusy(localBlocks: T[], strategy: 'three-way', base: T[]): ThreeWayMergeResult<T> | null
 }
 
 /**
  * Imperative deferred sync factory for vanilla JS.
  * Queues remote updates during blocking actions and resolves
- * on exit using merge or last-write-wins strategy.
+ * on exit using merge, three-way merge or last-write-wins strategy.
  *
  * @param options - Configuration including onResolve callback and merge options
  * @returns DeferredSync instance with busy/queue/flush methods
@@ -71,7 +80,7 @@ export function createDeferredSync<T extends BaseBlock>(
       busy = true
     },
 
-    exitBusy(localBlocks: T[], strategy: 'merge' | 'lww'): T[] | null {
+    exitBusy: ((localBlocks: T[], strategy: 'merge' | 'lww' | 'three-way', base?: T[]) => {
       busy = false
       const queued = queue
       queue = null
@@ -82,7 +91,11 @@ export function createDeferredSync<T extends BaseBlock>(
         return localBlocks
       }
 
+      if (strategy === 'three-way') {
+        return mergeBlockTrees(base!, localBlocks, queued, options?.threeWayOptions)
+      }
+
       return mergeBlockVersions(localBlocks, queued, options?.mergeOptions)
-    },
+    }) as DeferredSync<T>['exitBusy'],
   }
 }
@@ -1,58 +1,47 @@
-import type { BaseBlock, HistoryState, HistoryAction } from '@dnd-block-tree/core'
-import { historyReducer } from '@dnd-block-tree/core'
+import type { BaseBlock, CommandHistory, CommandHistoryOptions, HistoryRecordOptions } from '@dnd-block-tree/core'
+import { createBlockArrayHistory } from '@dnd-block-tree/core'
 
-export interface BlockHistoryOptions {
-  maxSteps?: number
-}
+export interface BlockHistoryOptions<T extends BaseBlock = BaseBlock> extends CommandHistoryOptions<T> {}
 
 export interface BlockHistory<T extends BaseBlock> {
-  push(blocks: T[]): void
+  /** Record new blocks as a step, e.g. with `{ label: 'Move 3 blocks into Sprint 12' }` */
+  push(blocks: T[], options?: HistoryRecordOptions): void
   undo(): T[] | null
   redo(): T[] | null
   canUndo(): boolean
   canRedo(): boolean
+  getUndoLabel(): string | null
+  getRedoLabel(): string | null
+  /** Record every push made while `fn` runs as one step */
+  group<R>(label: string, fn: () => R): R
   getPresent(): T[]
   clear(blocks: T[]): void
+  /** The underlying command history, for its steps and `change` event */
+  readonly history: CommandHistory<T>
 }
 
 /**
- * Imperative undo/redo history wrapping core's historyReducer.
+ * Imperative undo/redo history wrapping core's command history. Steps store
+ * the operations between states rather than snapshots.
  */
 export function createBlockHistory<T extends BaseBlock>(
   initialBlocks: T[],
-  options: BlockHistoryOptions = {}
+  options: BlockHistoryOptions<T> = {}
 ): BlockHistory<T> {
-  const { maxSteps = 50 } = options
-
-  let state: HistoryState<T> = {
-    past: [],
-    present: initialBlocks,
-    future: [],
-  }
+  const state = createBlockArrayHistory(initialBlocks, options)
+  const { history } = state
 
   return {
-    push(blocks: T[]) {
-      state = historyReducer(state, { type: 'SET', payload: blocks, maxSteps })
-    },
-
-    undo(): T[] | null {
-      if (state.past.length === 0) return null
-      state = historyReducer(state, { type: 'UNDO' })
-      return state.present
-    },
-
-    redo(): T[] | null {
-      if (state.future.length === 0) return null
-      state = historyReducer(state, { type: 'REDO' })
-      return state.present
-    },
-
-    canUndo: () => state.past.length > 0,
-    canRedo: () => state.future.length > 0,
-    getPresent: () => state.present,
-
-    clear(blocks: T[]) {
-      state = { past: [], present: blocks, future: [] }
-    },
+    push: (blocks, recordOptions) => state.set(blocks, recordOptions),
+    undo: () => state.undo(),
+    redo: () => state.redo(),
+    canUndo: () => history.canUndo(),
+    canRedo: () => history.canRedo(),
+    getUndoLabel: () => history.getUndoLabel(),
+    getRedoLabel: () => history.getRedoLabel(),
+    group: (label, fn) => history.group(label, fn),
+    getPresent: () => state.getBlocks(),
+    clear: (blocks) => state.reset(blocks),
+    history,
   }
 }
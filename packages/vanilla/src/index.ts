@@ -3,6 +3,7 @@ export type {
   BaseBlock,
   BlockIndex,
   BlockAction,
+  BlockPatch,
   BlockTreeConfig,
   BlockStateContextValue,
   DropZoneType,
@@ -13,9 +14,17 @@ export type {
   BlockMoveEvent,
   BlockAddEvent,
   BlockDeleteEvent,
+  BlockUpdateEvent,
   MoveOperation,
   ExpandChangeEvent,
   HoverChangeEvent,
+  OrderOverflowEvent,
+  BlockOperation,
+  InsertBlockOperation,
+  MoveBlockOperation,
+  DeleteBlockOperation,
+  UpdateBlockOperation,
+  ResetBlocksOperation,
   BlockTreeCallbacks,
   CanDragFn,
   CanDropFn,
@@ -31,28 +40,173 @@ export type {
   CollisionResult,
   CoreCollisionDetection,
   SnapshotRectsRef,
+  GetZoneLayout,
+  OffsetDepthOrigin,
+  OffsetDepthOptions,
+  OffsetDepthCollision,
+  CollisionFrame,
+  CollisionRecording,
+  CollisionRecorderOptions,
+  CollisionRecorderWrapOptions,
+  CollisionRecorderEvents,
+  CollisionRecorder,
   ExpandAction,
   HistoryState,
   HistoryAction,
+  HistoryStep,
+  CommandHistory,
+  CommandHistoryOptions,
+  CommandHistoryEvents,
+  HistoryRecordOptions,
+  BlockArrayHistory,
+  TimelineStep,
+  BlockTimelineSession,
+  BlockTimelineOptions,
+  BlockTimelineEvents,
+  BlockTimeline,
+  BlockTreeDiff,
+  BlockDiffAdd,
+  BlockDiffDelete,
+  BlockDiffMove,
+  BlockDiffChange,
+  DiffBlockTreesOptions,
+  TreeViewState,
+  TreeScrollPosition,
+  ViewStateStorage,
+  ViewStatePersistence,
+  ViewStatePersistenceOptions,
+  StorageLike,
+  WebStorageAdapterOptions,
+  IndexedDBAdapterOptions,
+  IDBFactoryLike,
+  BlockFilterQuery,
+  BlockFilterOptions,
+  BlockFilterResult,
+  TextMatchRange,
+  HighlightSegment,
   BlockTreeOptions,
   BlockTreeEvents,
   BlockTreeInstance,
+  BlockTreeBatch,
+  TreeDocument,
+  TreeDocumentOptions,
+  TreeDocumentEvents,
+  TreeDocumentUpdate,
+  CrdtBlockState,
+  CrdtMove,
+  CrdtRegister,
+  CrdtStamp,
+  SyncTransport,
+  SyncMessage,
+  TreeSync,
+  TreeSyncOptions,
+  TreeSyncEvents,
+  SyncBlockTreeOptions,
+  LoopbackNetwork,
+  LoopbackNetworkOptions,
+  MessageTarget,
+  PostMessageTransportOptions,
+  WebSocketLike,
+  Presence,
+  PresenceOptions,
+  PresenceEvents,
+  PresenceMessage,
+  PresenceUser,
+  PresenceDragState,
+  PresencePointer,
+  PeerPresence,
+  PresenceOverlay,
+  RemoteDragPreview,
+  RemoteCursor,
+  DragGroup,
+  DragGroupOptions,
+  DragGroupEvents,
+  DragGroupMember,
+  DragGroupDrag,
+  BlockTransfer,
+  BlockTransferEvent,
   TreeValidationResult,
   NestedBlock,
+  KeyboardMoveDirection,
+  KeyboardMoveOptions,
+  BlockTypeRules,
+  BlockSchema,
+  BlockLockKind,
+  BlockLock,
+  BlockLocks,
+  BlockPermissions,
+  BlockLockState,
+  BlockLayout,
+  BlockLayouts,
+  FractionalKeyOptions,
+  FractionalKeyStats,
+  FractionalRebalanceResult,
+  Announcements,
+  AnnouncementContext,
+  AnnouncementEvent,
+  BlockClipboardPayload,
+  PastePosition,
+  InsertBlocksOptions,
+  PasteBlocksOptions,
+  PasteBlocksResult,
   MergeBlockVersionsOptions,
+  ThreeWayMergeOptions,
+  ThreeWayMergeResult,
+  BlockMergeConflict,
+  BlockFieldConflict,
+  BlockMoveConflict,
+  BlockDeleteConflict,
+  BlockPlacement,
+  HeightCache,
+  VirtualLayout,
+  VirtualWindow,
+  ScrollAnchor,
+  VirtualContentOrigin,
+  VirtualZoneRectOptions,
+  AutoScrollOptions,
 } from '@dnd-block-tree/core'
 
 export {
   getDropZoneType,
   extractBlockId,
   weightedVerticalCollision,
+  horizontalCollision,
+  gridCollision,
   closestCenterCollision,
   createStickyCollision,
+  createOffsetDepthCollision,
+  scoreCollisionCandidates,
+  createCollisionRecorder,
+  replayCollisionRecording,
   EventEmitter,
   blockReducer,
   expandReducer,
   historyReducer,
+  createCommandHistory,
+  createBlockArrayHistory,
+  describeBlockOperations,
+  createBlockTimeline,
+  createViewStatePersistence,
+  createWebStorageAdapter,
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createIndexedDBAdapter,
+  createMemoryStorageAdapter,
   createBlockTree,
+  createTreeDocument,
+  bindTreeDocument,
+  generatePeerId,
+  connectTreeDocument,
+  syncBlockTree,
+  createLoopbackNetwork,
+  createBroadcastChannelTransport,
+  createPostMessageTransport,
+  createWebSocketTransport,
+  createPresence,
+  getPresenceOverlay,
+  getZonePosition,
+  createDragGroup,
+  canReceiveBlocks,
   cloneMap,
   cloneParentMap,
   computeNormalizedIndex,
@@ -61,20 +215,66 @@ export {
   getDescendantIds,
   deleteBlockAndDescendants,
   getBlockDepth,
+  getZoneDepth,
   getSubtreeDepth,
   reparentMultipleBlocks,
   validateBlockTree,
+  applyBlockPatch,
+  getBlockChanges,
   extractUUID,
   debounce,
   generateId,
   flatToNested,
   nestedToFlat,
+  BLOCK_CLIPBOARD_MIME,
+  copyBlockSubtrees,
+  pasteBlockSubtrees,
+  insertBlockSubtrees,
+  serializeBlockClipboard,
+  parseBlockClipboard,
+  writeSystemClipboard,
+  readSystemClipboard,
+  defaultAnnouncements,
+  resolveAnnouncements,
+  getAnnouncement,
+  isValidDropZone,
+  getKeyboardMoveZone,
+  getKeyboardDropZones,
+  getSchemaContainerTypes,
+  getZoneParentId,
+  checkBlockPlacement,
+  isZoneAllowed,
+  getSchemaViolations,
+  isLockedFor,
+  getBlockLocks,
+  getBlockPermissions,
+  isZoneUnlocked,
+  getBlockLockState,
+  getZoneLayout,
+  applyBlockOperations,
+  diffBlockTrees,
+  applyBlockDiff,
+  filterBlockTree,
+  findMatchRanges,
+  getHighlightSegments,
+  getFilteredIndex,
+  getFilteredExpandedMap,
+  mapFilteredZone,
   generateKeyBetween,
   generateNKeysBetween,
   generateInitialKeys,
   initFractionalOrder,
   compareFractionalKeys,
+  getFractionalKeyStats,
+  rebalanceFractionalOrder,
   mergeBlockVersions,
+  mergeBlockTrees,
+  createHeightCache,
+  getVirtualWindow,
+  getScrollAnchor,
+  resolveScrollAnchor,
+  getVirtualZoneRects,
+  getAutoScrollDelta,
 } from '@dnd-block-tree/core'
 
 // Vanilla-specific types
@@ -99,11 +299,18 @@ export { createBlockTreeController } from './controller'
 export type { BlockTreeController } from './controller'
 
 // Collision bridge
-export { measureDropZoneRects, buildCandidates, pointerToRect, detectCollision } from './collision-bridge'
+export {
+  measureDropZoneRects,
+  mergeZoneRects,
+  buildCandidates,
+  pointerToRect,
+  detectCollision,
+} from './collision-bridge'
 
 // Overlay
 export { DragOverlay } from './drag-overlay'
 export type { DragOverlayOptions } from './drag-overlay'
+export { LiveAnnouncer } from './live-announcer'
 
 // History
 export { createBlockHistory } from './history'
@@ -120,6 +327,7 @@ export type { LayoutAnimationOptions } from './layout-animation'
 // Virtual scroller
 export { VirtualScroller } from './virtual-scroller'
 export type { VirtualScrollerOptions, VirtualRange } from './virtual-scroller'
+export { AutoScroller } from './auto-scroller'
 
 // Sensors
 export { PointerSensor } from './sensors/pointer-sensor'
@@ -137,6 +345,7 @@ export { renderTree } from './renderer/tree-renderer'
 export type { TreeRendererOptions } from './renderer/tree-renderer'
 export { createDropZoneElement, setDropZoneActive } from './renderer/drop-zone'
 export { createGhostPreview } from './renderer/ghost-preview'
+export { createRemoteCursorElement } from './renderer/remote-cursor'
 
 // Utils
 export { createElement, setDataAttributes, closestWithData } from './utils/dom'
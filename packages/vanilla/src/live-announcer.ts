@@ -0,0 +1,48 @@
+/**
+ * Visually hidden live region that speaks drag and drop messages to screen
+ * readers. The element is appended to `document.body` on first use.
+ */
+export class LiveAnnouncer {
+  private region: HTMLElement | null = null
+  private politeness: 'polite' | 'assertive'
+
+  constructor(politeness: 'polite' | 'assertive' = 'assertive') {
+    this.politeness = politeness
+  }
+
+  announce(message: string): void {
+    const region = this.region ?? this.createRegion()
+    // Screen readers skip unchanged text, so alternate a trailing no-break space
+    region.textContent = region.textContent === message ? `${message}\u00a0` : message
+  }
+
+  destroy(): void {
+    if (this.region) {
+      this.region.remove()
+      this.region = null
+    }
+  }
+
+  private createRegion(): HTMLElement {
+    const region = document.createElement('div')
+    region.setAttribute('role', 'status')
+    region.setAttribute('aria-live', this.politeness)
+    region.setAttribute('aria-atomic', 'true')
+    region.setAttribute('data-dnd-live-region', 'true')
+    Object.assign(region.style, {
+      position: 'absolute',
+      width: '1px',
+      height: '1px',
+      margin: '-1px',
+      padding: '0',
+      border: '0',
+      overflow: 'hidden',
+      clip: 'rect(0 0 0 0)',
+      clipPath: 'inset(100%)',
+      whiteSpace: 'nowrap',
+    })
+    document.body.appendChild(region)
+    this.region = region
+    return region
+  }
+}
@@ -1,8 +1,10 @@
 import type { BaseBlock } from '@dnd-block-tree/core'
+import { getSchemaContainerTypes } from '@dnd-block-tree/core'
 import type { BlockTreeController } from '../controller'
 import type { DefaultRendererOptions, Unsubscribe, DragState } from '../types'
 import { renderTree, createBlockCache } from './tree-renderer'
 import { setDropZoneActive } from './drop-zone'
+import { createRemoteCursorElement } from './remote-cursor'
 
 export interface DefaultRenderer extends Unsubscribe {
   /** Force a re-render */
@@ -18,7 +20,8 @@ export function createDefaultRenderer<T extends BaseBlock>(
   options: DefaultRendererOptions<T>
 ): DefaultRenderer {
   const { container, containerTypes: explicitContainerTypes, renderBlock, dropZoneHeight, dropZoneClassName, dropZoneActiveClassName } = options
-  const containerTypes = explicitContainerTypes ?? (controller.getTree() as any).containerTypes ?? []
+  const schema = controller.getTree().getSchema()
+  const containerTypes = explicitContainerTypes ?? (controller.getTree() as any).containerTypes ?? (schema ? getSchemaContainerTypes(schema) : [])
   const activeClasses = dropZoneActiveClassName?.split(/\s+/).filter(Boolean) ?? []
 
   // Element cache: reuses leaf block DOM nodes across renders to prevent flicker
@@ -45,6 +48,15 @@ export function createDefaultRenderer<T extends BaseBlock>(
 
     container.appendChild(tree)
 
+    // Remote pointers are relative to the container's content
+    const presence = controller.getPresenceOverlay()
+    if (presence?.cursors.length) {
+      if (!container.style.position) container.style.position = 'relative'
+      for (const cursor of presence.cursors) {
+        container.appendChild(createRemoteCursorElement(cursor))
+      }
+    }
+
     // Clean up cache entries for blocks that no longer exist
     for (const id of blockCache.elements.keys()) {
       if (!blockCache.rendered.has(id)) {
@@ -66,9 +78,10 @@ export function createDefaultRenderer<T extends BaseBlock>(
       activeZoneEl = null
     }
 
-    // Apply new highlight
-    if (state.isDragging && state.hoverZone) {
-      const zoneEl = container.querySelector(`[data-zone-id="${state.hoverZone}"]`) as HTMLElement | null
+    // Apply new highlight, to the zone blocks dragged from another tree would land in too
+    const zoneId = state.isDragging ? state.hoverZone : state.incomingZone
+    if (zoneId) {
+      const zoneEl = container.querySelector(`[data-zone-id="${zoneId}"]`) as HTMLElement | null
       if (zoneEl) {
         setDropZoneActive(zoneEl, true)
         if (activeClasses.length) {
@@ -79,20 +92,29 @@ export function createDefaultRenderer<T extends BaseBlock>(
     }
   }
 
-  // Subscribe to render and drag state events
+  // Remote drags change locks, zone colors and ghosts, so re-render and restore the local highlight
+  function onPresenceChange(): void {
+    activeZoneEl = null
+    render(controller.getVisibleBlocks(), controller.getExpandedMap())
+    onDragStateChange(controller.getDragState())
+  }
+
+  // Subscribe to render, drag state and presence events
   const unsubRender = controller.on('render', render)
   const unsubDrag = controller.on('drag:statechange', onDragStateChange)
+  const unsubPresence = controller.on('presence:change', onPresenceChange)
 
   // Initial render
-  render(controller.getBlocks(), controller.getExpandedMap())
+  render(controller.getVisibleBlocks(), controller.getExpandedMap())
 
   const renderer: DefaultRenderer = () => {
     unsubRender()
     unsubDrag()
+    unsubPresence()
     blockCache.elements.clear()
   }
   renderer.refresh = () => {
-    render(controller.getBlocks(), controller.getExpandedMap())
+    render(controller.getVisibleBlocks(), controller.getExpandedMap())
   }
 
   return renderer
@@ -1,19 +1,28 @@
+import type { BlockLayout } from '@dnd-block-tree/core'
 import { createElement, setDataAttributes } from '../utils/dom'
 
 export interface DropZoneOptions {
   id: string
   height?: number
   className?: string
+  /** Layout of the list the zone sits in. Zones between horizontal and grid children are vertical bars */
+  layout?: BlockLayout
 }
 
 export function createDropZoneElement(options: DropZoneOptions): HTMLElement {
-  const { id, height = 4, className } = options
-  const el = createElement('div')
+  const { id, height = 4, className, layout = 'vertical' } = options
+  const el = createElement('div', { 'aria-hidden': 'true' })
   setDataAttributes(el, {
     'zone-id': id,
+    layout: layout !== 'vertical' && layout,
   })
   if (className) {
     el.className = className
+  } else if (layout !== 'vertical') {
+    el.style.width = `${height}px`
+    el.style.minWidth = `${height}px`
+    el.style.alignSelf = 'stretch'
+    el.style.transition = 'background-color 150ms ease'
   } else {
     el.style.height = `${height}px`
     el.style.minHeight = `${height}px`
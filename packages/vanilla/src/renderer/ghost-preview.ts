@@ -1,12 +1,25 @@
+import type { PeerPresence } from '@dnd-block-tree/core'
 import { setDataAttributes } from '../utils/dom'
 
-/** Create a semi-transparent in-flow preview of a block at its target position */
-export function createGhostPreview(sourceEl: HTMLElement): HTMLElement {
+/**
+ * Create a semi-transparent in-flow preview of a block at its target position.
+ * Pass the remote peer whose drag it shows to outline it in their color.
+ */
+export function createGhostPreview(sourceEl: HTMLElement, peer?: PeerPresence): HTMLElement {
   const ghost = sourceEl.cloneNode(true) as HTMLElement
   setDataAttributes(ghost, { 'dnd-ghost': 'true' })
+  ghost.setAttribute('aria-hidden', 'true')
   ghost.style.opacity = '0.3'
   ghost.style.pointerEvents = 'none'
   ghost.removeAttribute('data-draggable-id')
   ghost.removeAttribute('data-block-id')
+  ghost.removeAttribute('data-locked-by')
+  if (peer) {
+    setDataAttributes(ghost, { 'remote-peer-id': peer.peerId })
+    ghost.title = peer.user.name
+    ghost.style.opacity = '0.5'
+    ghost.style.outline = `2px dashed ${peer.user.color}`
+    ghost.style.outlineOffset = '2px'
+  }
   return ghost
 }
@@ -0,0 +1,19 @@
+import type { RemoteCursor } from '@dnd-block-tree/core'
+import { createElement, setDataAttributes } from '../utils/dom'
+
+/**
+ * A remote peer's pointer, labelled with their name. Positioned absolutely,
+ * so append it to the element the pointer coordinates are relative to.
+ */
+export function createRemoteCursorElement({ peer, pointer }: RemoteCursor): HTMLElement {
+  const dot = createElement('span')
+  dot.style.cssText = `width: 8px; height: 8px; border-radius: 50%; background-color: ${peer.user.color};`
+
+  const label = createElement('span', {}, [peer.user.name])
+  label.style.cssText = `padding: 1px 6px; border-radius: 4px; font-size: 11px; line-height: 16px; color: #fff; background-color: ${peer.user.color}; white-space: nowrap;`
+
+  const el = createElement('div', { 'aria-hidden': 'true' }, [dot, label])
+  setDataAttributes(el, { 'remote-cursor': peer.peerId })
+  el.style.cssText = `position: absolute; left: ${pointer.x}px; top: ${pointer.y}px; z-index: 10; pointer-events: none; display: flex; align-items: center; gap: 4px;`
+  return el
+}
@@ -1,9 +1,10 @@
-import type { BaseBlock } from '@dnd-block-tree/core'
+import type { BaseBlock, BlockLockState, RemoteDragPreview, TextMatchRange } from '@dnd-block-tree/core'
 import { getBlockDepth } from '@dnd-block-tree/core'
 import type { BlockTreeController } from '../controller'
 import type { RenderBlockContext } from '../types'
 import { createElement, setDataAttributes } from '../utils/dom'
 import { createDropZoneElement, setDropZoneActive } from './drop-zone'
+import { createGhostPreview } from './ghost-preview'
 
 export interface TreeRendererOptions<T extends BaseBlock> {
   renderBlock: (block: T, ctx: RenderBlockContext) => HTMLElement
@@ -27,9 +28,17 @@ export function createBlockCache(): BlockCache {
   return { elements: new Map(), rendered: new Set() }
 }
 
-function blockFingerprint(block: BaseBlock, isDragging: boolean, isSelected: boolean): string {
+function blockFingerprint(
+  block: BaseBlock,
+  isDragging: boolean,
+  isSelected: boolean,
+  lock: BlockLockState,
+  matchRanges: Record<string, TextMatchRange[]> | null
+): string {
   // Fast fingerprint: serialize only the fields that affect rendering
   return JSON.stringify(block) + (isDragging ? '|d' : '') + (isSelected ? '|s' : '')
+    + (lock.isLocked ? '|l' : '') + (lock.lockedBy !== undefined ? `|${lock.lockedBy}` : '')
+    + (matchRanges ? `|${JSON.stringify(matchRanges)}` : '')
 }
 
 /**
@@ -56,43 +65,82 @@ export function renderTree<T extends BaseBlock>(
     if (indentClassName) container.className = indentClassName
   }
 
+  // Horizontal and grid children sit in rows, with vertical zone bars between them
+  const layout = controller.getLayout(parentId)
+  if (layout !== 'vertical') {
+    setDataAttributes(container, { layout })
+    container.style.display = 'flex'
+    container.style.flexDirection = 'row'
+    container.style.alignItems = 'stretch'
+    if (layout === 'grid') container.style.flexWrap = 'wrap'
+  }
+
   const children = blocks.filter(b => b.parentId === parentId)
   const activeId = controller.getDragState().activeId
   const selectedIds = controller.getSelectedIds()
-  const index = controller.getTree().getBlockIndex()
+  const tree = controller.getTree()
+  const index = tree.getBlockIndex()
+  const presence = controller.getPresenceOverlay()
+  const filter = tree.getFilter()
+  // Remote previews count every sibling, including blocks being dragged here
+  const remotePreviews = presence?.previews.filter(preview => preview.parentId === parentId) ?? []
+
+  // Zones the schema rules out for the dragged blocks are not rendered
+  const appendZone = (id: string) => {
+    if (!tree.isZoneAllowed(id)) return
+    const zone = createDropZoneElement({ id, height: dropZoneHeight, className: dropZoneClassName, layout })
+    const remotePeers = presence?.zones.get(id)
+    if (remotePeers) {
+      setDataAttributes(zone, { 'remote-peer-ids': remotePeers.map(peer => peer.peerId).join(' ') })
+      zone.style.backgroundColor = remotePeers[0].user.color
+    }
+    controller.registerDropZone(id, zone)
+    container.appendChild(zone)
+  }
 
-  // Start zone for container
-  if (parentId !== null) {
-    const startZone = createDropZoneElement({ id: `into-${parentId}`, height: dropZoneHeight, className: dropZoneClassName })
-    controller.registerDropZone(`into-${parentId}`, startZone)
-    container.appendChild(startZone)
-  } else {
-    const rootStart = createDropZoneElement({ id: 'root-start', height: dropZoneHeight, className: dropZoneClassName })
-    controller.registerDropZone('root-start', rootStart)
-    container.appendChild(rootStart)
+  const appendRemoteGhost = (preview: RemoteDragPreview<T>) => {
+    const ctx: RenderBlockContext = {
+      children: null,
+      depth: depth + 1,
+      isExpanded: false,
+      isDragging: true,
+      isSelected: false,
+      isLocked: false,
+      lockedBy: undefined,
+      matchRanges: null,
+      onToggleExpand: null,
+    }
+    container.appendChild(createGhostPreview(renderBlock(preview.block, ctx), preview.peer))
   }
 
-  for (const block of children) {
+  // Start zone for container
+  appendZone(parentId !== null ? `into-${parentId}` : 'root-start')
+
+  for (const [position, block] of children.entries()) {
+    for (const preview of remotePreviews) {
+      if (preview.index === position) appendRemoteGhost(preview)
+    }
+
     // Skip actively dragged block (rendered in overlay)
     if (block.id === activeId) continue
 
     // Before zone
-    const beforeZone = createDropZoneElement({ id: `before-${block.id}`, height: dropZoneHeight, className: dropZoneClassName })
-    controller.registerDropZone(`before-${block.id}`, beforeZone)
-    container.appendChild(beforeZone)
+    appendZone(`before-${block.id}`)
 
     const isContainer = containerTypes.includes(block.type)
     const isExpanded = expandedMap[block.id] !== false
     const blockDepth = getBlockDepth(index, block.id)
     const isDragging = block.id === activeId
     const isSelected = selectedIds.has(block.id)
+    const lock = tree.getLockState(block.id)
+    const matchRanges = filter?.ranges.get(block.id) ?? null
 
     let blockEl: HTMLElement
 
     // For leaf blocks, reuse cached DOM elements when data hasn't changed.
     // This prevents CSS transition resets and visual flicker.
     if (!isContainer && blockCache) {
-      const fp = blockFingerprint(block, isDragging, isSelected)
+      const fp = blockFingerprint(block, isDragging, isSelected, lock, matchRanges)
       const cached = blockCache.elements.get(block.id)
 
       if (cached && cached.fingerprint === fp) {
@@ -106,6 +154,8 @@ export function renderTree<T extends BaseBlock>(
           isExpanded: false,
           isDragging,
           isSelected,
+          ...lock,
+          matchRanges,
           onToggleExpand: null,
         }
         blockEl = renderBlock(block, ctx)
@@ -125,26 +175,40 @@ export function renderTree<T extends BaseBlock>(
         isExpanded,
         isDragging,
         isSelected,
+        ...lock,
+        matchRanges,
         onToggleExpand: isContainer ? () => controller.toggleExpand(block.id) : null,
       }
       blockEl = renderBlock(block, ctx)
     }
 
     // Always update data attributes (selection can change without block data changing)
+    const lockedBy = presence?.locked.get(block.id)
     setDataAttributes(blockEl, {
       'block-id': block.id,
       'block-type': block.type,
       depth: String(blockDepth),
       dragging: isDragging,
       selected: isSelected,
+      'locked-by': lockedBy?.peerId ?? false,
+      locked: lock.isLocked,
+      // Blocks shown only as ancestors of matches are not marked
+      match: filter?.matchedIds.has(block.id) ?? false,
     })
+    // Blocks a remote peer is dragging are outlined in their color
+    blockEl.style.outline = lockedBy ? `2px solid ${lockedBy.user.color}` : ''
+    blockEl.style.outlineOffset = lockedBy ? '2px' : ''
 
     // Register as draggable
     controller.registerDraggable(block.id, blockEl)
 
     // ARIA attributes
     blockEl.setAttribute('role', 'treeitem')
-    blockEl.setAttribute('aria-level', String(blockDepth + 1))
+    // getBlockDepth is 1-based, like aria-level
+    blockEl.setAttribute('aria-level', String(blockDepth))
+    blockEl.setAttribute('aria-posinset', String(position + 1))
+    blockEl.setAttribute('aria-setsize', String(children.length))
+    blockEl.setAttribute('aria-selected', String(isSelected))
     if (isContainer) {
       blockEl.setAttribute('aria-expanded', String(isExpanded))
     }
@@ -153,16 +217,12 @@ export function renderTree<T extends BaseBlock>(
     container.appendChild(blockEl)
   }
 
-  // End zone
-  if (parentId !== null) {
-    const endZone = createDropZoneElement({ id: `end-${parentId}`, height: dropZoneHeight, className: dropZoneClassName })
-    controller.registerDropZone(`end-${parentId}`, endZone)
-    container.appendChild(endZone)
-  } else {
-    const rootEnd = createDropZoneElement({ id: 'root-end', height: dropZoneHeight, className: dropZoneClassName })
-    controller.registerDropZone('root-end', rootEnd)
-    container.appendChild(rootEnd)
+  for (const preview of remotePreviews) {
+    if (preview.index >= children.length) appendRemoteGhost(preview)
   }
 
+  // End zone
+  appendZone(parentId !== null ? `end-${parentId}` : 'root-end')
+
   return container
 }
@@ -1,3 +1,4 @@
+import type { KeyboardMoveDirection } from '@dnd-block-tree/core'
 import type { Sensor, SensorCallbacks } from './types'
 
 export interface KeyboardSensorCallbacks extends SensorCallbacks {
@@ -9,6 +10,33 @@ export interface KeyboardSensorCallbacks extends SensorCallbacks {
   onFocusLast(): void
   onToggleExpand(): void
   onSelect(): void
+  /**
+   * Alt+Arrow keys and Tab / Shift+Tab. Returns whether the block moved;
+   * Tab is only captured when it did, so focus can still leave the tree.
+   */
+  onMove?(direction: KeyboardMoveDirection): boolean
+  /** Space -- pick up or drop the focused block. Space toggles expansion when not provided. */
+  onGrab?(): void
+  /**
+   * Cmd/Ctrl+C. The clipboard callbacks return whether they acted; the key is
+   * only captured when they did, so the browser keeps it otherwise.
+   */
+  onCopy?(): boolean
+  /** Cmd/Ctrl+X */
+  onCut?(): boolean
+  /** Cmd/Ctrl+V */
+  onPaste?(): boolean
+  /** Cmd/Ctrl+D */
+  onDuplicate?(): boolean
+}
+
+/** Keys inside inputs and editable content keep their native clipboard behavior */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable
+    || target.tagName === 'INPUT'
+    || target.tagName === 'TEXTAREA'
+    || target.tagName === 'SELECT'
 }
 
 export class KeyboardSensor implements Sensor {
@@ -32,6 +60,10 @@ export class KeyboardSensor implements Sensor {
   }
 
   private onKeyDown(e: KeyboardEvent): void {
+    if ((e.metaKey || e.ctrlKey) && !e.altKey && !e.shiftKey && this.onShortcut(e)) return
+
+    if (this.callbacks.onMove && this.onMoveKey(e)) return
+
     switch (e.key) {
       case 'ArrowUp':
         e.preventDefault()
@@ -58,13 +90,73 @@ export class KeyboardSensor implements Sensor {
         this.callbacks.onFocusLast()
         break
       case 'Enter':
-      case ' ':
         e.preventDefault()
         this.callbacks.onToggleExpand()
         break
+      case ' ':
+        e.preventDefault()
+        if (this.callbacks.onGrab) {
+          this.callbacks.onGrab()
+        } else {
+          this.callbacks.onToggleExpand()
+        }
+        break
       case 'Escape':
         this.callbacks.onDragCancel()
         break
     }
   }
+
+  private onMoveKey(e: KeyboardEvent): boolean {
+    let direction: KeyboardMoveDirection | null = null
+    if (e.key === 'Tab' && !e.altKey && !isEditableTarget(e.target)) {
+      direction = e.shiftKey ? 'outdent' : 'indent'
+    } else if (e.altKey) {
+      switch (e.key) {
+        case 'ArrowUp':
+          direction = 'up'
+          break
+        case 'ArrowDown':
+          direction = 'down'
+          break
+        case 'ArrowRight':
+          direction = 'indent'
+          break
+        case 'ArrowLeft':
+          direction = 'outdent'
+          break
+      }
+    }
+    if (!direction) return false
+    if (e.key === 'Tab') {
+      if (!this.callbacks.onMove!(direction)) return false
+      e.preventDefault()
+      return true
+    }
+    e.preventDefault()
+    this.callbacks.onMove!(direction)
+    return true
+  }
+
+  private onShortcut(e: KeyboardEvent): boolean {
+    if (isEditableTarget(e.target)) return false
+    let handler: (() => boolean) | undefined
+    switch (e.key.toLowerCase()) {
+      case 'c':
+        handler = this.callbacks.onCopy
+        break
+      case 'x':
+        handler = this.callbacks.onCut
+        break
+      case 'v':
+        handler = this.callbacks.onPaste
+        break
+      case 'd':
+        handler = this.callbacks.onDuplicate
+        break
+    }
+    if (!handler?.call(this.callbacks)) return false
+    e.preventDefault()
+    return true
+  }
 }
@@ -18,6 +18,19 @@ import type {
   AnimationConfig,
   AutoExpandConfig,
   HistoryState,
+  Announcements,
+  AutoScrollOptions,
+  BlockSchema,
+  BlockLocks,
+  BlockLayouts,
+  CollisionRecorder,
+  DragGroup,
+  OffsetDepthOptions,
+  FractionalKeyOptions,
+  Presence,
+  PresenceOverlay,
+  ViewStatePersistence,
+  TextMatchRange,
 } from '@dnd-block-tree/core'
 
 // Vanilla TNode = HTMLElement
@@ -37,17 +50,77 @@ export type InternalRenderers<T extends BaseBlock = BaseBlock> = CoreInternalRen
 /** Controller configuration */
 export interface BlockTreeControllerOptions<T extends BaseBlock = BaseBlock> {
   initialBlocks?: T[]
+  /** Types that can have children. Defaults to the types with `allowedChildren` in `schema` */
   containerTypes?: readonly string[]
   orderingStrategy?: OrderingStrategy
+  /** Jitter and peer suffix for generated fractional keys, so concurrent inserts by different peers never collide */
+  fractionalKeys?: FractionalKeyOptions
+  /** Fractional key length that triggers the tree's `order:overflow` event */
+  maxKeyLength?: number
   maxDepth?: number
+  /** Nesting rules per block type. Drop zones that break them are not rendered while dragging */
+  schema?: BlockSchema
+  /**
+   * Pick the drop slot from the pointer's height and the nesting level from
+   * how far it moved sideways since the drag started, one level per
+   * `indentation` px (default: false)
+   */
+  offsetDepth?: boolean | OffsetDepthOptions
+  /**
+   * Locks by block id. Locked blocks cannot be dragged, and drop zones inside
+   * locked subtrees are not rendered. Change them later with the tree's `setLocks`
+   */
+  locks?: BlockLocks
+  /** The local user. `'locked'` locks held by this user do not restrict it */
+  userId?: string
+  /**
+   * Layouts by container type, e.g. `{ board: 'horizontal' }` for kanban
+   * columns or `{ gallery: 'grid' }` for wrapping cards. The default renderer
+   * lays those children out in rows with vertical drop zone bars between them
+   */
+  layouts?: BlockLayouts
+  /** Records every collision detector call while the recorder is recording */
+  collisionRecorder?: CollisionRecorder
+  /** Share drags with the other trees in the group, so blocks can be dropped between them */
+  dragGroup?: DragGroup<T>
+  /** Identifies the tree in its drag group's transfers (default: a generated id) */
+  treeId?: string
   previewDebounce?: number
   canDrag?: CanDragFn<T>
   canDrop?: CanDropFn<T>
   idGenerator?: IdGeneratorFn
   initialExpanded?: string[] | 'all' | 'none'
+  /**
+   * Restore the expansion, selection and scroll position of the mounted
+   * container saved for this tree, and save their changes (see `createViewStatePersistence`)
+   */
+  persistence?: ViewStatePersistence
   sensors?: VanillaSensorConfig
   onChange?: (blocks: T[]) => void
   callbacks?: Partial<BlockTreeCallbacks<T>>
+  /**
+   * Screen reader messages for drag start, hover target, drop and cancel,
+   * spoken through a visually hidden live region. Override any template, or
+   * pass `false` to turn the announcer off (default: built-in messages)
+   */
+  announcements?: Partial<Announcements<T>> | false
+  /**
+   * Scroll the mounted container while dragging near its top or bottom edge.
+   * Pass options to tune the edge zone and speed (default: false)
+   */
+  autoScroll?: AutoScrollOptions | boolean
+  /**
+   * Drop zone rects for rows a virtual scroller has not rendered, e.g.
+   * `() => scroller.getZoneRects(container, ids, range.visibleIds)`. Read at
+   * drag start and whenever the container scrolls during a drag
+   */
+  getVirtualZoneRects?: () => Map<string, Rect>
+  /**
+   * Share this tree's drags with other peers and show theirs: a ghost where
+   * each remote drag would drop, its block locked, the hovered zone in the
+   * peer's color and the peer's pointer (see `createPresence`)
+   */
+  presence?: Presence
 }
 
 /** Vanilla sensor configuration */
@@ -58,6 +131,12 @@ export interface VanillaSensorConfig extends SensorConfig {
   touch?: boolean
   /** Enable keyboard sensor (default: false) */
   keyboard?: boolean
+  /**
+   * Enable keyboard moves when the keyboard sensor is on: Alt+Up/Down to
+   * reorder, Tab/Shift+Tab or Alt+Right/Left to indent/outdent, and Space to
+   * pick up a block, walk drop zones with the arrow keys and drop (default: false)
+   */
+  keyboardMoves?: boolean
 }
 
 /** Drag state exposed to consumers */
@@ -65,6 +144,8 @@ export interface DragState {
   isDragging: boolean
   activeId: string | null
   hoverZone: string | null
+  /** Zone where blocks dragged from another tree of the drag group would land */
+  incomingZone: string | null
 }
 
 /** Controller event types */
@@ -72,6 +153,8 @@ export interface ControllerEvents<T extends BaseBlock = BaseBlock> {
   render: (blocks: T[], expandedMap: Record<string, boolean>) => void
   'drag:statechange': (state: DragState) => void
   'selection:change': (selectedIds: Set<string>) => void
+  /** A remote peer joined, left or changed its drag state */
+  'presence:change': (overlay: PresenceOverlay<T>) => void
 }
 
 /** Render context passed to renderBlock in DefaultRenderer */
@@ -81,6 +164,12 @@ export interface RenderBlockContext {
   isExpanded: boolean
   isDragging: boolean
   isSelected: boolean
+  /** Some lock keeps the local user from moving the block */
+  isLocked: boolean
+  /** User holding the nearest `'locked'` lock */
+  lockedBy: string | undefined
+  /** Where a text filter matched the block, by field, for highlighting; null when it did not match */
+  matchRanges: Record<string, TextMatchRange[]> | null
   onToggleExpand: (() => void) | null
 }
 
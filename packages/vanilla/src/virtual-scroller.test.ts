@@ -73,4 +73,74 @@ describe('VirtualScroller', () => {
     // visibleCount = ceil(250/50) + 10 = 15, end = min(100, 5+15) = 20
     expect(result.endIndex).toBe(20)
   })
+
+  describe('measured heights', () => {
+    it('uses the estimate for unmeasured items', () => {
+      const scroller = new VirtualScroller({ estimatedItemHeight: 50, overscan: 0 })
+      const result = scroller.calculate(100, 100, 10, ids(10))
+      expect(result.startIndex).toBe(2)
+      expect(result.endIndex).toBe(4)
+      expect(result.offsetY).toBe(100)
+      expect(result.totalHeight).toBe(500)
+    })
+
+    it('positions items by their measured heights', () => {
+      const scroller = new VirtualScroller({ estimatedItemHeight: 50, overscan: 0 })
+      expect(scroller.measure('b0', 250)).toBe(true)
+      expect(scroller.measure('b0', 250)).toBe(false)
+      const result = scroller.calculate(260, 40, 10, ids(10))
+      expect(result.visibleIds).toEqual(new Set(['b1']))
+      expect(result.offsetY).toBe(250)
+      expect(result.totalHeight).toBe(700)
+    })
+
+    it('observe measures the element by its data-block-id', () => {
+      const scroller = new VirtualScroller({ estimatedItemHeight: 50 })
+      const el = document.createElement('div')
+      el.setAttribute('data-block-id', 'b1')
+      el.getBoundingClientRect = () => ({ height: 90 } as DOMRect)
+      scroller.observe(el)
+      expect(scroller.calculate(0, 100, 3, ids(3)).totalHeight).toBe(190)
+      scroller.destroy()
+    })
+
+    it('restores the scroll anchor after items above it grow', () => {
+      const scroller = new VirtualScroller({ estimatedItemHeight: 40 })
+      const anchor = scroller.captureAnchor(130, ids(10))
+      expect(anchor).toEqual({ id: 'b3', delta: 10 })
+      scroller.measure('b1', 140)
+      expect(scroller.restoreAnchor(anchor!, ids(10))).toBe(230)
+    })
+
+    it('does not anchor with a fixed item height', () => {
+      const scroller = new VirtualScroller({ itemHeight: 40 })
+      expect(scroller.captureAnchor(130, ids(10))).toBeNull()
+    })
+  })
+
+  describe('zone rects', () => {
+    const scrolled = (scrollTop: number) => {
+      const container = document.createElement('div')
+      container.getBoundingClientRect = () => ({ top: 50, left: 0 } as DOMRect)
+      Object.defineProperty(container, 'clientWidth', { value: 300 })
+      Object.defineProperty(container, 'scrollTop', { value: scrollTop })
+      return container
+    }
+
+    it('synthesizes zones for rows outside the rendered range', () => {
+      const scroller = new VirtualScroller({ itemHeight: 40, overscan: 0 })
+      const range = scroller.calculate(0, 80, 10, ids(10))
+      const rects = scroller.getZoneRects(scrolled(0), ids(10), range.visibleIds)
+      expect(rects.has('before-b0')).toBe(false)
+      expect(rects.get('before-b9')).toMatchObject({ top: 50 + 9 * 40, width: 300 })
+      expect(rects.get('after-b9')!.top).toBe(50 + 400)
+    })
+
+    it('uses measured heights and the scroll position', () => {
+      const scroller = new VirtualScroller({ estimatedItemHeight: 40 })
+      scroller.measure('b0', 200)
+      const rects = scroller.getZoneRects(scrolled(100), ids(3), new Set())
+      expect(rects.get('before-b1')!.top).toBe(50 + 200 - 100)
+    })
+  })
 })
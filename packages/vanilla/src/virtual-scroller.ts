@@ -1,6 +1,20 @@
+import type { HeightCache, Rect, ScrollAnchor, VirtualLayout } from '@dnd-block-tree/core'
+import {
+  createHeightCache,
+  getVirtualWindow,
+  getScrollAnchor,
+  resolveScrollAnchor,
+  getVirtualZoneRects,
+} from '@dnd-block-tree/core'
+
 export interface VirtualScrollerOptions {
-  itemHeight: number
+  /** Fixed height of each item. Omit to measure items (variable heights) */
+  itemHeight?: number
+  /** Height assumed for items that have not been measured yet (default: 40) */
+  estimatedItemHeight?: number
   overscan?: number
+  /** Called when an observed item changes height; recalculate and re-render */
+  onMeasure?: () => void
 }
 
 export interface VirtualRange {
@@ -14,14 +28,28 @@ export interface VirtualRange {
 /**
  * Virtual scrolling for large trees.
  * Calculates visible range based on scroll position and viewport height.
+ *
+ * Without `itemHeight`, item heights are cached by block id. Feed them with
+ * `observe()` (ResizeObserver) or `measure()`, and wrap layout changes in
+ * `captureAnchor()` / `restoreAnchor()` to keep the viewport from jumping when
+ * content above it changes height.
+ *
+ * Rows outside the range have no drop zones in the DOM; `getZoneRects()`
+ * stands in for them during a drag (see the controller's `getVirtualZoneRects`).
  */
 export class VirtualScroller {
-  private itemHeight: number
+  private itemHeight: number | undefined
   private overscan: number
+  private heights: HeightCache
+  private onMeasure: (() => void) | undefined
+  private observer: ResizeObserver | null = null
+  private observed = new Map<Element, string>()
 
   constructor(options: VirtualScrollerOptions) {
     this.itemHeight = options.itemHeight
     this.overscan = options.overscan ?? 5
+    this.heights = createHeightCache(options.estimatedItemHeight)
+    this.onMeasure = options.onMeasure
   }
 
   /** Calculate the visible range for a given scroll state */
@@ -31,6 +59,19 @@ export class VirtualScroller {
     totalItems: number,
     blockIds: string[]
   ): VirtualRange {
+    if (this.itemHeight === undefined) {
+      const ids = blockIds.slice(0, totalItems)
+      const layout = this.heights.layout(ids)
+      const { startIndex, endIndex, offsetY } = getVirtualWindow(layout, scrollTop, viewportHeight, this.overscan)
+      return {
+        startIndex,
+        endIndex,
+        offsetY,
+        totalHeight: layout.totalHeight,
+        visibleIds: new Set(ids.slice(startIndex, endIndex)),
+      }
+    }
+
     const startIndex = Math.max(0, Math.floor(scrollTop / this.itemHeight) - this.overscan)
     const visibleCount = Math.ceil(viewportHeight / this.itemHeight) + 2 * this.overscan
     const endIndex = Math.min(totalItems, startIndex + visibleCount)
@@ -48,4 +89,84 @@ export class VirtualScroller {
       visibleIds,
     }
   }
+
+  /** Record an item's height. Returns false if it did not change. */
+  measure(id: string, height: number): boolean {
+    // Zero means hidden or not laid out yet; keep the estimate
+    return height > 0 && this.heights.set(id, height)
+  }
+
+  /**
+   * Measure an element now and whenever it resizes. The id defaults to the
+   * element's `data-block-id`.
+   */
+  observe(el: HTMLElement, id = el.getAttribute('data-block-id')): void {
+    if (!id) return
+    this.observed.set(el, id)
+    if (!this.observer && typeof ResizeObserver !== 'undefined') {
+      this.observer = new ResizeObserver((entries) => {
+        let changed = false
+        for (const entry of entries) {
+          const entryId = this.observed.get(entry.target)
+          const size = entry.borderBoxSize?.[0]
+          const height = size ? size.blockSize : entry.target.getBoundingClientRect().height
+          if (entryId && this.measure(entryId, height)) changed = true
+        }
+        if (changed) this.onMeasure?.()
+      })
+    }
+    this.observer?.observe(el)
+    this.measure(id, el.getBoundingClientRect().height)
+  }
+
+  unobserve(el: HTMLElement): void {
+    this.observer?.unobserve(el)
+    this.observed.delete(el)
+  }
+
+  /** Remember the item at the top of the viewport before the layout changes */
+  captureAnchor(scrollTop: number, blockIds: string[]): ScrollAnchor | null {
+    if (this.itemHeight !== undefined) return null
+    return getScrollAnchor(blockIds, this.heights.layout(blockIds), scrollTop)
+  }
+
+  /**
+   * Scroll position that keeps a captured anchor in place after the layout
+   * changed, or null if the anchored item is gone.
+   */
+  restoreAnchor(anchor: ScrollAnchor, blockIds: string[]): number | null {
+    return resolveScrollAnchor(blockIds, this.heights.layout(blockIds), anchor)
+  }
+
+  /**
+   * Drop zone rects, in client coordinates, for the rows of `blockIds` that
+   * are not in `rendered`. `container` is the scroll container the rows are
+   * laid out in.
+   */
+  getZoneRects(container: HTMLElement, blockIds: string[], rendered: ReadonlySet<string>): Map<string, Rect> {
+    const rect = container.getBoundingClientRect()
+    const origin = {
+      top: rect.top + container.clientTop - container.scrollTop,
+      left: rect.left + container.clientLeft,
+      width: container.clientWidth,
+    }
+    return getVirtualZoneRects(blockIds, this.layout(blockIds), origin, { skip: rendered })
+  }
+
+  private layout(blockIds: string[]): VirtualLayout {
+    if (this.itemHeight === undefined) return this.heights.layout(blockIds)
+    const height = this.itemHeight
+    return {
+      offsets: blockIds.map((_, i) => i * height),
+      heights: blockIds.map(() => height),
+      totalHeight: blockIds.length * height,
+    }
+  }
+
+  /** Stop observing all elements */
+  destroy(): void {
+    this.observer?.disconnect()
+    this.observer = null
+    this.observed.clear()
+  }
 }
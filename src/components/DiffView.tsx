@@ -1,5 +1,5 @@
 import { useMemo, useRef, useEffect } from 'react'
-import type { BaseBlock } from '@dnd-block-tree/react'
+import { diffBlockTrees, type BaseBlock } from '@dnd-block-tree/react'
 import { cn } from '@/lib/utils'
 
 interface DiffViewProps<T extends BaseBlock> {
@@ -19,19 +19,15 @@ function computeDiff<T extends BaseBlock>(
   prev: T[],
   next: T[]
 ): Map<string, ChangeType> {
-  const prevMap = new Map(prev.map(b => [b.id, b]))
+  const diff = diffBlockTrees(prev, next)
   const changeMap = new Map<string, ChangeType>()
 
-  for (const block of next) {
-    const prevBlock = prevMap.get(block.id)
-
-    if (!prevBlock) {
-      changeMap.set(block.id, 'added')
-    } else if (prevBlock.parentId !== block.parentId || prevBlock.order !== block.order) {
-      changeMap.set(block.id, 'moved')
-    } else {
-      changeMap.set(block.id, 'unchanged')
-    }
+  for (const { id } of diff.added) {
+    changeMap.set(id, 'added')
+  }
+  // Siblings that only shifted to make room are not marked
+  for (const { id } of [...diff.moved, ...diff.reordered]) {
+    changeMap.set(id, 'moved')
   }
 
   return changeMap
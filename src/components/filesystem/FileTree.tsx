@@ -275,6 +275,7 @@ export function FileTree() {
         events={devToolsEvents}
         onClearEvents={clearEvents}
         getLabel={getBlockLabel}
+        onTimeTravel={setBlocks}
         forceMount
       />
       <div className="flex flex-wrap items-center gap-2">
@@ -330,6 +330,7 @@ export function ProductivityTree() {
         events={devToolsEvents}
         onClearEvents={clearEvents}
         getLabel={getBlockLabel}
+        onTimeTravel={setBlocks}
         forceMount
       />
       <div className="flex flex-wrap items-center gap-2">
@@ -65,12 +65,14 @@ export function RealtimeDemo({ framework = 'react' }: RealtimeDemoProps) {
                 peerId="user-a"
                 label="User A"
                 accentColor="bg-blue-500"
+                presenceColor="#3b82f6"
                 onRemoteBusy={handleRemoteBusy}
               />
               <VanillaRealtimePane
                 peerId="user-b"
                 label="User B"
                 accentColor="bg-green-500"
+                presenceColor="#22c55e"
                 onRemoteBusy={handleRemoteBusy}
               />
             </>
@@ -80,12 +82,14 @@ export function RealtimeDemo({ framework = 'react' }: RealtimeDemoProps) {
                 peerId="user-a"
                 label="User A"
                 accentColor="bg-blue-500"
+                presenceColor="#3b82f6"
                 onRemoteBusy={handleRemoteBusy}
               />
               <RealtimePane
                 peerId="user-b"
                 label="User B"
                 accentColor="bg-green-500"
+                presenceColor="#22c55e"
                 onRemoteBusy={handleRemoteBusy}
               />
             </>
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useRef, useMemo, useState } from 'react'
-import { BlockTree, useBlockHistory, useDeferredSync, useLayoutAnimation } from '@dnd-block-tree/react'
+import { BlockTree, useBlockHistory, useDeferredSync, useLayoutAnimation, type Presence } from '@dnd-block-tree/react'
 import type { ProductivityBlock } from '../productivity/types'
 import { CONTAINER_TYPES } from '../productivity/types'
 import { GripVertical } from 'lucide-react'
@@ -26,12 +26,19 @@ interface RealtimePaneProps {
   peerId: string
   label: string
   accentColor: string
+  /** CSS color other panes show this pane's drags in */
+  presenceColor: string
   onRemoteBusy?: (peerId: string, reason: BusyReason | null) => void
 }
 
-export function RealtimePane({ peerId, label, accentColor, onRemoteBusy }: RealtimePaneProps) {
+export function RealtimePane({ peerId, label, accentColor, presenceColor, onRemoteBusy }: RealtimePaneProps) {
   const history = useBlockHistory<ProductivityBlock>(INITIAL_BLOCKS)
-  const { subscribe, publish } = useSyncChannel()
+  const { subscribe, publish, getPresence } = useSyncChannel()
+  // Taken in an effect so a remounted SyncChannelProvider hands out a live presence
+  const [presence, setPresence] = useState<Presence>()
+  useEffect(() => {
+    setPresence(getPresence(peerId, { name: label, color: presenceColor }))
+  }, [getPresence, peerId, label, presenceColor])
   const [editingBlockId, setEditingBlockId] = useState<string | null>(null)
 
   const sync = useDeferredSync<ProductivityBlock>({
@@ -193,6 +200,7 @@ export function RealtimePane({ peerId, label, accentColor, onRemoteBusy }: Realt
           animation={{ expandDuration: 200, easing: 'ease-out' }}
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
+          presence={presence}
         />
       </div>
     </div>
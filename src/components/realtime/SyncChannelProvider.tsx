@@ -1,9 +1,19 @@
 import {
   createContext,
   useContext,
+  useEffect,
   useRef,
+  useState,
   type ReactNode,
 } from 'react'
+import {
+  createLoopbackNetwork,
+  createPresence,
+  type Presence,
+  type PresenceMessage,
+  type PresenceUser,
+  type SyncTransport,
+} from '@dnd-block-tree/react'
 import type { ProductivityBlock } from '../productivity/types'
 
 export type BusyReason = 'editing' | 'dragging'
@@ -17,31 +27,59 @@ type SyncHandler = (msg: SyncMessage) => void
 interface SyncChannel {
   subscribe: (peerId: string, handler: SyncHandler) => () => void
   publish: (msg: SyncMessage) => void
+  /** Drag presence for a pane, on a loopback network of its own */
+  getPresence: (peerId: string, user: PresenceUser) => Presence
 }
 
 const SyncChannelContext = createContext<SyncChannel | null>(null)
 
 export function SyncChannelProvider({ children }: { children: ReactNode }) {
-  const subscribersRef = useRef<Map<string, SyncHandler>>(new Map())
+  // One loopback transport per pane; a message reaches every pane but its sender
+  const [network] = useState(() => createLoopbackNetwork<SyncMessage>())
+  const transportsRef = useRef<Map<string, SyncTransport<SyncMessage>>>(new Map())
+  const [presenceNetwork] = useState(() => createLoopbackNetwork<PresenceMessage>())
+  const presencesRef = useRef<Map<string, { presence: Presence; transport: SyncTransport<PresenceMessage> }>>(new Map())
+
+  const getTransport = (peerId: string) => {
+    let transport = transportsRef.current.get(peerId)
+    if (!transport) {
+      transport = network.connect()
+      transportsRef.current.set(peerId, transport)
+    }
+    return transport
+  }
 
-  const channelRef = useRef<SyncChannel>({
+  const [channel] = useState<SyncChannel>(() => ({
     subscribe(peerId, handler) {
-      subscribersRef.current.set(peerId, handler)
-      return () => {
-        subscribersRef.current.delete(peerId)
-      }
+      return getTransport(peerId).subscribe(handler)
     },
     publish(msg) {
-      subscribersRef.current.forEach((handler, peerId) => {
-        if (peerId !== msg.peerId) {
-          handler(msg)
-        }
-      })
+      getTransport(msg.peerId).send(msg)
     },
-  })
+    getPresence(peerId, user) {
+      let entry = presencesRef.current.get(peerId)
+      if (!entry) {
+        const transport = presenceNetwork.connect()
+        entry = { presence: createPresence(transport, { peerId, user }), transport }
+        presencesRef.current.set(peerId, entry)
+      }
+      return entry.presence
+    },
+  }))
+
+  // Stop the heartbeats and close every transport on unmount; panes ask again after a remount and get fresh ones
+  useEffect(() => () => {
+    for (const { presence, transport } of presencesRef.current.values()) {
+      presence.destroy()
+      transport.close()
+    }
+    presencesRef.current.clear()
+    for (const transport of transportsRef.current.values()) transport.close()
+    transportsRef.current.clear()
+  }, [])
 
   return (
-    <SyncChannelContext.Provider value={channelRef.current}>
+    <SyncChannelContext.Provider value={channel}>
       {children}
     </SyncChannelContext.Provider>
   )
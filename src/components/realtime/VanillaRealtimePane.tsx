@@ -123,16 +123,18 @@ interface VanillaRealtimePaneProps {
   peerId: string
   label: string
   accentColor: string
+  /** CSS color other panes show this pane's drags in */
+  presenceColor: string
   onRemoteBusy?: (peerId: string, reason: BusyReason | null) => void
 }
 
-export function VanillaRealtimePane({ peerId, label, accentColor, onRemoteBusy }: VanillaRealtimePaneProps) {
+export function VanillaRealtimePane({ peerId, label, accentColor, presenceColor, onRemoteBusy }: VanillaRealtimePaneProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const controllerRef = useRef<BlockTreeController<ProductivityBlock> | null>(null)
   const blocksRef = useRef<ProductivityBlock[]>(INITIAL_BLOCKS)
   const simulationRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
-  const { subscribe, publish } = useSyncChannel()
+  const { subscribe, publish, getPresence } = useSyncChannel()
 
   const publishRef = useRef(publish)
   publishRef.current = publish
@@ -169,6 +171,7 @@ export function VanillaRealtimePane({ peerId, label, accentColor, onRemoteBusy }
       containerTypes: [...CONTAINER_TYPES],
       orderingStrategy: 'fractional',
       initialExpanded: 'all',
+      presence: getPresence(peerId, { name: label, color: presenceColor }),
     })
 
     controller.setOverlayRenderer((block: ProductivityBlock) => {
@@ -368,7 +371,7 @@ export function VanillaRealtimePane({ peerId, label, accentColor, onRemoteBusy }
       controller.destroy()
       controllerRef.current = null
     }
-  }, [peerId, subscribe, startSimulation, stopSimulation])
+  }, [peerId, label, presenceColor, subscribe, getPresence, startSimulation, stopSimulation])
 
   // Cleanup simulation on unmount
   useEffect(() => stopSimulation, [stopSimulation])
@@ -1,7 +1,8 @@
 import {
   BookOpen, Package, Settings, Code2, Zap, Wrench, FileText, Layers,
   Undo2, Keyboard, CheckSquare, Shield, GitBranch, ArrowRightLeft,
-  Smartphone, Server, Play, List, Crosshair,
+  Smartphone, Server, Play, List, Crosshair, Network, Radio, Users,
+  Columns, Save, Search,
 } from 'lucide-react'
 
 export const ICON_MAP: Record<string, React.ReactNode> = {
@@ -24,4 +25,10 @@ export const ICON_MAP: Record<string, React.ReactNode> = {
   Play: <Play className="h-4 w-4" />,
   List: <List className="h-4 w-4" />,
   Crosshair: <Crosshair className="h-4 w-4" />,
+  Network: <Network className="h-4 w-4" />,
+  Radio: <Radio className="h-4 w-4" />,
+  Users: <Users className="h-4 w-4" />,
+  Columns: <Columns className="h-4 w-4" />,
+  Save: <Save className="h-4 w-4" />,
+  Search: <Search className="h-4 w-4" />,
 }
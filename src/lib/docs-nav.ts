@@ -57,6 +57,12 @@ export const DOC_NAV: DocNavGroup[] = [
       { id: 'multi-select', title: 'Multi-Select', icon: 'CheckSquare', href: '/docs/multi-select' },
       { id: 'constraints', title: 'Depth & Middleware', icon: 'Shield', href: '/docs/constraints' },
       { id: 'fractional-indexing', title: 'Fractional Indexing', icon: 'GitBranch', href: '/docs/fractional-indexing' },
+      { id: 'crdt', title: 'Replicated Documents', icon: 'Network', href: '/docs/crdt' },
+      { id: 'sync', title: 'Sync Transport', icon: 'Radio', href: '/docs/sync' },
+      { id: 'presence', title: 'Presence', icon: 'Users', href: '/docs/presence' },
+      { id: 'drag-groups', title: 'Drag Groups', icon: 'Columns', href: '/docs/drag-groups' },
+      { id: 'view-state', title: 'View State', icon: 'Save', href: '/docs/view-state' },
+      { id: 'filtering', title: 'Filtering', icon: 'Search', href: '/docs/filtering' },
       { id: 'serialization', title: 'Serialization', icon: 'ArrowRightLeft', href: '/docs/serialization' },
       { id: 'touch-mobile', title: 'Touch & Mobile', icon: 'Smartphone', href: '/docs/touch-mobile' },
       { id: 'ssr', title: 'SSR Compatibility', icon: 'Server', href: '/docs/ssr' },